@@ -11,16 +11,25 @@ import HomeScreen from './src/screens/HomeScreen';
 import AddAlarmScreen from './src/screens/AddAlarmScreen';
 import EditAlarmScreen from './src/screens/EditAlarmScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
+import HistoryScreen from './src/screens/HistoryScreen';
+import SoundPickerScreen from './src/screens/SoundPickerScreen';
 
 // Import components
 import AlarmModal, { AlarmModalData } from './src/components/AlarmModal';
 
 // Import services
 import { AlarmScheduler } from './src/services/AlarmScheduler';
+import { SnoozeManager } from './src/services/SnoozeManager';
+import { AlarmLifecycleLog } from './src/services/AlarmLifecycleLog';
+import { MissedAlarmService } from './src/services/MissedAlarmService';
+import { AnnouncementService } from './src/services/AnnouncementService';
 import { PermissionService } from './src/services/PermissionService';
 import StorageService from './src/services/StorageService';
 import modalManager, { AlarmModalState } from './src/services/AlarmModalManager';
 import { checkForActiveAlarms } from './src/utils/activeAlarmChecker';
+import { getVibrationChannelId, getVibrationTimings } from './src/utils/vibrationPatterns';
+import { resolvePuzzleType } from './src/puzzles';
+import { PuzzleType } from './src/types';
 
 // Import AlarmForegroundService at module level
 import { AlarmForegroundService } from './src/services/AlarmForegroundService';
@@ -268,37 +277,43 @@ const App: React.FC = () => {
         console.log(`🚨 [App] Alarm: ${activeAlarmInfo.alarm.label || 'Unnamed'}`);
         console.log(`🚨 [App] Time until end: ${Math.round(activeAlarmInfo.timeUntilEnd / 1000)} seconds`);
         
-        // Map puzzle type to modal-compatible type
-        const mapPuzzleType = (puzzleType: any): 'none' | 'math' => {
-          switch (puzzleType) {
-            case 'math':
-            case 'basic_math': // Legacy support
-              return 'math';
-            case 'none':
-              return 'none';
-            default:
-              return 'math'; // Default to math
-          }
-        };
-        
-        // Prepare modal data
+        const snoozeStatus = await SnoozeManager.getSnoozeStatus(activeAlarmInfo.alarm.id);
+        const ringingAlarm = (await SnoozeManager.getRingingAlarm(activeAlarmInfo.alarm.id)) ?? activeAlarmInfo.alarm;
+
+        // Prepare modal data from the alarm as it rang, so edits made while
+        // snoozed don't mix into this ring
         const modalData: AlarmModalData = {
           alarmId: activeAlarmInfo.alarm.id,
-          title: activeAlarmInfo.alarm.label || 'Alarm',
-          label: activeAlarmInfo.alarm.label,
-          originalTime: activeAlarmInfo.alarm.time,
-          endTime: activeAlarmInfo.alarm.endTime,
-          puzzleType: mapPuzzleType(activeAlarmInfo.alarm.puzzleType),
-          soundFile: activeAlarmInfo.alarm.soundFile || 'alarm_default',
-          vibrationEnabled: activeAlarmInfo.alarm.vibrationEnabled ?? true,
-          onDismiss: () => {
+          title: ringingAlarm.label || 'Alarm',
+          label: ringingAlarm.label,
+          originalTime: ringingAlarm.time,
+          endTime: ringingAlarm.endTime,
+          puzzleType: resolvePuzzleType(ringingAlarm.puzzleType ?? PuzzleType.NONE),
+          puzzleDifficulty: ringingAlarm.puzzleDifficulty,
+          shakeCount: ringingAlarm.shakeCount,
+          scanCodes: ringingAlarm.scanCodes,
+          soundFile: ringingAlarm.soundFile || 'alarm_default',
+          volumeRamp: ringingAlarm.volumeRamp,
+          soundSequence: ringingAlarm.soundSequence,
+          announcement: await AnnouncementService.getAnnouncementContent(ringingAlarm),
+          vibrationEnabled: ringingAlarm.vibrationEnabled ?? true,
+          vibrationPattern: ringingAlarm.vibrationPattern,
+          snoozesRemaining: snoozeStatus.remaining,
+          snoozeMinutes: snoozeStatus.nextIntervalMinutes,
+          onDismiss: (autoDismissed, solveTime) => {
             console.log(`✅ [App] Active alarm ${activeAlarmInfo.alarm.id} dismissed via modal`);
+            SnoozeManager.completeAlarm(activeAlarmInfo.alarm.id, {
+              puzzleCompleted: solveTime !== undefined,
+              autoDismissed,
+              solveTime,
+              triggeredAt: activeAlarmInfo.startedAt,
+            });
             modalManager.hideAlarmModal();
           },
           onSnooze: () => {
             console.log(`😴 [App] Active alarm ${activeAlarmInfo.alarm.id} snoozed via modal`);
+            handleSnooze(activeAlarmInfo.alarm.id);
             modalManager.hideAlarmModal();
-            // TODO: Implement snooze functionality if needed
           }
         };
         
@@ -319,6 +334,20 @@ const App: React.FC = () => {
     }
   };
 
+  const reportStorageRecoveries = async () => {
+    const recoveries = await StorageService.getStorageRecoveries();
+    if (recoveries.length === 0) {
+      return;
+    }
+
+    const keys = recoveries.map(recovery => recovery.key.replace('@altrise:', '').replace(/_/g, ' '));
+    Alert.alert(
+      'Some Saved Data Was Damaged',
+      `AltRise could not read your saved ${keys.join(', ')} and started them fresh. A copy of the damaged data was kept on this device.`,
+      [{ text: 'OK', onPress: () => StorageService.clearStorageRecoveries() }]
+    );
+  };
+
   const initializeAlarmSystemWithLifecycle = async () => {
     try {
       console.log('🚀 ===============================================');
@@ -326,6 +355,11 @@ const App: React.FC = () => {
       console.log('🚀 ===============================================');
       console.log('🚀 Initializing AltRise alarm system with lifecycle support...');
       console.log(`🚀 Platform: ${Platform.OS}`);
+
+      // Upgrade stored data before anything reads it
+      await StorageService.migrate();
+      await reportStorageRecoveries();
+      await StorageService.clearOldEvents();
       
       // Check device capabilities
       await checkDeviceCapabilities();
@@ -382,10 +416,10 @@ const App: React.FC = () => {
       
       // Set up alarm notification channel with maximum priority
       if (Platform.OS === 'android') {
-        await Notifications.setNotificationChannelAsync('alarm-channel', {
+        await Notifications.setNotificationChannelAsync(getVibrationChannelId(), {
           name: 'Active Alarms',
           importance: Notifications.AndroidImportance.MAX,
-          vibrationPattern: [0, 500, 200, 500],
+          vibrationPattern: getVibrationTimings(),
           lightColor: '#FF0000',
           sound: 'default',
           bypassDnd: true,
@@ -417,6 +451,15 @@ const App: React.FC = () => {
 
       // Initialize the alarm scheduler with enhanced lifecycle
       await AlarmScheduler.initialize();
+
+      // Close out snoozes that were never dismissed before the app was killed
+      await SnoozeManager.resolveStaleSnoozes();
+
+      // Record rings that passed while the app was killed or the device was off
+      await checkMissedNotifications();
+
+      // Keep repeating alarms scheduled ahead even if the app isn't opened for a while
+      await AlarmScheduler.registerTopUpTask();
       
       // Verify background app refresh settings (iOS)
       if (Platform.OS === 'ios') {
@@ -605,22 +648,14 @@ const App: React.FC = () => {
 
   const checkMissedNotifications = async () => {
     try {
-      console.log('🔍 Checking for notifications that may have been missed...');
+      console.log('🔍 Checking for alarms that may have been missed...');
       
-      // In a real implementation, you might check for delivered notifications
-      // that weren't handled while the app was backgrounded
-      const deliveredNotifications = await Notifications.getPresentedNotificationsAsync();
+      const missed = await MissedAlarmService.reconcile();
       
-      if (deliveredNotifications.length > 0) {
-        console.log(`🔔 Found ${deliveredNotifications.length} delivered notifications to handle`);
-        
-        // Process any delivered notifications
-        deliveredNotifications.forEach((notification, index) => {
-          console.log(`🔔 Processing delivered notification ${index + 1}: ${notification.request.identifier}`);
-          // You could process these if needed
-        });
+      if (missed.length > 0) {
+        console.log(`⏰ Found ${missed.length} missed alarm(s)`);
       } else {
-        console.log('✅ No missed notifications found');
+        console.log('✅ No missed alarms found');
       }
       
     } catch (error) {
@@ -708,16 +743,26 @@ const App: React.FC = () => {
       
       // Add after checking alarmId
       if (data?.alarmId && !data.isEndTime) {
+        await AlarmLifecycleLog.notificationDelivered(
+          data.alarmId,
+          notificationId,
+          new Date(notification.date),
+          typeof data.expectedTriggerTime === 'string' ? data.expectedTriggerTime : undefined
+        );
+
         try {
-          // Get alarm data for the service
-          const alarmData = await StorageService.getAlarmById(data.alarmId);
+          // Get alarm data for the service (snoozed rings use the snapshot taken when snoozing)
+          const alarmData = await SnoozeManager.getRingingAlarm(data.alarmId);
           
           // Ensure alarm is playing even if modal fails
           await AlarmForegroundService.startAlarmService({
             alarmId: data.alarmId,
             label: data.alarmLabel || 'Alarm',
             soundFile: alarmData?.soundFile || 'alarm_default',
+            volumeRamp: alarmData?.volumeRamp,
+            soundSequence: alarmData?.soundSequence,
             vibrationEnabled: alarmData?.vibrationEnabled ?? true,
+            vibrationPattern: alarmData?.vibrationPattern,
             puzzleType: alarmData?.puzzleType,
             endTime: alarmData?.endTime,
           });
@@ -756,8 +801,8 @@ Time: ${now.toLocaleTimeString()}`,
         console.log('🚨 MAIN ALARM IS RINGING - SHOWING MODAL!');
         console.log(`📱 Showing alarm modal for: ${data.alarmLabel || 'Unnamed Alarm'}`);
         
-        // Debounced alarm rescheduling to prevent spam
-        if (data.alarmId && typeof data.alarmId === 'string') {
+        // Debounced alarm rescheduling to prevent spam (snoozed rings are not occurrences)
+        if (data.alarmId && typeof data.alarmId === 'string' && !data.isSnooze) {
           const alarmId = data.alarmId as string;
           
           // Clear any existing reschedule timeout for this alarm
@@ -813,6 +858,14 @@ Time: ${now.toLocaleTimeString()}`,
       
       if (!data.isEndTime) {
         console.log('👆 User tapped MAIN ALARM notification - SHOWING MODAL!');
+
+        // Already logged if it arrived while the app was open
+        await AlarmLifecycleLog.notificationDelivered(
+          data.alarmId,
+          notificationId,
+          new Date(response.notification.date),
+          typeof data.expectedTriggerTime === 'string' ? data.expectedTriggerTime : undefined
+        );
         
         // Note: No need to reschedule here as it should already be handled by handleNotificationReceived
         // or we'd have duplicate rescheduling
@@ -836,28 +889,48 @@ Time: ${now.toLocaleTimeString()}`,
 
   // Function to show alarm modal using the modal manager
   const showAlarmModal = async (notificationData: any) => {
+    // When the notification was due to ring, so a dismissal is recorded against the ring
+    const triggeredAt: Date | undefined = notificationData.triggerTime ? new Date(notificationData.triggerTime) : undefined;
+
     try {
       console.log('🚨 [App] Preparing to show alarm modal...');
       
-      // Get alarm data from storage to get puzzle type and other details
-      const alarmData = await StorageService.getAlarmById(notificationData.alarmId);
+      // Get alarm data to get puzzle type and other details
+      const alarmData = await SnoozeManager.getRingingAlarm(notificationData.alarmId);
       
       if (!alarmData) {
         console.error('❌ [App] Alarm data not found for ID:', notificationData.alarmId);
         throw new Error('Alarm data not found');
       }
 
+      const snoozeStatus = await SnoozeManager.getSnoozeStatus(notificationData.alarmId);
+
       const modalData: AlarmModalData = {
         alarmId: notificationData.alarmId,
         title: notificationData.alarmLabel || alarmData.label || 'Alarm',
         label: alarmData.label,
         originalTime: notificationData.originalTime || alarmData.time,
         endTime: alarmData.endTime,
-        puzzleType: alarmData.puzzleType || 'none',
+        puzzleType: resolvePuzzleType(alarmData.puzzleType ?? PuzzleType.NONE),
+        puzzleDifficulty: alarmData.puzzleDifficulty,
+        shakeCount: alarmData.shakeCount,
+        scanCodes: alarmData.scanCodes,
         soundFile: alarmData.soundFile || 'alarm_default',
+        volumeRamp: alarmData.volumeRamp,
+        soundSequence: alarmData.soundSequence,
+        announcement: await AnnouncementService.getAnnouncementContent(alarmData),
         vibrationEnabled: alarmData.vibrationEnabled ?? true,
-        onDismiss: () => {
+        vibrationPattern: alarmData.vibrationPattern,
+        snoozesRemaining: snoozeStatus.remaining,
+        snoozeMinutes: snoozeStatus.nextIntervalMinutes,
+        onDismiss: (autoDismissed, solveTime) => {
           console.log(`✅ [App] Alarm ${notificationData.alarmId} dismissed via modal`);
+          SnoozeManager.completeAlarm(notificationData.alarmId, {
+            puzzleCompleted: solveTime !== undefined,
+            autoDismissed,
+            solveTime,
+            triggeredAt,
+          });
           modalManager.hideAlarmModal();
         },
         onSnooze: () => {
@@ -892,10 +965,11 @@ Time: ${now.toLocaleTimeString()}`,
             style: 'cancel',
             onPress: () => {
               console.log(`✅ ALARM ${notificationData.alarmId} DISMISSED via fallback at ${new Date().toLocaleTimeString()}`);
+              SnoozeManager.completeAlarm(notificationData.alarmId, { puzzleCompleted: false, triggeredAt });
             }
           },
           { 
-            text: 'Snooze (5 min)', 
+            text: 'Snooze', 
             onPress: () => {
               console.log(`😴 ALARM ${notificationData.alarmId} SNOOZED via fallback at ${new Date().toLocaleTimeString()}`);
               handleSnooze(notificationData.alarmId);
@@ -904,55 +978,39 @@ Time: ${now.toLocaleTimeString()}`,
         ]
       );
     }
-  };  const handleSnooze = async (alarmId: string) => {
+  };
+
+  const handleSnooze = async (alarmId: string) => {
     try {
-      const now = new Date();
-      const snoozeTime = new Date();
-      snoozeTime.setMinutes(snoozeTime.getMinutes() + 5);
-      
       console.log(`😴 ===============================================`);
       console.log(`😴 SNOOZING ALARM ${alarmId}`);
       console.log(`😴 ===============================================`);
-      console.log(`😴 Snooze requested at: ${now.toLocaleString()}`);
-      console.log(`😴 Will ring again at: ${snoozeTime.toLocaleString()}`);
-      console.log(`😴 Snooze duration: 5 minutes`);
-      
-      // Schedule a snooze notification 5 minutes from now
-      const snoozeNotificationId = await Notifications.scheduleNotificationAsync({
-        content: {
-          title: '⏰ Snooze Alarm',
-          body: 'Your snoozed alarm is ringing again!',
-          sound: 'default',
-          priority: Notifications.AndroidNotificationPriority.MAX,
-          data: {
-            alarmId,
-            isSnooze: true,
-            alarmLabel: 'Snoozed Alarm',
-            originalSnoozeTime: now.toISOString(),
-            snoozeEndTime: snoozeTime.toISOString(),
-          },
-        },
-        trigger: {
-          type: 'date' as any,
-          date: snoozeTime,
-        },
-      });
-      
-      console.log(`✅ SNOOZE SCHEDULED SUCCESSFULLY!`);
-      console.log(`   Snooze notification ID: ${snoozeNotificationId}`);
-      console.log(`   Will trigger at: ${snoozeTime.toLocaleString()}`);
-      
-      Alert.alert(
-        'Alarm Snoozed',
-        `Alarm will ring again at ${snoozeTime.toLocaleTimeString()}\\n\\nSnoozed for 5 minutes`,
-        [{ 
-          text: 'OK',
-          onPress: () => {
-            console.log(`😴 User acknowledged snooze for alarm ${alarmId}`);
-          }
-        }]
-      );
-      
+
+      const result = await SnoozeManager.snooze(alarmId);
+
+      if (result.snoozed && result.snoozeUntil) {
+        console.log(`✅ SNOOZE SCHEDULED SUCCESSFULLY!`);
+        console.log(`   Will trigger at: ${result.snoozeUntil.toLocaleString()}`);
+        console.log(`   Snoozes remaining: ${result.remaining}`);
+
+        Alert.alert(
+          'Alarm Snoozed',
+          `Alarm will ring again at ${result.snoozeUntil.toLocaleTimeString()}\n\nSnoozed for ${result.intervalMinutes} minutes (${result.remaining} snooze${result.remaining === 1 ? '' : 's'} left)`,
+          [{ 
+            text: 'OK',
+            onPress: () => {
+              console.log(`😴 User acknowledged snooze for alarm ${alarmId}`);
+            }
+          }]
+        );
+      } else if (result.reason === 'limit_reached') {
+        Alert.alert('No Snoozes Left', 'You have used all your snoozes for this alarm.');
+      } else if (result.reason === 'disabled') {
+        Alert.alert('Snooze Disabled', 'Snooze is turned off for this alarm.');
+      } else {
+        Alert.alert('Snooze Error', 'Failed to snooze alarm. Please try again.');
+      }
+
       console.log(`😴 ===============================================`);
       
     } catch (error) {
@@ -996,6 +1054,16 @@ Time: ${now.toLocaleTimeString()}`,
             component={SettingsScreen} 
             options={{ title: 'Settings' }}
           />
+          <Stack.Screen 
+            name="History" 
+            component={HistoryScreen} 
+            options={{ title: 'History' }}
+          />
+          <Stack.Screen 
+            name="SoundPicker" 
+            component={SoundPickerScreen} 
+            options={{ title: 'Alarm Sound' }}
+          />
         </Stack.Navigator>
       </NavigationContainer>
       
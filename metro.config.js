@@ -0,0 +1,9 @@
+// Learn more https://docs.expo.io/guides/customizing-metro
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Bundled holiday calendars are read at runtime as assets
+config.resolver.assetExts.push('ics');
+
+module.exports = config;
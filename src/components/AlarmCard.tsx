@@ -6,8 +6,11 @@ import {
   TouchableOpacity, 
   Switch 
 } from 'react-native';
-import { Alarm } from '../types';
-import { formatTimeForCard, getRepeatDaysText } from '../utils/timeUtils';
+import { Alarm, SkipRange, SkipReason } from '../types';
+import { formatTimeForCard, getAlarmScheduleText, formatCalendarDate } from '../utils/timeUtils';
+import { describeRecurrence, isRepeatingAlarm } from '../utils/recurrence';
+import { describeSkip } from '../utils/skipDates';
+import { createScheduleContext, formatZonedTime, getNextRing, getTimeZoneCity } from '../scheduling';
 
 interface AlarmCardProps {
   alarm: Alarm;
@@ -15,6 +18,9 @@ interface AlarmCardProps {
   onEdit: (alarm: Alarm) => void;
   onDelete: (id: string) => void;
   use24HourFormat?: boolean;
+  skipRanges?: SkipRange[]; // Vacations and holidays, to show when the next ring is skipped
+  onSkipNext?: (id: string) => void;
+  onUnskip?: (id: string, date: string) => void;
 }
 
 const AlarmCard: React.FC<AlarmCardProps> = ({ 
@@ -22,8 +28,19 @@ const AlarmCard: React.FC<AlarmCardProps> = ({
   onToggleEnabled, 
   onEdit, 
   onDelete,
-  use24HourFormat = false 
+  use24HourFormat = false,
+  skipRanges = [],
+  onSkipNext,
+  onUnskip,
 }) => {
+  const context = createScheduleContext({ skipRanges });
+  const canSkip = alarm.isEnabled && isRepeatingAlarm(alarm);
+  const nextRing = getNextRing(alarm, context);
+  // The soonest ring being skipped ahead of the next one that will happen
+  const nextSkip = canSkip ? nextRing.skipped[0] : undefined;
+  // Alarms fixed to another zone also show when they ring on this device's clock
+  const isOtherZone = !!alarm.timeZone && alarm.timeZone !== context.timeZone;
+
   const handleToggle = (value: boolean) => {
     onToggleEnabled(alarm.id, value);
   };
@@ -57,8 +74,31 @@ const AlarmCard: React.FC<AlarmCardProps> = ({
         )}
         
         <Text style={[styles.repeatDays, !alarm.isEnabled && styles.disabledText]}>
-          {getRepeatDaysText(alarm.repeatDays)}
+          {alarm.recurrence
+            ? describeRecurrence(alarm.recurrence)
+            : getAlarmScheduleText(alarm.repeatDays, alarm.date)}
         </Text>
+
+        {isOtherZone && (
+          <Text style={[styles.timeZoneText, !alarm.isEnabled && styles.disabledText]}>
+            🌐 {getTimeZoneCity(alarm.timeZone!)} time
+            {nextRing.next
+              ? ` · ${formatTimeForCard(formatZonedTime(nextRing.next.start, context.timeZone), use24HourFormat)} here`
+              : ''}
+          </Text>
+        )}
+
+        {nextSkip && (
+          <Text
+            style={styles.skipText}
+            onPress={nextSkip.reason === SkipReason.SKIP_NEXT && onUnskip
+              ? () => onUnskip(alarm.id, formatCalendarDate(nextSkip.date))
+              : undefined}
+          >
+            ⏭️ {describeSkip(nextSkip)}
+            {nextSkip.reason === SkipReason.SKIP_NEXT && onUnskip ? ' · Undo' : ''}
+          </Text>
+        )}
       </View>
 
       <View style={styles.rightSection}>
@@ -70,6 +110,15 @@ const AlarmCard: React.FC<AlarmCardProps> = ({
         />
         
         <View style={styles.buttonContainer}>
+          {canSkip && onSkipNext && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => onSkipNext(alarm.id)}
+            >
+              <Text style={styles.buttonText}>Skip</Text>
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity 
             style={styles.actionButton} 
             onPress={handleEdit}
@@ -141,6 +190,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#64748b',
   },
+  skipText: {
+    fontSize: 13,
+    color: '#d97706',
+    marginTop: 4,
+  },
+  timeZoneText: {
+    fontSize: 13,
+    color: '#6366f1',
+    marginTop: 4,
+  },
   disabledText: {
     color: '#94a3b8',
   },
@@ -5,9 +5,7 @@ import {
   StyleSheet,
   TouchableOpacity,
   Modal,
-  TextInput,
   Alert,
-  Vibration,
   BackHandler,
   AppState,
   AppStateStatus,
@@ -16,7 +14,18 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { audioService, AudioConfig } from '../services/AudioService';
 import { AlarmForegroundService } from '../services/AlarmForegroundService';
+import { AlarmLifecycleLog } from '../services/AlarmLifecycleLog';
 import * as Notifications from 'expo-notifications';
+import PuzzleView from './PuzzleView';
+import {
+  PuzzleSession,
+  startPuzzleSession,
+  resolvePuzzleType,
+  resolvePuzzleDifficulty,
+} from '../puzzles';
+import { PuzzleType, PuzzleDifficulty, ScanCode, SoundStage, VibrationPattern, VolumeRamp } from '../types';
+import { createScheduleContext, getEndTime } from '../scheduling';
+import { AnnouncementContent } from '../utils/announcement';
 
 export interface AlarmModalData {
   alarmId: string;
@@ -24,28 +33,31 @@ export interface AlarmModalData {
   label?: string;
   originalTime: string;
   endTime: string; // Required end time for alarms
-  puzzleType: 'none' | 'math'; // Only math puzzles supported
+  puzzleType: PuzzleType;
+  puzzleDifficulty?: PuzzleDifficulty;
+  shakeCount?: number;
+  scanCodes?: ScanCode[];
   soundFile: string; // Sound file identifier for alarm
+  volumeRamp?: VolumeRamp; // Crescendo instead of a fixed volume
+  soundSequence?: SoundStage[]; // Timed stages instead of a single sound
+  announcement?: AnnouncementContent; // Spoken wake-up announcement
   vibrationEnabled: boolean; // Whether vibration is enabled
-  onDismiss: () => void;
+  vibrationPattern?: VibrationPattern;
+  snoozesRemaining?: number; // Snooze button is hidden when 0
+  snoozeMinutes?: number; // Length of the next snooze
+  // autoDismissed: ended by endTime, not by the user; solveTime: seconds from showing to
+  // solving the puzzle, only set when one was solved
+  onDismiss: (autoDismissed?: boolean, solveTime?: number) => void;
   onSnooze: () => void;
 }
 
-interface PuzzleData {
-  question: string;
-  answer: string;
-  options?: string[];
-}
-
 export const AlarmModal: React.FC<{
   visible: boolean;
   data: AlarmModalData | null;
   onClose: () => void;
 }> = ({ visible, data, onClose }) => {
   const [isVisible, setIsVisible] = useState(false);
-  const [currentPuzzle, setCurrentPuzzle] = useState<PuzzleData | null>(null);
-  const [userAnswer, setUserAnswer] = useState('');
-  const [attempts, setAttempts] = useState(0);
+  const [puzzleSession, setPuzzleSession] = useState<PuzzleSession | null>(null);
   const [showPuzzle, setShowPuzzle] = useState(false);
   const [modalError, setModalError] = useState<string | null>(null);
   const [startTime, setStartTime] = useState<Date | null>(null);
@@ -175,12 +187,10 @@ export const AlarmModal: React.FC<{
         isActive: true,
         alarmId: modalData.alarmId,
         startTime: currentTime,
-        puzzleStarted: modalData.puzzleType !== 'none',
+        puzzleStarted: modalData.puzzleType !== PuzzleType.NONE,
       };
 
       // Reset state for new alarm
-      setUserAnswer('');
-      setAttempts(0);
       setModalError(null);
       fallbackSent.current = false; // Reset fallback flag for new alarm
       
@@ -190,7 +200,11 @@ export const AlarmModal: React.FC<{
         soundFile: modalData.soundFile || 'alarm_default',
         volume: 0.8, // High volume for alarm
         shouldLoop: true, // Loop until dismissed
-        enableVibration: modalData.vibrationEnabled
+        enableVibration: modalData.vibrationEnabled,
+        vibrationPattern: modalData.vibrationPattern,
+        volumeRamp: modalData.volumeRamp,
+        soundSequence: modalData.soundSequence,
+        announcement: modalData.announcement,
       };
       
       const audioStarted = await audioService.startAlarmSound(audioConfig);
@@ -201,31 +215,32 @@ export const AlarmModal: React.FC<{
       }
       
       // Generate puzzle if needed - only once per alarm session
-      if (modalData.puzzleType !== 'none' && !puzzleGenerated) {
+      if (modalData.puzzleType !== PuzzleType.NONE && !puzzleGenerated) {
         console.log(`🧩 [AlarmModal] About to generate puzzle for type: "${modalData.puzzleType}"`);
-        const puzzle = generatePuzzle(modalData.puzzleType);
-        setCurrentPuzzle(puzzle);
+        const session = startPuzzleSession(
+          resolvePuzzleType(modalData.puzzleType),
+          resolvePuzzleDifficulty(modalData.puzzleDifficulty),
+          { shakeCount: modalData.shakeCount, scanCodes: modalData.scanCodes }
+        );
+        setPuzzleSession(session);
         setShowPuzzle(true);
         setPuzzleGenerated(true); // Mark puzzle as generated
-        console.log(`🧩 Generated puzzle: ${puzzle.question} = ${puzzle.answer}`);
-        console.log(`🧩 Show puzzle state: ${true}, Current puzzle:`, puzzle);
-      } else if (modalData.puzzleType !== 'none' && puzzleGenerated) {
+        console.log(`🧩 Generated puzzle: ${session?.puzzle.prompt} (${session?.difficulty}, ${session?.requiredCorrect} in a row)`);
+      } else if (modalData.puzzleType !== PuzzleType.NONE && puzzleGenerated) {
         console.log(`🧩 [AlarmModal] Puzzle already generated, keeping existing puzzle`);
         setShowPuzzle(true);
       } else {
         console.log(`🧩 [AlarmModal] No puzzle required (type: "${modalData.puzzleType}")`);
         setShowPuzzle(false);
-        setCurrentPuzzle(null);
+        setPuzzleSession(null);
         setPuzzleGenerated(false);
       }
 
       // Set up auto-dismiss timer for end time
-      const endTime = new Date();
-      const [hours, minutes] = modalData.endTime.split(':');
-      endTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+      const endTime = getEndTime(modalData, currentTime, createScheduleContext());
       
-      const timeUntilEnd = endTime.getTime() - currentTime.getTime();
-      if (timeUntilEnd > 0) {
+      const timeUntilEnd = endTime ? endTime.getTime() - currentTime.getTime() : 0;
+      if (endTime && timeUntilEnd > 0) {
         console.log(`⏰ Auto-dismiss scheduled for: ${endTime.toLocaleString()}`);
         const timer = setTimeout(() => {
           console.log(`⏰ Auto-dismissing alarm at end time: ${endTime.toLocaleString()}`);
@@ -238,9 +253,8 @@ export const AlarmModal: React.FC<{
 
       // Show modal with retry mechanism
       await showModalWithRetry();
-      
-      // Start vibration pattern
-      startAlarmVibration();
+
+      await AlarmLifecycleLog.modalShown(modalData.alarmId, currentTime);
       
       console.log(`✅ Alarm modal displayed successfully (attempt ${displayAttempts.current})`);
       
@@ -321,9 +335,7 @@ export const AlarmModal: React.FC<{
     
     setIsVisible(false);
     setShowPuzzle(false);
-    setCurrentPuzzle(null);
-    setUserAnswer('');
-    setAttempts(0);
+    setPuzzleSession(null);
     setModalError(null);
     setStartTime(null);
     setPuzzleGenerated(false); // Reset puzzle generation flag
@@ -334,9 +346,6 @@ export const AlarmModal: React.FC<{
       setEndTimeTimer(null);
     }
     
-    // Stop vibration
-    Vibration.cancel();
-    
     // Reset persistent state
     modalStateRef.current = {
       isActive: false,
@@ -348,91 +357,16 @@ export const AlarmModal: React.FC<{
     console.log('✅ [AlarmModal] Modal hidden and state cleared');
   };
 
-  const startAlarmVibration = () => {
-    try {
-      // Continuous vibration pattern for alarm
-      const pattern = [0, 1000, 500, 1000, 500]; // 1s on, 0.5s off, repeat
-      Vibration.vibrate(pattern, true); // Repeat indefinitely
-      console.log('📳 [AlarmModal] Alarm vibration started');
-    } catch (error) {
-      console.error('❌ [AlarmModal] Failed to start vibration:', error);
-    }
-  };
-
-  const generatePuzzle = (type: string): PuzzleData => {
-    console.log(`🧩 [AlarmModal] Generating puzzle of type: ${type}`);
-    
-    if (type === 'math') {
-      return generateMathPuzzle();
-    } else if (type === 'none') {
-      return { question: 'No puzzle required', answer: '' };
-    } else {
-      // Default to math for any unrecognized type
-      console.log(`🧩 [AlarmModal] Unknown puzzle type '${type}', defaulting to math`);
-      return generateMathPuzzle();
-    }
-  };
-
-  const generateMathPuzzle = (): PuzzleData => {
-    // Generate simple arithmetic problems with answers between 1-100
-    const operations = ['+', '-', '*'];
-    const operation = operations[Math.floor(Math.random() * operations.length)];
-    
-    let a: number, b: number, answer: number;
-    
-    switch (operation) {
-      case '+':
-        // Addition: ensure sum is between 1-100
-        a = Math.floor(Math.random() * 40) + 1;  // 1-40
-        b = Math.floor(Math.random() * (100 - a)) + 1;  // 1 to (100-a)
-        answer = a + b;
-        break;
-      case '-':
-        // Subtraction: ensure positive result between 1-100
-        answer = Math.floor(Math.random() * 100) + 1;  // 1-100
-        b = Math.floor(Math.random() * answer) + 1;     // 1 to answer
-        a = answer + b;
-        break;
-      case '*':
-        // Multiplication: small numbers to keep result under 100
-        a = Math.floor(Math.random() * 10) + 1;  // 1-10
-        b = Math.floor(Math.random() * Math.floor(100/a)) + 1;  // 1 to floor(100/a)
-        answer = a * b;
-        break;
-      default:
-        a = 2; b = 3; answer = 5;
-    }
-    
-    const question = `${a} ${operation} ${b} = ?`;
-    console.log(`🔢 Math puzzle: ${question} (answer: ${answer})`);
-    
-    return {
-      question,
-      answer: answer.toString(),
-    };
-  };
-
-  const handleAnswerSubmit = () => {
-    if (!currentPuzzle) return;
-    
-    const isCorrect = userAnswer.trim() === currentPuzzle.answer;
-    const newAttempts = attempts + 1;
-    setAttempts(newAttempts);
-    
-    console.log(`🧩 [AlarmModal] Puzzle attempt ${newAttempts}: "${userAnswer}" ${isCorrect ? '✅ CORRECT' : '❌ INCORRECT'}`);
-    
-    if (isCorrect) {
-      console.log('✅ [AlarmModal] Puzzle solved! Allowing dismiss.');
-      handleDismiss().catch(error => {
-        console.error('❌ [AlarmModal] Error in handleDismiss:', error);
-      });
-    } else {
-      console.log(`❌ [AlarmModal] Incorrect answer. Continue trying until correct or end time reached.`);
-      setUserAnswer('');
-    }
+  const handlePuzzleSolved = (session: PuzzleSession) => {
+    const shownAt = modalStateRef.current.startTime;
+    const solveTime = shownAt ? Math.round((Date.now() - shownAt.getTime()) / 1000) : undefined;
+    console.log(`✅ [AlarmModal] Puzzle solved after ${session.totalAttempts} attempt(s) in ${solveTime ?? '?'}s! Allowing dismiss.`);
+    handleDismiss(false, solveTime).catch(error => {
+      console.error('❌ [AlarmModal] Error in handleDismiss:', error);
+    });
   };
 
-  const handleDismiss = async () => {
+  const handleDismiss = async (autoDismissed: boolean = false, solveTime?: number) => {
     console.log('✅ [AlarmModal] Alarm dismissed by user');
     console.log(`⏱️ [AlarmModal] Alarm duration: ${startTime ? Math.round((new Date().getTime() - startTime.getTime()) / 1000) : 0} seconds`);
     
@@ -445,7 +379,7 @@ export const AlarmModal: React.FC<{
     }
     
     if (data?.onDismiss) {
-      data.onDismiss();
+      data.onDismiss(autoDismissed, solveTime);
     }
     onClose();
   };
@@ -470,7 +404,7 @@ export const AlarmModal: React.FC<{
 
   const handleAutoDismiss = async () => {
     console.log('⏰ [AlarmModal] Auto-dismissing alarm at end time');
-    await handleDismiss();
+    await handleDismiss(true);
   };
 
   if (!data) {
@@ -479,7 +413,7 @@ export const AlarmModal: React.FC<{
   }
 
   // Log puzzle state on every render
-  console.log(`🧩 [AlarmModal Render] showPuzzle: ${showPuzzle}, currentPuzzle:`, currentPuzzle);
+  console.log(`🧩 [AlarmModal Render] showPuzzle: ${showPuzzle}, puzzleSession:`, puzzleSession);
   console.log(`🧩 [AlarmModal Render] puzzleType from data: ${data.puzzleType}`);
 
   return (
@@ -512,24 +446,15 @@ export const AlarmModal: React.FC<{
           )}
 
           {/* Puzzle Section */}
-          {showPuzzle && currentPuzzle ? (
-            <View style={styles.puzzleContainer}>
-              <Text style={styles.puzzleTitle}>Solve to dismiss alarm:</Text>
-              <Text style={styles.puzzleQuestion}>{currentPuzzle.question}</Text>
-              <TextInput
-                style={styles.puzzleInput}
-                value={userAnswer}
-                onChangeText={setUserAnswer}
-                placeholder="Enter answer"
-                keyboardType="numeric"
-                autoFocus={true}
-                onSubmitEditing={handleAnswerSubmit}
-              />
-              <TouchableOpacity style={styles.submitButton} onPress={handleAnswerSubmit}>
-                <Text style={styles.buttonText}>Submit Answer</Text>
-              </TouchableOpacity>
-              <Text style={styles.attemptsText}>Attempts: {attempts}</Text>
-            </View>
+          {showPuzzle && puzzleSession ? (
+            <PuzzleView
+              session={puzzleSession}
+              onSessionChange={setPuzzleSession}
+              onComplete={handlePuzzleSolved}
+              onAttempt={(session, correct) =>
+                AlarmLifecycleLog.puzzleAttempt(data.alarmId, session.type, session.totalAttempts, correct)
+              }
+            />
           ) : (
             /* Show fallback if puzzle should be shown but isn't ready */
             showPuzzle && (
@@ -538,16 +463,38 @@ export const AlarmModal: React.FC<{
               </View>
             )
           )}
+          {/* Snooze */}
+          {(data.snoozesRemaining ?? 0) > 0 ? (
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.snoozeButton]}
+                onPress={() => {
+                  handleSnooze().catch(error => {
+                    console.error('❌ [AlarmModal] Error in handleSnooze:', error);
+                  });
+                }}
+              >
+                <Text style={styles.buttonText}>
+                  😴 Snooze {data.snoozeMinutes} min ({data.snoozesRemaining} left)
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            data.snoozesRemaining === 0 && (
+              <Text style={styles.snoozeInfoText}>No snoozes left</Text>
+            )
+          )}
+
           {/* Debug info for puzzle state */}
           {__DEV__ && (
             <View style={styles.debugContainer}>
               <Text style={styles.debugText}>Puzzle Debug:</Text>
               <Text style={styles.debugText}>showPuzzle: {showPuzzle ? 'true' : 'false'}</Text>
-              <Text style={styles.debugText}>currentPuzzle: {currentPuzzle ? 'exists' : 'null'}</Text>
+              <Text style={styles.debugText}>puzzleSession: {puzzleSession ? 'exists' : 'null'}</Text>
               <Text style={styles.debugText}>puzzleGenerated: {puzzleGenerated ? 'true' : 'false'}</Text>
               <Text style={styles.debugText}>puzzleType: {data.puzzleType}</Text>
-              {currentPuzzle && (
-                <Text style={styles.debugText}>question: {currentPuzzle.question}</Text>
+              {puzzleSession && (
+                <Text style={styles.debugText}>question: {puzzleSession.puzzle.prompt} ({puzzleSession.streak}/{puzzleSession.requiredCorrect})</Text>
               )}
             </View>
           )}
@@ -635,36 +582,6 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 15,
   },
-  puzzleQuestion: {
-    fontSize: 24,
-    color: '#444',
-    marginBottom: 20,
-    textAlign: 'center',
-    lineHeight: 32,
-  },
-  puzzleInput: {
-    width: '100%',
-    height: 50,
-    borderWidth: 2,
-    borderColor: '#DDD',
-    borderRadius: 10,
-    paddingHorizontal: 15,
-    fontSize: 18,
-    textAlign: 'center',
-    marginBottom: 15,
-    backgroundColor: 'white',
-  },
-  submitButton: {
-    backgroundColor: '#007AFF',
-    paddingHorizontal: 30,
-    paddingVertical: 12,
-    borderRadius: 10,
-    marginBottom: 10,
-  },
-  attemptsText: {
-    fontSize: 14,
-    color: '#666',
-  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -688,6 +605,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  snoozeInfoText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 10,
+  },
   debugContainer: {
     marginTop: 20,
     padding: 10,
@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { WakeAnnouncement } from '../types';
+import { audioService } from '../services/AudioService';
+import { MAX_ANNOUNCEMENT_MESSAGE_LENGTH } from '../utils/announcement';
+
+interface AnnouncementEditorProps {
+  announcement?: WakeAnnouncement; // Undefined keeps the alarm silent apart from its sound
+  label?: string; // Alarm label, read out as part of the announcement
+  onChange: (announcement: WakeAnnouncement | undefined) => void;
+}
+
+/**
+ * Spoken announcement section shared by the add and edit alarm screens
+ */
+const AnnouncementEditor: React.FC<AnnouncementEditorProps> = ({ announcement, label, onChange }) => (
+  <View>
+    <View style={styles.switchRow}>
+      <Text style={styles.switchLabel}>Speak the time and a message</Text>
+      <Switch
+        value={!!announcement}
+        onValueChange={value => onChange(value ? {} : undefined)}
+        trackColor={{ false: '#e2e8f0', true: '#6366f1' }}
+        thumbColor={announcement ? '#ffffff' : '#f1f5f9'}
+      />
+    </View>
+
+    {announcement && (
+      <>
+        <Text style={styles.summaryText}>
+          Reads the time, the alarm label and how many alarms are left today, using the voice on this device.
+        </Text>
+
+        <Text style={styles.label}>Message</Text>
+        <TextInput
+          style={styles.textInput}
+          value={announcement.message ?? ''}
+          onChangeText={text => onChange({ ...announcement, message: text || undefined })}
+          placeholder="e.g. Pills are on the counter"
+          placeholderTextColor="#94a3b8"
+          maxLength={MAX_ANNOUNCEMENT_MESSAGE_LENGTH}
+          multiline
+        />
+
+        <TouchableOpacity
+          style={styles.previewButton}
+          onPress={() => audioService.previewAnnouncement({ label, message: announcement.message })}
+        >
+          <Ionicons name="volume-medium-outline" size={18} color="#6366f1" />
+          <Text style={styles.previewButtonText}>Hear it</Text>
+        </TouchableOpacity>
+      </>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#374151',
+    flexShrink: 1,
+  },
+  summaryText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  previewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 12,
+  },
+  previewButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+});
+
+export default AnnouncementEditor;
@@ -0,0 +1,111 @@
+import React, { useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CameraView, useCameraPermissions, BarcodeScanningResult, BarcodeType } from 'expo-camera';
+
+interface CodeScannerViewProps {
+  onScanned: (data: string, format: string) => void;
+  isDark?: boolean;
+}
+
+const SUPPORTED_BARCODE_TYPES: BarcodeType[] = [
+  'qr',
+  'ean13',
+  'ean8',
+  'upc_a',
+  'upc_e',
+  'code128',
+  'code39',
+  'code93',
+  'itf14',
+  'datamatrix',
+];
+
+const REPEAT_SCAN_IGNORE_MS = 2000; // The camera reports the same code many times per second
+
+/**
+ * Camera preview that reports decoded QR/barcodes. Handles the camera permission itself.
+ */
+const CodeScannerView: React.FC<CodeScannerViewProps> = ({ onScanned, isDark = false }) => {
+  const [permission, requestPermission] = useCameraPermissions();
+  const lastScanRef = useRef<{ data: string; at: number } | null>(null);
+
+  const handleBarcodeScanned = ({ data, type }: BarcodeScanningResult) => {
+    const now = Date.now();
+    const lastScan = lastScanRef.current;
+    if (lastScan && lastScan.data === data && now - lastScan.at < REPEAT_SCAN_IGNORE_MS) {
+      return;
+    }
+
+    lastScanRef.current = { data, at: now };
+    console.log(`📷 [CodeScannerView] Scanned ${type}: ${data}`);
+    onScanned(data, type);
+  };
+
+  if (!permission) {
+    return <Text style={[styles.messageText, isDark && styles.textDark]}>Checking camera permission...</Text>;
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={styles.permissionContainer}>
+        <Text style={[styles.messageText, isDark && styles.textDark]}>
+          Camera access is needed to scan codes
+        </Text>
+        <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+          <Text style={styles.permissionButtonText}>Allow Camera</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.cameraContainer}>
+      <CameraView
+        style={styles.camera}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: SUPPORTED_BARCODE_TYPES }}
+        onBarcodeScanned={handleBarcodeScanned}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  cameraContainer: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 15,
+    backgroundColor: 'black',
+  },
+  camera: {
+    flex: 1,
+  },
+  permissionContainer: {
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  messageText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  textDark: {
+    color: 'white',
+  },
+  permissionButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  permissionButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default CodeScannerView;
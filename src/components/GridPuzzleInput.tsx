@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { GridPuzzleState, encodeIndexAnswer } from '../puzzles';
+
+interface GridPuzzleInputProps {
+  state: GridPuzzleState;
+  onSubmit: (answer: string) => void;
+  isDark?: boolean;
+}
+
+const GRID_WIDTH = 240;
+
+/**
+ * Lights up cells for state.revealMs, then lets the user tap the cells they remember.
+ * Remount (change the key) to replay the reveal.
+ */
+const GridPuzzleInput: React.FC<GridPuzzleInputProps> = ({ state, onSubmit, isDark = false }) => {
+  const [revealing, setRevealing] = useState(true);
+  const [selected, setSelected] = useState<number[]>([]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setRevealing(false), state.revealMs);
+    return () => clearTimeout(timer);
+  }, [state.revealMs]);
+
+  const toggleCell = (cell: number) => {
+    setSelected(current =>
+      current.includes(cell) ? current.filter(c => c !== cell) : [...current, cell]
+    );
+  };
+
+  const handleSubmit = () => {
+    onSubmit(encodeIndexAnswer([...selected].sort((a, b) => a - b)));
+    setSelected([]);
+  };
+
+  const cellSize = Math.floor(GRID_WIDTH / state.columns) - 8;
+  const target = state.revealedCells.length;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.statusText, isDark && styles.textDark]}>
+        {revealing ? '👀 Memorize the lit squares...' : `Selected ${selected.length} / ${target}`}
+      </Text>
+      <View style={[styles.grid, { width: GRID_WIDTH }]}>
+        {Array.from({ length: state.rows * state.columns }, (_, cell) => {
+          const lit = revealing ? state.revealedCells.includes(cell) : selected.includes(cell);
+          return (
+            <TouchableOpacity
+              key={cell}
+              style={[
+                styles.cell,
+                { width: cellSize, height: cellSize },
+                lit && (revealing ? styles.cellRevealed : styles.cellSelected),
+              ]}
+              disabled={revealing}
+              onPress={() => toggleCell(cell)}
+            />
+          );
+        })}
+      </View>
+      {!revealing && (
+        <TouchableOpacity
+          style={[styles.submitButton, selected.length !== target && styles.submitButtonDisabled]}
+          disabled={selected.length !== target}
+          onPress={handleSubmit}
+        >
+          <Text style={styles.submitButtonText}>Submit Answer</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 10,
+  },
+  textDark: {
+    color: 'white',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 15,
+  },
+  cell: {
+    margin: 4,
+    borderRadius: 8,
+    backgroundColor: '#DDD',
+  },
+  cellRevealed: {
+    backgroundColor: '#FFCC00',
+  },
+  cellSelected: {
+    backgroundColor: '#007AFF',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 30,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default GridPuzzleInput;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MissedAlarm } from '../types';
+import { formatTimeForCard } from '../utils/timeUtils';
+
+interface MissedAlarmBannerProps {
+  missed: MissedAlarm[];
+  use24HourFormat?: boolean;
+  onDismiss: () => void;
+}
+
+/**
+ * Tells the user about rings that passed while the app couldn't show them
+ */
+const MissedAlarmBanner: React.FC<MissedAlarmBannerProps> = ({
+  missed,
+  use24HourFormat = false,
+  onDismiss,
+}) => {
+  const title = missed.length === 1
+    ? `You missed your ${formatTimeForCard(missed[0].time, use24HourFormat)} alarm`
+    : `You missed ${missed.length} alarms`;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>⏰ {title}</Text>
+      <Text style={styles.text}>
+        AltRise couldn't ring because the app was closed or your phone was off.
+      </Text>
+
+      {missed.length > 1 && missed.map(alarm => (
+        <Text key={`${alarm.alarmId}-${alarm.scheduledFor}`} style={styles.alarmText}>
+          • {formatTimeForCard(alarm.time, use24HourFormat)}
+          {alarm.label ? ` ${alarm.label}` : ''} on{' '}
+          {new Date(alarm.scheduledFor).toLocaleDateString(undefined, { weekday: 'long' })}
+        </Text>
+      ))}
+
+      <TouchableOpacity style={styles.dismissButton} onPress={onDismiss}>
+        <Text style={styles.dismissButtonText}>Got it</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fef2f2',
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 12,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ef4444',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 4,
+  },
+  text: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+  },
+  alarmText: {
+    fontSize: 14,
+    color: '#475569',
+    marginTop: 4,
+  },
+  dismissButton: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  dismissButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
+
+export default MissedAlarmBanner;
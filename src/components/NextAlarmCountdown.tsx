@@ -1,15 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { Alarm } from '../types';
+import { Alarm, SkipRange } from '../types';
 import { getNextAlarm, formatTimeUntil, NextAlarmInfo } from '../utils/nextAlarmUtils';
+import { describeRecurrence } from '../utils/recurrence';
+import { describeSkip } from '../utils/skipDates';
+import { formatZonedTime, getDeviceTimeZone, getTimeZoneCity } from '../scheduling';
 
 interface NextAlarmCountdownProps {
   alarms: Alarm[];
+  skipRanges?: SkipRange[];
   onAlarmPress?: (alarm: Alarm) => void;
 }
 
+// Stable default so the countdown effect isn't restarted on every render
+const NO_SKIP_RANGES: SkipRange[] = [];
+
 const NextAlarmCountdown: React.FC<NextAlarmCountdownProps> = ({ 
   alarms, 
+  skipRanges = NO_SKIP_RANGES,
   onAlarmPress 
 }) => {
   const [nextAlarmInfo, setNextAlarmInfo] = useState<NextAlarmInfo>({
@@ -21,7 +29,7 @@ const NextAlarmCountdown: React.FC<NextAlarmCountdownProps> = ({
   // Update countdown every second
   useEffect(() => {
     const updateCountdown = () => {
-      const info = getNextAlarm(alarms);
+      const info = getNextAlarm(alarms, skipRanges);
       setNextAlarmInfo(info);
     };
 
@@ -32,13 +40,16 @@ const NextAlarmCountdown: React.FC<NextAlarmCountdownProps> = ({
     const interval = setInterval(updateCountdown, 1000);
 
     return () => clearInterval(interval);
-  }, [alarms]);
+  }, [alarms, skipRanges]);
 
   if (!nextAlarmInfo.alarm || !nextAlarmInfo.timeUntil) {
     return null; // No alarms or no enabled alarms
   }
 
-  const { alarm, timeUntil, isToday } = nextAlarmInfo;
+  const { alarm, timeUntil, isToday, ringsAt, skippedRing } = nextAlarmInfo;
+  const deviceTimeZone = getDeviceTimeZone();
+  // Alarms fixed to another zone show the device clock time they ring at
+  const isOtherZone = !!alarm.timeZone && alarm.timeZone !== deviceTimeZone && !!ringsAt;
   const timeDisplay = formatTimeUntil(timeUntil);
 
   // Determine the status text
@@ -92,7 +103,14 @@ const NextAlarmCountdown: React.FC<NextAlarmCountdownProps> = ({
           {timeDisplay}
         </Text>
         <View style={styles.alarmInfo}>
-          <Text style={styles.alarmTime}>{alarm.time}</Text>
+          <Text style={styles.alarmTime}>
+            {isOtherZone ? formatZonedTime(ringsAt!, deviceTimeZone) : alarm.time}
+          </Text>
+          {isOtherZone && (
+            <Text style={styles.alarmLabel} numberOfLines={1}>
+              {alarm.time} {getTimeZoneCity(alarm.timeZone!)}
+            </Text>
+          )}
           {alarm.label && (
             <Text style={styles.alarmLabel} numberOfLines={1}>
               {alarm.label}
@@ -101,7 +119,17 @@ const NextAlarmCountdown: React.FC<NextAlarmCountdownProps> = ({
         </View>
       </View>
 
-      {alarm.repeatDays && alarm.repeatDays.length > 0 && (
+      {skippedRing && (
+        <Text style={styles.skipText}>
+          ⏭️ {skippedRing.alarm.label ? `${skippedRing.alarm.label}: ` : ''}{describeSkip(skippedRing.skip)}
+        </Text>
+      )}
+
+      {alarm.recurrence && (
+        <Text style={styles.recurrenceText}>{describeRecurrence(alarm.recurrence)}</Text>
+      )}
+
+      {!alarm.recurrence && alarm.repeatDays && alarm.repeatDays.length > 0 && (
         <View style={styles.repeatDays}>
           {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((day, index) => (
             <View
@@ -204,6 +232,18 @@ const styles = StyleSheet.create({
     gap: 8,
     marginBottom: 8,
   },
+  skipText: {
+    fontSize: 13,
+    color: '#d97706',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  recurrenceText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
   dayBadge: {
     width: 32,
     height: 32,
@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import {
+  PuzzleSession,
+  getPuzzleProvider,
+  submitPuzzleAnswer,
+  getSessionHint,
+} from '../puzzles';
+import GridPuzzleInput from './GridPuzzleInput';
+import SymbolPuzzleInput from './SymbolPuzzleInput';
+import ShakePuzzleInput from './ShakePuzzleInput';
+import ScanPuzzleInput from './ScanPuzzleInput';
+
+interface PuzzleViewProps {
+  session: PuzzleSession;
+  onSessionChange: (session: PuzzleSession) => void;
+  onComplete: (session: PuzzleSession) => void;
+  onIncorrect?: (session: PuzzleSession) => void;
+  onAttempt?: (session: PuzzleSession, correct: boolean) => void; // Every submitted answer
+  variant?: 'light' | 'dark'; // light for white cards, dark for full-screen red backgrounds
+  title?: string;
+}
+
+/**
+ * Shared puzzle UI used by every alarm screen.
+ * Answer collection and validation are delegated to the registered PuzzleProvider.
+ */
+const PuzzleView: React.FC<PuzzleViewProps> = ({
+  session,
+  onSessionChange,
+  onComplete,
+  onIncorrect,
+  onAttempt,
+  variant = 'light',
+  title = 'Solve to dismiss alarm:',
+}) => {
+  const [answer, setAnswer] = useState('');
+  const [feedback, setFeedback] = useState<string | null>(null);
+
+  const provider = getPuzzleProvider(session.type);
+  const isDark = variant === 'dark';
+
+  // Reset input when a new puzzle is shown
+  useEffect(() => {
+    setAnswer('');
+  }, [session.puzzle.id]);
+
+  if (!provider) {
+    console.error(`❌ [PuzzleView] No provider registered for puzzle type: ${session.type}`);
+    return null;
+  }
+
+  const handleSubmit = (submitted: string) => {
+    const { session: nextSession, result } = submitPuzzleAnswer(session, submitted);
+
+    console.log(`🧩 [PuzzleView] Puzzle attempt ${nextSession.totalAttempts}: "${submitted}" ${result.correct ? '✅ CORRECT' : '❌ INCORRECT'}`);
+    console.log(`🧩 [PuzzleView] Streak: ${nextSession.streak}/${nextSession.requiredCorrect}`);
+
+    setAnswer('');
+    onSessionChange(nextSession);
+    onAttempt?.(nextSession, result.correct);
+
+    if (nextSession.completed) {
+      setFeedback(null);
+      onComplete(nextSession);
+    } else if (result.correct) {
+      setFeedback(`Correct! ${nextSession.requiredCorrect - nextSession.streak} more to go`);
+    } else {
+      setFeedback(
+        session.streak > 0
+          ? `${result.message || 'Incorrect'} - streak reset`
+          : result.message || 'Incorrect, try again'
+      );
+      onIncorrect?.(nextSession);
+    }
+  };
+
+  const hint = getSessionHint(session);
+
+  // Remounting grid/symbol inputs on each attempt replays their reveal
+  const inputKey = `${session.puzzle.id}_${session.totalAttempts}`;
+
+  const renderInput = () => {
+    switch (provider.inputKind) {
+      case 'grid':
+        return (
+          <GridPuzzleInput key={inputKey} state={session.puzzle.state} onSubmit={handleSubmit} isDark={isDark} />
+        );
+      case 'symbols':
+        return (
+          <SymbolPuzzleInput key={inputKey} state={session.puzzle.state} onSubmit={handleSubmit} isDark={isDark} />
+        );
+      case 'shake':
+        return (
+          <ShakePuzzleInput key={inputKey} state={session.puzzle.state} onSubmit={handleSubmit} isDark={isDark} />
+        );
+      case 'scan':
+        return <ScanPuzzleInput state={session.puzzle.state} onSubmit={handleSubmit} isDark={isDark} />;
+      case 'numeric':
+      case 'text':
+      default:
+        return (
+          <>
+            <TextInput
+              style={styles.input}
+              value={answer}
+              onChangeText={setAnswer}
+              placeholder="Enter answer"
+              keyboardType={provider.inputKind === 'numeric' ? 'numeric' : 'default'}
+              autoCapitalize="none"
+              autoFocus={true}
+              onSubmitEditing={() => handleSubmit(answer)}
+            />
+            <TouchableOpacity style={styles.submitButton} onPress={() => handleSubmit(answer)}>
+              <Text style={styles.submitButtonText}>Submit Answer</Text>
+            </TouchableOpacity>
+          </>
+        );
+    }
+  };
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <Text style={[styles.title, isDark && styles.textDark]}>{title}</Text>
+      {session.requiredCorrect > 1 && (
+        <Text style={[styles.progressText, isDark && styles.textDark]}>
+          Correct in a row: {session.streak} / {session.requiredCorrect}
+        </Text>
+      )}
+      <Text style={[styles.prompt, isDark && styles.textDark]}>{session.puzzle.prompt}</Text>
+      {renderInput()}
+      {feedback && <Text style={[styles.feedbackText, isDark && styles.textDark]}>{feedback}</Text>}
+      {hint && <Text style={[styles.hintText, isDark && styles.textDark]}>💡 {hint}</Text>}
+      {provider.inputKind !== 'shake' && (
+        <Text style={[styles.attemptsText, isDark && styles.textDark]}>Attempts: {session.totalAttempts}</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: '#F8F9FA',
+    padding: 20,
+    borderRadius: 10,
+    marginBottom: 30,
+    alignItems: 'center',
+  },
+  containerDark: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 15,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 15,
+  },
+  progressText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginBottom: 10,
+  },
+  prompt: {
+    fontSize: 24,
+    color: '#444',
+    marginBottom: 20,
+    textAlign: 'center',
+    lineHeight: 32,
+  },
+  textDark: {
+    color: 'white',
+  },
+  input: {
+    width: '100%',
+    height: 50,
+    borderWidth: 2,
+    borderColor: '#DDD',
+    borderRadius: 10,
+    paddingHorizontal: 15,
+    fontSize: 18,
+    textAlign: 'center',
+    marginBottom: 15,
+    backgroundColor: 'white',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 30,
+    paddingVertical: 12,
+    borderRadius: 10,
+    marginBottom: 10,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  feedbackText: {
+    fontSize: 14,
+    color: '#CC0000',
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 6,
+    textAlign: 'center',
+  },
+  attemptsText: {
+    fontSize: 14,
+    color: '#666',
+  },
+});
+
+export default PuzzleView;
@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { RecurrenceFrequency, RecurrenceRule, WeekDay } from '../types';
+import {
+  RECURRENCE_FREQUENCY_OPTIONS,
+  RECURRENCE_INTERVAL_OPTIONS,
+  MONTHLY_INTERVAL_OPTIONS,
+  ROTATION_DAY_OPTIONS,
+  SET_POSITION_OPTIONS,
+  createRecurrenceRule,
+  describeRecurrence,
+} from '../utils/recurrence';
+import {
+  formatCalendarDate,
+  formatCalendarDateForDisplay,
+  parseCalendarDate,
+  getShortDayName,
+} from '../utils/timeUtils';
+
+interface RecurrenceEditorProps {
+  rule?: RecurrenceRule; // Undefined means the plain weekly day picker is used
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({ label, selected, onPress }) => (
+  <TouchableOpacity
+    style={[styles.chip, selected && styles.chipSelected]}
+    onPress={onPress}
+  >
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const ALL_DAYS = [
+  WeekDay.SUNDAY,
+  WeekDay.MONDAY,
+  WeekDay.TUESDAY,
+  WeekDay.WEDNESDAY,
+  WeekDay.THURSDAY,
+  WeekDay.FRIDAY,
+  WeekDay.SATURDAY,
+];
+const WEEKDAYS = ALL_DAYS.filter(day => day !== WeekDay.SATURDAY && day !== WeekDay.SUNDAY);
+
+const sameDays = (a: WeekDay[] = [], b: WeekDay[]): boolean =>
+  a.length === b.length && b.every(day => a.includes(day));
+
+/**
+ * Custom repeat patterns (every N days/weeks, monthly, shift rotations) for the alarm editors
+ */
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ rule, onChange }) => {
+  const [showStartPicker, setShowStartPicker] = useState(false);
+
+  const selectFrequency = (frequency: RecurrenceFrequency | undefined) => {
+    if (frequency === rule?.frequency) {
+      return;
+    }
+    onChange(frequency ? createRecurrenceRule(frequency) : undefined);
+  };
+
+  const handleStartDateChange = (event: any, selectedDate?: Date) => {
+    setShowStartPicker(false);
+    if (selectedDate && rule) {
+      const startDate = formatCalendarDate(selectedDate);
+      // "By date" monthly rules follow the start date's day of the month
+      const byMonthDay = rule.byMonthDay !== undefined ? selectedDate.getDate() : undefined;
+      onChange({ ...rule, startDate, byMonthDay });
+    }
+  };
+
+  const toggleWeekDay = (day: WeekDay) => {
+    if (!rule) return;
+    const current = rule.byWeekDays ?? [];
+    const byWeekDays = current.includes(day)
+      ? current.filter(d => d !== day)
+      : [...current, day].sort();
+    onChange({ ...rule, byWeekDays });
+  };
+
+  const renderIntervalChips = (options: number[], unit: string) => (
+    <>
+      <Text style={styles.label}>Every</Text>
+      <View style={styles.row}>
+        {options.map(interval => (
+          <Chip
+            key={interval}
+            label={`${interval} ${unit}${interval === 1 ? '' : 's'}`}
+            selected={rule?.interval === interval}
+            onPress={() => rule && onChange({ ...rule, interval })}
+          />
+        ))}
+      </View>
+    </>
+  );
+
+  const renderMonthly = (monthlyRule: RecurrenceRule) => {
+    const byPosition = monthlyRule.byMonthDay === undefined;
+    const startDay = parseCalendarDate(monthlyRule.startDate)?.getDate() ?? 1;
+
+    return (
+      <>
+        {renderIntervalChips(MONTHLY_INTERVAL_OPTIONS, 'month')}
+
+        <Text style={styles.label}>On</Text>
+        <View style={styles.row}>
+          <Chip
+            label="Weekday position"
+            selected={byPosition}
+            onPress={() => onChange({
+              ...monthlyRule,
+              byMonthDay: undefined,
+              bySetPosition: monthlyRule.bySetPosition ?? 1,
+              byWeekDays: monthlyRule.byWeekDays?.length ? monthlyRule.byWeekDays : WEEKDAYS,
+            })}
+          />
+          <Chip
+            label="Same date"
+            selected={!byPosition}
+            onPress={() => onChange({
+              ...monthlyRule,
+              byMonthDay: startDay,
+              bySetPosition: undefined,
+              byWeekDays: undefined,
+            })}
+          />
+        </View>
+
+        {byPosition ? (
+          <>
+            <View style={[styles.row, styles.rowSpaced]}>
+              {SET_POSITION_OPTIONS.map(option => (
+                <Chip
+                  key={option.value}
+                  label={option.label}
+                  selected={monthlyRule.bySetPosition === option.value}
+                  onPress={() => onChange({ ...monthlyRule, bySetPosition: option.value })}
+                />
+              ))}
+            </View>
+            <View style={[styles.row, styles.rowSpaced]}>
+              <Chip
+                label="Weekday"
+                selected={sameDays(monthlyRule.byWeekDays, WEEKDAYS)}
+                onPress={() => onChange({ ...monthlyRule, byWeekDays: WEEKDAYS })}
+              />
+              {ALL_DAYS.map(day => (
+                <Chip
+                  key={day}
+                  label={getShortDayName(day)}
+                  selected={sameDays(monthlyRule.byWeekDays, [day])}
+                  onPress={() => onChange({ ...monthlyRule, byWeekDays: [day] })}
+                />
+              ))}
+            </View>
+          </>
+        ) : (
+          <Text style={styles.helperText}>Day {startDay}, taken from the start date. Months without it are skipped.</Text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Chip label="Weekly days" selected={!rule} onPress={() => selectFrequency(undefined)} />
+        {RECURRENCE_FREQUENCY_OPTIONS.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={rule?.frequency === option.value}
+            onPress={() => selectFrequency(option.value)}
+          />
+        ))}
+      </View>
+
+      {rule && (
+        <>
+          <Text style={styles.summaryText}>{describeRecurrence(rule)}</Text>
+
+          {rule.frequency === RecurrenceFrequency.DAILY && renderIntervalChips(RECURRENCE_INTERVAL_OPTIONS, 'day')}
+
+          {rule.frequency === RecurrenceFrequency.WEEKLY && (
+            <>
+              {renderIntervalChips([1, ...RECURRENCE_INTERVAL_OPTIONS.slice(0, 3)], 'week')}
+              <Text style={styles.label}>Days</Text>
+              <View style={styles.row}>
+                {ALL_DAYS.map(day => (
+                  <Chip
+                    key={day}
+                    label={getShortDayName(day)}
+                    selected={!!rule.byWeekDays?.includes(day)}
+                    onPress={() => toggleWeekDay(day)}
+                  />
+                ))}
+              </View>
+            </>
+          )}
+
+          {rule.frequency === RecurrenceFrequency.MONTHLY && renderMonthly(rule)}
+
+          {rule.frequency === RecurrenceFrequency.ROTATION && (
+            <>
+              <Text style={styles.label}>Days on</Text>
+              <View style={styles.row}>
+                {ROTATION_DAY_OPTIONS.map(days => (
+                  <Chip
+                    key={days}
+                    label={`${days}`}
+                    selected={rule.onDays === days}
+                    onPress={() => onChange({ ...rule, onDays: days })}
+                  />
+                ))}
+              </View>
+              <Text style={styles.label}>Days off</Text>
+              <View style={styles.row}>
+                {ROTATION_DAY_OPTIONS.map(days => (
+                  <Chip
+                    key={days}
+                    label={`${days}`}
+                    selected={rule.offDays === days}
+                    onPress={() => onChange({ ...rule, offDays: days })}
+                  />
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.label}>
+            {rule.frequency === RecurrenceFrequency.ROTATION ? 'First day on' : 'Starting'}
+          </Text>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setShowStartPicker(true)}>
+            <Text style={styles.dateButtonText}>{formatCalendarDateForDisplay(rule.startDate)}</Text>
+          </TouchableOpacity>
+
+          {showStartPicker && (
+            <DateTimePicker
+              value={parseCalendarDate(rule.startDate) || new Date()}
+              mode="date"
+              display="default"
+              onChange={handleStartDateChange}
+            />
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  rowSpaced: {
+    marginTop: 8,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  summaryText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  dateButton: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  dateButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+});
+
+export default RecurrenceEditor;
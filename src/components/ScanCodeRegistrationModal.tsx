@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { ScanCode } from '../types';
+import { StorageService } from '../services/StorageService';
+import CodeScannerView from './CodeScannerView';
+
+interface ScanCodeRegistrationModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onRegistered: (code: ScanCode) => void;
+}
+
+/**
+ * Two-step flow: scan a code, then give it a label (e.g. "Bathroom toothpaste")
+ */
+const ScanCodeRegistrationModal: React.FC<ScanCodeRegistrationModalProps> = ({
+  visible,
+  onClose,
+  onRegistered,
+}) => {
+  const [scanned, setScanned] = useState<{ data: string; format: string } | null>(null);
+  const [label, setLabel] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Start fresh every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setScanned(null);
+      setLabel('');
+    }
+  }, [visible]);
+
+  const handleSave = async () => {
+    if (!scanned) return;
+
+    setSaving(true);
+    try {
+      const code = await StorageService.addScanCode(label, scanned.data, scanned.format);
+      console.log(`✅ [ScanCodeRegistration] Registered code "${code.label}" (${code.format})`);
+      onRegistered(code);
+      onClose();
+    } catch (error) {
+      Alert.alert('Could not register code', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <Text style={styles.title}>Register Dismissal Code</Text>
+
+        {!scanned ? (
+          <>
+            <Text style={styles.description}>
+              Scan a QR code or barcode somewhere away from your bed - the bathroom is a good spot.
+            </Text>
+            <CodeScannerView onScanned={(data, format) => setScanned({ data, format })} />
+          </>
+        ) : (
+          <>
+            <Text style={styles.description}>Scanned ({scanned.format}):</Text>
+            <Text style={styles.codeValue} numberOfLines={2}>{scanned.data}</Text>
+            <TextInput
+              style={styles.input}
+              value={label}
+              onChangeText={setLabel}
+              placeholder="Label (e.g. Bathroom toothpaste)"
+              maxLength={40}
+              autoFocus={true}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.primaryButtonText}>{saving ? 'Saving...' : 'Save Code'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setScanned(null)}>
+              <Text style={styles.secondaryButtonText}>Scan Again</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={onClose}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: '#f5f5f5',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 15,
+  },
+  codeValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 15,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    backgroundColor: 'white',
+    marginBottom: 15,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+});
+
+export default ScanCodeRegistrationModal;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { QrCodePuzzleState } from '../puzzles';
+import CodeScannerView from './CodeScannerView';
+
+interface ScanPuzzleInputProps {
+  state: QrCodePuzzleState;
+  onSubmit: (answer: string) => void;
+  isDark?: boolean;
+}
+
+/**
+ * Submits every decoded code; matching happens in the QR code puzzle provider
+ */
+const ScanPuzzleInput: React.FC<ScanPuzzleInputProps> = ({ state, onSubmit, isDark = false }) => {
+  return (
+    <View style={styles.container}>
+      <CodeScannerView onScanned={data => onSubmit(data)} isDark={isDark} />
+      <Text style={[styles.helpText, isDark && styles.textDark]}>
+        Point the camera at {state.codes.length === 1 ? 'the code' : 'any of the codes'} to dismiss the alarm
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  textDark: {
+    color: 'white',
+  },
+});
+
+export default ScanPuzzleInput;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Accelerometer } from 'expo-sensors';
+import {
+  ShakePuzzleState,
+  createShakeDetector,
+  processShakeSample,
+} from '../puzzles';
+
+interface ShakePuzzleInputProps {
+  state: ShakePuzzleState;
+  onSubmit: (answer: string) => void;
+  isDark?: boolean;
+}
+
+const SAMPLE_INTERVAL_MS = 20; // 50Hz is enough to see a shake without flooding JS
+
+/**
+ * Listens to the accelerometer, counts shakes and submits once the target is reached
+ */
+const ShakePuzzleInput: React.FC<ShakePuzzleInputProps> = ({ state, onSubmit, isDark = false }) => {
+  const [shakeCount, setShakeCount] = useState(0);
+  const [sensorAvailable, setSensorAvailable] = useState<boolean | null>(null);
+  const detectorRef = useRef(createShakeDetector());
+  const submittedRef = useRef(false);
+  const onSubmitRef = useRef(onSubmit);
+  onSubmitRef.current = onSubmit;
+
+  useEffect(() => {
+    let subscription: { remove: () => void } | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      const available = await Accelerometer.isAvailableAsync();
+      if (cancelled) {
+        return;
+      }
+
+      console.log(`📳 [ShakePuzzleInput] Accelerometer available: ${available}`);
+      setSensorAvailable(available);
+      if (!available) {
+        return;
+      }
+
+      Accelerometer.setUpdateInterval(SAMPLE_INTERVAL_MS);
+      subscription = Accelerometer.addListener(({ x, y, z }) => {
+        const previousCount = detectorRef.current.shakeCount;
+        detectorRef.current = processShakeSample(detectorRef.current, { x, y, z, timestamp: Date.now() });
+
+        const count = detectorRef.current.shakeCount;
+        if (count === previousCount) {
+          return;
+        }
+
+        setShakeCount(count);
+        if (count >= state.requiredShakes && !submittedRef.current) {
+          submittedRef.current = true;
+          console.log(`📳 [ShakePuzzleInput] Reached ${count} shakes`);
+          onSubmitRef.current(String(count));
+        }
+      });
+    };
+
+    start().catch(error => {
+      console.error('❌ [ShakePuzzleInput] Failed to start accelerometer:', error);
+      setSensorAvailable(false);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [state.requiredShakes]);
+
+  if (sensorAvailable === false) {
+    return (
+      <Text style={[styles.errorText, isDark && styles.textDark]}>
+        ⚠️ Motion sensor unavailable on this device. Choose a different puzzle for this alarm.
+      </Text>
+    );
+  }
+
+  const progress = Math.min(shakeCount / state.requiredShakes, 1);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.shakeIcon}>📳</Text>
+      <View style={styles.meterTrack}>
+        <View style={[styles.meterFill, { width: `${Math.round(progress * 100)}%` }]} />
+      </View>
+      <Text style={[styles.countText, isDark && styles.textDark]}>
+        {shakeCount} / {state.requiredShakes} shakes
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  shakeIcon: {
+    fontSize: 48,
+    marginBottom: 15,
+  },
+  meterTrack: {
+    width: '100%',
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#DDD',
+    overflow: 'hidden',
+    marginBottom: 10,
+  },
+  meterFill: {
+    height: '100%',
+    borderRadius: 8,
+    backgroundColor: '#34C759',
+  },
+  countText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  textDark: {
+    color: 'white',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#CC0000',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+});
+
+export default ShakePuzzleInput;
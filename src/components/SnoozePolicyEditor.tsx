@@ -0,0 +1,191 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import { SnoozeMode, SnoozePolicy } from '../types';
+import {
+  SNOOZE_MODE_OPTIONS,
+  FIXED_SNOOZE_INTERVAL_OPTIONS,
+  DECAYING_SNOOZE_PRESETS,
+  SNOOZE_COUNT_OPTIONS,
+  createSnoozePolicy,
+  describeSnoozePolicy,
+} from '../utils/snoozePolicy';
+
+interface SnoozePolicyEditorProps {
+  policy?: SnoozePolicy; // Undefined means "use the defaults from Settings"
+  onChange: (policy: SnoozePolicy | undefined) => void;
+  defaultInterval: number;
+  defaultMaxCount: number;
+  showPuzzleOption: boolean; // Harder-puzzle toggle only makes sense when the alarm has a puzzle
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({ label, selected, onPress }) => (
+  <TouchableOpacity
+    style={[styles.chip, selected && styles.chipSelected]}
+    onPress={onPress}
+  >
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const sameIntervals = (a: number[], b: number[]): boolean =>
+  a.length === b.length && a.every((minutes, index) => minutes === b[index]);
+
+/**
+ * Snooze section shared by the add and edit alarm screens
+ */
+const SnoozePolicyEditor: React.FC<SnoozePolicyEditorProps> = ({
+  policy,
+  onChange,
+  defaultInterval,
+  defaultMaxCount,
+  showPuzzleOption,
+}) => {
+  const defaults = { snoozeInterval: defaultInterval, maxSnoozeCount: defaultMaxCount };
+
+  const selectMode = (mode: SnoozeMode | undefined) => {
+    if (mode === policy?.mode) {
+      return;
+    }
+    onChange(mode ? createSnoozePolicy(mode, defaults) : undefined);
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <Chip label="Default" selected={!policy} onPress={() => selectMode(undefined)} />
+        {SNOOZE_MODE_OPTIONS.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={policy?.mode === option.value}
+            onPress={() => selectMode(option.value)}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.summaryText}>
+        {policy
+          ? describeSnoozePolicy(policy)
+          : `Settings default: ${defaultInterval} min, up to ${defaultMaxCount} times`}
+      </Text>
+
+      {policy?.mode === SnoozeMode.FIXED && (
+        <>
+          <Text style={styles.label}>Interval</Text>
+          <View style={styles.row}>
+            {FIXED_SNOOZE_INTERVAL_OPTIONS.map(minutes => (
+              <Chip
+                key={minutes}
+                label={`${minutes} min`}
+                selected={policy.intervals[0] === minutes}
+                onPress={() => onChange({ ...policy, intervals: [minutes] })}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      {policy?.mode === SnoozeMode.DECAYING && (
+        <>
+          <Text style={styles.label}>Intervals</Text>
+          <View style={styles.row}>
+            {DECAYING_SNOOZE_PRESETS.map(preset => (
+              <Chip
+                key={preset.join('-')}
+                label={`${preset.join(' → ')} min`}
+                selected={sameIntervals(policy.intervals, preset)}
+                onPress={() => onChange({ ...policy, intervals: preset })}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      {policy && policy.mode !== SnoozeMode.DISABLED && (
+        <>
+          <Text style={styles.label}>Maximum snoozes</Text>
+          <View style={styles.row}>
+            {SNOOZE_COUNT_OPTIONS.map(count => (
+              <Chip
+                key={count}
+                label={`${count}`}
+                selected={policy.maxCount === count}
+                onPress={() => onChange({ ...policy, maxCount: count })}
+              />
+            ))}
+          </View>
+
+          {showPuzzleOption && (
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Harder puzzle after each snooze</Text>
+              <Switch
+                value={policy.harderPuzzleOnSnooze}
+                onValueChange={value => onChange({ ...policy, harderPuzzleOnSnooze: value })}
+                trackColor={{ false: '#e2e8f0', true: '#6366f1' }}
+                thumbColor={policy.harderPuzzleOnSnooze ? '#ffffff' : '#f1f5f9'}
+              />
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  summaryText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#374151',
+    flexShrink: 1,
+  },
+});
+
+export default SnoozePolicyEditor;
@@ -0,0 +1,237 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SoundStage } from '../types';
+import { SoundInfo } from '../sounds';
+import {
+  MAX_SOUND_STAGES,
+  MIN_SOUND_STAGES,
+  STAGE_DURATION_OPTIONS,
+  createSoundSequence,
+  describeSoundSequence,
+} from '../utils/soundSequence';
+
+interface SoundSequenceEditorProps {
+  sequence?: SoundStage[]; // Undefined plays the alarm's single sound
+  soundOptions: SoundInfo[];
+  onChange: (sequence: SoundStage[] | undefined) => void;
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({ label, selected, onPress }) => (
+  <TouchableOpacity
+    style={[styles.chip, selected && styles.chipSelected]}
+    onPress={onPress}
+  >
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const STAGE_VOLUME_OPTIONS = [0.3, 0.5, 0.8, 1];
+
+/**
+ * Sound stages section shared by the add and edit alarm screens
+ */
+const SoundSequenceEditor: React.FC<SoundSequenceEditorProps> = ({ sequence, soundOptions, onChange }) => {
+  const updateStage = (index: number, changes: Partial<SoundStage>) => {
+    if (sequence) {
+      onChange(sequence.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+    }
+  };
+
+  const addStage = () => {
+    if (sequence) {
+      onChange([...sequence, { ...sequence[sequence.length - 1] }]);
+    }
+  };
+
+  const removeStage = (index: number) => {
+    if (sequence) {
+      onChange(sequence.filter((_, i) => i !== index));
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>Play sounds in stages</Text>
+        <Switch
+          value={!!sequence}
+          onValueChange={value => onChange(value ? createSoundSequence() : undefined)}
+          trackColor={{ false: '#e2e8f0', true: '#6366f1' }}
+          thumbColor={sequence ? '#ffffff' : '#f1f5f9'}
+        />
+      </View>
+
+      {sequence && (
+        <>
+          <Text style={styles.summaryText}>{describeSoundSequence(sequence)}</Text>
+
+          {sequence.map((stage, index) => {
+            const isLast = index === sequence.length - 1;
+
+            return (
+              <View key={index} style={styles.stage}>
+                <View style={styles.stageHeader}>
+                  <Text style={styles.stageTitle}>Stage {index + 1}</Text>
+                  {sequence.length > MIN_SOUND_STAGES && (
+                    <TouchableOpacity onPress={() => removeStage(index)}>
+                      <Ionicons name="close-circle-outline" size={22} color="#94a3b8" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+
+                <Text style={styles.label}>Sound</Text>
+                <View style={styles.row}>
+                  {soundOptions.map(sound => (
+                    <Chip
+                      key={sound.id}
+                      label={sound.name}
+                      selected={stage.soundFile === sound.id}
+                      onPress={() => updateStage(index, { soundFile: sound.id })}
+                    />
+                  ))}
+                </View>
+
+                <Text style={styles.label}>Volume</Text>
+                <View style={styles.row}>
+                  {STAGE_VOLUME_OPTIONS.map(volume => (
+                    <Chip
+                      key={volume}
+                      label={`${Math.round(volume * 100)}%`}
+                      selected={stage.volume === volume}
+                      onPress={() => updateStage(index, { volume })}
+                    />
+                  ))}
+                </View>
+
+                <Text style={styles.label}>Plays for</Text>
+                {isLast ? (
+                  <Text style={styles.helperText}>Until dismissed</Text>
+                ) : (
+                  <View style={styles.row}>
+                    {STAGE_DURATION_OPTIONS.map(minutes => (
+                      <Chip
+                        key={minutes}
+                        label={`${minutes} min`}
+                        selected={stage.durationMinutes === minutes}
+                        onPress={() => updateStage(index, { durationMinutes: minutes })}
+                      />
+                    ))}
+                  </View>
+                )}
+
+                <View style={[styles.switchRow, styles.stageSwitch]}>
+                  <Text style={styles.switchLabel}>Vibrate</Text>
+                  <Switch
+                    value={stage.vibration}
+                    onValueChange={value => updateStage(index, { vibration: value })}
+                    trackColor={{ false: '#e2e8f0', true: '#6366f1' }}
+                    thumbColor={stage.vibration ? '#ffffff' : '#f1f5f9'}
+                  />
+                </View>
+              </View>
+            );
+          })}
+
+          {sequence.length < MAX_SOUND_STAGES && (
+            <TouchableOpacity style={styles.addButton} onPress={addStage}>
+              <Ionicons name="add" size={18} color="#6366f1" />
+              <Text style={styles.addButtonText}>Add stage</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  summaryText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  stage: {
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    marginTop: 16,
+    paddingTop: 12,
+  },
+  stageHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  stageTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  stageSwitch: {
+    marginTop: 12,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#374151',
+    flexShrink: 1,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 16,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+});
+
+export default SoundSequenceEditor;
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SymbolPuzzleState, encodeIndexAnswer } from '../puzzles';
+
+interface SymbolPuzzleInputProps {
+  state: SymbolPuzzleState;
+  onSubmit: (answer: string) => void;
+  isDark?: boolean;
+}
+
+/**
+ * Builds an ordered answer by tapping palette symbols.
+ * When the puzzle has revealSymbols they are shown first; remount (change the key) to replay them.
+ */
+const SymbolPuzzleInput: React.FC<SymbolPuzzleInputProps> = ({ state, onSubmit, isDark = false }) => {
+  const hasReveal = !!state.revealSymbols && !!state.revealMs;
+  const [revealing, setRevealing] = useState(hasReveal);
+  const [selected, setSelected] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (!hasReveal) {
+      return;
+    }
+    const timer = setTimeout(() => setRevealing(false), state.revealMs);
+    return () => clearTimeout(timer);
+  }, [hasReveal, state.revealMs]);
+
+  const addSymbol = (index: number) => {
+    setSelected(current => (current.length < state.answerLength ? [...current, index] : current));
+  };
+
+  const handleSubmit = () => {
+    onSubmit(encodeIndexAnswer(selected));
+    setSelected([]);
+  };
+
+  if (revealing) {
+    return (
+      <View style={styles.container}>
+        <Text style={[styles.statusText, isDark && styles.textDark]}>👀 Memorize the order...</Text>
+        <Text style={styles.revealText}>{state.revealSymbols?.join(' ')}</Text>
+      </View>
+    );
+  }
+
+  const slots = Array.from({ length: state.answerLength }, (_, position) =>
+    position < selected.length ? state.palette[selected[position]] : '_'
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.slotsText, isDark && styles.textDark]}>{slots.join(' ')}</Text>
+      <View style={styles.palette}>
+        {state.palette.map((symbol, index) => (
+          <TouchableOpacity key={index} style={styles.paletteButton} onPress={() => addSymbol(index)}>
+            <Text style={styles.paletteText}>{symbol}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={styles.clearButton}
+          disabled={selected.length === 0}
+          onPress={() => setSelected(current => current.slice(0, -1))}
+        >
+          <Text style={styles.clearButtonText}>Undo</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.submitButton, selected.length !== state.answerLength && styles.submitButtonDisabled]}
+          disabled={selected.length !== state.answerLength}
+          onPress={handleSubmit}
+        >
+          <Text style={styles.submitButtonText}>Submit Answer</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 10,
+  },
+  textDark: {
+    color: 'white',
+  },
+  revealText: {
+    fontSize: 32,
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  slotsText: {
+    fontSize: 28,
+    color: '#444',
+    marginBottom: 15,
+    letterSpacing: 2,
+  },
+  palette: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 15,
+  },
+  paletteButton: {
+    width: 56,
+    height: 56,
+    margin: 5,
+    borderRadius: 10,
+    backgroundColor: 'white',
+    borderWidth: 2,
+    borderColor: '#DDD',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  paletteText: {
+    fontSize: 28,
+    color: '#333',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  clearButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#8E8E93',
+    marginRight: 10,
+  },
+  clearButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 30,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default SymbolPuzzleInput;
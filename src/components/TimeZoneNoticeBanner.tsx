@@ -0,0 +1,87 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { TimeZoneChangeNotice } from '../types';
+import { formatTimeForCard } from '../utils/timeUtils';
+import { getTimeZoneCity } from '../scheduling';
+
+interface TimeZoneNoticeBannerProps {
+  notice: TimeZoneChangeNotice;
+  use24HourFormat?: boolean;
+  onDismiss: () => void;
+}
+
+/**
+ * Explains what happened to alarms after the device moved to another timezone
+ */
+const TimeZoneNoticeBanner: React.FC<TimeZoneNoticeBannerProps> = ({
+  notice,
+  use24HourFormat = false,
+  onDismiss,
+}) => {
+  const following = notice.shifts.filter(shift => !shift.timeZone);
+  const fixed = notice.shifts.filter(shift => shift.timeZone);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>🌐 Now on {getTimeZoneCity(notice.timeZone)} time</Text>
+      <Text style={styles.text}>
+        Your timezone changed from {getTimeZoneCity(notice.previousTimeZone)}.
+        {following.length > 0 &&
+          ` ${following.length === 1 ? '1 alarm follows' : `${following.length} alarms follow`} your timezone and still rings at its set time here.`}
+      </Text>
+
+      {fixed.map(shift => (
+        <Text key={shift.alarmId} style={styles.shiftText}>
+          • {shift.label || formatTimeForCard(shift.time, use24HourFormat)} stays on{' '}
+          {getTimeZoneCity(shift.timeZone!)} time and rings at{' '}
+          {formatTimeForCard(shift.localTime, use24HourFormat)} here
+        </Text>
+      ))}
+
+      <TouchableOpacity style={styles.dismissButton} onPress={onDismiss}>
+        <Text style={styles.dismissButtonText}>Got it</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#eef2ff',
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 12,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#6366f1',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 4,
+  },
+  text: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+  },
+  shiftText: {
+    fontSize: 14,
+    color: '#475569',
+    marginTop: 4,
+  },
+  dismissButton: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  dismissButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+});
+
+export default TimeZoneNoticeBanner;
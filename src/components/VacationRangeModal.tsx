@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { SkipRange } from '../types';
+import { SkipDateService } from '../services/SkipDateService';
+import { formatCalendarDate, formatCalendarDateForDisplay } from '../utils/timeUtils';
+
+interface VacationRangeModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onAdded: (range: SkipRange) => void;
+}
+
+/**
+ * Name a vacation and pick its first and last day; repeating alarms stay silent in between
+ */
+const VacationRangeModal: React.FC<VacationRangeModalProps> = ({ visible, onClose, onAdded }) => {
+  const [label, setLabel] = useState('');
+  const [startDate, setStartDate] = useState(new Date());
+  const [endDate, setEndDate] = useState(new Date());
+  const [picking, setPicking] = useState<'start' | 'end' | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Start fresh every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setLabel('');
+      setStartDate(new Date());
+      setEndDate(new Date());
+      setPicking(null);
+    }
+  }, [visible]);
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    const field = picking;
+    setPicking(null);
+    if (!selectedDate) return;
+
+    if (field === 'start') {
+      setStartDate(selectedDate);
+      if (selectedDate > endDate) {
+        setEndDate(selectedDate);
+      }
+    } else if (field === 'end') {
+      setEndDate(selectedDate);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const range = await SkipDateService.addVacation(
+        label || 'Vacation',
+        formatCalendarDate(startDate),
+        formatCalendarDate(endDate)
+      );
+      onAdded(range);
+      onClose();
+    } catch (error) {
+      Alert.alert('Could not add vacation', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <Text style={styles.title}>Add Vacation</Text>
+        <Text style={styles.description}>
+          Repeating alarms won't ring on these days. One-time alarms still ring.
+        </Text>
+
+        <TextInput
+          style={styles.input}
+          placeholder="Name (e.g. Summer trip)"
+          value={label}
+          onChangeText={setLabel}
+        />
+
+        <Text style={styles.fieldLabel}>First day</Text>
+        <TouchableOpacity style={styles.dateButton} onPress={() => setPicking('start')}>
+          <Text style={styles.dateButtonText}>{formatCalendarDateForDisplay(formatCalendarDate(startDate))}</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.fieldLabel}>Last day</Text>
+        <TouchableOpacity style={styles.dateButton} onPress={() => setPicking('end')}>
+          <Text style={styles.dateButtonText}>{formatCalendarDateForDisplay(formatCalendarDate(endDate))}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          <Text style={styles.primaryButtonText}>{saving ? 'Saving...' : 'Save Vacation'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={onClose}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+
+        {picking && (
+          <DateTimePicker
+            value={picking === 'start' ? startDate : endDate}
+            mode="date"
+            display="default"
+            minimumDate={picking === 'end' ? startDate : new Date()}
+            onChange={handleDateChange}
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+    paddingTop: 60,
+    backgroundColor: '#f5f5f5',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 15,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    backgroundColor: 'white',
+    marginBottom: 15,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 6,
+  },
+  dateButton: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    paddingHorizontal: 15,
+    justifyContent: 'center',
+    backgroundColor: 'white',
+    marginBottom: 15,
+  },
+  dateButtonText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+});
+
+export default VacationRangeModal;
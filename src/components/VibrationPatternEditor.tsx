@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Pressable, Vibration } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { VibrationPattern, VibrationPatternType } from '../types';
+import { audioService } from '../services/AudioService';
+import {
+  MAX_CUSTOM_TAPS,
+  MAX_PULSE_MS,
+  RecordedTap,
+  VIBRATION_PATTERN_OPTIONS,
+  buildTapPattern,
+} from '../utils/vibrationPatterns';
+
+interface VibrationPatternEditorProps {
+  pattern?: VibrationPattern; // Undefined uses the default pattern
+  onChange: (pattern: VibrationPattern | undefined) => void;
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({ label, selected, onPress }) => (
+  <TouchableOpacity
+    style={[styles.chip, selected && styles.chipSelected]}
+    onPress={onPress}
+  >
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+/**
+ * Vibration pattern picker with a tap pad for custom patterns, shared by the
+ * add and edit alarm screens
+ */
+const VibrationPatternEditor: React.FC<VibrationPatternEditorProps> = ({ pattern, onChange }) => {
+  const [recording, setRecording] = useState(false);
+  const [tapCount, setTapCount] = useState(0);
+  const taps = useRef<RecordedTap[]>([]);
+  const pressStart = useRef<number | null>(null);
+
+  const selectedType = pattern?.type ?? VibrationPatternType.DEFAULT;
+  const isCustom = selectedType === VibrationPatternType.CUSTOM;
+  const hasRecording = !!pattern?.timings && pattern.timings.length > 0;
+
+  const selectType = (type: VibrationPatternType) => {
+    setRecording(false);
+    if (type === VibrationPatternType.DEFAULT) {
+      onChange(undefined);
+    } else if (type === VibrationPatternType.CUSTOM) {
+      onChange({ type, timings: pattern?.timings });
+    } else {
+      onChange({ type });
+    }
+  };
+
+  const startRecording = () => {
+    taps.current = [];
+    pressStart.current = null;
+    setTapCount(0);
+    setRecording(true);
+  };
+
+  const finishRecording = () => {
+    setRecording(false);
+    if (taps.current.length > 0) {
+      onChange({ type: VibrationPatternType.CUSTOM, timings: buildTapPattern(taps.current) });
+    }
+  };
+
+  const onPressIn = () => {
+    if (taps.current.length < MAX_CUSTOM_TAPS) {
+      pressStart.current = Date.now();
+      Vibration.vibrate(MAX_PULSE_MS); // Longer presses are recorded as this anyway
+    }
+  };
+
+  const onPressOut = () => {
+    if (pressStart.current !== null) {
+      Vibration.cancel();
+      taps.current.push({ start: pressStart.current, end: Date.now() });
+      pressStart.current = null;
+      setTapCount(taps.current.length);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        {VIBRATION_PATTERN_OPTIONS.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={selectedType === option.value}
+            onPress={() => selectType(option.value)}
+          />
+        ))}
+      </View>
+
+      {isCustom && (
+        recording ? (
+          <>
+            <Pressable
+              style={({ pressed }) => [styles.tapPad, pressed && styles.tapPadPressed]}
+              onPressIn={onPressIn}
+              onPressOut={onPressOut}
+            >
+              <Text style={styles.tapPadText}>Tap and hold to vibrate</Text>
+              <Text style={styles.helperText}>{tapCount} of {MAX_CUSTOM_TAPS} taps</Text>
+            </Pressable>
+            <TouchableOpacity style={styles.actionButton} onPress={finishRecording}>
+              <Ionicons name="checkmark" size={18} color="#6366f1" />
+              <Text style={styles.actionButtonText}>Done</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.helperText}>
+              {hasRecording ? 'Your recorded pattern' : 'Tap out your own pattern'}
+            </Text>
+            <TouchableOpacity style={styles.actionButton} onPress={startRecording}>
+              <Ionicons name="radio-button-on" size={18} color="#6366f1" />
+              <Text style={styles.actionButtonText}>{hasRecording ? 'Record again' : 'Record'}</Text>
+            </TouchableOpacity>
+          </>
+        )
+      )}
+
+      {!recording && (!isCustom || hasRecording) && (
+        <TouchableOpacity style={styles.actionButton} onPress={() => audioService.previewVibration(pattern)}>
+          <Ionicons name="phone-portrait-outline" size={18} color="#6366f1" />
+          <Text style={styles.actionButtonText}>Preview</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  tapPad: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 120,
+    marginTop: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  tapPadPressed: {
+    backgroundColor: '#c7d2fe',
+  },
+  tapPadText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4338ca',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 12,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+});
+
+export default VibrationPatternEditor;
@@ -0,0 +1,175 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import { VolumeRamp } from '../types';
+import {
+  RAMP_DURATION_OPTIONS,
+  ESCALATION_OPTIONS,
+  VOLUME_CURVE_OPTIONS,
+  createVolumeRamp,
+  describeVolumeRamp,
+} from '../utils/volumeRamp';
+
+interface VolumeRampEditorProps {
+  ramp?: VolumeRamp; // Undefined plays at a fixed volume
+  onChange: (ramp: VolumeRamp | undefined) => void;
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({ label, selected, onPress }) => (
+  <TouchableOpacity
+    style={[styles.chip, selected && styles.chipSelected]}
+    onPress={onPress}
+  >
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const START_VOLUME_OPTIONS = [0, 0.1, 0.3, 0.5];
+const TARGET_VOLUME_OPTIONS = [0.7, 0.85, 1];
+
+const formatPercent = (volume: number) => `${Math.round(volume * 100)}%`;
+const formatDuration = (seconds: number) => (seconds >= 60 ? `${seconds / 60} min` : `${seconds} sec`);
+
+/**
+ * Crescendo section shared by the add and edit alarm screens
+ */
+const VolumeRampEditor: React.FC<VolumeRampEditorProps> = ({ ramp, onChange }) => (
+  <View>
+    <View style={styles.switchRow}>
+      <Text style={styles.switchLabel}>Gradually increase volume</Text>
+      <Switch
+        value={!!ramp}
+        onValueChange={value => onChange(value ? createVolumeRamp() : undefined)}
+        trackColor={{ false: '#e2e8f0', true: '#6366f1' }}
+        thumbColor={ramp ? '#ffffff' : '#f1f5f9'}
+      />
+    </View>
+
+    {ramp && (
+      <>
+        <Text style={styles.summaryText}>{describeVolumeRamp(ramp)}</Text>
+
+        <Text style={styles.label}>Start at</Text>
+        <View style={styles.row}>
+          {START_VOLUME_OPTIONS.map(volume => (
+            <Chip
+              key={volume}
+              label={formatPercent(volume)}
+              selected={ramp.startVolume === volume}
+              onPress={() => onChange({ ...ramp, startVolume: volume })}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Rise to</Text>
+        <View style={styles.row}>
+          {TARGET_VOLUME_OPTIONS.map(volume => (
+            <Chip
+              key={volume}
+              label={formatPercent(volume)}
+              selected={ramp.targetVolume === volume}
+              onPress={() => onChange({ ...ramp, targetVolume: volume })}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Over</Text>
+        <View style={styles.row}>
+          {RAMP_DURATION_OPTIONS.map(seconds => (
+            <Chip
+              key={seconds}
+              label={formatDuration(seconds)}
+              selected={ramp.durationSeconds === seconds}
+              onPress={() => onChange({ ...ramp, durationSeconds: seconds })}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Curve</Text>
+        <View style={styles.row}>
+          {VOLUME_CURVE_OPTIONS.map(option => (
+            <Chip
+              key={option.value}
+              label={option.label}
+              selected={ramp.curve === option.value}
+              onPress={() => onChange({ ...ramp, curve: option.value })}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.label}>Switch to urgent sound if still ringing after</Text>
+        <View style={styles.row}>
+          <Chip
+            label="Never"
+            selected={!ramp.escalateAfterMinutes}
+            onPress={() => onChange({ ...ramp, escalateAfterMinutes: undefined })}
+          />
+          {ESCALATION_OPTIONS.map(minutes => (
+            <Chip
+              key={minutes}
+              label={`${minutes} min`}
+              selected={ramp.escalateAfterMinutes === minutes}
+              onPress={() => onChange({ ...ramp, escalateAfterMinutes: minutes })}
+            />
+          ))}
+        </View>
+      </>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  summaryText: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#374151',
+    flexShrink: 1,
+  },
+});
+
+export default VolumeRampEditor;
@@ -0,0 +1,215 @@
+import { PuzzleDifficulty, PuzzleType } from '../../types';
+import {
+  PuzzleInstance,
+  PuzzleProvider,
+  createPuzzle,
+  encodeIndexAnswer,
+  evaluateExpression,
+  getPuzzleProvider,
+  getRegisteredPuzzleTypes,
+  memoryPuzzleProvider,
+  numberSequencePuzzleProvider,
+  patternPuzzleProvider,
+  qrCodePuzzleProvider,
+  resolvePuzzleType,
+  restorePuzzle,
+  sequencePuzzleProvider,
+  shakePuzzleProvider,
+  startPuzzleSession,
+  submitPuzzleAnswer,
+} from '..';
+import { mathPuzzleProvider } from '../mathPuzzle';
+
+// Small seeded RNG (mulberry32), so generated puzzles repeat exactly
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const DIFFICULTIES = Object.values(PuzzleDifficulty);
+
+const scanCodes = [
+  { id: 'code-1', label: 'Bathroom toothpaste', value: 'TOOTHPASTE-123', createdAt: '2026-01-01T00:00:00.000Z' },
+];
+
+interface ProviderCase {
+  provider: PuzzleProvider<any>;
+  rightAnswer: (puzzle: PuzzleInstance<any>) => string;
+  wrongAnswer: (puzzle: PuzzleInstance<any>) => string;
+}
+
+// The answer each provider accepts, read from the puzzle it generated
+const CASES: ProviderCase[] = [
+  {
+    provider: mathPuzzleProvider,
+    rightAnswer: puzzle => String(puzzle.state.answer),
+    wrongAnswer: puzzle => String(puzzle.state.answer + 1),
+  },
+  {
+    provider: numberSequencePuzzleProvider,
+    rightAnswer: puzzle => String(puzzle.state.answer),
+    wrongAnswer: puzzle => String(puzzle.state.answer + 1),
+  },
+  {
+    provider: memoryPuzzleProvider,
+    rightAnswer: puzzle => encodeIndexAnswer([...puzzle.state.revealedCells].reverse()),
+    wrongAnswer: puzzle => encodeIndexAnswer(puzzle.state.revealedCells.slice(1)),
+  },
+  {
+    provider: patternPuzzleProvider,
+    rightAnswer: puzzle => encodeIndexAnswer(puzzle.state.answer),
+    wrongAnswer: puzzle => encodeIndexAnswer(puzzle.state.answer.map((index: number) => (index + 1) % puzzle.state.palette.length)),
+  },
+  {
+    provider: sequencePuzzleProvider,
+    rightAnswer: puzzle => encodeIndexAnswer(puzzle.state.sequence),
+    wrongAnswer: puzzle => encodeIndexAnswer(puzzle.state.sequence.map((index: number) => (index + 1) % puzzle.state.palette.length)),
+  },
+  {
+    provider: shakePuzzleProvider,
+    rightAnswer: puzzle => String(puzzle.state.requiredShakes),
+    wrongAnswer: puzzle => String(puzzle.state.requiredShakes - 1),
+  },
+  {
+    provider: qrCodePuzzleProvider,
+    rightAnswer: () => 'TOOTHPASTE-123',
+    wrongAnswer: () => 'SOMETHING-ELSE',
+  },
+];
+
+const generate = (provider: PuzzleProvider<any>, seed: number, difficulty: PuzzleDifficulty) =>
+  provider.generate({ random: seededRandom(seed), difficulty, scanCodes });
+
+// Everything but the id and creation time, which are not meant to repeat
+const content = ({ type, prompt, state }: PuzzleInstance<any>) => ({ type, prompt, state });
+
+describe.each(CASES)('$provider.type provider', ({ provider, rightAnswer, wrongAnswer }) => {
+  it('generates the same puzzle from the same seed', () => {
+    for (const difficulty of DIFFICULTIES) {
+      expect(content(generate(provider, 7, difficulty))).toEqual(content(generate(provider, 7, difficulty)));
+    }
+  });
+
+  it('accepts the right answer and rejects a wrong one', () => {
+    for (const difficulty of DIFFICULTIES) {
+      for (let seed = 1; seed <= 20; seed++) {
+        const puzzle = generate(provider, seed, difficulty);
+
+        expect(provider.validate(puzzle, rightAnswer(puzzle)).correct).toBe(true);
+        expect(provider.validate(puzzle, wrongAnswer(puzzle))).toEqual({ correct: false, message: expect.any(String) });
+      }
+    }
+  });
+
+  it('survives a serialize/deserialize round trip', () => {
+    const puzzle = generate(provider, 3, PuzzleDifficulty.HARD);
+    const restored = provider.deserialize(provider.serialize(puzzle));
+
+    expect(restored).toEqual(puzzle);
+    expect(provider.validate(restored, rightAnswer(puzzle)).correct).toBe(true);
+    expect(restorePuzzle(provider.serialize(puzzle))).toEqual(puzzle);
+  });
+
+  it('refuses to deserialize another type of puzzle', () => {
+    const other = provider.type === PuzzleType.MATH ? shakePuzzleProvider : mathPuzzleProvider;
+    const raw = other.serialize(generate(other, 3, PuzzleDifficulty.EASY));
+
+    expect(() => provider.deserialize(raw)).toThrow();
+  });
+});
+
+describe('math provider', () => {
+  it('gives different puzzles for different seeds', () => {
+    const prompts = new Set([1, 2, 3, 4, 5].map(seed => generate(mathPuzzleProvider, seed, PuzzleDifficulty.HARD).prompt));
+
+    expect(prompts.size).toBeGreaterThan(1);
+  });
+
+  it('keeps answers whole and not negative', () => {
+    for (const difficulty of DIFFICULTIES) {
+      for (let seed = 1; seed <= 200; seed++) {
+        const { answer } = generate(mathPuzzleProvider, seed, difficulty).state;
+        expect(Number.isInteger(answer)).toBe(true);
+        expect(answer).toBeGreaterThanOrEqual(0);
+      }
+    }
+  });
+
+  it('multiplies and divides before adding and subtracting', () => {
+    expect(evaluateExpression([2, 3, 4], ['+', '*'])).toBe(14);
+    expect(evaluateExpression([20, 12, 4, 2], ['-', '/', '*'])).toBe(14);
+    expect(() => evaluateExpression([7, 2], ['/'])).toThrow('Non-integer division');
+  });
+
+  it('asks for a whole number when the answer is not one', () => {
+    const puzzle = generate(mathPuzzleProvider, 1, PuzzleDifficulty.EASY);
+
+    expect(mathPuzzleProvider.validate(puzzle, 'twelve')).toEqual({ correct: false, message: 'Please enter a whole number' });
+    expect(mathPuzzleProvider.validate(puzzle, ` ${puzzle.state.answer} `).correct).toBe(true);
+  });
+});
+
+describe('puzzle registry', () => {
+  it('has a provider for every puzzle type but none', () => {
+    const types = Object.values(PuzzleType).filter(type => type !== PuzzleType.NONE && type !== PuzzleType.BASIC_MATH);
+
+    expect(getRegisteredPuzzleTypes().sort()).toEqual(types.sort());
+  });
+
+  it('rejects unknown puzzle ids', () => {
+    expect(getPuzzleProvider('crossword' as PuzzleType)).toBeNull();
+    expect(() => createPuzzle('crossword' as PuzzleType)).toThrow('No puzzle provider registered for type: crossword');
+    expect(() => restorePuzzle(JSON.stringify({ type: 'crossword', prompt: '?' }))).toThrow(
+      'No puzzle provider registered for type: crossword'
+    );
+  });
+
+  it('needs no puzzle for alarms without one', () => {
+    expect(createPuzzle(PuzzleType.NONE)).toBeNull();
+  });
+
+  it('resolves stored types, falling back to math for unknown ones', () => {
+    expect(resolvePuzzleType(PuzzleType.MEMORY)).toBe(PuzzleType.MEMORY);
+    expect(resolvePuzzleType(PuzzleType.NONE)).toBe(PuzzleType.NONE);
+    expect(resolvePuzzleType(PuzzleType.BASIC_MATH)).toBe(PuzzleType.MATH);
+    expect(resolvePuzzleType('crossword')).toBe(PuzzleType.MATH);
+    expect(resolvePuzzleType(undefined)).toBe(PuzzleType.MATH);
+  });
+});
+
+describe('puzzle sessions', () => {
+  it('needs a streak of correct answers on harder difficulties', () => {
+    const random = seededRandom(11);
+    let session = startPuzzleSession(PuzzleType.MATH, PuzzleDifficulty.BRUTAL, { random })!;
+    expect(session.requiredCorrect).toBe(3);
+
+    for (let answered = 1; answered <= 3; answered++) {
+      session = submitPuzzleAnswer(session, String(session.puzzle.state.answer), { random }).session;
+      expect(session.streak).toBe(answered);
+    }
+    expect(session.completed).toBe(true);
+  });
+
+  it('resets the streak but keeps the puzzle on a wrong answer', () => {
+    const random = seededRandom(12);
+    const start = startPuzzleSession(PuzzleType.MATH, PuzzleDifficulty.HARD, { random })!;
+    const afterRight = submitPuzzleAnswer(start, String(start.puzzle.state.answer), { random }).session;
+    const afterWrong = submitPuzzleAnswer(afterRight, String(afterRight.puzzle.state.answer + 1), { random }).session;
+
+    expect(afterWrong.streak).toBe(0);
+    expect(afterWrong.puzzle).toBe(afterRight.puzzle);
+    expect(afterWrong.puzzleAttempts).toBe(1);
+    expect(afterWrong.totalAttempts).toBe(2);
+  });
+
+  it('falls back to math when a scan alarm has no codes', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const session = startPuzzleSession(PuzzleType.QR_CODE, PuzzleDifficulty.EASY, { scanCodes: [] });
+
+    expect(session?.type).toBe(PuzzleType.MATH);
+    warn.mockRestore();
+  });
+});
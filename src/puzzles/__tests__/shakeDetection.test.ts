@@ -0,0 +1,47 @@
+import {
+  AccelerometerSample,
+  countShakes,
+  createShakeDetector,
+  processShakeSample,
+} from '../shakeDetection';
+import vigorousShake from './fixtures/vigorousShake.json';
+import tableBuzz from './fixtures/tableBuzz.json';
+
+// Traces at the puzzle's 50 Hz sample rate, in g including gravity:
+// - vigorousShake: held upright, still for 0.5 s, eight side-to-side cycles
+//   of about 2.6 g over 3.2 s, then still again
+// - tableBuzz: lying flat on a table while the phone vibrates in 500 ms
+//   bursts for 4 s, with the odd single-sample spike
+const SHAKE_TRACE: AccelerometerSample[] = vigorousShake;
+const BUZZ_TRACE: AccelerometerSample[] = tableBuzz;
+
+describe('shake detection on sample traces', () => {
+  it('counts a vigorous shake', () => {
+    // The opening stroke from rest is absorbed by the gravity estimate, so the
+    // strokes pair up one later and seven of the eight cycles count
+    expect(countShakes(SHAKE_TRACE)).toBe(7);
+  });
+
+  it('does not count a phone buzzing on a table', () => {
+    expect(countShakes(BUZZ_TRACE)).toBe(0);
+  });
+
+  it('counts the same when samples arrive one at a time', () => {
+    let state = createShakeDetector();
+    const counts: number[] = [];
+    for (const sample of SHAKE_TRACE) {
+      state = processShakeSample(state, sample);
+      counts.push(state.shakeCount);
+    }
+
+    expect(state.shakeCount).toBe(countShakes(SHAKE_TRACE));
+    // Nothing counts while the phone is still held before the shake starts
+    expect(counts.slice(0, 25).every(count => count === 0)).toBe(true);
+  });
+
+  it('counts nothing when shakes come too slowly to reverse in time', () => {
+    const slowed = SHAKE_TRACE.map(sample => ({ ...sample, timestamp: sample.timestamp * 3 }));
+
+    expect(countShakes(slowed)).toBe(0);
+  });
+});
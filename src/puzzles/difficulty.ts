@@ -0,0 +1,57 @@
+// Difficulty levels shared by all puzzle providers
+
+import { PuzzleDifficulty } from '../types';
+
+export const DEFAULT_PUZZLE_DIFFICULTY = PuzzleDifficulty.EASY;
+
+export interface DifficultySettings {
+  label: string;
+  description: string;
+  requiredCorrect: number; // Consecutive correct answers needed before dismissal
+}
+
+export const DIFFICULTY_SETTINGS: Record<PuzzleDifficulty, DifficultySettings> = {
+  [PuzzleDifficulty.EASY]: {
+    label: 'Easy',
+    description: 'One simple question',
+    requiredCorrect: 1,
+  },
+  [PuzzleDifficulty.MEDIUM]: {
+    label: 'Medium',
+    description: 'Three-number chains',
+    requiredCorrect: 1,
+  },
+  [PuzzleDifficulty.HARD]: {
+    label: 'Hard',
+    description: 'Longer chains with division, 2 in a row',
+    requiredCorrect: 2,
+  },
+  [PuzzleDifficulty.BRUTAL]: {
+    label: 'Brutal',
+    description: 'Big numbers, 3 in a row',
+    requiredCorrect: 3,
+  },
+};
+
+/**
+ * Normalize a stored difficulty, falling back to the default for old alarms
+ */
+export const resolvePuzzleDifficulty = (rawDifficulty: unknown): PuzzleDifficulty => {
+  const knownDifficulty = Object.values(PuzzleDifficulty).find(level => level === rawDifficulty);
+  return knownDifficulty || DEFAULT_PUZZLE_DIFFICULTY;
+};
+
+export const getRequiredCorrectCount = (difficulty: PuzzleDifficulty): number => {
+  return DIFFICULTY_SETTINGS[difficulty].requiredCorrect;
+};
+
+/**
+ * Options for alarm editors, ordered from easiest to hardest
+ */
+export const getDifficultyOptions = (): Array<{ value: PuzzleDifficulty; label: string; description: string }> => {
+  return Object.values(PuzzleDifficulty).map(level => ({
+    value: level,
+    label: DIFFICULTY_SETTINGS[level].label,
+    description: DIFFICULTY_SETTINGS[level].description,
+  }));
+};
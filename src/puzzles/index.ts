@@ -0,0 +1,30 @@
+// Puzzle engine public surface
+
+export * from './types';
+export * from './registry';
+export * from './difficulty';
+export * from './puzzleSession';
+export { mathPuzzleProvider, evaluateExpression, formatExpression } from './mathPuzzle';
+export type { MathPuzzleState, MathOperator } from './mathPuzzle';
+export { numberSequencePuzzleProvider } from './numberSequencePuzzle';
+export type { NumberSequencePuzzleState, NumberSequenceRule } from './numberSequencePuzzle';
+export { memoryPuzzleProvider } from './memoryPuzzle';
+export type { MemoryPuzzleState } from './memoryPuzzle';
+export { patternPuzzleProvider } from './patternPuzzle';
+export type { PatternPuzzleState } from './patternPuzzle';
+export { sequencePuzzleProvider } from './sequencePuzzle';
+export type { SequencePuzzleState } from './sequencePuzzle';
+export {
+  shakePuzzleProvider,
+  resolveShakeCount,
+  DEFAULT_SHAKE_COUNT,
+  MIN_SHAKE_COUNT,
+  MAX_SHAKE_COUNT,
+  SHAKE_COUNT_OPTIONS,
+} from './shakePuzzle';
+export type { ShakePuzzleState } from './shakePuzzle';
+export * from './shakeDetection';
+export { qrCodePuzzleProvider } from './qrCodePuzzle';
+export type { QrCodePuzzleState } from './qrCodePuzzle';
+export * from './scanCodes';
+export { encodeIndexAnswer, parseIndexAnswer } from './puzzleUtils';
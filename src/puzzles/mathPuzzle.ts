@@ -0,0 +1,267 @@
+// Math puzzle provider - arithmetic chains that get longer with difficulty
+
+import { PuzzleType, PuzzleDifficulty } from '../types';
+import { PuzzleProvider, PuzzleInstance, PuzzleOptions } from './types';
+import { DEFAULT_PUZZLE_DIFFICULTY } from './difficulty';
+import {
+  randomInt,
+  randomChoice,
+  generatePuzzleId,
+  serializePuzzle,
+  deserializePuzzle,
+} from './puzzleUtils';
+
+export type MathOperator = '+' | '-' | '*' | '/';
+
+export interface MathPuzzleState {
+  expression: string;
+  answer: number;
+  difficulty: PuzzleDifficulty;
+}
+
+interface ChainConfig {
+  termCount: number; // Number of terms joined by + or -
+  maxFactors: number; // Extra factors per term joined by * or /
+  operandRange: [number, number];
+  factorRange: [number, number];
+  allowDivision: boolean;
+}
+
+const CHAIN_CONFIG: Record<Exclude<PuzzleDifficulty, PuzzleDifficulty.EASY>, ChainConfig> = {
+  [PuzzleDifficulty.MEDIUM]: {
+    termCount: 2,
+    maxFactors: 1,
+    operandRange: [2, 20],
+    factorRange: [2, 9],
+    allowDivision: false,
+  },
+  [PuzzleDifficulty.HARD]: {
+    termCount: 3,
+    maxFactors: 1,
+    operandRange: [2, 50],
+    factorRange: [2, 12],
+    allowDivision: true,
+  },
+  [PuzzleDifficulty.BRUTAL]: {
+    termCount: 3,
+    maxFactors: 2,
+    operandRange: [10, 99],
+    factorRange: [3, 15],
+    allowDivision: true,
+  },
+};
+
+const OPERATOR_SYMBOLS: Record<MathOperator, string> = {
+  '+': '+',
+  '-': '-',
+  '*': '×',
+  '/': '÷',
+};
+
+/**
+ * Evaluate a flat token list honouring * and / precedence over + and -.
+ * Division must divide exactly; anything else is a generator bug.
+ */
+export const evaluateExpression = (operands: number[], operators: MathOperator[]): number => {
+  if (operands.length !== operators.length + 1) {
+    throw new Error('Expression must have exactly one more operand than operators');
+  }
+
+  // First pass: collapse multiplication and division into terms
+  const terms: number[] = [operands[0]];
+  const termOperators: MathOperator[] = [];
+
+  operators.forEach((operator, index) => {
+    const operand = operands[index + 1];
+    if (operator === '*') {
+      terms[terms.length - 1] *= operand;
+    } else if (operator === '/') {
+      const dividend = terms[terms.length - 1];
+      if (operand === 0 || dividend % operand !== 0) {
+        throw new Error(`Non-integer division: ${dividend} / ${operand}`);
+      }
+      terms[terms.length - 1] = dividend / operand;
+    } else {
+      terms.push(operand);
+      termOperators.push(operator);
+    }
+  });
+
+  // Second pass: apply addition and subtraction left to right
+  return termOperators.reduce(
+    (total, operator, index) => (operator === '+' ? total + terms[index + 1] : total - terms[index + 1]),
+    terms[0]
+  );
+};
+
+export const formatExpression = (operands: number[], operators: MathOperator[]): string => {
+  return operands.reduce(
+    (text, operand, index) => (index === 0 ? `${operand}` : `${text} ${OPERATOR_SYMBOLS[operators[index - 1]]} ${operand}`),
+    ''
+  );
+};
+
+/**
+ * Original single-operation puzzle with answers between 1 and 100
+ */
+const generateSimpleExpression = (random: () => number): { operands: number[]; operators: MathOperator[] } => {
+  const operation = randomChoice<MathOperator>(random, ['+', '-', '*']);
+  let a: number, b: number;
+
+  switch (operation) {
+    case '+':
+      // Addition: ensure sum is between 1-100
+      a = randomInt(random, 1, 40);
+      b = randomInt(random, 1, 100 - a);
+      break;
+    case '-': {
+      // Subtraction: ensure positive result between 1-100
+      const answer = randomInt(random, 1, 100);
+      b = randomInt(random, 1, answer);
+      a = answer + b;
+      break;
+    }
+    case '*':
+    default:
+      // Multiplication: small numbers to keep result under 100
+      a = randomInt(random, 1, 10);
+      b = randomInt(random, 1, Math.floor(100 / a));
+      break;
+  }
+
+  return { operands: [a, b], operators: [operation] };
+};
+
+/**
+ * Build one multiplicative term, choosing divisors that leave an integer result
+ */
+const generateTerm = (
+  random: () => number,
+  config: ChainConfig,
+  minFactors: number
+): { operands: number[]; operators: MathOperator[] } => {
+  const operands = [randomInt(random, config.operandRange[0], config.operandRange[1])];
+  const operators: MathOperator[] = [];
+  let value = operands[0];
+
+  const factorCount = randomInt(random, minFactors, config.maxFactors);
+  for (let i = 0; i < factorCount; i++) {
+    const divisors: number[] = [];
+    if (config.allowDivision) {
+      for (let d = config.factorRange[0]; d <= config.factorRange[1]; d++) {
+        if (value % d === 0 && value / d > 1) {
+          divisors.push(d);
+        }
+      }
+    }
+
+    if (divisors.length > 0 && random() < 0.5) {
+      const divisor = randomChoice(random, divisors);
+      operands.push(divisor);
+      operators.push('/');
+      value /= divisor;
+    } else {
+      const factor = randomInt(random, config.factorRange[0], config.factorRange[1]);
+      operands.push(factor);
+      operators.push('*');
+      value *= factor;
+    }
+  }
+
+  return { operands, operators };
+};
+
+const generateChainExpression = (
+  random: () => number,
+  config: ChainConfig
+): { operands: number[]; operators: MathOperator[] } => {
+  // At least one term carries a factor so precedence always matters
+  const factorTerm = randomInt(random, 0, config.termCount - 1);
+  const first = generateTerm(random, config, factorTerm === 0 ? 1 : 0);
+  const operands = [...first.operands];
+  const operators = [...first.operators];
+
+  for (let i = 1; i < config.termCount; i++) {
+    const term = generateTerm(random, config, factorTerm === i ? 1 : 0);
+    operators.push(randomChoice<MathOperator>(random, ['+', '-']));
+    operands.push(...term.operands);
+    operators.push(...term.operators);
+  }
+
+  // Keep answers non-negative - nobody wants to type a minus sign half asleep
+  if (evaluateExpression(operands, operators) < 0) {
+    const flipped = operators.map(operator => (operator === '-' ? '+' : operator));
+    return { operands, operators: flipped };
+  }
+
+  return { operands, operators };
+};
+
+export const mathPuzzleProvider: PuzzleProvider<MathPuzzleState> = {
+  type: PuzzleType.MATH,
+  label: 'Math Problem',
+  inputKind: 'numeric',
+
+  generate(options: PuzzleOptions = {}): PuzzleInstance<MathPuzzleState> {
+    const random = options.random ?? Math.random;
+    const difficulty = options.difficulty ?? DEFAULT_PUZZLE_DIFFICULTY;
+
+    const { operands, operators } =
+      difficulty === PuzzleDifficulty.EASY
+        ? generateSimpleExpression(random)
+        : generateChainExpression(random, CHAIN_CONFIG[difficulty]);
+
+    const expression = formatExpression(operands, operators);
+    const state: MathPuzzleState = {
+      expression,
+      answer: evaluateExpression(operands, operators),
+      difficulty,
+    };
+
+    return {
+      id: generatePuzzleId(PuzzleType.MATH),
+      type: PuzzleType.MATH,
+      prompt: `${expression} = ?`,
+      state,
+      createdAt: new Date().toISOString(),
+    };
+  },
+
+  validate(puzzle, answer) {
+    const trimmed = answer.trim();
+    if (!/^-?\d+$/.test(trimmed)) {
+      return { correct: false, message: 'Please enter a whole number' };
+    }
+
+    const correct = parseInt(trimmed, 10) === puzzle.state.answer;
+    return {
+      correct,
+      message: correct ? undefined : 'Incorrect, try again',
+    };
+  },
+
+  getHint(puzzle, attempts) {
+    if (attempts < 3) {
+      return null;
+    }
+
+    const { answer, difficulty } = puzzle.state;
+    if (difficulty !== PuzzleDifficulty.EASY && attempts < 4) {
+      return 'Multiply and divide before adding and subtracting';
+    }
+
+    if (attempts < 5) {
+      const digits = Math.abs(answer).toString().length;
+      return `The answer has ${digits} digit${digits > 1 ? 's' : ''}`;
+    }
+
+    const lower = Math.floor(answer / 10) * 10;
+    return `The answer is between ${lower} and ${lower + 9}`;
+  },
+
+  serialize: serializePuzzle,
+
+  deserialize(raw) {
+    return deserializePuzzle<MathPuzzleState>(raw, PuzzleType.MATH);
+  },
+};
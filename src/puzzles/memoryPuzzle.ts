@@ -0,0 +1,94 @@
+// Memory grid puzzle provider - remember which cells lit up, then tap them
+
+import { PuzzleType, PuzzleDifficulty } from '../types';
+import { PuzzleProvider, PuzzleInstance, PuzzleOptions, GridPuzzleState } from './types';
+import { DEFAULT_PUZZLE_DIFFICULTY } from './difficulty';
+import {
+  shuffle,
+  parseIndexAnswer,
+  generatePuzzleId,
+  serializePuzzle,
+  deserializePuzzle,
+} from './puzzleUtils';
+
+export interface MemoryPuzzleState extends GridPuzzleState {
+  difficulty: PuzzleDifficulty;
+}
+
+interface GridConfig {
+  size: number; // Square grid, size x size
+  litCells: number;
+  revealMs: number;
+}
+
+const GRID_CONFIG: Record<PuzzleDifficulty, GridConfig> = {
+  [PuzzleDifficulty.EASY]: { size: 3, litCells: 3, revealMs: 3000 },
+  [PuzzleDifficulty.MEDIUM]: { size: 4, litCells: 5, revealMs: 3000 },
+  [PuzzleDifficulty.HARD]: { size: 4, litCells: 6, revealMs: 2500 },
+  [PuzzleDifficulty.BRUTAL]: { size: 5, litCells: 8, revealMs: 2000 },
+};
+
+export const memoryPuzzleProvider: PuzzleProvider<MemoryPuzzleState> = {
+  type: PuzzleType.MEMORY,
+  label: 'Memory Grid',
+  inputKind: 'grid',
+
+  generate(options: PuzzleOptions = {}): PuzzleInstance<MemoryPuzzleState> {
+    const random = options.random ?? Math.random;
+    const difficulty = options.difficulty ?? DEFAULT_PUZZLE_DIFFICULTY;
+    const { size, litCells, revealMs } = GRID_CONFIG[difficulty];
+
+    const allCells = Array.from({ length: size * size }, (_, index) => index);
+    const revealedCells = shuffle(random, allCells)
+      .slice(0, litCells)
+      .sort((a, b) => a - b);
+
+    return {
+      id: generatePuzzleId(PuzzleType.MEMORY),
+      type: PuzzleType.MEMORY,
+      prompt: `Tap the ${litCells} squares that lit up`,
+      state: { rows: size, columns: size, revealedCells, revealMs, difficulty },
+      createdAt: new Date().toISOString(),
+    };
+  },
+
+  validate(puzzle, answer) {
+    const tapped = parseIndexAnswer(answer);
+    if (!tapped) {
+      return { correct: false, message: 'Invalid selection' };
+    }
+
+    const { revealedCells } = puzzle.state;
+    const uniqueTapped = Array.from(new Set(tapped));
+    if (uniqueTapped.length !== revealedCells.length) {
+      return { correct: false, message: `Select exactly ${revealedCells.length} squares` };
+    }
+
+    const correct = uniqueTapped.every(cell => revealedCells.includes(cell));
+    return {
+      correct,
+      message: correct ? undefined : 'Wrong squares - watch again',
+    };
+  },
+
+  getHint(puzzle, attempts) {
+    if (attempts < 3) {
+      return null;
+    }
+
+    // Give away one more correct cell every two failed attempts after the third
+    const { revealedCells, columns } = puzzle.state;
+    const revealCount = Math.min(Math.floor((attempts - 3) / 2) + 1, revealedCells.length - 1);
+    const positions = revealedCells
+      .slice(0, revealCount)
+      .map(cell => `row ${Math.floor(cell / columns) + 1}, column ${(cell % columns) + 1}`);
+
+    return `Lit squares include ${positions.join('; ')}`;
+  },
+
+  serialize: serializePuzzle,
+
+  deserialize(raw) {
+    return deserializePuzzle<MemoryPuzzleState>(raw, PuzzleType.MEMORY);
+  },
+};
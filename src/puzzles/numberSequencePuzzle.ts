@@ -0,0 +1,171 @@
+// Number sequence puzzle provider - find the next number in a series
+
+import { PuzzleType, PuzzleDifficulty } from '../types';
+import { PuzzleProvider, PuzzleInstance, PuzzleOptions } from './types';
+import { DEFAULT_PUZZLE_DIFFICULTY } from './difficulty';
+import {
+  randomInt,
+  randomChoice,
+  generatePuzzleId,
+  serializePuzzle,
+  deserializePuzzle,
+} from './puzzleUtils';
+
+export type NumberSequenceRule =
+  | 'arithmetic'
+  | 'geometric'
+  | 'squares'
+  | 'growing_step'
+  | 'fibonacci'
+  | 'alternating';
+
+export interface NumberSequencePuzzleState {
+  terms: number[]; // Numbers shown to the user
+  answer: number;
+  rule: NumberSequenceRule;
+  difficulty: PuzzleDifficulty;
+}
+
+const RULES_BY_DIFFICULTY: Record<PuzzleDifficulty, NumberSequenceRule[]> = {
+  [PuzzleDifficulty.EASY]: ['arithmetic'],
+  [PuzzleDifficulty.MEDIUM]: ['arithmetic', 'geometric', 'squares'],
+  [PuzzleDifficulty.HARD]: ['geometric', 'squares', 'growing_step', 'fibonacci'],
+  [PuzzleDifficulty.BRUTAL]: ['growing_step', 'fibonacci', 'alternating'],
+};
+
+const RULE_HINTS: Record<NumberSequenceRule, string> = {
+  arithmetic: 'The numbers change by the same amount each step',
+  geometric: 'Each number is the previous one multiplied by the same value',
+  squares: 'Look at square numbers (1, 4, 9, 16...)',
+  growing_step: 'The gap between numbers grows by the same amount each step',
+  fibonacci: 'Each number is the sum of the two before it',
+  alternating: 'Two separate series are interleaved - look at every other number',
+};
+
+const SHOWN_TERMS = 5;
+
+/**
+ * Build SHOWN_TERMS + 1 numbers following the rule; the last one is the answer
+ */
+const buildTerms = (random: () => number, rule: NumberSequenceRule, large: boolean): number[] => {
+  const count = SHOWN_TERMS + 1;
+  const terms: number[] = [];
+
+  switch (rule) {
+    case 'arithmetic': {
+      const step = randomInt(random, 2, large ? 25 : 10);
+      const descending = large && random() < 0.5;
+      const start = descending ? step * count + randomInt(random, 1, 20) : randomInt(random, 1, 20);
+      for (let i = 0; i < count; i++) {
+        terms.push(descending ? start - step * i : start + step * i);
+      }
+      break;
+    }
+    case 'geometric': {
+      const ratio = randomInt(random, 2, 3);
+      const start = randomInt(random, 1, large ? 5 : 3);
+      for (let i = 0; i < count; i++) {
+        terms.push(start * Math.pow(ratio, i));
+      }
+      break;
+    }
+    case 'squares': {
+      const offset = randomInt(random, 1, large ? 8 : 4);
+      const shift = large ? randomInt(random, 1, 10) : 0;
+      for (let i = 0; i < count; i++) {
+        terms.push(Math.pow(offset + i, 2) + shift);
+      }
+      break;
+    }
+    case 'growing_step': {
+      let value = randomInt(random, 1, 20);
+      let step = randomInt(random, 1, 5);
+      const growth = randomInt(random, 1, large ? 4 : 2);
+      for (let i = 0; i < count; i++) {
+        terms.push(value);
+        value += step;
+        step += growth;
+      }
+      break;
+    }
+    case 'fibonacci': {
+      terms.push(randomInt(random, 1, large ? 12 : 5), randomInt(random, 1, large ? 12 : 5));
+      while (terms.length < count) {
+        terms.push(terms[terms.length - 1] + terms[terms.length - 2]);
+      }
+      break;
+    }
+    case 'alternating':
+    default: {
+      const startA = randomInt(random, 1, 20);
+      const stepA = randomInt(random, 2, 9);
+      const startB = randomInt(random, 30, 60);
+      const stepB = -randomInt(random, 2, 5);
+      for (let i = 0; i < count; i++) {
+        const round = Math.floor(i / 2);
+        terms.push(i % 2 === 0 ? startA + stepA * round : startB + stepB * round);
+      }
+      break;
+    }
+  }
+
+  return terms;
+};
+
+export const numberSequencePuzzleProvider: PuzzleProvider<NumberSequencePuzzleState> = {
+  type: PuzzleType.NUMBER_SEQUENCE,
+  label: 'Number Sequence',
+  inputKind: 'numeric',
+
+  generate(options: PuzzleOptions = {}): PuzzleInstance<NumberSequencePuzzleState> {
+    const random = options.random ?? Math.random;
+    const difficulty = options.difficulty ?? DEFAULT_PUZZLE_DIFFICULTY;
+    const rule = randomChoice(random, RULES_BY_DIFFICULTY[difficulty]);
+    const large = difficulty === PuzzleDifficulty.HARD || difficulty === PuzzleDifficulty.BRUTAL;
+
+    const allTerms = buildTerms(random, rule, large);
+    const terms = allTerms.slice(0, SHOWN_TERMS);
+    const answer = allTerms[SHOWN_TERMS];
+
+    return {
+      id: generatePuzzleId(PuzzleType.NUMBER_SEQUENCE),
+      type: PuzzleType.NUMBER_SEQUENCE,
+      prompt: `${terms.join(', ')}, ?`,
+      state: { terms, answer, rule, difficulty },
+      createdAt: new Date().toISOString(),
+    };
+  },
+
+  validate(puzzle, answer) {
+    const trimmed = answer.trim();
+    if (!/^-?\d+$/.test(trimmed)) {
+      return { correct: false, message: 'Please enter a whole number' };
+    }
+
+    const correct = parseInt(trimmed, 10) === puzzle.state.answer;
+    return {
+      correct,
+      message: correct ? undefined : 'Not the next number, try again',
+    };
+  },
+
+  getHint(puzzle, attempts) {
+    if (attempts < 3) {
+      return null;
+    }
+
+    if (attempts < 5) {
+      return RULE_HINTS[puzzle.state.rule];
+    }
+
+    const { answer } = puzzle.state;
+    const lower = Math.floor(answer / 10) * 10;
+    return `The answer is between ${lower} and ${lower + 9}`;
+  },
+
+  serialize: serializePuzzle,
+
+  deserialize(raw) {
+    return deserializePuzzle<NumberSequencePuzzleState>(raw, PuzzleType.NUMBER_SEQUENCE);
+  },
+};
@@ -0,0 +1,124 @@
+// Pattern puzzle provider - continue a repeating pattern of symbols
+
+import { PuzzleType, PuzzleDifficulty } from '../types';
+import { PuzzleProvider, PuzzleInstance, PuzzleOptions, SymbolPuzzleState } from './types';
+import { DEFAULT_PUZZLE_DIFFICULTY } from './difficulty';
+import {
+  randomInt,
+  shuffle,
+  parseIndexAnswer,
+  generatePuzzleId,
+  serializePuzzle,
+  deserializePuzzle,
+} from './puzzleUtils';
+
+export interface PatternPuzzleState extends SymbolPuzzleState {
+  shown: string[]; // Visible part of the pattern
+  unitLength: number; // Length of the repeating block
+  answer: number[]; // Palette indices of the missing symbols
+  difficulty: PuzzleDifficulty;
+}
+
+interface PatternConfig {
+  unitLength: number;
+  missing: number; // Symbols the user has to fill in
+  repeatsSymbol: boolean; // Reuse a symbol inside the block (e.g. ▲ ● ▲ ■)
+}
+
+const PATTERN_CONFIG: Record<PuzzleDifficulty, PatternConfig> = {
+  [PuzzleDifficulty.EASY]: { unitLength: 2, missing: 1, repeatsSymbol: false },
+  [PuzzleDifficulty.MEDIUM]: { unitLength: 3, missing: 2, repeatsSymbol: false },
+  [PuzzleDifficulty.HARD]: { unitLength: 4, missing: 2, repeatsSymbol: false },
+  [PuzzleDifficulty.BRUTAL]: { unitLength: 4, missing: 3, repeatsSymbol: true },
+};
+
+const PATTERN_SYMBOLS = ['▲', '●', '■', '◆', '★', '♥'];
+
+/**
+ * Build the repeating block. Blocks are never periodic themselves, so the
+ * shortest repeat is always the full block.
+ */
+const buildUnit = (random: () => number, config: PatternConfig): number[] => {
+  const symbols = shuffle(random, PATTERN_SYMBOLS.map((_, index) => index));
+
+  if (config.repeatsSymbol) {
+    // a b a c ... keeps the block aperiodic as long as b !== c
+    const [a, b, c, ...rest] = symbols;
+    return [a, b, a, c, ...rest].slice(0, config.unitLength);
+  }
+
+  return symbols.slice(0, config.unitLength);
+};
+
+export const patternPuzzleProvider: PuzzleProvider<PatternPuzzleState> = {
+  type: PuzzleType.PATTERN,
+  label: 'Pattern',
+  inputKind: 'symbols',
+
+  generate(options: PuzzleOptions = {}): PuzzleInstance<PatternPuzzleState> {
+    const random = options.random ?? Math.random;
+    const difficulty = options.difficulty ?? DEFAULT_PUZZLE_DIFFICULTY;
+    const config = PATTERN_CONFIG[difficulty];
+    const unit = buildUnit(random, config);
+
+    // Show at least two full blocks, starting at a random point in the block
+    const offset = randomInt(random, 0, config.unitLength - 1);
+    const shownLength = config.unitLength * 2 + randomInt(random, 0, config.unitLength - 1);
+    const sequence = Array.from(
+      { length: shownLength + config.missing },
+      (_, index) => unit[(offset + index) % config.unitLength]
+    );
+
+    const shown = sequence.slice(0, shownLength).map(index => PATTERN_SYMBOLS[index]);
+    const answer = sequence.slice(shownLength);
+
+    return {
+      id: generatePuzzleId(PuzzleType.PATTERN),
+      type: PuzzleType.PATTERN,
+      prompt: [...shown, ...answer.map(() => '?')].join(' '),
+      state: {
+        palette: PATTERN_SYMBOLS,
+        answerLength: config.missing,
+        shown,
+        unitLength: config.unitLength,
+        answer,
+        difficulty,
+      },
+      createdAt: new Date().toISOString(),
+    };
+  },
+
+  validate(puzzle, answer) {
+    const selected = parseIndexAnswer(answer);
+    const { answer: expected } = puzzle.state;
+
+    if (!selected || selected.length !== expected.length) {
+      return { correct: false, message: `Pick ${expected.length} symbol${expected.length > 1 ? 's' : ''}` };
+    }
+
+    const correct = selected.every((index, position) => index === expected[position]);
+    return {
+      correct,
+      message: correct ? undefined : 'That does not continue the pattern',
+    };
+  },
+
+  getHint(puzzle, attempts) {
+    if (attempts < 3) {
+      return null;
+    }
+
+    const { unitLength, answer, palette } = puzzle.state;
+    if (attempts < 5) {
+      return `The pattern repeats every ${unitLength} symbols`;
+    }
+
+    return `The next symbol is ${palette[answer[0]]}`;
+  },
+
+  serialize: serializePuzzle,
+
+  deserialize(raw) {
+    return deserializePuzzle<PatternPuzzleState>(raw, PuzzleType.PATTERN);
+  },
+};
@@ -0,0 +1,117 @@
+// Puzzle session - tracks consecutive correct answers across a chain of puzzles
+
+import { PuzzleType, PuzzleDifficulty } from '../types';
+import { PuzzleInstance, PuzzleOptions, PuzzleValidationResult } from './types';
+import { createPuzzle, getPuzzleProvider, puzzleSupportsDifficulty } from './registry';
+import { DEFAULT_PUZZLE_DIFFICULTY, getRequiredCorrectCount } from './difficulty';
+
+export interface PuzzleSession {
+  type: PuzzleType;
+  difficulty: PuzzleDifficulty;
+  requiredCorrect: number;
+  streak: number; // Consecutive correct answers so far
+  puzzle: PuzzleInstance<any>;
+  puzzleAttempts: number; // Attempts on the current puzzle (drives hints)
+  totalAttempts: number;
+  completed: boolean;
+}
+
+export interface PuzzleSubmission {
+  session: PuzzleSession;
+  result: PuzzleValidationResult;
+}
+
+/**
+ * Start a session for an alarm, or null when the puzzle type needs no solving
+ */
+export const startPuzzleSession = (
+  requestedType: PuzzleType,
+  difficulty: PuzzleDifficulty = DEFAULT_PUZZLE_DIFFICULTY,
+  options: PuzzleOptions = {}
+): PuzzleSession | null => {
+  // e.g. a scan challenge whose alarm has no codes left - never leave the user stuck
+  const provider = getPuzzleProvider(requestedType);
+  const type =
+    provider?.canGenerate && !provider.canGenerate(options) ? PuzzleType.MATH : requestedType;
+  if (type !== requestedType) {
+    console.warn(`⚠️ [PuzzleSession] Cannot build a ${requestedType} puzzle, falling back to ${type}`);
+  }
+
+  const puzzle = createPuzzle(type, { ...options, difficulty });
+  if (!puzzle) {
+    return null;
+  }
+
+  return {
+    type,
+    difficulty,
+    requiredCorrect: puzzleSupportsDifficulty(type) ? getRequiredCorrectCount(difficulty) : 1,
+    streak: 0,
+    puzzle,
+    puzzleAttempts: 0,
+    totalAttempts: 0,
+    completed: false,
+  };
+};
+
+/**
+ * Validate an answer and advance the session.
+ * A correct answer moves on to a fresh puzzle until the streak target is met;
+ * a wrong answer resets the streak but keeps the current puzzle so hints can build up.
+ */
+export const submitPuzzleAnswer = (
+  session: PuzzleSession,
+  answer: string,
+  options: PuzzleOptions = {}
+): PuzzleSubmission => {
+  const provider = getPuzzleProvider(session.type);
+  if (!provider) {
+    throw new Error(`No puzzle provider registered for type: ${session.type}`);
+  }
+
+  if (session.completed) {
+    return { session, result: { correct: true } };
+  }
+
+  const result = provider.validate(session.puzzle, answer);
+  const totalAttempts = session.totalAttempts + 1;
+
+  if (!result.correct) {
+    return {
+      session: {
+        ...session,
+        streak: 0,
+        puzzleAttempts: session.puzzleAttempts + 1,
+        totalAttempts,
+      },
+      result,
+    };
+  }
+
+  const streak = session.streak + 1;
+  if (streak >= session.requiredCorrect) {
+    return {
+      session: { ...session, streak, totalAttempts, completed: true },
+      result,
+    };
+  }
+
+  return {
+    session: {
+      ...session,
+      streak,
+      puzzle: provider.generate({ ...options, difficulty: session.difficulty }),
+      puzzleAttempts: 0,
+      totalAttempts,
+    },
+    result,
+  };
+};
+
+/**
+ * Hint for the session's current puzzle, if any
+ */
+export const getSessionHint = (session: PuzzleSession): string | null => {
+  const provider = getPuzzleProvider(session.type);
+  return provider ? provider.getHint(session.puzzle, session.puzzleAttempts) : null;
+};
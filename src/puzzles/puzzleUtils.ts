@@ -0,0 +1,78 @@
+// Shared helpers for puzzle providers
+
+import { PuzzleType } from '../types';
+import { PuzzleInstance } from './types';
+
+/**
+ * Random integer between min and max (both inclusive)
+ */
+export const randomInt = (random: () => number, min: number, max: number): number => {
+  return Math.floor(random() * (max - min + 1)) + min;
+};
+
+/**
+ * Pick a random element from a non-empty array
+ */
+export const randomChoice = <T>(random: () => number, items: readonly T[]): T => {
+  return items[Math.floor(random() * items.length)];
+};
+
+/**
+ * Shuffle a copy of an array (Fisher-Yates)
+ */
+export const shuffle = <T>(random: () => number, items: readonly T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Encode tapped indices (grid cells or palette entries) as an answer string
+ */
+export const encodeIndexAnswer = (indices: number[]): string => {
+  return indices.join(',');
+};
+
+/**
+ * Parse an answer produced by encodeIndexAnswer(), or null if it is malformed
+ */
+export const parseIndexAnswer = (answer: string): number[] | null => {
+  const trimmed = answer.trim();
+  if (trimmed === '') {
+    return [];
+  }
+
+  const parts = trimmed.split(',');
+  if (!parts.every(part => /^\d+$/.test(part.trim()))) {
+    return null;
+  }
+
+  return parts.map(part => parseInt(part, 10));
+};
+
+export const generatePuzzleId = (type: PuzzleType): string => {
+  return `puzzle_${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Default JSON serialization shared by providers whose state is plain data
+ */
+export const serializePuzzle = <TState>(puzzle: PuzzleInstance<TState>): string => {
+  return JSON.stringify(puzzle);
+};
+
+export const deserializePuzzle = <TState>(
+  raw: string,
+  expectedType: PuzzleType
+): PuzzleInstance<TState> => {
+  const parsed = JSON.parse(raw);
+
+  if (!parsed || parsed.type !== expectedType || typeof parsed.prompt !== 'string') {
+    throw new Error(`Serialized puzzle is not a valid ${expectedType} puzzle`);
+  }
+
+  return parsed as PuzzleInstance<TState>;
+};
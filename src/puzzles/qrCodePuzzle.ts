@@ -0,0 +1,55 @@
+// QR/barcode challenge provider - scan a registered code to prove you're out of bed
+
+import { PuzzleType, ScanCode } from '../types';
+import { PuzzleProvider, PuzzleInstance, PuzzleOptions } from './types';
+import { findMatchingCode, resolveScanCodes } from './scanCodes';
+import { generatePuzzleId, serializePuzzle, deserializePuzzle } from './puzzleUtils';
+
+export interface QrCodePuzzleState {
+  codes: ScanCode[]; // Any one of these dismisses the alarm
+}
+
+export const qrCodePuzzleProvider: PuzzleProvider<QrCodePuzzleState> = {
+  type: PuzzleType.QR_CODE,
+  label: 'Scan Code',
+  inputKind: 'scan',
+  supportsDifficulty: false,
+
+  canGenerate(options: PuzzleOptions = {}) {
+    return resolveScanCodes(options.scanCodes).length > 0;
+  },
+
+  generate(options: PuzzleOptions = {}): PuzzleInstance<QrCodePuzzleState> {
+    const codes = resolveScanCodes(options.scanCodes);
+    if (codes.length === 0) {
+      throw new Error('QR code puzzle requires at least one registered code');
+    }
+
+    const labels = codes.map(code => code.label);
+    return {
+      id: generatePuzzleId(PuzzleType.QR_CODE),
+      type: PuzzleType.QR_CODE,
+      prompt: labels.length === 1 ? `Scan the code on: ${labels[0]}` : `Scan one of: ${labels.join(', ')}`,
+      state: { codes },
+      createdAt: new Date().toISOString(),
+    };
+  },
+
+  validate(puzzle, answer) {
+    const match = findMatchingCode(answer, puzzle.state.codes);
+    return {
+      correct: !!match,
+      message: match ? undefined : "That's not one of this alarm's codes",
+    };
+  },
+
+  getHint() {
+    return null; // The prompt already names every accepted code
+  },
+
+  serialize: serializePuzzle,
+
+  deserialize(raw) {
+    return deserializePuzzle<QrCodePuzzleState>(raw, PuzzleType.QR_CODE);
+  },
+};
@@ -0,0 +1,121 @@
+// Puzzle registry - maps each PuzzleType to the provider that implements it
+
+import { PuzzleType } from '../types';
+import { PuzzleProvider, PuzzleInstance, PuzzleOptions } from './types';
+import { mathPuzzleProvider } from './mathPuzzle';
+import { numberSequencePuzzleProvider } from './numberSequencePuzzle';
+import { memoryPuzzleProvider } from './memoryPuzzle';
+import { patternPuzzleProvider } from './patternPuzzle';
+import { sequencePuzzleProvider } from './sequencePuzzle';
+import { shakePuzzleProvider } from './shakePuzzle';
+import { qrCodePuzzleProvider } from './qrCodePuzzle';
+
+const providers = new Map<PuzzleType, PuzzleProvider<any>>();
+
+/**
+ * Register (or replace) the provider for a puzzle type
+ */
+export const registerPuzzleProvider = (provider: PuzzleProvider<any>): void => {
+  providers.set(provider.type, provider);
+};
+
+/**
+ * Get the provider for a puzzle type, or null if none is registered
+ */
+export const getPuzzleProvider = (type: PuzzleType): PuzzleProvider<any> | null => {
+  return providers.get(type) || null;
+};
+
+export const hasPuzzleProvider = (type: PuzzleType): boolean => {
+  return providers.has(type);
+};
+
+/**
+ * Whether alarms using this puzzle type can pick a difficulty
+ */
+export const puzzleSupportsDifficulty = (type: PuzzleType): boolean => {
+  const provider = providers.get(type);
+  return !!provider && provider.supportsDifficulty !== false;
+};
+
+/**
+ * All puzzle types that can currently be generated, in registration order
+ */
+export const getRegisteredPuzzleTypes = (): PuzzleType[] => {
+  return Array.from(providers.keys());
+};
+
+/**
+ * Options for alarm editors: "No Puzzle" followed by every registered provider
+ */
+export const getPuzzleOptions = (): Array<{ value: PuzzleType; label: string }> => {
+  return [
+    { value: PuzzleType.NONE, label: 'No Puzzle' },
+    ...Array.from(providers.values()).map(provider => ({
+      value: provider.type,
+      label: provider.label,
+    })),
+  ];
+};
+
+/**
+ * Normalize a stored or notification-supplied puzzle type.
+ * Unknown values fall back to math so an alarm is never dismissable by accident.
+ */
+export const resolvePuzzleType = (rawType: unknown): PuzzleType => {
+  if (rawType === PuzzleType.NONE) {
+    return PuzzleType.NONE;
+  }
+
+  if (rawType === PuzzleType.BASIC_MATH) {
+    return PuzzleType.MATH; // Legacy support
+  }
+
+  const knownType = Object.values(PuzzleType).find(type => type === rawType);
+  if (knownType && providers.has(knownType)) {
+    return knownType;
+  }
+
+  return PuzzleType.MATH;
+};
+
+/**
+ * Generate a puzzle for the given type, or null when no puzzle is required
+ */
+export const createPuzzle = (
+  type: PuzzleType,
+  options?: PuzzleOptions
+): PuzzleInstance<any> | null => {
+  if (type === PuzzleType.NONE) {
+    return null;
+  }
+
+  const provider = getPuzzleProvider(type);
+  if (!provider) {
+    throw new Error(`No puzzle provider registered for type: ${type}`);
+  }
+
+  return provider.generate(options);
+};
+
+/**
+ * Restore a serialized puzzle using the provider named in its payload
+ */
+export const restorePuzzle = (raw: string): PuzzleInstance<any> => {
+  const { type } = JSON.parse(raw);
+  const provider = getPuzzleProvider(type);
+  if (!provider) {
+    throw new Error(`No puzzle provider registered for type: ${type}`);
+  }
+
+  return provider.deserialize(raw);
+};
+
+// Built-in providers
+registerPuzzleProvider(mathPuzzleProvider);
+registerPuzzleProvider(numberSequencePuzzleProvider);
+registerPuzzleProvider(memoryPuzzleProvider);
+registerPuzzleProvider(patternPuzzleProvider);
+registerPuzzleProvider(sequencePuzzleProvider);
+registerPuzzleProvider(shakePuzzleProvider);
+registerPuzzleProvider(qrCodePuzzleProvider);
@@ -0,0 +1,98 @@
+// Registration and matching for QR/barcode dismissal codes
+// Works on decoded strings only - the camera lives in the UI layer
+
+import { ScanCode } from '../types';
+
+export const MAX_SCAN_CODE_LABEL_LENGTH = 40;
+
+/**
+ * Canonical form used for comparisons.
+ * Strips whitespace/control characters and treats a 13-digit EAN with a leading
+ * zero as the matching 12-digit UPC-A, since scanners report either form.
+ */
+export const normalizeCodeValue = (raw: string): string => {
+  const cleaned = raw.replace(/[\u0000-\u001F\u007F]/g, '').trim();
+
+  if (/^0\d{12}$/.test(cleaned)) {
+    return cleaned.slice(1);
+  }
+
+  return cleaned;
+};
+
+export const codesMatch = (scanned: string, registered: string): boolean => {
+  const normalized = normalizeCodeValue(scanned);
+  return normalized !== '' && normalized === normalizeCodeValue(registered);
+};
+
+/**
+ * Find the registered code matching a scan, or null
+ */
+export const findMatchingCode = (scanned: string, codes: ScanCode[]): ScanCode | null => {
+  return codes.find(code => codesMatch(scanned, code.value)) || null;
+};
+
+/**
+ * Validate a code before registering it. Returns a list of error messages.
+ */
+export const validateScanCode = (
+  label: string,
+  value: string,
+  existingCodes: ScanCode[] = []
+): string[] => {
+  const errors: string[] = [];
+
+  if (label.trim() === '') {
+    errors.push('Label is required');
+  } else if (label.trim().length > MAX_SCAN_CODE_LABEL_LENGTH) {
+    errors.push(`Label must be ${MAX_SCAN_CODE_LABEL_LENGTH} characters or less`);
+  }
+
+  if (normalizeCodeValue(value) === '') {
+    errors.push('Code is empty');
+  } else {
+    const duplicate = findMatchingCode(value, existingCodes);
+    if (duplicate) {
+      errors.push(`This code is already registered as "${duplicate.label}"`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Build a new code entry. Throws with the validation messages if it is invalid.
+ */
+export const createScanCode = (
+  label: string,
+  value: string,
+  format?: string,
+  existingCodes: ScanCode[] = []
+): ScanCode => {
+  const errors = validateScanCode(label, value, existingCodes);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  return {
+    id: `code_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    label: label.trim(),
+    value: normalizeCodeValue(value),
+    format,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Codes from an alarm that are still valid entries (drops malformed stored data)
+ */
+export const resolveScanCodes = (rawCodes: unknown): ScanCode[] => {
+  if (!Array.isArray(rawCodes)) {
+    return [];
+  }
+
+  return rawCodes.filter(
+    (code): code is ScanCode =>
+      !!code && typeof code.value === 'string' && typeof code.label === 'string' && normalizeCodeValue(code.value) !== ''
+  );
+};
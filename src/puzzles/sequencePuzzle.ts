@@ -0,0 +1,101 @@
+// Sequence puzzle provider - watch a sequence of colours, then repeat it in order
+
+import { PuzzleType, PuzzleDifficulty } from '../types';
+import { PuzzleProvider, PuzzleInstance, PuzzleOptions, SymbolPuzzleState } from './types';
+import { DEFAULT_PUZZLE_DIFFICULTY } from './difficulty';
+import {
+  randomInt,
+  parseIndexAnswer,
+  generatePuzzleId,
+  serializePuzzle,
+  deserializePuzzle,
+} from './puzzleUtils';
+
+export interface SequencePuzzleState extends SymbolPuzzleState {
+  sequence: number[]; // Palette indices in the order they were shown
+  difficulty: PuzzleDifficulty;
+}
+
+interface SequenceConfig {
+  length: number;
+  paletteSize: number;
+  msPerSymbol: number;
+}
+
+const SEQUENCE_CONFIG: Record<PuzzleDifficulty, SequenceConfig> = {
+  [PuzzleDifficulty.EASY]: { length: 4, paletteSize: 4, msPerSymbol: 900 },
+  [PuzzleDifficulty.MEDIUM]: { length: 5, paletteSize: 4, msPerSymbol: 800 },
+  [PuzzleDifficulty.HARD]: { length: 6, paletteSize: 5, msPerSymbol: 700 },
+  [PuzzleDifficulty.BRUTAL]: { length: 8, paletteSize: 6, msPerSymbol: 600 },
+};
+
+const SEQUENCE_COLORS = ['🔴', '🟢', '🔵', '🟡', '🟣', '🟠'];
+
+export const sequencePuzzleProvider: PuzzleProvider<SequencePuzzleState> = {
+  type: PuzzleType.SEQUENCE,
+  label: 'Color Sequence',
+  inputKind: 'symbols',
+
+  generate(options: PuzzleOptions = {}): PuzzleInstance<SequencePuzzleState> {
+    const random = options.random ?? Math.random;
+    const difficulty = options.difficulty ?? DEFAULT_PUZZLE_DIFFICULTY;
+    const { length, paletteSize, msPerSymbol } = SEQUENCE_CONFIG[difficulty];
+    const palette = SEQUENCE_COLORS.slice(0, paletteSize);
+
+    // Avoid the same colour twice in a row - it's hard to see during the reveal
+    const sequence: number[] = [];
+    while (sequence.length < length) {
+      const next = randomInt(random, 0, paletteSize - 1);
+      if (next !== sequence[sequence.length - 1]) {
+        sequence.push(next);
+      }
+    }
+
+    return {
+      id: generatePuzzleId(PuzzleType.SEQUENCE),
+      type: PuzzleType.SEQUENCE,
+      prompt: `Repeat the ${length} colors in order`,
+      state: {
+        palette,
+        answerLength: length,
+        revealSymbols: sequence.map(index => palette[index]),
+        revealMs: msPerSymbol * length,
+        sequence,
+        difficulty,
+      },
+      createdAt: new Date().toISOString(),
+    };
+  },
+
+  validate(puzzle, answer) {
+    const selected = parseIndexAnswer(answer);
+    const { sequence } = puzzle.state;
+
+    if (!selected || selected.length !== sequence.length) {
+      return { correct: false, message: `Tap exactly ${sequence.length} colors` };
+    }
+
+    const correct = selected.every((index, position) => index === sequence[position]);
+    return {
+      correct,
+      message: correct ? undefined : 'Wrong order - watch again',
+    };
+  },
+
+  getHint(puzzle, attempts) {
+    if (attempts < 3) {
+      return null;
+    }
+
+    // Reveal one more leading colour for every failed attempt after the second
+    const { sequence, palette } = puzzle.state;
+    const revealCount = Math.min(attempts - 2, sequence.length - 1);
+    return `It starts with ${sequence.slice(0, revealCount).map(index => palette[index]).join(' ')}`;
+  },
+
+  serialize: serializePuzzle,
+
+  deserialize(raw) {
+    return deserializePuzzle<SequencePuzzleState>(raw, PuzzleType.SEQUENCE);
+  },
+};
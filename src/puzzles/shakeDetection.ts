@@ -0,0 +1,154 @@
+// Shake detection over accelerometer samples
+// Pure functions so recorded traces can be replayed offline
+
+export interface AccelerometerSample {
+  x: number; // In g, including gravity (as reported by expo-sensors)
+  y: number;
+  z: number;
+  timestamp: number; // Milliseconds
+}
+
+export interface ShakeDetectionConfig {
+  gravityAlpha: number; // Low-pass factor used to estimate gravity (0-1, higher = slower)
+  threshold: number; // Minimum linear acceleration (g) for a sample to count towards a peak
+  minPeakSamples: number; // Consecutive same-direction samples needed for a peak
+  maxReversalMs: number; // A peak must be answered by an opposite peak within this window
+  minShakeIntervalMs: number; // Debounce between counted shakes
+}
+
+export const DEFAULT_SHAKE_DETECTION_CONFIG: ShakeDetectionConfig = {
+  gravityAlpha: 0.8,
+  threshold: 1.2,
+  minPeakSamples: 3,
+  maxReversalMs: 400,
+  minShakeIntervalMs: 250,
+};
+
+interface Vector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface Peak {
+  direction: Vector;
+  timestamp: number;
+}
+
+export interface ShakeDetectorState {
+  gravity: Vector | null;
+  runLength: number; // Samples in the peak currently being built
+  runDirection: Vector | null; // Summed acceleration of the current peak
+  lastPeak: Peak | null; // Previous peak still waiting for its reversal
+  lastShakeAt: number | null;
+  shakeCount: number;
+}
+
+const dot = (a: Vector, b: Vector): number => a.x * b.x + a.y * b.y + a.z * b.z;
+
+const magnitude = (v: Vector): number => Math.sqrt(dot(v, v));
+
+export const createShakeDetector = (): ShakeDetectorState => ({
+  gravity: null,
+  runLength: 0,
+  runDirection: null,
+  lastPeak: null,
+  lastShakeAt: null,
+  shakeCount: 0,
+});
+
+/**
+ * Close the current peak (if it was long enough) and count a shake when it
+ * reverses the direction of the previous peak.
+ */
+const closePeak = (
+  state: ShakeDetectorState,
+  timestamp: number,
+  config: ShakeDetectionConfig
+): ShakeDetectorState => {
+  const closed = { ...state, runLength: 0, runDirection: null };
+  if (state.runLength < config.minPeakSamples || !state.runDirection) {
+    return closed;
+  }
+
+  const peak: Peak = { direction: state.runDirection, timestamp };
+  const { lastPeak, lastShakeAt } = state;
+
+  const isReversal =
+    !!lastPeak &&
+    timestamp - lastPeak.timestamp <= config.maxReversalMs &&
+    dot(peak.direction, lastPeak.direction) < 0;
+  const debounced = lastShakeAt === null || timestamp - lastShakeAt >= config.minShakeIntervalMs;
+
+  if (isReversal && debounced) {
+    return { ...closed, lastPeak: null, lastShakeAt: timestamp, shakeCount: state.shakeCount + 1 };
+  }
+
+  return { ...closed, lastPeak: peak };
+};
+
+/**
+ * Feed one sample into the detector.
+ *
+ * A shake is a strong push in one direction followed quickly by a strong push
+ * back. Each push must last several samples and keep a consistent direction,
+ * which rejects a phone buzzing on a vibrating table: those readings are small,
+ * flip direction sample to sample and never build a sustained peak.
+ */
+export const processShakeSample = (
+  state: ShakeDetectorState,
+  sample: AccelerometerSample,
+  config: ShakeDetectionConfig = DEFAULT_SHAKE_DETECTION_CONFIG
+): ShakeDetectorState => {
+  if (!state.gravity) {
+    return { ...state, gravity: { x: sample.x, y: sample.y, z: sample.z } };
+  }
+
+  const alpha = config.gravityAlpha;
+  const gravity: Vector = {
+    x: alpha * state.gravity.x + (1 - alpha) * sample.x,
+    y: alpha * state.gravity.y + (1 - alpha) * sample.y,
+    z: alpha * state.gravity.z + (1 - alpha) * sample.z,
+  };
+  const linear: Vector = {
+    x: sample.x - gravity.x,
+    y: sample.y - gravity.y,
+    z: sample.z - gravity.z,
+  };
+
+  const current = { ...state, gravity };
+
+  if (magnitude(linear) < config.threshold) {
+    return current.runLength > 0 ? closePeak(current, sample.timestamp, config) : current;
+  }
+
+  // A sample pointing away from the running peak ends it and starts a new one
+  if (current.runDirection && dot(current.runDirection, linear) <= 0) {
+    const closed = closePeak(current, sample.timestamp, config);
+    return { ...closed, runLength: 1, runDirection: linear };
+  }
+
+  const runDirection = current.runDirection
+    ? {
+        x: current.runDirection.x + linear.x,
+        y: current.runDirection.y + linear.y,
+        z: current.runDirection.z + linear.z,
+      }
+    : linear;
+
+  return { ...current, runLength: current.runLength + 1, runDirection };
+};
+
+/**
+ * Count shakes in a recorded trace
+ */
+export const countShakes = (
+  samples: AccelerometerSample[],
+  config: ShakeDetectionConfig = DEFAULT_SHAKE_DETECTION_CONFIG
+): number => {
+  const finalState = samples.reduce(
+    (state, sample) => processShakeSample(state, sample, config),
+    createShakeDetector()
+  );
+  return finalState.shakeCount;
+};
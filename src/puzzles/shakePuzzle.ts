@@ -0,0 +1,63 @@
+// Shake challenge provider - shake the phone N times to dismiss
+// Shakes are counted by the UI with shakeDetection.ts; validation only checks the count
+
+import { PuzzleType } from '../types';
+import { PuzzleProvider, PuzzleInstance, PuzzleOptions } from './types';
+import { generatePuzzleId, serializePuzzle, deserializePuzzle } from './puzzleUtils';
+
+export interface ShakePuzzleState {
+  requiredShakes: number;
+}
+
+export const DEFAULT_SHAKE_COUNT = 20;
+export const MIN_SHAKE_COUNT = 5;
+export const MAX_SHAKE_COUNT = 100;
+export const SHAKE_COUNT_OPTIONS = [10, 20, 30, 50];
+
+/**
+ * Normalize a stored shake count, clamping it to the supported range
+ */
+export const resolveShakeCount = (rawCount: unknown): number => {
+  if (typeof rawCount !== 'number' || !Number.isFinite(rawCount)) {
+    return DEFAULT_SHAKE_COUNT;
+  }
+  return Math.min(MAX_SHAKE_COUNT, Math.max(MIN_SHAKE_COUNT, Math.round(rawCount)));
+};
+
+export const shakePuzzleProvider: PuzzleProvider<ShakePuzzleState> = {
+  type: PuzzleType.SHAKE,
+  label: 'Shake Phone',
+  inputKind: 'shake',
+  supportsDifficulty: false,
+
+  generate(options: PuzzleOptions = {}): PuzzleInstance<ShakePuzzleState> {
+    const requiredShakes = resolveShakeCount(options.shakeCount);
+
+    return {
+      id: generatePuzzleId(PuzzleType.SHAKE),
+      type: PuzzleType.SHAKE,
+      prompt: `Shake your phone ${requiredShakes} times`,
+      state: { requiredShakes },
+      createdAt: new Date().toISOString(),
+    };
+  },
+
+  validate(puzzle, answer) {
+    const count = parseInt(answer.trim(), 10);
+    const correct = !isNaN(count) && count >= puzzle.state.requiredShakes;
+    return {
+      correct,
+      message: correct ? undefined : 'Keep shaking!',
+    };
+  },
+
+  getHint() {
+    return null; // The progress meter is feedback enough
+  },
+
+  serialize: serializePuzzle,
+
+  deserialize(raw) {
+    return deserializePuzzle<ShakePuzzleState>(raw, PuzzleType.SHAKE);
+  },
+};
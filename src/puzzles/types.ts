@@ -0,0 +1,95 @@
+// Core types for the pluggable puzzle engine
+// Nothing in this folder may import react-native so it stays testable in plain Node
+
+import { PuzzleType, PuzzleDifficulty, ScanCode } from '../types';
+
+/**
+ * Options passed to a provider when generating a new puzzle
+ */
+export interface PuzzleOptions {
+  random?: () => number; // Injectable RNG (defaults to Math.random)
+  difficulty?: PuzzleDifficulty; // Providers without difficulty levels ignore this
+  shakeCount?: number; // Only used by the shake challenge
+  scanCodes?: ScanCode[]; // Only used by the QR/barcode challenge
+}
+
+/**
+ * A generated puzzle, including the provider-specific state needed to validate it
+ */
+export interface PuzzleInstance<TState = unknown> {
+  id: string;
+  type: PuzzleType;
+  prompt: string; // Text shown to the user (e.g. "12 + 7 = ?")
+  state: TState;
+  createdAt: string; // ISO date string
+}
+
+export interface PuzzleValidationResult {
+  correct: boolean;
+  message?: string;
+}
+
+/**
+ * How the shared puzzle UI should collect an answer for this provider
+ */
+export type PuzzleInputKind = 'numeric' | 'text' | 'grid' | 'symbols' | 'shake' | 'scan';
+
+/**
+ * State shape required by providers using the 'grid' input.
+ * The answer is the tapped cell indices, encoded with encodeIndexAnswer().
+ */
+export interface GridPuzzleState {
+  rows: number;
+  columns: number;
+  revealedCells: number[]; // Cells lit up during the reveal, row-major indices
+  revealMs: number; // How long the cells stay visible before input starts
+}
+
+/**
+ * State shape required by providers using the 'symbols' input.
+ * The user taps palette entries in order; the answer is their palette indices.
+ */
+export interface SymbolPuzzleState {
+  palette: string[];
+  answerLength: number;
+  revealSymbols?: string[]; // Shown instead of the prompt before input starts
+  revealMs?: number;
+}
+
+export interface PuzzleProvider<TState = unknown> {
+  type: PuzzleType;
+  label: string; // Display name used in pickers
+  inputKind: PuzzleInputKind;
+  supportsDifficulty?: boolean; // Defaults to true; false hides the difficulty picker and streaks
+
+  /**
+   * Whether a solvable puzzle can be built from these options (defaults to true).
+   * Sessions fall back to math when this returns false.
+   */
+  canGenerate?(options?: PuzzleOptions): boolean;
+
+  /**
+   * Create a new puzzle instance
+   */
+  generate(options?: PuzzleOptions): PuzzleInstance<TState>;
+
+  /**
+   * Check a user-provided answer against the puzzle
+   */
+  validate(puzzle: PuzzleInstance<TState>, answer: string): PuzzleValidationResult;
+
+  /**
+   * Hint text for the current attempt count, or null if no hint should be shown yet
+   */
+  getHint(puzzle: PuzzleInstance<TState>, attempts: number): string | null;
+
+  /**
+   * Convert a puzzle to a string so it survives app restarts
+   */
+  serialize(puzzle: PuzzleInstance<TState>): string;
+
+  /**
+   * Restore a puzzle previously produced by serialize()
+   */
+  deserialize(raw: string): PuzzleInstance<TState>;
+}
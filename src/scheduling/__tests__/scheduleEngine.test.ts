@@ -0,0 +1,226 @@
+import { SkipRange, SkipReason, WeekDay } from '../../types';
+import {
+  SchedulableAlarm,
+  createScheduleContext,
+  getActiveOccurrence,
+  getEndTime,
+  getNextAlarm,
+  getNextRing,
+  getPastOccurrences,
+  getUpcomingOccurrences,
+} from '../scheduleEngine';
+
+const EVERY_DAY = [
+  WeekDay.SUNDAY,
+  WeekDay.MONDAY,
+  WeekDay.TUESDAY,
+  WeekDay.WEDNESDAY,
+  WeekDay.THURSDAY,
+  WeekDay.FRIDAY,
+  WeekDay.SATURDAY,
+];
+
+const NEW_YORK = 'America/New_York';
+
+const contextAt = (iso: string, timeZone = 'UTC', skipRanges: SkipRange[] = []) =>
+  createScheduleContext({ clock: () => new Date(iso), timeZone, skipRanges });
+
+const dailyAlarm = (overrides: Partial<SchedulableAlarm> = {}): SchedulableAlarm => ({
+  id: 'alarm-1',
+  time: '07:00',
+  repeatDays: EVERY_DAY,
+  isEnabled: true,
+  ...overrides,
+});
+
+describe('end times across midnight', () => {
+  const lateAlarm = dailyAlarm({ time: '23:00', endTime: '01:00' });
+
+  it('closes the window on the following day', () => {
+    const { next } = getNextRing(lateAlarm, contextAt('2026-06-10T12:00:00Z'));
+
+    expect(next?.start.toISOString()).toBe('2026-06-10T23:00:00.000Z');
+    expect(next?.end?.toISOString()).toBe('2026-06-11T01:00:00.000Z');
+    expect(next?.date).toBe('2026-06-10');
+  });
+
+  it('reads an end time at or before the start as the next day', () => {
+    const context = contextAt('2026-06-10T12:00:00Z');
+    const start = new Date('2026-06-10T23:00:00Z');
+
+    expect(getEndTime(lateAlarm, start, context)?.toISOString()).toBe('2026-06-11T01:00:00.000Z');
+    expect(getEndTime({ endTime: '23:00' }, start, context)?.toISOString()).toBe('2026-06-11T23:00:00.000Z');
+    expect(getEndTime({}, start, context)).toBeNull();
+  });
+
+  it('finds a window that started the previous day', () => {
+    const active = getActiveOccurrence(lateAlarm, contextAt('2026-06-11T00:30:00Z'));
+
+    expect(active?.start.toISOString()).toBe('2026-06-10T23:00:00.000Z');
+    expect(active?.date).toBe('2026-06-10');
+  });
+
+  it('is not active once the window has closed', () => {
+    expect(getActiveOccurrence(lateAlarm, contextAt('2026-06-11T01:30:00Z'))).toBeNull();
+  });
+
+  it('ignores a window that started yesterday on a day the alarm does not repeat', () => {
+    // 2026-06-10 is a Wednesday
+    const weekendAlarm = dailyAlarm({ time: '23:00', endTime: '01:00', repeatDays: [WeekDay.SATURDAY] });
+
+    expect(getActiveOccurrence(weekendAlarm, contextAt('2026-06-11T00:30:00Z'))).toBeNull();
+  });
+});
+
+describe('DST transitions in New York', () => {
+  it('moves a ring in the spring-forward gap to the same time after the jump', () => {
+    // Clocks go from 02:00 EST to 03:00 EDT on 2026-03-08
+    const alarm = dailyAlarm({ time: '02:30', timeZone: NEW_YORK });
+    const { rings } = getUpcomingOccurrences(alarm, contextAt('2026-03-08T05:00:00Z'), 2);
+
+    // 03:30 EDT, then 02:30 EDT the day after
+    expect(rings.map(ring => ring.start.toISOString())).toEqual([
+      '2026-03-08T07:30:00.000Z',
+      '2026-03-09T06:30:00.000Z',
+    ]);
+  });
+
+  it('keeps an end time on the wall clock across the spring-forward jump', () => {
+    const alarm = dailyAlarm({ time: '01:00', endTime: '04:00', timeZone: NEW_YORK });
+    const { next } = getNextRing(alarm, contextAt('2026-03-08T05:00:00Z'));
+
+    expect(next?.start.toISOString()).toBe('2026-03-08T06:00:00.000Z');
+    expect(next?.end?.toISOString()).toBe('2026-03-08T08:00:00.000Z');
+  });
+
+  it('rings once, at the first of the two times, in the fall-back overlap', () => {
+    // Clocks go from 02:00 EDT back to 01:00 EST on 2026-11-01
+    const alarm = dailyAlarm({ time: '01:30', timeZone: NEW_YORK });
+    const { rings } = getUpcomingOccurrences(alarm, contextAt('2026-11-01T04:00:00Z'), 1);
+
+    expect(rings.map(ring => ring.start.toISOString())).toEqual(['2026-11-01T05:30:00.000Z']);
+  });
+
+  it('stretches a window over the repeated hour when falling back', () => {
+    const alarm = dailyAlarm({ time: '01:00', endTime: '02:00', timeZone: NEW_YORK });
+    const { next } = getNextRing(alarm, contextAt('2026-11-01T04:00:00Z'));
+
+    expect(next?.start.toISOString()).toBe('2026-11-01T05:00:00.000Z');
+    expect(next?.end?.toISOString()).toBe('2026-11-01T07:00:00.000Z');
+  });
+});
+
+describe('alarm time zones', () => {
+  it('reads a pinned alarm in its own zone whatever the device zone', () => {
+    const alarm = dailyAlarm({ timeZone: 'Asia/Tokyo' });
+
+    const fromNewYork = getNextRing(alarm, contextAt('2026-06-10T12:00:00Z', NEW_YORK)).next;
+    const fromBerlin = getNextRing(alarm, contextAt('2026-06-10T12:00:00Z', 'Europe/Berlin')).next;
+
+    // 07:00 in Tokyo on the 11th
+    expect(fromNewYork?.start.toISOString()).toBe('2026-06-10T22:00:00.000Z');
+    expect(fromBerlin?.start).toEqual(fromNewYork?.start);
+    expect(fromNewYork?.date).toBe('2026-06-11');
+  });
+
+  it('keeps the wall-clock time of an alarm that follows the device zone', () => {
+    const alarm = dailyAlarm();
+
+    const inNewYork = getNextRing(alarm, contextAt('2026-06-10T12:00:00Z', NEW_YORK)).next;
+    const inBerlin = getNextRing(alarm, contextAt('2026-06-10T12:00:00Z', 'Europe/Berlin')).next;
+
+    expect(inNewYork?.start.toISOString()).toBe('2026-06-11T11:00:00.000Z');
+    expect(inBerlin?.start.toISOString()).toBe('2026-06-11T05:00:00.000Z');
+  });
+
+  it('reports whether the next alarm is today on the device', () => {
+    const alarm = dailyAlarm({ time: '23:00', timeZone: 'Asia/Tokyo' });
+    // 23:00 Tokyo is 10:00 in New York the same morning
+    const result = getNextAlarm([alarm], contextAt('2026-06-10T12:00:00Z', NEW_YORK));
+
+    expect(result.occurrence?.start.toISOString()).toBe('2026-06-10T14:00:00.000Z');
+    expect(result.secondsUntil).toBe(2 * 60 * 60);
+    expect(result.isToday).toBe(true);
+  });
+});
+
+describe('skipped rings', () => {
+  const vacation: SkipRange = {
+    id: 'vacation-1',
+    label: 'Beach week',
+    startDate: '2026-06-12',
+    endDate: '2026-06-13',
+    source: SkipReason.VACATION,
+    createdAt: '2026-06-01T00:00:00.000Z',
+  };
+
+  it('skips a "skip next" day and rings on the day after', () => {
+    const alarm = dailyAlarm({ skipDates: ['2026-06-11'] });
+    const { next, skipped } = getNextRing(alarm, contextAt('2026-06-10T12:00:00Z'));
+
+    expect(next?.date).toBe('2026-06-12');
+    expect(skipped).toHaveLength(1);
+    expect(skipped[0].reason).toBe(SkipReason.SKIP_NEXT);
+    expect(skipped[0].date.toISOString()).toBe('2026-06-11T07:00:00.000Z');
+  });
+
+  it('splits upcoming rings from those a vacation covers', () => {
+    const { rings, skipped } = getUpcomingOccurrences(dailyAlarm(), contextAt('2026-06-10T12:00:00Z', 'UTC', [vacation]), 5);
+
+    expect(rings.map(ring => ring.date)).toEqual(['2026-06-11', '2026-06-14']);
+    expect(skipped.map(skip => skip.label)).toEqual(['Beach week', 'Beach week']);
+  });
+
+  it('names the skipped ring when it would otherwise have been next', () => {
+    const weekly = dailyAlarm({ id: 'weekly', time: '06:00', repeatDays: [WeekDay.THURSDAY], skipDates: ['2026-06-11'] });
+    const result = getNextAlarm([weekly, dailyAlarm({ time: '08:00' })], contextAt('2026-06-10T12:00:00Z'));
+
+    expect(result.occurrence?.start.toISOString()).toBe('2026-06-11T08:00:00.000Z');
+    expect(result.skippedRing?.alarm.id).toBe('weekly');
+  });
+
+  it('never skips a one-time alarm', () => {
+    const alarm = dailyAlarm({ repeatDays: [], date: '2026-06-12' });
+    const { next } = getNextRing(alarm, contextAt('2026-06-10T12:00:00Z', 'UTC', [vacation]));
+
+    expect(next?.start.toISOString()).toBe('2026-06-12T07:00:00.000Z');
+  });
+});
+
+describe('getPastOccurrences', () => {
+  const since = new Date('2026-06-08T00:00:00Z');
+  const now = '2026-06-10T12:00:00Z';
+
+  it('lists the rings between since and now, oldest first', () => {
+    const past = getPastOccurrences(dailyAlarm(), contextAt(now), since);
+
+    expect(past.map(ring => ring.date)).toEqual(['2026-06-08', '2026-06-09', '2026-06-10']);
+  });
+
+  it('leaves out skipped rings and disabled alarms', () => {
+    expect(getPastOccurrences(dailyAlarm({ skipDates: ['2026-06-09'] }), contextAt(now), since).map(ring => ring.date))
+      .toEqual(['2026-06-08', '2026-06-10']);
+    expect(getPastOccurrences(dailyAlarm({ isEnabled: false }), contextAt(now), since)).toEqual([]);
+  });
+
+  it('includes a ring on a day that started before since in the alarm zone', () => {
+    // 07:00 in Tokyo on the 8th is 22:00 UTC on the 7th, before since
+    const alarm = dailyAlarm({ timeZone: 'Asia/Tokyo' });
+    const past = getPastOccurrences(alarm, contextAt(now), new Date('2026-06-07T21:00:00Z'));
+
+    expect(past[0].start.toISOString()).toBe('2026-06-07T22:00:00.000Z');
+    expect(past.map(ring => ring.date)).toEqual(['2026-06-08', '2026-06-09', '2026-06-10']);
+  });
+
+  it('gives at most one ring for a one-time alarm without a date', () => {
+    const past = getPastOccurrences(dailyAlarm({ repeatDays: [] }), contextAt(now), since);
+
+    expect(past.map(ring => ring.date)).toEqual(['2026-06-08']);
+  });
+
+  it('gives a dated one-time alarm only on its date', () => {
+    const alarm = dailyAlarm({ repeatDays: [], date: '2026-06-09' });
+
+    expect(getPastOccurrences(alarm, contextAt(now), since).map(ring => ring.date)).toEqual(['2026-06-09']);
+  });
+});
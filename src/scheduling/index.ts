@@ -0,0 +1,4 @@
+// Schedule engine public surface
+
+export * from './scheduleEngine';
+export * from './zonedTime';
@@ -0,0 +1,396 @@
+// Schedule engine - the one place that decides when alarms ring.
+// Pure: the clock, timezone and skip dates all come in through the context.
+// Alarms read their time in their own zone when fixed to one, otherwise in
+// the context (device) zone, so they keep their wall-clock time on travel.
+
+import { Alarm, SkipRange } from '../types';
+import { alarmOccursOnDay, isRepeatingAlarm, MAX_RECURRENCE_SEARCH_DAYS } from '../utils/recurrence';
+import { getSkipForDate, SkippedOccurrence } from '../utils/skipDates';
+import {
+  CalendarDay,
+  addCalendarDays,
+  compareCalendarDays,
+  formatCalendarDay,
+  getDeviceTimeZone,
+  parseCalendarDay,
+  toLocalCalendarDate,
+  toZonedDateTime,
+  zonedWallTimeToInstant,
+} from './zonedTime';
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+export interface ScheduleContext {
+  now: Date;
+  timeZone: string; // Device zone; alarms without a zone of their own follow it
+  skipRanges: SkipRange[]; // Vacations and holidays
+}
+
+export interface ScheduleContextOptions {
+  clock?: Clock;
+  timeZone?: string;
+  skipRanges?: SkipRange[];
+}
+
+// The alarm fields scheduling depends on
+export type SchedulableAlarm = Pick<Alarm, 'time' | 'repeatDays'> &
+  Partial<Pick<Alarm, 'id' | 'endTime' | 'date' | 'recurrence' | 'skipDates' | 'isEnabled' | 'timeZone'>>;
+
+export interface AlarmOccurrence<T extends SchedulableAlarm = Alarm> {
+  alarm: T;
+  start: Date;
+  end: Date | null; // When the ring window closes, if the alarm has an end time
+  date: string; // "YYYY-MM-DD" calendar day of the start, in the alarm's zone
+}
+
+export interface UpcomingOccurrences<T extends SchedulableAlarm = Alarm> {
+  rings: AlarmOccurrence<T>[];
+  skipped: SkippedOccurrence[];
+}
+
+export interface NextRing<T extends SchedulableAlarm = Alarm> {
+  next: AlarmOccurrence<T> | null; // The next ring that will actually happen
+  skipped: SkippedOccurrence[]; // Rings skipped before it, soonest first
+}
+
+export interface NextAlarm<T extends SchedulableAlarm = Alarm> {
+  occurrence: AlarmOccurrence<T> | null;
+  secondsUntil: number | null;
+  isToday: boolean;
+  skippedRing?: { alarm: T; skip: SkippedOccurrence }; // Soonest ring being skipped before the next alarm
+}
+
+export const createScheduleContext = (options: ScheduleContextOptions = {}): ScheduleContext => ({
+  now: (options.clock ?? systemClock)(),
+  timeZone: options.timeZone ?? getDeviceTimeZone(),
+  skipRanges: options.skipRanges ?? [],
+});
+
+const parseTime = (time: string): [number, number] => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return [hours, minutes];
+};
+
+export const getCalendarDay = (instant: Date, timeZone: string): CalendarDay => {
+  const { year, month, day } = toZonedDateTime(instant, timeZone);
+  return { year, month, day };
+};
+
+/**
+ * The zone an alarm's time is read in: its own if fixed to one, otherwise the device's
+ */
+export const getAlarmTimeZone = (alarm: Pick<SchedulableAlarm, 'timeZone'>, context: ScheduleContext): string =>
+  alarm.timeZone || context.timeZone;
+
+/**
+ * When the ring window that started at `start` closes. An end time at or
+ * before the start time is on the following day. Computed on the wall clock,
+ * so a DST change in between doesn't move it.
+ */
+export const getEndTime = (
+  alarm: Pick<SchedulableAlarm, 'endTime' | 'timeZone'>,
+  start: Date,
+  context: ScheduleContext
+): Date | null => {
+  if (!alarm.endTime) {
+    return null;
+  }
+
+  const timeZone = getAlarmTimeZone(alarm, context);
+  const [hours, minutes] = parseTime(alarm.endTime);
+  const startDay = getCalendarDay(start, timeZone);
+  const sameDay = zonedWallTimeToInstant(startDay, hours, minutes, timeZone);
+  return sameDay > start
+    ? sameDay
+    : zonedWallTimeToInstant(addCalendarDays(startDay, 1), hours, minutes, timeZone);
+};
+
+const buildOccurrence = <T extends SchedulableAlarm>(
+  alarm: T,
+  day: CalendarDay,
+  context: ScheduleContext
+): AlarmOccurrence<T> => {
+  const timeZone = getAlarmTimeZone(alarm, context);
+  const [hours, minutes] = parseTime(alarm.time);
+  const start = zonedWallTimeToInstant(day, hours, minutes, timeZone);
+  if (!alarm.endTime) {
+    return { alarm, start, end: null, date: formatCalendarDay(day) };
+  }
+
+  // Same day when the end time is later on the clock. If a DST jump moved the
+  // start past it, the window closes as soon as it opens.
+  const [endHours, endMinutes] = parseTime(alarm.endTime);
+  const endsSameDay = endHours * 60 + endMinutes > hours * 60 + minutes;
+  const endDay = endsSameDay ? day : addCalendarDays(day, 1);
+  const end = zonedWallTimeToInstant(endDay, endHours, endMinutes, timeZone);
+  return { alarm, start, end: end > start ? end : start, date: formatCalendarDay(day) };
+};
+
+/**
+ * The single ring of a one-time alarm: on its date if it has one (possibly
+ * in the past), otherwise the next time the clock reaches its time
+ */
+export const getOneTimeOccurrence = <T extends SchedulableAlarm>(
+  alarm: T,
+  context: ScheduleContext
+): AlarmOccurrence<T> | null => {
+  if (alarm.date) {
+    const day = parseCalendarDay(alarm.date);
+    return day ? buildOccurrence(alarm, day, context) : null;
+  }
+
+  const today = getCalendarDay(context.now, getAlarmTimeZone(alarm, context));
+  const occurrence = buildOccurrence(alarm, today, context);
+  return occurrence.start > context.now ? occurrence : buildOccurrence(alarm, addCalendarDays(today, 1), context);
+};
+
+/**
+ * Does a repeating alarm have a ring on `day`, and is it skipped?
+ */
+const checkRepeatingDay = <T extends SchedulableAlarm>(
+  alarm: T,
+  day: CalendarDay,
+  context: ScheduleContext
+): { occurrence: AlarmOccurrence<T>; skip: SkippedOccurrence | null } | null => {
+  // Recurrence and skip helpers read calendar fields from a local Date
+  const calendarDate = toLocalCalendarDate(day);
+  if (!alarmOccursOnDay(alarm, calendarDate)) {
+    return null;
+  }
+
+  const occurrence = buildOccurrence(alarm, day, context);
+  const skip = getSkipForDate(alarm, calendarDate, context.skipRanges);
+  return { occurrence, skip: skip && { ...skip, date: occurrence.start } };
+};
+
+/**
+ * Rings after now within `daysAhead` calendar days, split into those that
+ * ring and those skipped. One-time alarms return their ring wherever it falls.
+ */
+export const getUpcomingOccurrences = <T extends SchedulableAlarm>(
+  alarm: T,
+  context: ScheduleContext,
+  daysAhead: number
+): UpcomingOccurrences<T> => {
+  if (!isRepeatingAlarm(alarm)) {
+    const occurrence = getOneTimeOccurrence(alarm, context);
+    return { rings: occurrence && occurrence.start > context.now ? [occurrence] : [], skipped: [] };
+  }
+
+  const rings: AlarmOccurrence<T>[] = [];
+  const skipped: SkippedOccurrence[] = [];
+  const today = getCalendarDay(context.now, getAlarmTimeZone(alarm, context));
+
+  for (let offset = 0; offset < daysAhead; offset++) {
+    const result = checkRepeatingDay(alarm, addCalendarDays(today, offset), context);
+    if (!result || result.occurrence.start <= context.now) {
+      continue;
+    }
+
+    if (result.skip) {
+      skipped.push(result.skip);
+    } else {
+      rings.push(result.occurrence);
+    }
+  }
+
+  return { rings, skipped };
+};
+
+/**
+ * The next ring that will happen, and any skipped before it
+ */
+export const getNextRing = <T extends SchedulableAlarm>(alarm: T, context: ScheduleContext): NextRing<T> => {
+  if (!isRepeatingAlarm(alarm)) {
+    const occurrence = getOneTimeOccurrence(alarm, context);
+    return { next: occurrence && occurrence.start > context.now ? occurrence : null, skipped: [] };
+  }
+
+  const skipped: SkippedOccurrence[] = [];
+  const today = getCalendarDay(context.now, getAlarmTimeZone(alarm, context));
+
+  // Day by day rather than a long list up front, since this runs every second on the home screen
+  for (let offset = 0; offset < MAX_RECURRENCE_SEARCH_DAYS; offset++) {
+    const result = checkRepeatingDay(alarm, addCalendarDays(today, offset), context);
+    if (!result || result.occurrence.start <= context.now) {
+      continue;
+    }
+
+    if (!result.skip) {
+      return { next: result.occurrence, skipped };
+    }
+    skipped.push(result.skip);
+  }
+
+  return { next: null, skipped };
+};
+
+export const getNextOccurrence = (alarm: SchedulableAlarm, context: ScheduleContext): Date | null =>
+  getNextRing(alarm, context).next?.start ?? null;
+
+/**
+ * The soonest ring across enabled alarms, with the soonest skipped ring
+ * ahead of it (if any) so the UI can say why an alarm isn't next
+ */
+export const getNextAlarm = <T extends SchedulableAlarm>(alarms: T[], context: ScheduleContext): NextAlarm<T> => {
+  let best: AlarmOccurrence<T> | null = null;
+  let skippedRing: NextAlarm<T>['skippedRing'];
+
+  for (const alarm of alarms.filter(a => a.isEnabled !== false)) {
+    const { next, skipped } = getNextRing(alarm, context);
+
+    if (next && (!best || next.start < best.start)) {
+      best = next;
+    }
+    if (skipped.length > 0 && (!skippedRing || skipped[0].date < skippedRing.skip.date)) {
+      skippedRing = { alarm, skip: skipped[0] };
+    }
+  }
+
+  // Only worth mentioning when it would otherwise have been the next ring
+  if (skippedRing && best && skippedRing.skip.date > best.start) {
+    skippedRing = undefined;
+  }
+
+  if (!best) {
+    return { occurrence: null, secondsUntil: null, isToday: false, skippedRing };
+  }
+
+  const today = getCalendarDay(context.now, context.timeZone);
+  return {
+    occurrence: best,
+    secondsUntil: Math.floor((best.start.getTime() - context.now.getTime()) / 1000),
+    // Today on the device, which may not be the alarm's own day
+    isToday: compareCalendarDays(getCalendarDay(best.start, context.timeZone), today) === 0,
+    skippedRing,
+  };
+};
+
+/**
+ * Rings still to come before midnight on the device, soonest first
+ */
+export const getRemainingRingsToday = <T extends SchedulableAlarm>(
+  alarms: T[],
+  context: ScheduleContext
+): AlarmOccurrence<T>[] => {
+  const today = getCalendarDay(context.now, context.timeZone);
+
+  // Two days ahead, since an alarm in another zone may already be on its tomorrow
+  return alarms
+    .filter(alarm => alarm.isEnabled !== false)
+    .flatMap(alarm => getUpcomingOccurrences(alarm, context, 2).rings)
+    .filter(ring => compareCalendarDays(getCalendarDay(ring.start, context.timeZone), today) === 0)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * The ring window (start to end time) the alarm is inside right now, if any.
+ * Windows that started yesterday and cross midnight count.
+ */
+export const getActiveOccurrence = <T extends SchedulableAlarm>(
+  alarm: T,
+  context: ScheduleContext
+): AlarmOccurrence<T> | null => {
+  if (alarm.isEnabled === false || !alarm.endTime) {
+    return null;
+  }
+
+  const today = getCalendarDay(context.now, getAlarmTimeZone(alarm, context));
+  const isInside = (occurrence: AlarmOccurrence<T>) =>
+    !!occurrence.end && occurrence.start <= context.now && context.now <= occurrence.end;
+
+  for (const day of [addCalendarDays(today, -1), today]) {
+    if (isRepeatingAlarm(alarm)) {
+      const result = checkRepeatingDay(alarm, day, context);
+      if (result && !result.skip && isInside(result.occurrence)) {
+        return result.occurrence;
+      }
+      continue;
+    }
+
+    const dated = alarm.date ? parseCalendarDay(alarm.date) : null;
+    if (alarm.date && (!dated || compareCalendarDays(dated, day) !== 0)) {
+      continue;
+    }
+    const occurrence = buildOccurrence(alarm, day, context);
+    if (isInside(occurrence)) {
+      return occurrence;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Rings that started after `since` and no later than now, oldest first.
+ * Skipped rings and disabled alarms are left out. A one-time alarm without a
+ * date rings once, so it gives at most its first ring after `since`.
+ */
+export const getPastOccurrences = <T extends SchedulableAlarm>(
+  alarm: T,
+  context: ScheduleContext,
+  since: Date
+): AlarmOccurrence<T>[] => {
+  if (alarm.isEnabled === false) {
+    return [];
+  }
+
+  const timeZone = getAlarmTimeZone(alarm, context);
+  const isInRange = (occurrence: AlarmOccurrence<T>) =>
+    occurrence.start > since && occurrence.start <= context.now;
+
+  const occurrences: AlarmOccurrence<T>[] = [];
+  const today = getCalendarDay(context.now, timeZone);
+  // A day early, since the alarm's day can start before `since` does
+  for (let day = addCalendarDays(getCalendarDay(since, timeZone), -1); compareCalendarDays(day, today) <= 0; day = addCalendarDays(day, 1)) {
+    if (isRepeatingAlarm(alarm)) {
+      const result = checkRepeatingDay(alarm, day, context);
+      if (result && !result.skip && isInRange(result.occurrence)) {
+        occurrences.push(result.occurrence);
+      }
+      continue;
+    }
+
+    const dated = alarm.date ? parseCalendarDay(alarm.date) : null;
+    if (alarm.date && (!dated || compareCalendarDays(dated, day) !== 0)) {
+      continue;
+    }
+    const occurrence = buildOccurrence(alarm, day, context);
+    if (isInRange(occurrence)) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return isRepeatingAlarm(alarm) || alarm.date ? occurrences : occurrences.slice(0, 1);
+};
+
+/**
+ * Every alarm whose ring window contains now, earliest start first
+ */
+export const getActiveOccurrences = <T extends SchedulableAlarm>(
+  alarms: T[],
+  context: ScheduleContext
+): AlarmOccurrence<T>[] =>
+  alarms
+    .map(alarm => getActiveOccurrence(alarm, context))
+    .filter((occurrence): occurrence is AlarmOccurrence<T> => occurrence !== null)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+/**
+ * Whether a one-time alarm's time has passed. Repeating alarms are never overdue.
+ */
+export const isAlarmOverdue = (alarm: SchedulableAlarm, context: ScheduleContext): boolean => {
+  if (isRepeatingAlarm(alarm)) {
+    return false;
+  }
+
+  if (alarm.date) {
+    const occurrence = getOneTimeOccurrence(alarm, context);
+    return !!occurrence && occurrence.start < context.now;
+  }
+
+  const today = buildOccurrence(alarm, getCalendarDay(context.now, getAlarmTimeZone(alarm, context)), context);
+  return today.start < context.now;
+};
@@ -0,0 +1,161 @@
+// Wall-clock times in an IANA timezone, without relying on the device zone
+
+export interface CalendarDay {
+  year: number;
+  month: number; // 0-11, like Date
+  day: number;
+}
+
+export interface ZonedDateTime extends CalendarDay {
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * The zone the device is set to, e.g. "Europe/Berlin"
+ */
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * What a clock in `timeZone` shows at `instant`
+ */
+export const toZonedDateTime = (instant: Date, timeZone: string): ZonedDateTime => {
+  // "10/19/2026, 09:27:19"
+  const match = getFormatter(timeZone).format(instant).match(/(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+):(\d+)/);
+  if (!match) {
+    throw new Error(`Cannot read the time in ${timeZone}`);
+  }
+
+  const [, month, day, year, hour, minute, second] = match.map(Number);
+  return {
+    year,
+    month: month - 1,
+    day,
+    hour: hour % 24, // Some engines print midnight as 24:00
+    minute,
+    second,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+};
+
+/**
+ * Minutes the zone is ahead of UTC at `instant` (e.g. -240 for New York in summer)
+ */
+export const getTimeZoneOffsetMinutes = (instant: Date, timeZone: string): number => {
+  const zoned = toZonedDateTime(instant, timeZone);
+  const asUtc = Date.UTC(zoned.year, zoned.month, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / MS_PER_MINUTE);
+};
+
+/**
+ * The instant a clock in `timeZone` shows `hour:minute` on `day`.
+ * A time skipped by a DST jump resolves to the same time after the jump
+ * (02:30 becomes 03:30); a time that happens twice resolves to the first.
+ */
+export const zonedWallTimeToInstant = (
+  day: CalendarDay,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date => {
+  const wall = Date.UTC(day.year, day.month, day.day, hour, minute);
+  const offsetBefore = getTimeZoneOffsetMinutes(new Date(wall - MS_PER_DAY), timeZone);
+  const offsetAfter = getTimeZoneOffsetMinutes(new Date(wall + MS_PER_DAY), timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => ({ offset, instant: wall - offset * MS_PER_MINUTE }))
+    .filter(({ offset, instant }) => getTimeZoneOffsetMinutes(new Date(instant), timeZone) === offset)
+    .map(({ instant }) => instant);
+
+  if (candidates.length === 0) {
+    // In the gap: read the wall time with the offset from before the jump
+    return new Date(wall - offsetBefore * MS_PER_MINUTE);
+  }
+
+  return new Date(Math.min(...candidates));
+};
+
+/**
+ * "HH:MM" on a clock in `timeZone` at `instant`
+ */
+export const formatZonedTime = (instant: Date, timeZone: string): string => {
+  const { hour, minute } = toZonedDateTime(instant, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+/**
+ * Short readable zone name, e.g. "New York" for "America/New_York"
+ */
+export const getTimeZoneCity = (timeZone: string): string =>
+  (timeZone.split('/').pop() || timeZone).replace(/_/g, ' ');
+
+export const addCalendarDays = (day: CalendarDay, days: number): CalendarDay => {
+  const date = new Date(Date.UTC(day.year, day.month, day.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+};
+
+export const compareCalendarDays = (a: CalendarDay, b: CalendarDay): number =>
+  Date.UTC(a.year, a.month, a.day) - Date.UTC(b.year, b.month, b.day);
+
+/**
+ * "YYYY-MM-DD"
+ */
+export const formatCalendarDay = (day: CalendarDay): string =>
+  `${day.year}-${String(day.month + 1).padStart(2, '0')}-${String(day.day).padStart(2, '0')}`;
+
+export const parseCalendarDay = (dateString: string): CalendarDay | null => {
+  const match = dateString.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const day = { year: Number(match[1]), month: Number(match[2]) - 1, day: Number(match[3]) };
+  const check = new Date(Date.UTC(day.year, day.month, day.day));
+  return check.getUTCMonth() === day.month && check.getUTCDate() === day.day ? day : null;
+};
+
+/**
+ * A local Date at noon on `day`, for calendar helpers that read getFullYear/getDay
+ */
+export const toLocalCalendarDate = (day: CalendarDay): Date => new Date(day.year, day.month, day.day, 12);
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -12,14 +12,50 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { AlarmService } from '../services/AlarmService';
-import { CreateAlarmData, WeekDay, PuzzleType } from '../types';
-import { formatTimeForCard } from '../utils/timeUtils';
+import { StorageService } from '../services/StorageService';
+import { CreateAlarmData, WeekDay, PuzzleType, PuzzleDifficulty, ScanCode, SnoozePolicy, RecurrenceRule, VolumeRamp, SoundStage, WakeAnnouncement, VibrationPattern } from '../types';
+import {
+  formatTimeForCard,
+  formatCalendarDate,
+  formatCalendarDateForDisplay,
+} from '../utils/timeUtils';
+import { validateSnoozePolicy } from '../utils/snoozePolicy';
+import SnoozePolicyEditor from '../components/SnoozePolicyEditor';
+import VolumeRampEditor from '../components/VolumeRampEditor';
+import SoundSequenceEditor from '../components/SoundSequenceEditor';
+import AnnouncementEditor from '../components/AnnouncementEditor';
+import VibrationPatternEditor from '../components/VibrationPatternEditor';
+import { SoundLibrary } from '../services/SoundLibrary';
+import { BUNDLED_SOUNDS, DEFAULT_SOUND_ID, SoundInfo } from '../sounds';
+import RecurrenceEditor from '../components/RecurrenceEditor';
+import { validateRecurrence, describeRecurrence } from '../utils/recurrence';
+import {
+  createScheduleContext,
+  getDeviceTimeZone,
+  getNextOccurrence,
+  getTimeZoneCity,
+  isAlarmOverdue,
+} from '../scheduling';
+import {
+  DEFAULT_PUZZLE_DIFFICULTY,
+  getDifficultyOptions,
+  getPuzzleOptions,
+  puzzleSupportsDifficulty,
+  DEFAULT_SHAKE_COUNT,
+  SHAKE_COUNT_OPTIONS,
+  resolvePuzzleDifficulty,
+} from '../puzzles';
 
 interface AddAlarmScreenProps {
   navigation?: any;
+  route?: {
+    params?: {
+      pickedSound?: string;
+    };
+  };
 }
 
-const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
+const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation, route }) => {
   const [alarmTime, setAlarmTime] = useState(new Date());
   // Set default end time to 1 hour after start time
   const [endTime, setEndTime] = useState(() => {
@@ -29,12 +65,34 @@ const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
   });
   const [showTimePicker, setShowTimePicker] = useState(false);
   const [showEndTimePicker, setShowEndTimePicker] = useState(false);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [alarmDate, setAlarmDate] = useState<Date | null>(null); // One-time alarms only; null = next occurrence
   const [timePickerMode, setTimePickerMode] = useState<'start' | 'end'>('start');
   const [label, setLabel] = useState('');
   const [repeatDays, setRepeatDays] = useState<WeekDay[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined); // Replaces repeatDays when set
+  const [timeZone, setTimeZone] = useState<string | undefined>(undefined); // Fixed zone; undefined follows the device
   const [puzzleType, setPuzzleType] = useState<PuzzleType>(PuzzleType.NONE);
+  const [puzzleDifficulty, setPuzzleDifficulty] = useState<PuzzleDifficulty>(DEFAULT_PUZZLE_DIFFICULTY);
+  const [shakeCount, setShakeCount] = useState<number>(DEFAULT_SHAKE_COUNT);
+  const [scanCodes, setScanCodes] = useState<ScanCode[]>([]);
+  const [availableScanCodes, setAvailableScanCodes] = useState<ScanCode[]>([]);
+  const [snoozePolicy, setSnoozePolicy] = useState<SnoozePolicy | undefined>(undefined);
+  const [volumeRamp, setVolumeRamp] = useState<VolumeRamp | undefined>(undefined);
+  const [vibrationPattern, setVibrationPattern] = useState<VibrationPattern | undefined>(undefined);
+  const [announcement, setAnnouncement] = useState<WakeAnnouncement | undefined>(undefined);
+  const [soundSequence, setSoundSequence] = useState<SoundStage[] | undefined>(undefined); // Replaces the sound, volume and vibration sections
+  const [snoozeDefaults, setSnoozeDefaults] = useState({ interval: 5, maxCount: 3 });
+
+  useEffect(() => {
+    StorageService.getScanCodes().then(setAvailableScanCodes);
+    StorageService.getUserSettings().then(settings => {
+      setSnoozeDefaults({ interval: settings.snoozeInterval, maxCount: settings.maxSnoozeCount });
+      setSoundFile(settings.defaultSound);
+    });
+  }, []);
   const [vibrationEnabled, setVibrationEnabled] = useState(true);
-  const [soundFile, setSoundFile] = useState('alarm_default');
+  const [soundFile, setSoundFile] = useState(DEFAULT_SOUND_ID);
   const [saving, setSaving] = useState(false);
 
   const dayNames = [
@@ -47,15 +105,24 @@ const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
     { day: WeekDay.SATURDAY, name: 'Saturday', short: 'Sat' },
   ];
 
-  const puzzleOptions = [
-    { value: PuzzleType.NONE, label: 'No Puzzle' },
-    { value: PuzzleType.MATH, label: 'Math Problem' },
-  ];
+  const puzzleOptions = getPuzzleOptions();
 
-  const soundOptions = [
-    { value: 'alarm_default', label: 'Default Alarm' },
-    { value: 'alarm_gentle', label: 'Gentle Wake' },
-  ];
+  const difficultyOptions = getDifficultyOptions();
+
+  const [soundOptions, setSoundOptions] = useState<SoundInfo[]>(BUNDLED_SOUNDS);
+
+  useEffect(() => {
+    SoundLibrary.getSounds().then(setSoundOptions);
+  }, [route?.params?.pickedSound]);
+
+  useEffect(() => {
+    if (route?.params?.pickedSound) {
+      setSoundFile(route.params.pickedSound);
+    }
+  }, [route?.params?.pickedSound]);
+
+  const selectedSound = soundOptions.find(option => option.id === soundFile)
+    || soundOptions.find(option => option.id === DEFAULT_SOUND_ID);
 
   const formatTime = (date: Date): string => {
     const hours = date.getHours().toString().padStart(2, '0');
@@ -87,6 +154,13 @@ const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
     }
   };
 
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    setShowDatePicker(false);
+    if (selectedDate) {
+      setAlarmDate(selectedDate);
+    }
+  };
+
   const showTimePickerModal = (mode: 'start' | 'end') => {
     setTimePickerMode(mode);
     if (mode === 'start') {
@@ -106,12 +180,52 @@ const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
     });
   };
 
+  const toggleScanCode = (code: ScanCode) => {
+    setScanCodes(current =>
+      current.some(c => c.id === code.id)
+        ? current.filter(c => c.id !== code.id)
+        : [...current, code]
+    );
+  };
+
   const validateForm = (): boolean => {
+    if (recurrence) {
+      const recurrenceErrors = validateRecurrence(recurrence);
+      if (recurrenceErrors.length > 0) {
+        Alert.alert('Validation Error', recurrenceErrors[0]);
+        return false;
+      }
+      if (!getNextOccurrence({ time: formatTime(alarmTime), repeatDays: [], recurrence, timeZone }, createScheduleContext())) {
+        Alert.alert('Validation Error', 'This repeat pattern has no upcoming days');
+        return false;
+      }
+    }
+
+    const oneTimeAlarm = { time: formatTime(alarmTime), repeatDays: [], timeZone };
+    if (!recurrence && repeatDays.length === 0 && alarmDate &&
+        isAlarmOverdue({ ...oneTimeAlarm, date: formatCalendarDate(alarmDate) }, createScheduleContext())) {
+      Alert.alert('Validation Error', 'That date and time has already passed');
+      return false;
+    }
+
     if (endTime <= alarmTime) {
       Alert.alert('Validation Error', 'End time must be after start time');
       return false;
     }
 
+    if (puzzleType === PuzzleType.QR_CODE && scanCodes.length === 0) {
+      Alert.alert('Validation Error', 'Select at least one code to scan, or register one in Settings');
+      return false;
+    }
+
+    if (snoozePolicy) {
+      const snoozeErrors = validateSnoozePolicy(snoozePolicy);
+      if (snoozeErrors.length > 0) {
+        Alert.alert('Validation Error', snoozeErrors[0]);
+        return false;
+      }
+    }
+
     // Note: Empty repeat days is allowed for one-time alarms
     return true;
   };
@@ -127,18 +241,33 @@ const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
       console.log(`➕ Label: ${label.trim() || 'Unnamed'}`);
       console.log(`➕ Time: ${formatTime(alarmTime)}`);
       console.log(`➕ End Time: ${formatTime(endTime)}`);
-      console.log(`➕ Repeat Days: ${repeatDays.join(', ') || 'None (one-time)'}`);
+      console.log(`➕ Repeat: ${recurrence ? describeRecurrence(recurrence) : repeatDays.join(', ') || 'None (one-time)'}`);
       console.log(`➕ Puzzle Type: ${puzzleType}`);
+      console.log(`➕ Puzzle Difficulty: ${puzzleDifficulty}`);
+      if (puzzleType === PuzzleType.SHAKE) {
+        console.log(`➕ Shakes Required: ${shakeCount}`);
+      }
       console.log(`➕ Created At: ${new Date().toLocaleString()}`);
       
       const alarmData: CreateAlarmData = {
         time: formatTime(alarmTime),
         endTime: formatTime(endTime),
         isEnabled: true,
-        repeatDays,
+        repeatDays: recurrence ? [] : repeatDays,
+        recurrence,
+        date: !recurrence && repeatDays.length === 0 && alarmDate ? formatCalendarDate(alarmDate) : undefined,
+        timeZone,
         puzzleType,
+        puzzleDifficulty,
+        shakeCount: puzzleType === PuzzleType.SHAKE ? shakeCount : undefined,
+        scanCodes: puzzleType === PuzzleType.QR_CODE ? scanCodes : undefined,
+        snoozePolicy,
         soundFile,
+        volumeRamp: soundSequence ? undefined : volumeRamp,
+        soundSequence,
+        announcement: announcement && { message: announcement.message?.trim() || undefined },
         vibrationEnabled,
+        vibrationPattern,
         label: label.trim() || undefined,
       };
 
@@ -190,6 +319,21 @@ const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
               </Text>
             </TouchableOpacity>
           </View>
+
+          <View style={[styles.switchRow, styles.timeZoneRow]}>
+            <Text style={styles.switchLabel}>Fixed Time Zone</Text>
+            <Switch
+              value={!!timeZone}
+              onValueChange={value => setTimeZone(value ? timeZone || getDeviceTimeZone() : undefined)}
+              trackColor={{ false: '#e2e8f0', true: '#6366f1' }}
+              thumbColor={timeZone ? '#ffffff' : '#f1f5f9'}
+            />
+          </View>
+          <Text style={styles.repeatHelperText}>
+            {timeZone
+              ? `Rings at this time in ${getTimeZoneCity(timeZone)}, wherever you are`
+              : 'Follows your timezone when you travel'}
+          </Text>
         </View>
 
         {/* Label Section */}
@@ -204,34 +348,57 @@ const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
           />
         </View>
 
-        {/* Repeat Days Section */}
+        {/* Repeat Section */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Repeat Days</Text>
-          <View style={styles.daysContainer}>
-            {dayNames.map(({ day, name, short }) => (
-              <TouchableOpacity
-                key={day}
-                style={[
-                  styles.dayButton,
-                  repeatDays.includes(day) && styles.dayButtonSelected
-                ]}
-                onPress={() => toggleRepeatDay(day)}
-              >
-                <Text style={[
-                  styles.dayButtonText,
-                  repeatDays.includes(day) && styles.dayButtonTextSelected
-                ]}>
-                  {short}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-          <Text style={styles.repeatHelperText}>
-            {repeatDays.length === 0 
-              ? 'One-time alarm (no repeat)' 
-              : `Repeats on: ${repeatDays.map(day => dayNames[day].short).join(', ')}`
-            }
-          </Text>
+          <Text style={styles.sectionTitle}>Repeat</Text>
+          <RecurrenceEditor rule={recurrence} onChange={setRecurrence} />
+          {!recurrence && (
+            <>
+              <View style={[styles.daysContainer, styles.recurrenceDaysContainer]}>
+                {dayNames.map(({ day, name, short }) => (
+                  <TouchableOpacity
+                    key={day}
+                    style={[
+                      styles.dayButton,
+                      repeatDays.includes(day) && styles.dayButtonSelected
+                    ]}
+                    onPress={() => toggleRepeatDay(day)}
+                  >
+                    <Text style={[
+                      styles.dayButtonText,
+                      repeatDays.includes(day) && styles.dayButtonTextSelected
+                    ]}>
+                      {short}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.repeatHelperText}>
+                {repeatDays.length === 0 
+                  ? 'One-time alarm (no repeat)' 
+                  : `Repeats on: ${repeatDays.map(day => dayNames[day].short).join(', ')}`
+                }
+              </Text>
+              {repeatDays.length === 0 && (
+                <View style={styles.endTimeContainer}>
+                  <TouchableOpacity
+                    style={styles.timeButton}
+                    onPress={() => setShowDatePicker(true)}
+                  >
+                    <Text style={styles.dateButtonText}>
+                      {alarmDate ? formatCalendarDateForDisplay(formatCalendarDate(alarmDate)) : 'Next occurrence'}
+                    </Text>
+                  </TouchableOpacity>
+                  <Text
+                    style={styles.repeatHelperText}
+                    onPress={alarmDate ? () => setAlarmDate(null) : () => setShowDatePicker(true)}
+                  >
+                    {alarmDate ? 'Clear date' : 'Tap to pick a specific date'}
+                  </Text>
+                </View>
+              )}
+            </>
+          )}
         </View>
 
         {/* Puzzle Type Section */}
@@ -258,41 +425,159 @@ const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
           </View>
         </View>
 
+        {/* Puzzle Difficulty Section */}
+        {puzzleSupportsDifficulty(puzzleType) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Puzzle Difficulty</Text>
+            <View style={styles.optionsContainer}>
+              {difficultyOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.optionButton,
+                    puzzleDifficulty === option.value && styles.optionButtonSelected
+                  ]}
+                  onPress={() => setPuzzleDifficulty(option.value)}
+                >
+                  <Text style={[
+                    styles.optionButtonText,
+                    puzzleDifficulty === option.value && styles.optionButtonTextSelected
+                  ]}>
+                    {option.label}
+                  </Text>
+                  <Text style={[
+                    styles.optionDescriptionText,
+                    puzzleDifficulty === option.value && styles.optionButtonTextSelected
+                  ]}>
+                    {option.description}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Shake Count Section */}
+        {puzzleType === PuzzleType.SHAKE && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Shakes Required</Text>
+            <View style={styles.optionsContainer}>
+              {SHAKE_COUNT_OPTIONS.map((count) => (
+                <TouchableOpacity
+                  key={count}
+                  style={[
+                    styles.optionButton,
+                    shakeCount === count && styles.optionButtonSelected
+                  ]}
+                  onPress={() => setShakeCount(count)}
+                >
+                  <Text style={[
+                    styles.optionButtonText,
+                    shakeCount === count && styles.optionButtonTextSelected
+                  ]}>
+                    {count} shakes
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Scan Codes Section */}
+        {puzzleType === PuzzleType.QR_CODE && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Codes to Scan</Text>
+            {availableScanCodes.length === 0 ? (
+              <Text style={styles.optionDescriptionText}>
+                No codes registered yet. Add one in Settings → Dismissal Codes.
+              </Text>
+            ) : (
+              <View style={styles.optionsContainer}>
+                {availableScanCodes.map((code) => {
+                  const selected = scanCodes.some(c => c.id === code.id);
+                  return (
+                    <TouchableOpacity
+                      key={code.id}
+                      style={[
+                        styles.optionButton,
+                        selected && styles.optionButtonSelected
+                      ]}
+                      onPress={() => toggleScanCode(code)}
+                    >
+                      <Text style={[
+                        styles.optionButtonText,
+                        selected && styles.optionButtonTextSelected
+                      ]}>
+                        {code.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Snooze Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Snooze</Text>
+          <SnoozePolicyEditor
+            policy={snoozePolicy}
+            onChange={setSnoozePolicy}
+            defaultInterval={snoozeDefaults.interval}
+            defaultMaxCount={snoozeDefaults.maxCount}
+            showPuzzleOption={puzzleType !== PuzzleType.NONE}
+          />
+        </View>
+
         {/* Sound Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Alarm Sound</Text>
-          <View style={styles.optionsContainer}>
-            {soundOptions.map((option) => (
-              <TouchableOpacity
-                key={option.value}
-                style={[
-                  styles.optionButton,
-                  soundFile === option.value && styles.optionButtonSelected
-                ]}
-                onPress={() => setSoundFile(option.value)}
-              >
-                <Text style={[
-                  styles.optionButtonText,
-                  soundFile === option.value && styles.optionButtonTextSelected
-                ]}>
-                  {option.label}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
+          {!soundSequence && (
+            <TouchableOpacity
+              style={styles.timeButton}
+              onPress={() => navigation?.navigate('SoundPicker', { selectedSound: soundFile, returnTo: 'AddAlarm' })}
+            >
+              <Text style={styles.timeButtonText}>{selectedSound?.name}</Text>
+            </TouchableOpacity>
+          )}
+          <SoundSequenceEditor sequence={soundSequence} soundOptions={soundOptions} onChange={setSoundSequence} />
         </View>
 
+        {/* Volume Section */}
+        {!soundSequence && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Volume</Text>
+            <VolumeRampEditor ramp={volumeRamp} onChange={setVolumeRamp} />
+          </View>
+        )}
+
         {/* Vibration Section */}
         <View style={styles.section}>
-          <View style={styles.switchRow}>
-            <Text style={styles.switchLabel}>Vibration</Text>
-            <Switch
-              value={vibrationEnabled}
-              onValueChange={setVibrationEnabled}
-              trackColor={{ false: '#e2e8f0', true: '#6366f1' }}
-              thumbColor={vibrationEnabled ? '#ffffff' : '#f1f5f9'}
-            />
-          </View>
+          {soundSequence ? (
+            <Text style={styles.sectionTitle}>Vibration Pattern</Text>
+          ) : (
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Vibration</Text>
+              <Switch
+                value={vibrationEnabled}
+                onValueChange={setVibrationEnabled}
+                trackColor={{ false: '#e2e8f0', true: '#6366f1' }}
+                thumbColor={vibrationEnabled ? '#ffffff' : '#f1f5f9'}
+              />
+            </View>
+          )}
+          {(soundSequence || vibrationEnabled) && (
+            <View style={!soundSequence && styles.vibrationPattern}>
+              <VibrationPatternEditor pattern={vibrationPattern} onChange={setVibrationPattern} />
+            </View>
+          )}
+        </View>
+
+        {/* Announcement Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Announcement</Text>
+          <AnnouncementEditor announcement={announcement} label={label.trim() || undefined} onChange={setAnnouncement} />
         </View>
 
         {/* Action Buttons */}
@@ -336,6 +621,16 @@ const AddAlarmScreen: React.FC<AddAlarmScreenProps> = ({ navigation }) => {
           onChange={handleTimeChange}
         />
       )}
+
+      {showDatePicker && (
+        <DateTimePicker
+          value={alarmDate || new Date()}
+          mode="date"
+          display="default"
+          minimumDate={new Date()}
+          onChange={handleDateChange}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -382,12 +677,20 @@ const styles = StyleSheet.create({
   endTimeContainer: {
     marginTop: 16,
   },
+  dateButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
   switchRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     marginBottom: 12,
   },
+  vibrationPattern: {
+    marginTop: 16,
+  },
   switchLabel: {
     fontSize: 16,
     color: '#374151',
@@ -400,6 +703,13 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e2e8f0',
   },
+  timeZoneRow: {
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  recurrenceDaysContainer: {
+    marginTop: 12,
+  },
   daysContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -454,6 +764,12 @@ const styles = StyleSheet.create({
   optionButtonTextSelected: {
     color: '#ffffff',
   },
+  optionDescriptionText: {
+    fontSize: 12,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 2,
+  },
   buttonContainer: {
     flexDirection: 'row',
     margin: 16,
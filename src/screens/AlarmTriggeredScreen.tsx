@@ -14,6 +14,16 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Alarm, PuzzleType } from '../types';
 import { StorageService } from '../services/StorageService';
 import { AlarmScheduler } from '../services/AlarmScheduler';
+import { SnoozeManager } from '../services/SnoozeManager';
+import { AlarmLifecycleLog } from '../services/AlarmLifecycleLog';
+import PuzzleView from '../components/PuzzleView';
+import {
+  PuzzleSession,
+  startPuzzleSession,
+  resolvePuzzleType,
+  resolvePuzzleDifficulty,
+} from '../puzzles';
+import { isRepeatingAlarm } from '../utils/recurrence';
 
 interface AlarmTriggeredScreenProps {
   alarmId: string;
@@ -31,8 +41,10 @@ export const AlarmTriggeredScreen: React.FC<AlarmTriggeredScreenProps> = ({
   const [alarm, setAlarm] = useState<Alarm | null>(null);
   const [timeElapsed, setTimeElapsed] = useState(0);
   const [puzzleSolved, setPuzzleSolved] = useState(false);
-  const [mathProblem, setMathProblem] = useState<{ question: string; answer: number } | null>(null);
-  const [userAnswer, setUserAnswer] = useState('');
+  const [solveTime, setSolveTime] = useState<number | undefined>(undefined); // Seconds
+  const [puzzleSession, setPuzzleSession] = useState<PuzzleSession | null>(null);
+  const [snoozeInterval, setSnoozeInterval] = useState(5);
+  const [snoozesRemaining, setSnoozesRemaining] = useState(0);
   
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const shakeAnim = useRef(new Animated.Value(0)).current;
@@ -53,16 +65,24 @@ export const AlarmTriggeredScreen: React.FC<AlarmTriggeredScreenProps> = ({
   }, []);
 
   useEffect(() => {
-    if (alarm?.puzzleType === PuzzleType.MATH && !mathProblem) {
-      generateMathProblem();
+    if (alarm?.puzzleType && alarm.puzzleType !== PuzzleType.NONE && !puzzleSession) {
+      setPuzzleSession(startPuzzleSession(
+        resolvePuzzleType(alarm.puzzleType),
+        resolvePuzzleDifficulty(alarm.puzzleDifficulty),
+        { shakeCount: alarm.shakeCount, scanCodes: alarm.scanCodes }
+      ));
     }
   }, [alarm]);
 
   const loadAlarm = async () => {
     try {
-      const allAlarms = await StorageService.getAllAlarms();
-      const foundAlarm = allAlarms.find(a => a.id === alarmId);
-      setAlarm(foundAlarm || null);
+      const [foundAlarm, snoozeStatus] = await Promise.all([
+        SnoozeManager.getRingingAlarm(alarmId),
+        SnoozeManager.getSnoozeStatus(alarmId),
+      ]);
+      setAlarm(foundAlarm);
+      setSnoozeInterval(snoozeStatus.nextIntervalMinutes);
+      setSnoozesRemaining(snoozeStatus.remaining);
     } catch (error) {
       console.error('Error loading alarm:', error);
     }
@@ -126,60 +146,23 @@ export const AlarmTriggeredScreen: React.FC<AlarmTriggeredScreenProps> = ({
     return () => backHandler.remove();
   };
 
-  const generateMathProblem = () => {
-    const num1 = Math.floor(Math.random() * 20) + 1;
-    const num2 = Math.floor(Math.random() * 20) + 1;
-    const operations = ['+', '-', '*'];
-    const operation = operations[Math.floor(Math.random() * operations.length)];
-    
-    let answer: number;
-    let question: string;
-    
-    switch (operation) {
-      case '+':
-        answer = num1 + num2;
-        question = `${num1} + ${num2} = ?`;
-        break;
-      case '-':
-        answer = Math.max(num1, num2) - Math.min(num1, num2);
-        question = `${Math.max(num1, num2)} - ${Math.min(num1, num2)} = ?`;
-        break;
-      case '*':
-        const smallNum1 = Math.floor(Math.random() * 10) + 1;
-        const smallNum2 = Math.floor(Math.random() * 10) + 1;
-        answer = smallNum1 * smallNum2;
-        question = `${smallNum1} × ${smallNum2} = ?`;
-        break;
-      default:
-        answer = num1 + num2;
-        question = `${num1} + ${num2} = ?`;
-    }
-    
-    setMathProblem({ question, answer });
+  const handlePuzzleSolved = () => {
+    setPuzzleSolved(true);
+    setSolveTime(timeElapsed);
+    Vibration.cancel();
+    Alert.alert(
+      '✅ Correct!',
+      'Puzzle solved! You can now dismiss the alarm.',
+      [{ text: 'OK' }]
+    );
   };
 
-  const checkMathAnswer = () => {
-    if (!mathProblem) return;
-    
-    const userNum = parseInt(userAnswer);
-    if (userNum === mathProblem.answer) {
-      setPuzzleSolved(true);
-      Vibration.cancel();
-      Alert.alert(
-        '✅ Correct!',
-        'Puzzle solved! You can now dismiss the alarm.',
-        [{ text: 'OK' }]
-      );
-    } else {
-      Alert.alert(
-        '❌ Incorrect',
-        'Try again!',
-        [{ text: 'OK' }]
-      );
-      setUserAnswer('');
-      // Generate new problem after wrong answer
-      generateMathProblem();
-    }
+  const handlePuzzleIncorrect = () => {
+    Alert.alert(
+      '❌ Incorrect',
+      'Try again!',
+      [{ text: 'OK' }]
+    );
   };
 
   const handleDismiss = async () => {
@@ -196,12 +179,12 @@ export const AlarmTriggeredScreen: React.FC<AlarmTriggeredScreenProps> = ({
       Vibration.cancel();
       
       // Mark alarm as completed for today if it's not repeating
-      if (!alarm?.repeatDays || alarm.repeatDays.length === 0) {
+      if (!alarm || !isRepeatingAlarm(alarm)) {
         await StorageService.updateAlarm(alarmId, { isEnabled: false });
       }
       
       // Update alarm statistics
-      // TODO: Implement alarm statistics tracking
+      await SnoozeManager.completeAlarm(alarmId, { puzzleCompleted: puzzleSolved, solveTime });
       
       onDismiss();
     } catch (error) {
@@ -212,13 +195,17 @@ export const AlarmTriggeredScreen: React.FC<AlarmTriggeredScreenProps> = ({
 
   const handleSnooze = async () => {
     try {
+      const result = await SnoozeManager.snooze(alarmId);
+      if (!result.snoozed && (result.reason === 'limit_reached' || result.reason === 'disabled')) {
+        setSnoozesRemaining(0);
+        Alert.alert('No Snoozes Left', 'You have used all your snoozes for this alarm.');
+        return;
+      }
+
       Vibration.cancel();
-      
-      // Schedule snooze notification (5 minutes from now)
-      const snoozeTime = new Date(Date.now() + 5 * 60 * 1000);
-      
-      // TODO: Implement proper snooze scheduling
-      console.log(`😴 Snoozing alarm until ${snoozeTime.toLocaleTimeString()}`);
+      if (result.snoozeUntil) {
+        console.log(`😴 Snoozing alarm until ${result.snoozeUntil.toLocaleTimeString()}`);
+      }
       
       onSnooze();
     } catch (error) {
@@ -238,73 +225,31 @@ export const AlarmTriggeredScreen: React.FC<AlarmTriggeredScreenProps> = ({
       return null;
     }
 
-    switch (alarm.puzzleType) {
-      case PuzzleType.MATH:
-        return (
-          <View style={styles.puzzleContainer}>
-            <Text style={styles.puzzleTitle}>🧮 Solve to dismiss alarm</Text>
-            {mathProblem && (
-              <>
-                <Text style={styles.mathQuestion}>{mathProblem.question}</Text>
-                <View style={styles.answerContainer}>
-                  <Text style={styles.answerText}>Answer: </Text>
-                  <TouchableOpacity
-                    style={styles.answerInput}
-                    onPress={() => {
-                      // Simple number input simulation
-                      Alert.prompt(
-                        'Enter Answer',
-                        'What is the answer?',
-                        [
-                          { text: 'Cancel', style: 'cancel' },
-                          { 
-                            text: 'Check', 
-                            onPress: (text) => {
-                              setUserAnswer(text || '');
-                              setTimeout(() => checkMathAnswer(), 100);
-                            }
-                          }
-                        ],
-                        'plain-text'
-                      );
-                    }}
-                  >
-                    <Text style={styles.answerInputText}>
-                      {userAnswer || 'Tap to enter'}
-                    </Text>
-                  </TouchableOpacity>
-                </View>
-                {puzzleSolved && (
-                  <Text style={styles.puzzleSolved}>✅ Puzzle Solved!</Text>
-                )}
-              </>
-            )}
-          </View>
-        );
-      
-      case PuzzleType.PATTERN:
-        return (
-          <View style={styles.puzzleContainer}>
-            <Text style={styles.puzzleTitle}>🔲 Pattern Memory</Text>
-            <Text style={styles.puzzleDescription}>
-              Pattern puzzle coming soon...
-            </Text>
-          </View>
-        );
-      
-      case PuzzleType.QR_CODE:
-        return (
-          <View style={styles.puzzleContainer}>
-            <Text style={styles.puzzleTitle}>📷 Scan QR Code</Text>
-            <Text style={styles.puzzleDescription}>
-              QR code scanning coming soon...
-            </Text>
-          </View>
-        );
-      
-      default:
-        return null;
+    if (puzzleSolved) {
+      return (
+        <View style={styles.puzzleContainer}>
+          <Text style={styles.puzzleSolved}>✅ Puzzle Solved!</Text>
+        </View>
+      );
+    }
+
+    if (!puzzleSession) {
+      return null;
     }
+
+    return (
+      <PuzzleView
+        session={puzzleSession}
+        variant="dark"
+        title="🧩 Solve to dismiss alarm"
+        onSessionChange={setPuzzleSession}
+        onComplete={handlePuzzleSolved}
+        onIncorrect={handlePuzzleIncorrect}
+        onAttempt={(session, correct) =>
+          AlarmLifecycleLog.puzzleAttempt(alarmId, session.type, session.totalAttempts, correct)
+        }
+      />
+    );
   };
 
   if (!alarm) {
@@ -349,12 +294,14 @@ export const AlarmTriggeredScreen: React.FC<AlarmTriggeredScreenProps> = ({
 
         {/* Action Buttons */}
         <View style={styles.buttonContainer}>
-          <TouchableOpacity
-            style={[styles.button, styles.snoozeButton]}
-            onPress={handleSnooze}
-          >
-            <Text style={styles.buttonText}>😴 Snooze (5 min)</Text>
-          </TouchableOpacity>
+          {snoozesRemaining > 0 && (
+            <TouchableOpacity
+              style={[styles.button, styles.snoozeButton]}
+              onPress={handleSnooze}
+            >
+              <Text style={styles.buttonText}>😴 Snooze ({snoozeInterval} min, {snoozesRemaining} left)</Text>
+            </TouchableOpacity>
+          )}
 
           <TouchableOpacity
             style={[
@@ -431,48 +378,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 20,
   },
-  puzzleTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: 'white',
-    marginBottom: 15,
-  },
-  puzzleDescription: {
-    fontSize: 16,
-    color: 'white',
-    textAlign: 'center',
-    opacity: 0.8,
-  },
-  mathQuestion: {
-    fontSize: 32,
-    fontWeight: 'bold',
-    color: 'white',
-    marginBottom: 20,
-  },
-  answerContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 15,
-  },
-  answerText: {
-    fontSize: 18,
-    color: 'white',
-    fontWeight: '500',
-  },
-  answerInput: {
-    backgroundColor: 'white',
-    paddingHorizontal: 15,
-    paddingVertical: 10,
-    borderRadius: 8,
-    minWidth: 100,
-    marginLeft: 10,
-  },
-  answerInputText: {
-    fontSize: 18,
-    color: '#333',
-    textAlign: 'center',
-    fontWeight: '500',
-  },
   puzzleSolved: {
     fontSize: 18,
     color: '#4FFFB0',
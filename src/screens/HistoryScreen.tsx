@@ -0,0 +1,332 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { StorageService } from '../services/StorageService';
+import { getPuzzleOptions } from '../puzzles';
+import { createScheduleContext } from '../scheduling';
+import { getShortDayName } from '../utils/timeUtils';
+import { buildWakeInsights, HeatmapDay, WakeInsights } from '../utils/wakeInsights';
+
+const BAR_HEIGHT = 80;
+
+const formatSeconds = (seconds: number | null): string =>
+  seconds === null ? '–' : seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s` : `${Math.round(seconds)}s`;
+
+const getHeatmapColor = (day: HeatmapDay): string => {
+  if (day.wakes === 0) return '#e2e8f0';
+  if (day.onTime === day.wakes) return '#22c55e';
+  if (day.onTime > 0) return '#86efac';
+  return '#fca5a5';
+};
+
+/**
+ * Wake-up history: on-time heatmap, streaks, weekday charts and puzzle success
+ */
+const HistoryScreen: React.FC = () => {
+  const [insights, setInsights] = useState<WakeInsights | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadInsights();
+    }, [])
+  );
+
+  const loadInsights = async () => {
+    try {
+      const [events, alarms, skipRanges] = await Promise.all([
+        StorageService.getAlarmEvents(),
+        StorageService.getAllAlarms(),
+        StorageService.getSkipRanges(),
+      ]);
+      setInsights(buildWakeInsights(events, alarms, createScheduleContext({ skipRanges })));
+    } catch (error) {
+      console.error('Error loading wake history:', error);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadInsights();
+    setRefreshing(false);
+  };
+
+  const renderStat = (label: string, value: string) => (
+    <View style={styles.stat}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+
+  const renderBarChart = (title: string, values: number[], formatValue: (value: number) => string) => {
+    const max = Math.max(...values, 0);
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{title}</Text>
+        <View style={styles.barChart}>
+          {values.map((value, weekday) => (
+            <View key={weekday} style={styles.barColumn}>
+              <Text style={styles.barValue}>{value > 0 ? formatValue(value) : ''}</Text>
+              <View style={[styles.bar, { height: max > 0 ? Math.max(2, (value / max) * BAR_HEIGHT) : 2 }]} />
+              <Text style={styles.barLabel}>{getShortDayName(weekday)}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  if (!insights) {
+    return <View style={styles.container} />;
+  }
+
+  if (insights.totalWakes === 0) {
+    return (
+      <View style={[styles.container, styles.emptyState]}>
+        <Text style={styles.emptyStateTitle}>No history yet</Text>
+        <Text style={styles.emptyStateText}>
+          Your wake-ups show up here once an alarm has rung and been dismissed
+        </Text>
+      </View>
+    );
+  }
+
+  const puzzleLabels = new Map(getPuzzleOptions().map(option => [option.value, option.label]));
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+    >
+      <View style={styles.statsRow}>
+        {renderStat('Current streak', `${insights.currentStreak}`)}
+        {renderStat('Longest streak', `${insights.longestStreak}`)}
+        {renderStat('On time', `${Math.round(insights.onTimeRate * 100)}%`)}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>On-time wake-ups</Text>
+        <View style={styles.heatmap}>
+          <View style={styles.heatmapColumn}>
+            {[0, 1, 2, 3, 4, 5, 6].map(weekday => (
+              <Text key={weekday} style={styles.heatmapDayLabel}>
+                {weekday % 2 === 1 ? getShortDayName(weekday).charAt(0) : ''}
+              </Text>
+            ))}
+          </View>
+          {insights.heatmap.map((week, index) => (
+            <View key={index} style={styles.heatmapColumn}>
+              {week.map((day, weekday) => (
+                <View
+                  key={weekday}
+                  style={[styles.heatmapCell, day ? { backgroundColor: getHeatmapColor(day) } : styles.heatmapCellEmpty]}
+                />
+              ))}
+            </View>
+          ))}
+        </View>
+        <View style={styles.legend}>
+          {[
+            { color: '#22c55e', label: 'All on time' },
+            { color: '#86efac', label: 'Some snoozed' },
+            { color: '#fca5a5', label: 'Snoozed or missed' },
+          ].map(item => (
+            <View key={item.label} style={styles.legendItem}>
+              <View style={[styles.legendSwatch, { backgroundColor: item.color }]} />
+              <Text style={styles.legendText}>{item.label}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      {renderBarChart(
+        'Average solve time',
+        insights.weekdays.map(day => day.averageSolveTime ?? 0),
+        formatSeconds
+      )}
+      {renderBarChart(
+        'Average snoozes',
+        insights.weekdays.map(day => day.averageSnoozes),
+        value => value.toFixed(1)
+      )}
+
+      {insights.puzzles.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Puzzles</Text>
+          {insights.puzzles.map(puzzle => (
+            <View key={puzzle.puzzleType} style={styles.puzzleRow}>
+              <View style={styles.puzzleInfo}>
+                <Text style={styles.puzzleLabel}>{puzzleLabels.get(puzzle.puzzleType) || puzzle.puzzleType}</Text>
+                <Text style={styles.puzzleDetail}>
+                  {puzzle.solved} of {puzzle.attempts} solved · avg {formatSeconds(puzzle.averageSolveTime)}
+                </Text>
+              </View>
+              <Text style={styles.puzzleRate}>{Math.round(puzzle.successRate * 100)}%</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  emptyState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyStateTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1e293b',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  stat: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#6366f1',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  heatmap: {
+    flexDirection: 'row',
+    gap: 3,
+  },
+  heatmapColumn: {
+    gap: 3,
+  },
+  heatmapDayLabel: {
+    height: 16,
+    fontSize: 10,
+    lineHeight: 16,
+    color: '#94a3b8',
+    width: 12,
+  },
+  heatmapCell: {
+    width: 16,
+    height: 16,
+    borderRadius: 3,
+  },
+  heatmapCellEmpty: {
+    backgroundColor: 'transparent',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  barChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  barValue: {
+    fontSize: 10,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  bar: {
+    width: 18,
+    borderRadius: 4,
+    backgroundColor: '#6366f1',
+  },
+  barLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 6,
+  },
+  puzzleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  puzzleInfo: {
+    flex: 1,
+  },
+  puzzleLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  puzzleDetail: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  puzzleRate: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#22c55e',
+  },
+});
+
+export default HistoryScreen;
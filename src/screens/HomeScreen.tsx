@@ -8,13 +8,19 @@ import {
   TouchableOpacity,
   Alert,
   RefreshControl,
+  AppState,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect } from '@react-navigation/native';
 import AlarmCard from '../components/AlarmCard';
 import NextAlarmCountdown from '../components/NextAlarmCountdown';
+import TimeZoneNoticeBanner from '../components/TimeZoneNoticeBanner';
+import MissedAlarmBanner from '../components/MissedAlarmBanner';
 import { StorageService } from '../services/StorageService';
-import { Alarm } from '../types';
+import { SkipDateService } from '../services/SkipDateService';
+import { MissedAlarmService } from '../services/MissedAlarmService';
+import { Alarm, MissedAlarm, SkipRange, TimeZoneChangeNotice } from '../types';
+import { describeSkip } from '../utils/skipDates';
 
 interface HomeScreenProps {
   navigation: any; // Will be typed properly when navigation is set up
@@ -22,6 +28,9 @@ interface HomeScreenProps {
 
 const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const [alarms, setAlarms] = useState<Alarm[]>([]);
+  const [skipRanges, setSkipRanges] = useState<SkipRange[]>([]);
+  const [timeZoneNotice, setTimeZoneNotice] = useState<TimeZoneChangeNotice | null>(null);
+  const [missedAlarms, setMissedAlarms] = useState<MissedAlarm[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [use24HourFormat, setUse24HourFormat] = useState(false);
@@ -33,10 +42,30 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     }, [])
   );
 
+  // A ring may have been missed while the app was away. Time zone changes are
+  // detected by the scheduler's resume refresh; here we only reload its notice.
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', async nextAppState => {
+      if (nextAppState === 'active') {
+        await MissedAlarmService.reconcile();
+        loadAlarms();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
   const loadAlarms = async () => {
     try {
       setLoading(true);
-      const allAlarms = await StorageService.getAllAlarms();
+      const [allAlarms, ranges, notice, missed] = await Promise.all([
+        StorageService.getAllAlarms(),
+        StorageService.getSkipRanges(),
+        StorageService.getTimeZoneNotice(),
+        StorageService.getMissedAlarms(),
+      ]);
+      setSkipRanges(ranges);
+      setTimeZoneNotice(notice);
+      setMissedAlarms(missed);
       // Sort alarms by time
       const sortedAlarms = allAlarms.sort((a, b) => {
         const timeA = a.time.split(':').map(Number);
@@ -82,6 +111,31 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     }
   };
 
+  const handleSkipNext = async (alarmId: string) => {
+    try {
+      const skip = await SkipDateService.skipNextOccurrence(alarmId);
+      if (!skip) {
+        Alert.alert('Nothing to Skip', 'This alarm has no upcoming rings');
+        return;
+      }
+      await loadAlarms();
+      Alert.alert('Skipped', describeSkip(skip));
+    } catch (error) {
+      console.error('Error skipping alarm:', error);
+      Alert.alert('Error', 'Failed to skip alarm');
+    }
+  };
+
+  const handleUnskip = async (alarmId: string, date: string) => {
+    try {
+      await SkipDateService.unskipDate(alarmId, date);
+      await loadAlarms();
+    } catch (error) {
+      console.error('Error un-skipping alarm:', error);
+      Alert.alert('Error', 'Failed to update alarm');
+    }
+  };
+
   const handleEditAlarm = (alarm: Alarm) => {
     // Navigate to edit screen
     navigation.navigate('EditAlarm', { alarmId: alarm.id });
@@ -116,6 +170,16 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     );
   };
 
+  const handleDismissTimeZoneNotice = async () => {
+    setTimeZoneNotice(null);
+    await StorageService.clearTimeZoneNotice();
+  };
+
+  const handleDismissMissedAlarms = async () => {
+    setMissedAlarms([]);
+    await StorageService.clearMissedAlarms();
+  };
+
   const handleAddAlarm = () => {
     // Navigate to add alarm screen
     navigation.navigate('AddAlarm');
@@ -133,6 +197,9 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       onEdit={handleEditAlarm}
       onDelete={handleDeleteAlarm}
       use24HourFormat={use24HourFormat}
+      skipRanges={skipRanges}
+      onSkipNext={handleSkipNext}
+      onUnskip={handleUnskip}
     />
   );
 
@@ -158,6 +225,12 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
             {use24HourFormat ? '24h' : '12h'}
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity 
+          style={styles.settingsButton}
+          onPress={() => navigation.navigate('History')}
+        >
+          <Text style={styles.settingsButtonText}>📊</Text>
+        </TouchableOpacity>
         <TouchableOpacity 
           style={styles.settingsButton}
           onPress={() => navigation.navigate('Settings')}
@@ -173,10 +246,27 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       <StatusBar barStyle="dark-content" backgroundColor="#f8fafc" />
       
       {renderHeader()}
+
+      {timeZoneNotice && (
+        <TimeZoneNoticeBanner
+          notice={timeZoneNotice}
+          use24HourFormat={use24HourFormat}
+          onDismiss={handleDismissTimeZoneNotice}
+        />
+      )}
+
+      {missedAlarms.length > 0 && (
+        <MissedAlarmBanner
+          missed={missedAlarms}
+          use24HourFormat={use24HourFormat}
+          onDismiss={handleDismissMissedAlarms}
+        />
+      )}
       
       {/* Next Alarm Countdown */}
       <NextAlarmCountdown 
         alarms={alarms} 
+        skipRanges={skipRanges}
         onAlarmPress={handleNextAlarmPress}
       />
       
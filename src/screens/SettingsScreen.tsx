@@ -13,16 +13,26 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Notifications from 'expo-notifications';
-import { useNavigation } from '@react-navigation/native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 
 import { AlarmScheduler } from '../services/AlarmScheduler';
 import { NotificationService } from '../services/NotificationService';
 import { PermissionService } from '../services/PermissionService';
 import { StorageService } from '../services/StorageService';
-import { Alarm, PuzzleType } from '../types';
+import { SkipDateService } from '../services/SkipDateService';
+import { BackupService } from '../services/BackupService';
+import { SoundLibrary } from '../services/SoundLibrary';
+import { Alarm, CustomSound, ImportMode, PuzzleType, ScanCode, SkipRange, SkipReason } from '../types';
+import { getPuzzleOptions } from '../puzzles';
+import { formatCalendarDate, formatCalendarDateForDisplay } from '../utils/timeUtils';
+import { describeImportSummary } from '../utils/backupImport';
+import ScanCodeRegistrationModal from '../components/ScanCodeRegistrationModal';
+import VacationRangeModal from '../components/VacationRangeModal';
+import { RootStackParamList } from '../types/navigation';
+import { DEFAULT_SOUND_ID, SoundInfo, BUNDLED_SOUNDS } from '../sounds';
 
 interface Settings {
-  defaultSound: string;
   defaultVibration: boolean;
   defaultSnoozeDuration: number;
   defaultPuzzleType: PuzzleType;
@@ -44,9 +54,9 @@ interface DiagnosticData {
 }
 
 const SettingsScreen: React.FC = () => {
-  const navigation = useNavigation();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, 'Settings'>>();
   const [settings, setSettings] = useState<Settings>({
-    defaultSound: 'alarm_default',
     defaultVibration: true,
     defaultSnoozeDuration: 5,
     defaultPuzzleType: PuzzleType.MATH,
@@ -69,12 +79,256 @@ const SettingsScreen: React.FC = () => {
 
   const [debugMode, setDebugMode] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [scanCodes, setScanCodes] = useState<ScanCode[]>([]);
+  const [showCodeRegistration, setShowCodeRegistration] = useState(false);
+  const [skipRanges, setSkipRanges] = useState<SkipRange[]>([]);
+  const [showVacationModal, setShowVacationModal] = useState(false);
+  const [eventRetentionDays, setEventRetentionDays] = useState(30);
+  const [ringMissedAlarms, setRingMissedAlarms] = useState(true);
+  const [customSounds, setCustomSounds] = useState<CustomSound[]>([]);
+  const [importingSound, setImportingSound] = useState(false);
+  const [defaultSound, setDefaultSound] = useState(DEFAULT_SOUND_ID);
+  const [soundOptions, setSoundOptions] = useState<SoundInfo[]>(BUNDLED_SOUNDS);
 
   useEffect(() => {
     loadSettings();
     loadDiagnosticData();
+    loadScanCodes();
+    loadSkipRanges();
+    loadUserSettings();
   }, []);
 
+  // Also reloads sounds imported from the picker
+  useEffect(() => {
+    const pickedSound = route.params?.pickedSound;
+    if (pickedSound) {
+      updateDefaultSound(pickedSound);
+    }
+    loadCustomSounds();
+  }, [route.params?.pickedSound]);
+
+  const loadScanCodes = async () => {
+    setScanCodes(await StorageService.getScanCodes());
+  };
+
+  const confirmDeleteScanCode = (code: ScanCode) => {
+    Alert.alert(
+      'Remove Code',
+      `Remove "${code.label}"? Alarms already using it keep working until you edit them.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await StorageService.deleteScanCode(code.id);
+              loadScanCodes();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to remove code');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const loadUserSettings = async () => {
+    const { eventRetentionDays, ringMissedAlarms, defaultSound } = await StorageService.getUserSettings();
+    setEventRetentionDays(eventRetentionDays);
+    setRingMissedAlarms(ringMissedAlarms);
+    setDefaultSound(defaultSound);
+  };
+
+  const updateDefaultSound = async (soundId: string) => {
+    const previous = defaultSound;
+    setDefaultSound(soundId);
+    try {
+      await StorageService.updateUserSettings({ defaultSound: soundId });
+    } catch (error) {
+      setDefaultSound(previous);
+      Alert.alert('Error', 'Failed to save default sound');
+    }
+  };
+
+  const updateRingMissedAlarms = async (value: boolean) => {
+    setRingMissedAlarms(value);
+    try {
+      await StorageService.updateUserSettings({ ringMissedAlarms: value });
+    } catch (error) {
+      setRingMissedAlarms(!value);
+      Alert.alert('Error', 'Failed to save missed alarm setting');
+    }
+  };
+
+  const describeRetention = (days: number) => {
+    if (days <= 0) return 'Forever';
+    if (days % 365 === 0) return days === 365 ? '1 year' : `${days / 365} years`;
+    return `${days} days`;
+  };
+
+  // Each tap moves to the next option. Older history is only deleted at the
+  // next launch, so tapping past a shorter option loses nothing.
+  const cycleHistoryRetention = async () => {
+    const options = [30, 90, 365, 0];
+    const next = options[(options.indexOf(eventRetentionDays) + 1) % options.length];
+    try {
+      await StorageService.updateUserSettings({ eventRetentionDays: next });
+      setEventRetentionDays(next);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save history setting');
+    }
+  };
+
+  const loadCustomSounds = async () => {
+    setCustomSounds(await StorageService.getCustomSounds());
+    setSoundOptions(await SoundLibrary.getSounds());
+  };
+
+  const importSound = async () => {
+    setImportingSound(true);
+    try {
+      const sound = await SoundLibrary.importSound();
+      if (sound) {
+        loadCustomSounds();
+        Alert.alert('Sound Imported', `"${sound.name}" can now be picked for your alarms.`);
+      }
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Could not import the sound');
+    } finally {
+      setImportingSound(false);
+    }
+  };
+
+  const confirmDeleteSound = (sound: CustomSound) => {
+    Alert.alert(
+      'Remove Sound',
+      `Remove "${sound.name}"? Alarms using it will play the default sound.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SoundLibrary.deleteSound(sound.id);
+              loadCustomSounds();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to remove sound');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const loadSkipRanges = async () => {
+    setSkipRanges(await StorageService.getSkipRanges());
+  };
+
+  const today = formatCalendarDate(new Date());
+  const vacations = skipRanges
+    .filter(range => range.source === SkipReason.VACATION && range.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const upcomingHolidays = skipRanges
+    .filter(range => range.source === SkipReason.HOLIDAY && range.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const describeRange = (range: SkipRange) =>
+    range.startDate === range.endDate
+      ? formatCalendarDateForDisplay(range.startDate)
+      : `${formatCalendarDateForDisplay(range.startDate)} – ${formatCalendarDateForDisplay(range.endDate)}`;
+
+  const confirmRemoveSkipRanges = (title: string, message: string, ids: string[]) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await SkipDateService.removeSkipRanges(ids);
+            loadSkipRanges();
+          } catch (error) {
+            Alert.alert('Error', 'Failed to remove skip dates');
+          }
+        },
+      },
+    ]);
+  };
+
+  const importHolidays = async () => {
+    try {
+      const added = await SkipDateService.importBundledHolidays();
+      loadSkipRanges();
+      Alert.alert(
+        'Holidays Imported',
+        added > 0
+          ? `${added} upcoming holiday${added > 1 ? 's' : ''} added. Repeating alarms won't ring on them.`
+          : 'All bundled holidays are already imported.'
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to import holidays');
+    }
+  };
+
+  const exportBackup = async () => {
+    try {
+      await BackupService.shareBackup();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export backup');
+    }
+  };
+
+  const restoreBackup = async (json: string, mode: ImportMode) => {
+    try {
+      const summary = await BackupService.restore(json, mode);
+      loadScanCodes();
+      loadSkipRanges();
+      loadDiagnosticData();
+      Alert.alert('Backup Restored', describeImportSummary(summary));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to restore backup');
+    }
+  };
+
+  const confirmReplace = async (json: string) => {
+    try {
+      const preview = await BackupService.previewRestore(json, ImportMode.REPLACE);
+      Alert.alert(
+        'Replace Everything?',
+        `Your current alarms and settings will be swapped for the backup.\n\n${describeImportSummary(preview)}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace', style: 'destructive', onPress: () => restoreBackup(json, ImportMode.REPLACE) },
+        ]
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to read backup');
+    }
+  };
+
+  const importBackup = async () => {
+    try {
+      const json = await BackupService.pickBackup();
+      if (!json) return;
+
+      // Preview a merge first; replacing is offered as the alternative
+      const preview = await BackupService.previewRestore(json, ImportMode.MERGE);
+      Alert.alert(
+        'Restore Backup',
+        `Merging keeps your alarms and adds the backup's:\n\n${describeImportSummary(preview)}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace Instead', style: 'destructive', onPress: () => confirmReplace(json) },
+          { text: 'Merge', onPress: () => restoreBackup(json, ImportMode.MERGE) },
+        ]
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to read backup');
+    }
+  };
+
   const loadSettings = async () => {
     try {
       const savedSettings = await AsyncStorage.getItem('app_settings');
@@ -390,17 +644,23 @@ const SettingsScreen: React.FC = () => {
         {/* Alarm Defaults */}
         {renderSection('Alarm Defaults', (
           <>
-            {renderPickerItem(
-              'Default Sound',
-              'Sound used for new alarms',
-              settings.defaultSound,
-              [
-                { label: 'Default Alarm', value: 'alarm_default' },
-                { label: 'Gentle Alarm', value: 'alarm_gentle' },
-              ],
-              (value) => updateSetting('defaultSound', value),
-              'volume-high'
-            )}
+            <TouchableOpacity
+              style={styles.settingItem}
+              onPress={() => navigation.navigate('SoundPicker', { selectedSound: defaultSound, returnTo: 'Settings' })}
+            >
+              <View style={styles.settingLeft}>
+                <Ionicons name="volume-high" size={24} color="#666" style={styles.settingIcon} />
+                <View>
+                  <Text style={styles.settingTitle}>Default Sound</Text>
+                  <Text style={styles.settingDescription}>Sound used for new alarms</Text>
+                  <Text style={styles.settingValue}>
+                    {(soundOptions.find(sound => sound.id === defaultSound)
+                      || soundOptions.find(sound => sound.id === DEFAULT_SOUND_ID))?.name}
+                  </Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#ccc" />
+            </TouchableOpacity>
             {renderSettingItem(
               'Default Vibration',
               'Vibrate for new alarms',
@@ -424,11 +684,7 @@ const SettingsScreen: React.FC = () => {
               'Default Puzzle',
               'Puzzle type for new alarms',
               settings.defaultPuzzleType,
-              [
-                { label: 'Math Problem', value: 'math' },
-                { label: 'Pattern Match', value: 'pattern' },
-                { label: 'None', value: 'none' },
-              ],
+              getPuzzleOptions().map(option => ({ label: option.label, value: option.value })),
               (value) => updateSetting('defaultPuzzleType', value as PuzzleType),
               'calculator'
             )}
@@ -452,6 +708,158 @@ const SettingsScreen: React.FC = () => {
               (value) => updateSetting('autoCleanup', value),
               'trash'
             )}
+            {renderSettingItem(
+              'Ring Missed Alarms',
+              'Ring on opening while a missed alarm is still before its end time',
+              ringMissedAlarms,
+              updateRingMissedAlarms,
+              'alarm'
+            )}
+            {renderDebugItem(
+              'Keep Alarm History',
+              `${describeRetention(eventRetentionDays)} · tap to change`,
+              cycleHistoryRetention,
+              'archive-outline'
+            )}
+          </>
+        ))}
+
+        {/* Dismissal Codes */}
+        {renderSection('Dismissal Codes', (
+          <>
+            {scanCodes.map(code => (
+              <View key={code.id} style={styles.settingItem}>
+                <View style={styles.settingLeft}>
+                  <Ionicons
+                    name={code.format === 'qr' ? 'qr-code' : 'barcode'}
+                    size={24}
+                    color="#666"
+                    style={styles.settingIcon}
+                  />
+                  <View style={styles.codeDetails}>
+                    <Text style={styles.settingTitle}>{code.label}</Text>
+                    <Text style={styles.settingDescription} numberOfLines={1}>{code.value}</Text>
+                  </View>
+                </View>
+                <TouchableOpacity onPress={() => confirmDeleteScanCode(code)}>
+                  <Ionicons name="trash-outline" size={20} color="#f44336" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {renderDebugItem(
+              'Register New Code',
+              scanCodes.length === 0
+                ? 'Scan a QR code or barcode to use with "Scan Code" alarms'
+                : `${scanCodes.length} code${scanCodes.length > 1 ? 's' : ''} registered`,
+              () => setShowCodeRegistration(true),
+              'qr-code'
+            )}
+          </>
+        ))}
+
+        {/* Alarm Sounds */}
+        {renderSection('Alarm Sounds', (
+          <>
+            {customSounds.map(sound => (
+              <View key={sound.id} style={styles.settingItem}>
+                <View style={styles.settingLeft}>
+                  <Ionicons name="musical-notes" size={24} color="#666" style={styles.settingIcon} />
+                  <View style={styles.codeDetails}>
+                    <Text style={styles.settingTitle}>{sound.name}</Text>
+                    <Text style={styles.settingDescription}>{Math.round(sound.durationMs / 1000)} seconds</Text>
+                  </View>
+                </View>
+                <TouchableOpacity onPress={() => confirmDeleteSound(sound)}>
+                  <Ionicons name="trash-outline" size={20} color="#f44336" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {renderDebugItem(
+              importingSound ? 'Importing...' : 'Import Sound',
+              'Use an MP3, WAV, M4A or AAC file from this device',
+              importingSound ? () => {} : importSound,
+              'cloud-upload-outline'
+            )}
+          </>
+        ))}
+
+        {/* Skip Dates */}
+        {renderSection('Skip Dates', (
+          <>
+            {vacations.map(range => (
+              <View key={range.id} style={styles.settingItem}>
+                <View style={styles.settingLeft}>
+                  <Ionicons name="airplane" size={24} color="#666" style={styles.settingIcon} />
+                  <View style={styles.codeDetails}>
+                    <Text style={styles.settingTitle}>{range.label}</Text>
+                    <Text style={styles.settingDescription}>{describeRange(range)}</Text>
+                  </View>
+                </View>
+                <TouchableOpacity
+                  onPress={() => confirmRemoveSkipRanges(
+                    'Remove Vacation',
+                    `Remove "${range.label}"? Alarms will ring on those days again.`,
+                    [range.id]
+                  )}
+                >
+                  <Ionicons name="trash-outline" size={20} color="#f44336" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {upcomingHolidays.length > 0 && (
+              <View style={styles.settingItem}>
+                <View style={styles.settingLeft}>
+                  <Ionicons name="calendar" size={24} color="#666" style={styles.settingIcon} />
+                  <View style={styles.codeDetails}>
+                    <Text style={styles.settingTitle}>
+                      {upcomingHolidays.length} upcoming holiday{upcomingHolidays.length > 1 ? 's' : ''}
+                    </Text>
+                    <Text style={styles.settingDescription} numberOfLines={1}>
+                      Next: {upcomingHolidays[0].label}, {describeRange(upcomingHolidays[0])}
+                    </Text>
+                  </View>
+                </View>
+                <TouchableOpacity
+                  onPress={() => confirmRemoveSkipRanges(
+                    'Remove Holidays',
+                    'Remove all imported holidays? Alarms will ring on them again.',
+                    skipRanges.filter(range => range.source === SkipReason.HOLIDAY).map(range => range.id)
+                  )}
+                >
+                  <Ionicons name="trash-outline" size={20} color="#f44336" />
+                </TouchableOpacity>
+              </View>
+            )}
+            {renderDebugItem(
+              'Add Vacation',
+              'Silence repeating alarms for a range of days',
+              () => setShowVacationModal(true),
+              'airplane'
+            )}
+            {renderDebugItem(
+              'Import US Holidays',
+              'Skip repeating alarms on federal holidays',
+              importHolidays,
+              'calendar'
+            )}
+          </>
+        ))}
+
+        {/* Backup */}
+        {renderSection('Backup', (
+          <>
+            {renderDebugItem(
+              'Export Backup',
+              'Save or send your alarms, codes and skip dates',
+              exportBackup,
+              'share-outline'
+            )}
+            {renderDebugItem(
+              'Import Backup',
+              'Restore from an AltRise backup file',
+              importBackup,
+              'download-outline'
+            )}
           </>
         ))}
 
@@ -588,6 +996,18 @@ const SettingsScreen: React.FC = () => {
           </>
         )}
       </ScrollView>
+
+      <ScanCodeRegistrationModal
+        visible={showCodeRegistration}
+        onClose={() => setShowCodeRegistration(false)}
+        onRegistered={() => loadScanCodes()}
+      />
+
+      <VacationRangeModal
+        visible={showVacationModal}
+        onClose={() => setShowVacationModal(false)}
+        onAdded={() => loadSkipRanges()}
+      />
     </SafeAreaView>
   );
 };
@@ -666,6 +1086,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  codeDetails: {
+    flex: 1,
+  },
   settingValue: {
     fontSize: 14,
     color: '#2196F3',
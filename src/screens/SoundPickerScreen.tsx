@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Ionicons } from '@expo/vector-icons';
+import { audioService } from '../services/AudioService';
+import { SoundLibrary } from '../services/SoundLibrary';
+import { StorageService } from '../services/StorageService';
+import { SoundCategory } from '../types';
+import {
+  SoundInfo,
+  SOUND_CATEGORY_LABELS,
+  groupSoundsByCategory,
+  formatSoundDuration,
+} from '../sounds';
+
+const PREVIEW_DURATION_MS = 5000;
+
+interface SoundPickerScreenProps {
+  navigation?: any;
+  route?: {
+    params?: {
+      selectedSound?: string;
+      returnTo?: 'AddAlarm' | 'EditAlarm' | 'Settings';
+    };
+  };
+}
+
+/**
+ * Browse, preview and pick an alarm sound. The pick is handed back to the
+ * screen named in `returnTo` as its `pickedSound` param.
+ */
+const SoundPickerScreen: React.FC<SoundPickerScreenProps> = ({ navigation, route }) => {
+  const selectedSound = route?.params?.selectedSound;
+  const returnTo = route?.params?.returnTo;
+
+  const [sounds, setSounds] = useState<SoundInfo[]>([]);
+  const [recentIds, setRecentIds] = useState<string[]>([]);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const [previewVolume, setPreviewVolume] = useState(0.7);
+  const [importing, setImporting] = useState(false);
+  const previewTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadSounds = useCallback(async () => {
+    const [library, recent] = await Promise.all([
+      SoundLibrary.getSounds(),
+      StorageService.getRecentSounds(),
+    ]);
+    setSounds(library);
+    setRecentIds(recent);
+  }, []);
+
+  useEffect(() => {
+    loadSounds();
+    return () => {
+      if (previewTimer.current) {
+        clearTimeout(previewTimer.current);
+      }
+      audioService.stopPreview();
+    };
+  }, [loadSounds]);
+
+  const stopPreview = async () => {
+    if (previewTimer.current) {
+      clearTimeout(previewTimer.current);
+      previewTimer.current = null;
+    }
+    setPreviewingId(null);
+    await audioService.stopPreview();
+  };
+
+  const togglePreview = async (sound: SoundInfo) => {
+    if (previewingId === sound.id) {
+      await stopPreview();
+      return;
+    }
+
+    await stopPreview();
+    const started = await audioService.playSoundPreview(sound.id, PREVIEW_DURATION_MS, previewVolume);
+    if (!started) {
+      Alert.alert('Preview Failed', `Could not play "${sound.name}"`);
+      return;
+    }
+
+    setPreviewingId(sound.id);
+    previewTimer.current = setTimeout(() => {
+      previewTimer.current = null;
+      setPreviewingId(null);
+    }, PREVIEW_DURATION_MS);
+  };
+
+  const changePreviewVolume = (volume: number) => {
+    setPreviewVolume(volume);
+    audioService.setPreviewVolume(volume);
+  };
+
+  const pickSound = async (sound: SoundInfo) => {
+    await stopPreview();
+    await StorageService.addRecentSound(sound.id);
+
+    if (returnTo) {
+      navigation?.navigate({ name: returnTo, params: { pickedSound: sound.id }, merge: true });
+    } else {
+      navigation?.goBack();
+    }
+  };
+
+  const importSound = async () => {
+    setImporting(true);
+    try {
+      const sound = await SoundLibrary.importSound();
+      if (sound) {
+        await loadSounds();
+      }
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Could not import the sound');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderSound = (sound: SoundInfo, keyPrefix: string) => {
+    const selected = sound.id === selectedSound;
+    const previewing = sound.id === previewingId;
+
+    return (
+      <TouchableOpacity
+        key={`${keyPrefix}-${sound.id}`}
+        style={[styles.soundRow, selected && styles.soundRowSelected]}
+        onPress={() => pickSound(sound)}
+      >
+        <TouchableOpacity style={styles.previewButton} onPress={() => togglePreview(sound)}>
+          <Ionicons
+            name={previewing ? 'stop-circle' : 'play-circle'}
+            size={36}
+            color="#6366f1"
+          />
+        </TouchableOpacity>
+        <View style={styles.soundInfo}>
+          <Text style={styles.soundName}>{sound.name}</Text>
+          <Text style={styles.soundDetail} numberOfLines={1}>
+            {formatSoundDuration(sound.durationMs)}
+            {sound.description ? ` · ${sound.description}` : ''}
+          </Text>
+        </View>
+        {selected && <Ionicons name="checkmark" size={22} color="#6366f1" />}
+      </TouchableOpacity>
+    );
+  };
+
+  const recentSounds = recentIds
+    .map(id => sounds.find(sound => sound.id === id))
+    .filter((sound): sound is SoundInfo => !!sound);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Preview volume</Text>
+        <View style={styles.volumeRow}>
+          <Ionicons name="volume-low" size={20} color="#64748b" />
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={1}
+            value={previewVolume}
+            onValueChange={changePreviewVolume}
+            minimumTrackTintColor="#6366f1"
+            maximumTrackTintColor="#e2e8f0"
+            thumbTintColor="#6366f1"
+          />
+          <Ionicons name="volume-high" size={20} color="#64748b" />
+        </View>
+      </View>
+
+      {recentSounds.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Recently used</Text>
+          {recentSounds.map(sound => renderSound(sound, 'recent'))}
+        </View>
+      )}
+
+      {groupSoundsByCategory(sounds).map(group => {
+        const isImported = group.category === SoundCategory.IMPORTED;
+        if (group.sounds.length === 0 && !isImported) {
+          return null;
+        }
+
+        return (
+          <View key={group.category} style={styles.card}>
+            <Text style={styles.cardTitle}>{SOUND_CATEGORY_LABELS[group.category]}</Text>
+            {group.sounds.map(sound => renderSound(sound, group.category))}
+            {isImported && (
+              <TouchableOpacity style={styles.importButton} onPress={importSound} disabled={importing}>
+                <Ionicons name="cloud-upload-outline" size={20} color="#6366f1" />
+                <Text style={styles.importButtonText}>{importing ? 'Importing...' : 'Import Sound'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  volumeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  slider: {
+    flex: 1,
+    height: 40,
+  },
+  soundRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+    borderRadius: 8,
+  },
+  soundRowSelected: {
+    backgroundColor: '#eef2ff',
+  },
+  previewButton: {
+    marginRight: 12,
+  },
+  soundInfo: {
+    flex: 1,
+  },
+  soundName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  soundDetail: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+  },
+  importButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+});
+
+export default SoundPickerScreen;
@@ -0,0 +1,366 @@
+import * as SQLite from 'expo-sqlite';
+import { Alarm, AlarmEvent, AlarmLifecycleEntry, AlarmLifecycleType, AlarmStats } from '../types';
+
+const DATABASE_NAME = 'altrise.db';
+
+// Bumped whenever the table layout below changes, tracked in PRAGMA user_version
+const DATABASE_VERSION = 2;
+
+// Rows keep the full object as JSON next to the columns used for lookups,
+// so adding a field to Alarm or AlarmEvent needs no table change
+interface DataRow {
+  data: string;
+}
+
+const TABLES_V1 = `
+  CREATE TABLE IF NOT EXISTS alarms (
+    id TEXT PRIMARY KEY NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS alarm_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    alarm_id TEXT NOT NULL,
+    triggered_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_alarm_events_alarm ON alarm_events (alarm_id, triggered_at);
+  CREATE INDEX IF NOT EXISTS idx_alarm_events_triggered_at ON alarm_events (triggered_at);
+  CREATE TABLE IF NOT EXISTS alarm_stats (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    data TEXT NOT NULL
+  );
+`;
+
+const TABLES_V2 = `
+  CREATE TABLE IF NOT EXISTS alarm_lifecycle (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    alarm_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    at TEXT NOT NULL,
+    scheduled_for TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_alarm_lifecycle_alarm ON alarm_lifecycle (alarm_id, at);
+  CREATE INDEX IF NOT EXISTS idx_alarm_lifecycle_at ON alarm_lifecycle (at);
+`;
+
+export class AlarmDatabase {
+  private static database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  /**
+   * Open the database, creating or upgrading its tables on first use
+   */
+  private static open(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.database) {
+      this.database = this.openAndUpgrade().catch(error => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  private static async openAndUpgrade(): Promise<SQLite.SQLiteDatabase> {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    await db.execAsync('PRAGMA journal_mode = WAL;');
+
+    const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const version = row?.user_version ?? 0;
+
+    if (version < 1) {
+      await db.withTransactionAsync(async () => {
+        await db.execAsync(TABLES_V1);
+      });
+      console.log('🗄️ [AlarmDatabase] Created tables');
+    }
+
+    if (version < 2) {
+      await db.withTransactionAsync(async () => {
+        await db.execAsync(TABLES_V2);
+      });
+      console.log('🗄️ [AlarmDatabase] Added the alarm lifecycle table');
+    }
+
+    if (version < DATABASE_VERSION) {
+      await db.execAsync(`PRAGMA user_version = ${DATABASE_VERSION}`);
+    }
+    return db;
+  }
+
+  /**
+   * Parse stored rows, leaving out any that are no longer valid JSON
+   */
+  private static parseRows<T>(table: string, rows: DataRow[]): T[] {
+    const parsed: T[] = [];
+    for (const row of rows) {
+      try {
+        parsed.push(JSON.parse(row.data));
+      } catch (error) {
+        console.error(`❌ [AlarmDatabase] Skipping unreadable row in ${table}:`, error);
+      }
+    }
+    return parsed;
+  }
+
+  // ==================== ALARMS ====================
+
+  /**
+   * All alarms, in the order they were created
+   */
+  static async getAlarms(): Promise<Alarm[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<DataRow>('SELECT data FROM alarms ORDER BY rowid');
+    return this.parseRows<Alarm>('alarms', rows);
+  }
+
+  static async getAlarm(id: string): Promise<Alarm | null> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<DataRow>('SELECT data FROM alarms WHERE id = ?', id);
+    return row ? this.parseRows<Alarm>('alarms', [row])[0] ?? null : null;
+  }
+
+  static async insertAlarm(alarm: Alarm): Promise<void> {
+    const db = await this.open();
+    await db.runAsync('INSERT INTO alarms (id, data) VALUES (?, ?)', alarm.id, JSON.stringify(alarm));
+  }
+
+  /**
+   * Save changes to an existing alarm. Updated in place so it keeps its position.
+   */
+  static async updateAlarm(alarm: Alarm): Promise<void> {
+    const db = await this.open();
+    await db.runAsync('UPDATE alarms SET data = ? WHERE id = ?', JSON.stringify(alarm), alarm.id);
+  }
+
+  /**
+   * Returns false if there was no alarm with this ID
+   */
+  static async deleteAlarm(id: string): Promise<boolean> {
+    const db = await this.open();
+    const result = await db.runAsync('DELETE FROM alarms WHERE id = ?', id);
+    return result.changes > 0;
+  }
+
+  static async countAlarms(): Promise<number> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM alarms');
+    return row?.count ?? 0;
+  }
+
+  // ==================== EVENTS ====================
+
+  /**
+   * All events, oldest first
+   */
+  static async getEvents(): Promise<AlarmEvent[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<DataRow>('SELECT data FROM alarm_events ORDER BY triggered_at');
+    return this.parseRows<AlarmEvent>('alarm_events', rows);
+  }
+
+  /**
+   * Events triggered from `start` up to but not including `end`, oldest first
+   */
+  static async getEventsBetween(start: Date, end: Date): Promise<AlarmEvent[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<DataRow>(
+      'SELECT data FROM alarm_events WHERE triggered_at >= ? AND triggered_at < ? ORDER BY triggered_at',
+      start.toISOString(),
+      end.toISOString()
+    );
+    return this.parseRows<AlarmEvent>('alarm_events', rows);
+  }
+
+  static async getEventsForAlarm(alarmId: string): Promise<AlarmEvent[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<DataRow>(
+      'SELECT data FROM alarm_events WHERE alarm_id = ? ORDER BY triggered_at',
+      alarmId
+    );
+    return this.parseRows<AlarmEvent>('alarm_events', rows);
+  }
+
+  static async insertEvent(event: AlarmEvent): Promise<void> {
+    const db = await this.open();
+    await db.runAsync(
+      'INSERT INTO alarm_events (alarm_id, triggered_at, data) VALUES (?, ?, ?)',
+      event.alarmId,
+      event.triggeredAt,
+      JSON.stringify(event)
+    );
+  }
+
+  /**
+   * Delete events triggered before `cutoff`. Returns how many were removed.
+   */
+  static async deleteEventsBefore(cutoff: Date): Promise<number> {
+    const db = await this.open();
+    const result = await db.runAsync('DELETE FROM alarm_events WHERE triggered_at < ?', cutoff.toISOString());
+    return result.changes;
+  }
+
+  // ==================== LIFECYCLE LOG ====================
+
+  static async insertLifecycleEntry(entry: AlarmLifecycleEntry): Promise<void> {
+    const db = await this.open();
+    await db.runAsync(
+      'INSERT INTO alarm_lifecycle (alarm_id, type, at, scheduled_for, data) VALUES (?, ?, ?, ?, ?)',
+      entry.alarmId,
+      entry.type,
+      entry.at,
+      entry.scheduledFor ?? null,
+      JSON.stringify(entry)
+    );
+  }
+
+  /**
+   * Whether a step was already logged for a given ring
+   */
+  static async hasLifecycleEntry(alarmId: string, type: AlarmLifecycleType, scheduledFor: string): Promise<boolean> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<{ id: number }>(
+      'SELECT id FROM alarm_lifecycle WHERE alarm_id = ? AND type = ? AND scheduled_for = ? LIMIT 1',
+      alarmId,
+      type,
+      scheduledFor
+    );
+    return row !== null;
+  }
+
+  static async getLatestLifecycleEntry(alarmId: string, type: AlarmLifecycleType): Promise<AlarmLifecycleEntry | null> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<DataRow>(
+      'SELECT data FROM alarm_lifecycle WHERE alarm_id = ? AND type = ? ORDER BY at DESC LIMIT 1',
+      alarmId,
+      type
+    );
+    return row ? this.parseRows<AlarmLifecycleEntry>('alarm_lifecycle', [row])[0] ?? null : null;
+  }
+
+  static async getLifecycleEntriesForAlarm(alarmId: string): Promise<AlarmLifecycleEntry[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<DataRow>(
+      'SELECT data FROM alarm_lifecycle WHERE alarm_id = ? ORDER BY at, id',
+      alarmId
+    );
+    return this.parseRows<AlarmLifecycleEntry>('alarm_lifecycle', rows);
+  }
+
+  /**
+   * Entries from `start` up to but not including `end`, oldest first
+   */
+  static async getLifecycleEntriesBetween(start: Date, end: Date): Promise<AlarmLifecycleEntry[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<DataRow>(
+      'SELECT data FROM alarm_lifecycle WHERE at >= ? AND at < ? ORDER BY at, id',
+      start.toISOString(),
+      end.toISOString()
+    );
+    return this.parseRows<AlarmLifecycleEntry>('alarm_lifecycle', rows);
+  }
+
+  static async deleteLifecycleEntriesBefore(cutoff: Date): Promise<number> {
+    const db = await this.open();
+    const result = await db.runAsync('DELETE FROM alarm_lifecycle WHERE at < ?', cutoff.toISOString());
+    return result.changes;
+  }
+
+  // ==================== STATS ====================
+
+  static async getStats(): Promise<Partial<AlarmStats> | null> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<DataRow>('SELECT data FROM alarm_stats WHERE id = 1');
+    return row ? this.parseRows<AlarmStats>('alarm_stats', [row])[0] ?? null : null;
+  }
+
+  static async saveStats(stats: Partial<AlarmStats>): Promise<void> {
+    const db = await this.open();
+    await db.runAsync('INSERT OR REPLACE INTO alarm_stats (id, data) VALUES (1, ?)', JSON.stringify(stats));
+  }
+
+  // ==================== BULK OPERATIONS ====================
+
+  /**
+   * Swap the stored alarms, events and stats for the given ones in a single
+   * transaction. Parts left undefined are kept as they are.
+   */
+  static async replaceAll(data: {
+    alarms?: Alarm[];
+    events?: AlarmEvent[];
+    stats?: Partial<AlarmStats> | null;
+  }): Promise<void> {
+    const db = await this.open();
+    await db.withTransactionAsync(async () => {
+      if (data.alarms) {
+        await db.runAsync('DELETE FROM alarms');
+        for (const alarm of data.alarms) {
+          await db.runAsync('INSERT OR REPLACE INTO alarms (id, data) VALUES (?, ?)', alarm.id, JSON.stringify(alarm));
+        }
+      }
+      if (data.events) {
+        await db.runAsync('DELETE FROM alarm_events');
+        for (const event of data.events) {
+          await db.runAsync(
+            'INSERT INTO alarm_events (alarm_id, triggered_at, data) VALUES (?, ?, ?)',
+            event.alarmId,
+            event.triggeredAt,
+            JSON.stringify(event)
+          );
+        }
+      }
+      if (data.stats) {
+        await db.runAsync('INSERT OR REPLACE INTO alarm_stats (id, data) VALUES (1, ?)', JSON.stringify(data.stats));
+      }
+    });
+  }
+
+  /**
+   * Copy data from the old AsyncStorage JSON blobs. Rows already in the
+   * database win, and events are only copied into an empty table, so running
+   * this again after an interrupted move is harmless.
+   */
+  static async importLegacyData(data: {
+    alarms: unknown[] | null;
+    events: unknown[] | null;
+    stats: Record<string, any> | null;
+  }): Promise<void> {
+    const db = await this.open();
+    const isRecord = (value: unknown): value is Record<string, any> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    await db.withTransactionAsync(async () => {
+      const eventCount = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM alarm_events');
+      const events = (eventCount?.count ?? 0) > 0 ? [] : data.events || [];
+
+      for (const alarm of data.alarms || []) {
+        // Alarms without an ID would be dropped by the v3 migration anyway
+        if (isRecord(alarm) && typeof alarm.id === 'string') {
+          await db.runAsync('INSERT OR IGNORE INTO alarms (id, data) VALUES (?, ?)', alarm.id, JSON.stringify(alarm));
+        }
+      }
+      for (const event of events) {
+        if (isRecord(event) && typeof event.alarmId === 'string' && typeof event.triggeredAt === 'string') {
+          await db.runAsync(
+            'INSERT INTO alarm_events (alarm_id, triggered_at, data) VALUES (?, ?, ?)',
+            event.alarmId,
+            event.triggeredAt,
+            JSON.stringify(event)
+          );
+        }
+      }
+      if (data.stats) {
+        await db.runAsync('INSERT OR IGNORE INTO alarm_stats (id, data) VALUES (1, ?)', JSON.stringify(data.stats));
+      }
+    });
+  }
+
+  /**
+   * Delete every alarm, event, stat and lifecycle entry
+   */
+  static async clear(): Promise<void> {
+    const db = await this.open();
+    await db.withTransactionAsync(async () => {
+      await db.execAsync('DELETE FROM alarms; DELETE FROM alarm_events; DELETE FROM alarm_stats; DELETE FROM alarm_lifecycle;');
+    });
+  }
+}
@@ -4,6 +4,11 @@ import { Audio } from 'expo-av';
 import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SoundStage, VolumeRamp } from '../types';
+import { ESCALATION_SOUND, VolumeRampHandle, startVolumeRamp } from '../utils/volumeRamp';
+import { SoundSequenceHandle, startSoundSequence } from '../utils/soundSequence';
+import { getVibrationChannelId, getVibrationPatternLabel, getVibrationTimings } from '../utils/vibrationPatterns';
+import { SoundLibrary } from './SoundLibrary';
 
 const ALARM_TASK_NAME = 'ALARM_FOREGROUND_TASK';
 const ACTIVE_ALARM_KEY = 'ACTIVE_ALARM_DATA';
@@ -11,6 +16,8 @@ const ACTIVE_ALARM_KEY = 'ACTIVE_ALARM_DATA';
 export class AlarmForegroundService {
   private static soundObject: Audio.Sound | null = null;
   private static isPlaying: boolean = false;
+  private static volumeRamp: VolumeRampHandle | null = null;
+  private static soundSequence: SoundSequenceHandle | null = null;
 
   static async startAlarmService(alarmData: any) {
     try {
@@ -40,7 +47,7 @@ export class AlarmForegroundService {
       await this.showAlarmNotification(alarmData);
       
       // Start playing alarm sound
-      await this.playAlarmSound(alarmData.soundFile);
+      await this.playAlarmSound(alarmData.soundFile, alarmData.volumeRamp, alarmData.soundSequence);
       
       return true;
     } catch (error) {
@@ -50,12 +57,15 @@ export class AlarmForegroundService {
   }
 
   static async showAlarmNotification(alarmData: any) {
+    const vibrationTimings = getVibrationTimings(alarmData.vibrationPattern);
+    const channelId = getVibrationChannelId(alarmData.vibrationPattern);
+
     const notificationContent: Notifications.NotificationContentInput = {
       title: '⏰ ALARM RINGING!',
       body: alarmData.label || 'Your alarm is ringing',
       sound: true,
       priority: Notifications.AndroidNotificationPriority.MAX,
-      vibrate: [0, 500, 200, 500, 200, 500],
+      vibrate: alarmData.vibrationEnabled === false ? undefined : vibrationTimings,
       categoryIdentifier: 'alarm',
       data: {
         ...alarmData,
@@ -69,10 +79,10 @@ export class AlarmForegroundService {
     // Android-specific full-screen intent for lock screen
     if (Platform.OS === 'android') {
       (notificationContent as any).android = {
-        channelId: 'alarm-channel',
+        channelId,
         importance: Notifications.AndroidImportance.MAX,
         sound: true,
-        vibrationPattern: [0, 500, 200, 500, 200, 500],
+        vibrationPattern: alarmData.vibrationEnabled === false ? undefined : vibrationTimings,
         lightColor: '#FF0000',
         autoCancel: false,
         ongoing: true,
@@ -84,12 +94,12 @@ export class AlarmForegroundService {
       };
     }
 
-    // Create high-priority channel for alarms
+    // Create high-priority channel for alarms; each vibration pattern has its own
     if (Platform.OS === 'android') {
-      await Notifications.setNotificationChannelAsync('alarm-channel', {
-        name: 'Active Alarms',
+      await Notifications.setNotificationChannelAsync(channelId, {
+        name: channelId === getVibrationChannelId() ? 'Active Alarms' : `Active Alarms (${getVibrationPatternLabel(alarmData.vibrationPattern)})`,
         importance: Notifications.AndroidImportance.MAX,
-        vibrationPattern: [0, 500, 200, 500, 200, 500],
+        vibrationPattern: vibrationTimings,
         lightColor: '#FF0000',
         sound: 'default',
         bypassDnd: true,
@@ -103,28 +113,36 @@ export class AlarmForegroundService {
     await Notifications.presentNotificationAsync(notificationContent);
   }
 
-  static async playAlarmSound(soundFile: string = 'alarm_default') {
+  static async playAlarmSound(soundFile: string = 'alarm_default', volumeRamp?: VolumeRamp, soundSequence?: SoundStage[]) {
     try {
-      // Stop any existing sound
-      if (this.soundObject) {
-        await this.soundObject.unloadAsync();
-        this.soundObject = null;
+      this.stopVolumeRamp();
+      this.stopSoundSequence();
+
+      // A sequence starts on its first stage and replaces the crescendo
+      if (soundSequence && soundSequence.length > 0) {
+        await this.loadAlarmSound(soundSequence[0].soundFile, soundSequence[0].volume);
+        this.soundSequence = startSoundSequence(soundSequence, stage => {
+          this.loadAlarmSound(stage.soundFile, stage.volume).catch(error => {
+            console.error('❌ Error switching sound stage:', error);
+          });
+        });
+        console.log('🔊 Alarm sound sequence playing');
+        return true;
       }
 
-      // Load and play alarm sound
-      const soundAsset = this.getSoundAsset(soundFile);
-      const { sound } = await Audio.Sound.createAsync(
-        soundAsset,
-        {
-          shouldPlay: true,
-          isLooping: true,
-          volume: 1.0,
-        },
-        this.onPlaybackStatusUpdate
-      );
-
-      this.soundObject = sound;
-      this.isPlaying = true;
+      await this.loadAlarmSound(soundFile, volumeRamp ? volumeRamp.startVolume : 1.0);
+
+      if (volumeRamp) {
+        this.volumeRamp = startVolumeRamp(volumeRamp, {
+          onVolume: volume => {
+            this.soundObject?.setVolumeAsync(volume).catch(() => {});
+          },
+          // Still ringing: switch to the urgent sound at full volume
+          onEscalate: () => {
+            this.playAlarmSound(ESCALATION_SOUND);
+          },
+        });
+      }
       
       console.log('🔊 Alarm sound playing');
       return true;
@@ -134,13 +152,42 @@ export class AlarmForegroundService {
     }
   }
 
-  static getSoundAsset(soundFile: string) {
-    const sounds: Record<string, any> = {
-      'alarm_default': require('../../assets/sounds/alarm_default.wav'),
-      'alarm_gentle': require('../../assets/sounds/alarm_gentle.wav'),
-      'alarm_urgent': require('../../assets/sounds/alarm_urgent.wav'),
-    };
-    return sounds[soundFile] || sounds['alarm_default'];
+  /**
+   * Replace whatever is playing with a looping alarm sound
+   */
+  private static async loadAlarmSound(soundFile: string, volume: number) {
+    if (this.soundObject) {
+      await this.soundObject.unloadAsync();
+      this.soundObject = null;
+    }
+
+    const soundInfo = await SoundLibrary.resolveSound(soundFile);
+    const { sound } = await Audio.Sound.createAsync(
+      soundInfo.source,
+      {
+        shouldPlay: true,
+        isLooping: true,
+        volume,
+      },
+      this.onPlaybackStatusUpdate
+    );
+
+    this.soundObject = sound;
+    this.isPlaying = true;
+  }
+
+  private static stopSoundSequence() {
+    if (this.soundSequence) {
+      this.soundSequence.stop();
+      this.soundSequence = null;
+    }
+  }
+
+  private static stopVolumeRamp() {
+    if (this.volumeRamp) {
+      this.volumeRamp.stop();
+      this.volumeRamp = null;
+    }
   }
 
   static onPlaybackStatusUpdate = (status: any) => {
@@ -155,6 +202,8 @@ export class AlarmForegroundService {
       console.log('🛑 Stopping alarm service...');
       
       // Stop sound
+      this.stopVolumeRamp();
+      this.stopSoundSequence();
       if (this.soundObject) {
         await this.soundObject.stopAsync();
         await this.soundObject.unloadAsync();
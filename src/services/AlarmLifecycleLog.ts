@@ -0,0 +1,108 @@
+import { StorageService } from './StorageService';
+import { AlarmLifecycleEntry, AlarmLifecycleType, PuzzleType } from '../types';
+
+// Spreads Omit over each member of the AlarmLifecycleEntry union
+type LifecycleStep<T = AlarmLifecycleEntry> = T extends AlarmLifecycleEntry ? Omit<T, 'alarmId' | 'at'> : never;
+
+/**
+ * Writes the typed lifecycle of each ring: scheduled, delivered, shown, puzzle
+ * attempts, snoozed, dismissed, auto-dismissed or missed. Logging must never
+ * get in the way of an alarm, so every method swallows its own errors.
+ */
+export class AlarmLifecycleLog {
+  // Notifications already logged this session; received and tapped both report them
+  private static deliveredNotifications = new Set<string>();
+
+  private static async record(alarmId: string, step: LifecycleStep, at: Date = new Date()): Promise<void> {
+    try {
+      const entry = { ...step, alarmId, at: at.toISOString() } as AlarmLifecycleEntry;
+      await StorageService.recordLifecycleEntry(entry);
+      console.log(`📝 [AlarmLifecycleLog] ${alarmId}: ${entry.type}`);
+    } catch (error) {
+      console.error(`❌ [AlarmLifecycleLog] Failed to log ${step.type} for ${alarmId}:`, error);
+    }
+  }
+
+  /**
+   * A ring was handed to the notification system. Rescheduling the same ring
+   * again is not logged twice.
+   */
+  static async scheduled(alarmId: string, scheduledFor: Date, isSnooze: boolean = false): Promise<void> {
+    const ring = scheduledFor.toISOString();
+    if (await StorageService.hasLifecycleEntry(alarmId, AlarmLifecycleType.SCHEDULED, ring)) {
+      return;
+    }
+    await this.record(alarmId, { type: AlarmLifecycleType.SCHEDULED, scheduledFor: ring, isSnooze });
+  }
+
+  static async notificationDelivered(
+    alarmId: string,
+    notificationId: string,
+    deliveredAt: Date,
+    scheduledFor?: string
+  ): Promise<void> {
+    if (this.deliveredNotifications.has(notificationId)) {
+      return;
+    }
+    this.deliveredNotifications.add(notificationId);
+    await this.record(
+      alarmId,
+      { type: AlarmLifecycleType.NOTIFICATION_DELIVERED, notificationId, scheduledFor },
+      deliveredAt
+    );
+  }
+
+  /**
+   * The alarm modal appeared. Latency is measured from the delivery it answers,
+   * if that delivery was seen and not already followed by a modal.
+   */
+  static async modalShown(alarmId: string, shownAt: Date = new Date()): Promise<void> {
+    const [delivered, lastShown] = await Promise.all([
+      StorageService.getLatestLifecycleEntry(alarmId, AlarmLifecycleType.NOTIFICATION_DELIVERED),
+      StorageService.getLatestLifecycleEntry(alarmId, AlarmLifecycleType.MODAL_SHOWN),
+    ]);
+    const answersDelivery = delivered && (!lastShown || lastShown.at < delivered.at);
+
+    await this.record(
+      alarmId,
+      {
+        type: AlarmLifecycleType.MODAL_SHOWN,
+        scheduledFor: answersDelivery ? delivered.scheduledFor : undefined,
+        latencyMs: answersDelivery ? shownAt.getTime() - new Date(delivered.at).getTime() : undefined,
+      },
+      shownAt
+    );
+  }
+
+  static async puzzleAttempt(alarmId: string, puzzleType: PuzzleType, attempt: number, correct: boolean): Promise<void> {
+    await this.record(alarmId, { type: AlarmLifecycleType.PUZZLE_ATTEMPT, puzzleType, attempt, correct });
+  }
+
+  static async snoozed(alarmId: string, snoozeCount: number, snoozeUntil: Date): Promise<void> {
+    await this.record(alarmId, {
+      type: AlarmLifecycleType.SNOOZED,
+      snoozeCount,
+      snoozeUntil: snoozeUntil.toISOString(),
+    });
+  }
+
+  static async dismissed(
+    alarmId: string,
+    details: { puzzleCompleted: boolean; snoozeCount: number; solveTime?: number; autoDismissed?: boolean },
+    at: Date = new Date()
+  ): Promise<void> {
+    const step: LifecycleStep = details.autoDismissed
+      ? { type: AlarmLifecycleType.AUTO_DISMISSED, snoozeCount: details.snoozeCount }
+      : {
+          type: AlarmLifecycleType.DISMISSED,
+          puzzleCompleted: details.puzzleCompleted,
+          snoozeCount: details.snoozeCount,
+          solveTime: details.solveTime,
+        };
+    await this.record(alarmId, step, at);
+  }
+
+  static async missed(alarmId: string, reason: 'abandoned_snooze' | 'not_shown', scheduledFor?: string): Promise<void> {
+    await this.record(alarmId, { type: AlarmLifecycleType.MISSED, reason, scheduledFor });
+  }
+}
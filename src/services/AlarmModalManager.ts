@@ -1,5 +1,6 @@
 import { AlarmModalData } from '../components/AlarmModal';
 import * as Notifications from 'expo-notifications';
+import { createScheduleContext, getEndTime } from '../scheduling';
 
 export interface AlarmModalState {
   isVisible: boolean;
@@ -78,18 +79,8 @@ class AlarmModalManager {
       const startTime = new Date();
       const persistentId = `alarm_${data.alarmId}_${startTime.getTime()}`;
 
-      // Calculate end time if provided
-      let endTime: Date | null = null;
-      if (data.endTime) {
-        endTime = new Date();
-        const [hours, minutes] = data.endTime.split(':');
-        endTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-        
-        // If end time is in the past, add a day
-        if (endTime <= startTime) {
-          endTime.setDate(endTime.getDate() + 1);
-        }
-      }
+      // Calculate end time if provided (tomorrow if it has already passed today)
+      const endTime = getEndTime(data, startTime, createScheduleContext());
 
       // Update modal state
       this.modalState = {
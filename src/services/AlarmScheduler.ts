@@ -1,18 +1,42 @@
 import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import * as BackgroundFetch from 'expo-background-fetch';
 import { Platform } from 'react-native';
 import { StorageService } from './StorageService';
-import { Alarm } from '../types';
+import { Alarm, SnoozeState, SkipRange, TimeZoneChangeNotice, TimeZoneShift } from '../types';
 import { AlarmForegroundService } from './AlarmForegroundService';
+import { AlarmLifecycleLog } from './AlarmLifecycleLog';
+import { isRepeatingAlarm, describeRecurrence } from '../utils/recurrence';
+import { describeSkip } from '../utils/skipDates';
+import { getVibrationChannelId, getVibrationPatternLabel, getVibrationTimings } from '../utils/vibrationPatterns';
+import {
+  AlarmOccurrence,
+  createScheduleContext,
+  formatZonedTime,
+  getDeviceTimeZone,
+  getNextOccurrence,
+  getUpcomingOccurrences,
+} from '../scheduling';
+
+// Repeating alarms are scheduled this far ahead and topped up as days pass.
+// iOS only keeps the 64 soonest notifications, so overflow drops the furthest
+// rings first and the next top-up fills them in.
+const SCHEDULING_HORIZON_DAYS = 14;
+const TOP_UP_TASK_NAME = 'ALARM_SCHEDULE_TOP_UP_TASK';
+const TOP_UP_INTERVAL_SECONDS = 6 * 60 * 60;
 
 export interface ScheduledNotification {
   alarmId: string;
   notificationId: string;
   scheduledFor: Date;
   isEndTimeNotification?: boolean;
+  isSnooze?: boolean;
 }
 
 export class AlarmScheduler {
   private static scheduledNotifications: Map<string, ScheduledNotification[]> = new Map();
+  private static snoozeNotifications: Map<string, ScheduledNotification> = new Map();
+  private static vibrationChannels: Set<string> = new Set();
 
   /**
    * Schedule all enabled alarms
@@ -45,6 +69,9 @@ export class AlarmScheduler {
       }
 
       console.log(`✅ All alarms scheduled successfully: ${successCount} success, ${failureCount} failures`);
+
+      // Cancelling everything above also removed pending snoozes, so put them back
+      await this.restorePendingSnoozes();
       
       // Validate that notifications were actually scheduled
       await this.validateScheduledNotifications();
@@ -153,48 +180,14 @@ export class AlarmScheduler {
 
       const scheduledNotifications: ScheduledNotification[] = [];
 
-      // Calculate next occurrences for the next 7 days (weekly repeat cycle)
-      const nextOccurrences = this.calculateNextOccurrences(alarm, 7);
+      // Calculate next occurrences within the rolling horizon, leaving out skipped days
+      const skipRanges = await StorageService.getSkipRanges();
+      const nextOccurrences = this.calculateNextOccurrences(alarm, skipRanges);
       
       console.log(`📅 Found ${nextOccurrences.length} upcoming occurrences for alarm ${alarm.id}`);
 
       for (const occurrence of nextOccurrences) {
-        console.log(`⏰ Scheduling notification for ${occurrence.toLocaleString()}`);
-        
-        // Schedule the main alarm notification
-        const notificationId = await this.scheduleNotification(
-          alarm,
-          occurrence,
-          false
-        );
-
-        if (notificationId) {
-          scheduledNotifications.push({
-            alarmId: alarm.id,
-            notificationId,
-            scheduledFor: occurrence,
-            isEndTimeNotification: false,
-          });
-
-          // Schedule end time notification if alarm has an end time
-          if (alarm.endTime) {
-            const endOccurrence = this.calculateEndTime(occurrence, alarm.endTime);
-            const endNotificationId = await this.scheduleNotification(
-              alarm,
-              endOccurrence,
-              true
-            );
-
-            if (endNotificationId) {
-              scheduledNotifications.push({
-                alarmId: alarm.id,
-                notificationId: endNotificationId,
-                scheduledFor: endOccurrence,
-                isEndTimeNotification: true,
-              });
-            }
-          }
-        }
+        scheduledNotifications.push(...await this.scheduleOccurrence(alarm, occurrence));
       }
 
       // Store scheduled notifications for this alarm
@@ -213,6 +206,187 @@ export class AlarmScheduler {
     }
   }
 
+  /**
+   * Schedule the ring (and end time notification, if any) for one occurrence
+   */
+  private static async scheduleOccurrence(alarm: Alarm, occurrence: AlarmOccurrence): Promise<ScheduledNotification[]> {
+    console.log(`⏰ Scheduling notification for ${occurrence.start.toLocaleString()}`);
+    const scheduled: ScheduledNotification[] = [];
+
+    // Schedule the main alarm notification
+    const notificationId = await this.scheduleNotification(alarm, occurrence.start, false);
+    if (!notificationId) {
+      return scheduled;
+    }
+
+    scheduled.push({
+      alarmId: alarm.id,
+      notificationId,
+      scheduledFor: occurrence.start,
+      isEndTimeNotification: false,
+    });
+    await AlarmLifecycleLog.scheduled(alarm.id, occurrence.start);
+
+    // Schedule end time notification if alarm has an end time
+    if (occurrence.end) {
+      const endOccurrence = occurrence.end;
+      const endNotificationId = await this.scheduleNotification(alarm, endOccurrence, true);
+
+      if (endNotificationId) {
+        scheduled.push({
+          alarmId: alarm.id,
+          notificationId: endNotificationId,
+          scheduledFor: endOccurrence,
+          isEndTimeNotification: true,
+        });
+      }
+    }
+
+    return scheduled;
+  }
+
+  /**
+   * Schedule any occurrences inside the horizon that are not already pending,
+   * without cancelling anything. Safe to run from a background task, where the
+   * in-memory tracking starts empty, so it is rebuilt from the system list.
+   */
+  static async topUpScheduling(): Promise<number> {
+    try {
+      console.log('📈 Topping up alarm scheduling...');
+
+      const systemScheduled = await Notifications.getAllScheduledNotificationsAsync();
+      const pendingKeys = new Set<string>();
+      const tracked = new Map<string, ScheduledNotification[]>();
+
+      for (const request of systemScheduled) {
+        const data = request.content.data || {};
+        if (typeof data.alarmId !== 'string' || typeof data.expectedTriggerTime !== 'string' || data.isSnooze) {
+          continue;
+        }
+
+        const isEndTime = !!data.isEndTime;
+        pendingKeys.add(`${data.alarmId}|${data.expectedTriggerTime}|${isEndTime}`);
+        tracked.set(data.alarmId, [
+          ...(tracked.get(data.alarmId) || []),
+          {
+            alarmId: data.alarmId,
+            notificationId: request.identifier,
+            scheduledFor: new Date(data.expectedTriggerTime),
+            isEndTimeNotification: isEndTime,
+          },
+        ]);
+      }
+
+      const [alarms, skipRanges] = await Promise.all([
+        StorageService.getAllAlarms(),
+        StorageService.getSkipRanges(),
+      ]);
+      let addedCount = 0;
+
+      for (const alarm of alarms.filter((alarm: Alarm) => alarm.isEnabled)) {
+        const alarmTracking = tracked.get(alarm.id) || [];
+
+        for (const occurrence of this.calculateNextOccurrences(alarm, skipRanges)) {
+          if (pendingKeys.has(`${alarm.id}|${occurrence.start.toISOString()}|false`)) {
+            continue;
+          }
+
+          const scheduled = await this.scheduleOccurrence(alarm, occurrence);
+          alarmTracking.push(...scheduled);
+          addedCount += scheduled.length;
+        }
+
+        tracked.set(alarm.id, alarmTracking);
+      }
+
+      this.scheduledNotifications = tracked;
+      console.log(`✅ Top-up complete: ${addedCount} notifications added`);
+      return addedCount;
+    } catch (error) {
+      console.error('❌ Error topping up alarm scheduling:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Compare the device zone with the one alarms were last scheduled in. On a
+   * change, store a notice describing where each enabled alarm now rings and
+   * return it; the caller reschedules. Returns null when nothing changed.
+   */
+  static async detectTimeZoneChange(): Promise<TimeZoneChangeNotice | null> {
+    try {
+      const timeZone = getDeviceTimeZone();
+      const previousTimeZone = await StorageService.getLastTimeZone();
+
+      if (previousTimeZone === timeZone) {
+        return null;
+      }
+
+      await StorageService.setLastTimeZone(timeZone);
+      if (!previousTimeZone) {
+        return null; // First run, nothing was scheduled before
+      }
+
+      console.log(`🌐 Time zone changed: ${previousTimeZone} -> ${timeZone}`);
+
+      const alarms = await StorageService.getEnabledAlarms();
+      const context = createScheduleContext({ timeZone });
+      const shifts: TimeZoneShift[] = [];
+
+      for (const alarm of alarms) {
+        const next = getNextOccurrence(alarm, context);
+        if (!next) continue;
+
+        shifts.push({
+          alarmId: alarm.id,
+          label: alarm.label,
+          time: alarm.time,
+          timeZone: alarm.timeZone,
+          localTime: formatZonedTime(next, timeZone),
+        });
+      }
+
+      const notice: TimeZoneChangeNotice = {
+        previousTimeZone,
+        timeZone,
+        detectedAt: new Date().toISOString(),
+        shifts,
+      };
+      await StorageService.saveTimeZoneNotice(notice);
+      return notice;
+    } catch (error) {
+      console.error('❌ Error checking for a time zone change:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Register the background task that keeps the horizon topped up when the
+   * app is not opened. Also runs after a reboot on Android.
+   */
+  static async registerTopUpTask(): Promise<void> {
+    try {
+      const status = await BackgroundFetch.getStatusAsync();
+      if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+        console.log(`⚠️ Background fetch unavailable (status ${status}) - schedule only tops up when the app opens`);
+        return;
+      }
+
+      if (await TaskManager.isTaskRegisteredAsync(TOP_UP_TASK_NAME)) {
+        return;
+      }
+
+      await BackgroundFetch.registerTaskAsync(TOP_UP_TASK_NAME, {
+        minimumInterval: TOP_UP_INTERVAL_SECONDS,
+        stopOnTerminate: false,
+        startOnBoot: true,
+      });
+      console.log('📈 Schedule top-up background task registered');
+    } catch (error) {
+      console.error('❌ Error registering schedule top-up task:', error);
+    }
+  }
+
   /**
    * Cancel a specific alarm's scheduled notifications
    */
@@ -254,6 +428,7 @@ export class AlarmScheduler {
 
       // Clear our tracking
       this.scheduledNotifications.clear();
+      this.snoozeNotifications.clear();
 
       console.log('✅ All scheduled alarms canceled');
     } catch (error) {
@@ -263,80 +438,137 @@ export class AlarmScheduler {
   }
 
   /**
-   * Reschedule an alarm (cancel old, schedule new)
+   * Schedule the ring for a snooze, using the alarm snapshot stored with it
    */
-  static async rescheduleAlarm(alarm: Alarm): Promise<void> {
-    await this.cancelAlarm(alarm.id);
-    if (alarm.isEnabled) {
-      await this.scheduleAlarm(alarm);
+  static async scheduleSnooze(state: SnoozeState): Promise<string | null> {
+    await this.cancelSnooze(state.alarmId);
+
+    const snoozeUntil = new Date(state.snoozeUntil);
+    const notificationId = await this.scheduleNotification(
+      state.alarm,
+      snoozeUntil,
+      false,
+      state.snoozeCount
+    );
+
+    if (notificationId) {
+      this.snoozeNotifications.set(state.alarmId, {
+        alarmId: state.alarmId,
+        notificationId,
+        scheduledFor: snoozeUntil,
+        isSnooze: true,
+      });
+      await AlarmLifecycleLog.scheduled(state.alarmId, snoozeUntil, true);
+      console.log(`😴 Snooze ${state.snoozeCount} for alarm ${state.alarmId} scheduled at ${snoozeUntil.toLocaleString()}`);
     }
+
+    return notificationId;
   }
 
   /**
-   * Calculate next alarm occurrences based on repeat settings
+   * Cancel the pending snooze ring for an alarm
    */
-  private static calculateNextOccurrences(alarm: Alarm, daysAhead: number = 7): Date[] {
-    const occurrences: Date[] = [];
-    const now = new Date();
-    const [hours, minutes] = alarm.time.split(':').map(Number);
+  static async cancelSnooze(alarmId: string): Promise<void> {
+    const snooze = this.snoozeNotifications.get(alarmId);
+    if (!snooze) {
+      return;
+    }
 
-    for (let i = 0; i < daysAhead; i++) {
-      const date = new Date();
-      date.setDate(now.getDate() + i);
-      date.setHours(hours, minutes, 0, 0);
+    try {
+      await Notifications.cancelScheduledNotificationAsync(snooze.notificationId);
+      console.log(`🚫 Canceled snooze notification ${snooze.notificationId}`);
+    } catch (error) {
+      console.error(`❌ Error canceling snooze for alarm ${alarmId}:`, error);
+    }
+    this.snoozeNotifications.delete(alarmId);
+  }
 
-      // For today (i === 0), only skip if the time has already passed
-      if (i === 0 && date <= now) {
-        console.log(`⏰ Alarm time ${alarm.time} has already passed today, scheduling for tomorrow`);
+  /**
+   * Re-create snooze rings from storage (after a restart or a full reschedule)
+   */
+  private static async restorePendingSnoozes(): Promise<void> {
+    const states = await StorageService.getSnoozeStates();
+    const now = new Date();
+
+    for (const state of states) {
+      if (new Date(state.snoozeUntil) <= now) {
         continue;
       }
 
-      // Check if this day should have the alarm based on repeat settings
-      if (this.shouldAlarmTriggerOnDay(alarm, date)) {
-        occurrences.push(date);
-        console.log(`✅ Alarm scheduled for ${date.toLocaleString()}`);
+      const notificationId = await this.scheduleSnooze(state);
+      if (notificationId && notificationId !== state.notificationId) {
+        await StorageService.saveSnoozeState({ ...state, notificationId });
       }
     }
+  }
 
-    return occurrences;
+  /**
+   * Reschedule an alarm (cancel old, schedule new)
+   */
+  static async rescheduleAlarm(alarm: Alarm): Promise<void> {
+    await this.cancelAlarm(alarm.id);
+    if (alarm.isEnabled) {
+      await this.scheduleAlarm(alarm);
+    }
   }
 
   /**
-   * Check if alarm should trigger on a specific day based on repeat settings
+   * Upcoming rings inside the scheduling horizon, leaving out skipped days.
+   * One-time alarms ring once, even when their date is beyond the horizon.
    */
-  private static shouldAlarmTriggerOnDay(alarm: Alarm, date: Date): boolean {
-    // If no repeat days are specified, treat as a one-time alarm
-    if (!alarm.repeatDays || alarm.repeatDays.length === 0) {
-      // For one-time alarms, only schedule for today if the time hasn't passed, or tomorrow
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const alarmDate = new Date(date);
-      alarmDate.setHours(0, 0, 0, 0);
-      
-      // Allow scheduling for today or tomorrow only
-      const daysDiff = Math.floor((alarmDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-      return daysDiff <= 1;
+  private static calculateNextOccurrences(
+    alarm: Alarm,
+    skipRanges: SkipRange[],
+    daysAhead: number = SCHEDULING_HORIZON_DAYS
+  ): AlarmOccurrence[] {
+    const context = createScheduleContext({ skipRanges });
+    const { rings, skipped } = getUpcomingOccurrences(alarm, context, daysAhead);
+
+    if (rings.length === 0 && !isRepeatingAlarm(alarm)) {
+      console.log(`⏰ One-time alarm ${alarm.id} is in the past, nothing to schedule`);
+    }
+    for (const occurrence of rings) {
+      console.log(`✅ Alarm scheduled for ${occurrence.start.toLocaleString()}`);
     }
+    for (const skip of skipped) {
+      console.log(`⏭️ ${describeSkip(skip)}`);
+    }
+
+    return rings;
+  }
 
-    // Check if this day matches the repeat settings
-    const dayOfWeek = date.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    return alarm.repeatDays.includes(dayOfWeek);
+  private static describeRepeat(alarm: Alarm): string {
+    return alarm.recurrence ? describeRecurrence(alarm.recurrence) : (alarm.repeatDays || []).join(', ');
   }
 
   /**
-   * Calculate end time occurrence
+   * The Android channel that vibrates with this pattern, created on first use.
+   * Channel vibration can't change after creation, so patterns get their own.
    */
-  private static calculateEndTime(startTime: Date, endTimeString: string): Date {
-    const [hours, minutes] = endTimeString.split(':').map(Number);
-    const endTime = new Date(startTime);
-    endTime.setHours(hours, minutes, 0, 0);
-
-    // If end time is before start time, it's the next day
-    if (endTime <= startTime) {
-      endTime.setDate(endTime.getDate() + 1);
+  private static async ensureVibrationChannel(pattern: Alarm['vibrationPattern']): Promise<string> {
+    const channelId = getVibrationChannelId(pattern);
+    // The default channel is set up in initialize
+    if (Platform.OS !== 'android' || channelId === getVibrationChannelId() || this.vibrationChannels.has(channelId)) {
+      return channelId;
     }
 
-    return endTime;
+    try {
+      await Notifications.setNotificationChannelAsync(channelId, {
+        name: `Active Alarms (${getVibrationPatternLabel(pattern)})`,
+        importance: Notifications.AndroidImportance.MAX,
+        vibrationPattern: getVibrationTimings(pattern),
+        lightColor: '#FF0000',
+        lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+        bypassDnd: true,
+        enableLights: true,
+        enableVibrate: true,
+        showBadge: true,
+      });
+      this.vibrationChannels.add(channelId);
+    } catch (error) {
+      console.error(`❌ Failed to create notification channel ${channelId}:`, error);
+    }
+    return channelId;
   }
 
   /**
@@ -345,7 +577,8 @@ export class AlarmScheduler {
   private static async scheduleNotification(
     alarm: Alarm,
     triggerDate: Date,
-    isEndTime: boolean = false
+    isEndTime: boolean = false,
+    snoozeCount: number = 0
   ): Promise<string | null> {
     try {
       const now = new Date();
@@ -371,20 +604,28 @@ export class AlarmScheduler {
       console.log(`   Trigger Time: ${triggerDate.toLocaleString()}`);
       console.log(`   Time Until Trigger: ${Math.round((triggerDate.getTime() - now.getTime()) / 1000)} seconds`);
       console.log(`   Is End Time: ${isEndTime}`);
-      console.log(`   Repeat Days: ${alarm.repeatDays?.join(', ') || 'None (one-time)'}`);
+      if (snoozeCount > 0) {
+        console.log(`   Snooze: ${snoozeCount}`);
+      }
+      console.log(`   Repeat: ${this.describeRepeat(alarm) || 'None (one-time)'}`);
       if (alarm.endTime) {
         console.log(`   End Time: ${alarm.endTime}`);
       }
 
+      const vibrationTimings = getVibrationTimings(alarm.vibrationPattern);
+      const channelId = await this.ensureVibrationChannel(alarm.vibrationPattern);
+
       // Update notification content for full-screen intent
       const content: Notifications.NotificationContentInput = {
         title: isEndTime ? '⏰ Alarm Period Ended' : '⏰ ALARM!',
         body: isEndTime 
           ? `${alarm.label || 'Alarm'} period has ended` 
-          : `${alarm.label || 'Wake up!'}`,
+          : snoozeCount > 0
+            ? `😴 ${alarm.label || 'Wake up!'} (snoozed)`
+            : `${alarm.label || 'Wake up!'}`,
         sound: !isEndTime, // Only play sound for main alarm
         priority: Notifications.AndroidNotificationPriority.MAX,
-        vibrate: alarm.vibrationEnabled ? [0, 500, 200, 500] : undefined,
+        vibrate: alarm.vibrationEnabled ? vibrationTimings : undefined,
         categoryIdentifier: 'alarm',
         sticky: !isEndTime,
         autoDismiss: isEndTime,
@@ -395,6 +636,10 @@ export class AlarmScheduler {
           originalTime: alarm.time,
           expectedTriggerTime: triggerDate.toISOString(),
           puzzleType: alarm.puzzleType,
+          soundFile: alarm.soundFile,
+          vibrationEnabled: alarm.vibrationEnabled,
+          isSnooze: snoozeCount > 0,
+          snoozeCount,
           triggerTime: triggerDate.toISOString(),
           repeatDays: alarm.repeatDays,
           endTime: alarm.endTime,
@@ -407,10 +652,10 @@ export class AlarmScheduler {
       // Add Android-specific full-screen intent
       if (Platform.OS === 'android' && !isEndTime) {
         (content as any).android = {
-          channelId: 'alarm-channel',
+          channelId,
           importance: Notifications.AndroidImportance.MAX,
           sound: true,
-          vibrationPattern: alarm.vibrationEnabled ? [0, 500, 200, 500] : undefined,
+          vibrationPattern: alarm.vibrationEnabled ? vibrationTimings : undefined,
           autoCancel: false,
           ongoing: true,
           priority: 'max',
@@ -434,7 +679,7 @@ export class AlarmScheduler {
       console.log(`✅ NOTIFICATION SCHEDULED SUCCESSFULLY!`);
       console.log(`   Notification ID: ${notificationId}`);
       console.log(`   Will trigger at: ${triggerDate.toLocaleString()}`);
-      console.log(`   Alarm will ${alarm.repeatDays?.length ? 'REPEAT on days: ' + alarm.repeatDays.join(', ') : 'be ONE-TIME'}`);
+      console.log(`   Alarm will ${isRepeatingAlarm(alarm) ? 'REPEAT: ' + this.describeRepeat(alarm) : 'be ONE-TIME'}`);
       console.log(`   Next check in: ${Math.round((triggerDate.getTime() - now.getTime()) / 60000)} minutes`);
       
       // Verify it was scheduled
@@ -492,23 +737,21 @@ export class AlarmScheduler {
         alarmId,
         label: alarm.label,
         soundFile: alarm.soundFile || 'alarm_default',
+        volumeRamp: alarm.volumeRamp,
+        soundSequence: alarm.soundSequence,
         vibrationEnabled: alarm.vibrationEnabled,
+        vibrationPattern: alarm.vibrationPattern,
         puzzleType: alarm.puzzleType,
         endTime: alarm.endTime,
       });
       
       // Check if this is a repeating alarm
-      if (alarm.repeatDays && alarm.repeatDays.length > 0) {
+      if (isRepeatingAlarm(alarm)) {
         console.log(`🔄 RESCHEDULING REPEATING ALARM ${alarmId}...`);
-        console.log(`   Repeat days: ${alarm.repeatDays.join(', ')}`);
+        console.log(`   Repeat: ${this.describeRepeat(alarm)}`);
         
-        // Remove the old scheduled notification from tracking
-        const existingNotifications = this.scheduledNotifications.get(alarmId) || [];
-        const updatedNotifications = existingNotifications.filter(n => !n.isEndTimeNotification);
-        this.scheduledNotifications.set(alarmId, updatedNotifications);
-        
-        // Schedule the next occurrence
-        await this.scheduleAlarm(alarm);
+        // Extend the horizon by the occurrence that just rang, keeping the rest
+        await this.topUpScheduling();
         
         console.log(`✅ Repeating alarm ${alarmId} rescheduled successfully`);
       } else {
@@ -554,6 +797,12 @@ export class AlarmScheduler {
       }
     });
 
+    this.snoozeNotifications.forEach((snooze) => {
+      if (!nextTime || snooze.scheduledFor < nextTime) {
+        nextTime = snooze.scheduledFor;
+      }
+    });
+
     return nextTime;
   }
 
@@ -690,6 +939,7 @@ export class AlarmScheduler {
       this.scheduledNotifications.forEach(notifications => {
         notifications.forEach(n => trackedIds.add(n.notificationId));
       });
+      this.snoozeNotifications.forEach(snooze => trackedIds.add(snooze.notificationId));
       
       // Find orphaned notifications
       const orphaned = systemScheduled.filter(n => !trackedIds.has(n.identifier));
@@ -715,8 +965,12 @@ export class AlarmScheduler {
     try {
       console.log('🔄 Force refreshing all alarm scheduling...');
       
+      // Record a timezone change so the home screen can explain shifted alarms
+      await this.detectTimeZoneChange();
+
       // Clear in-memory tracking
       this.scheduledNotifications.clear();
+      this.snoozeNotifications.clear();
       
       // Cancel all system notifications
       await Notifications.cancelAllScheduledNotificationsAsync();
@@ -758,10 +1012,10 @@ export class AlarmScheduler {
       
       // Set up notification channel for Android
       if (Platform.OS === 'android') {
-        await Notifications.setNotificationChannelAsync('alarm-channel', {
+        await Notifications.setNotificationChannelAsync(getVibrationChannelId(), {
           name: 'Active Alarms',
           importance: Notifications.AndroidImportance.MAX,
-          vibrationPattern: [0, 500, 200, 500],
+          vibrationPattern: getVibrationTimings(),
           lightColor: '#FF0000',
           lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
           bypassDnd: true,
@@ -789,7 +1043,8 @@ export class AlarmScheduler {
         },
       });
 
-      // Schedule all existing alarms
+      // Schedule all existing alarms, noting any timezone change since last time
+      await this.detectTimeZoneChange();
       await this.scheduleAllAlarms();
 
       console.log('✅ AlarmScheduler initialized successfully');
@@ -809,3 +1064,20 @@ export class AlarmScheduler {
     }
   }
 }
+
+// Background top-up of the rolling schedule (registered by AlarmScheduler.registerTopUpTask)
+TaskManager.defineTask(TOP_UP_TASK_NAME, async () => {
+  console.log('📈 Background schedule top-up task executed');
+  await StorageService.migrate();
+
+  // Rings already pending were placed for the old zone, so start over
+  if (await AlarmScheduler.detectTimeZoneChange()) {
+    await AlarmScheduler.scheduleAllAlarms();
+    return BackgroundFetch.BackgroundFetchResult.NewData;
+  }
+
+  const added = await AlarmScheduler.topUpScheduling();
+  return added > 0
+    ? BackgroundFetch.BackgroundFetchResult.NewData
+    : BackgroundFetch.BackgroundFetchResult.NoData;
+});
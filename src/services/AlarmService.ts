@@ -199,9 +199,8 @@ export class AlarmService {
     return AlarmScheduler.getScheduledAlarmsInfo();
   }
 
+  // Snoozing and completing a ring live in SnoozeManager
   // Additional scheduling methods:
-  // - snoozeAlarm() - Handle snooze functionality (reschedule for 5-10 minutes later)
-  // - completeAlarm() - Mark alarm as completed with puzzle solution
   // - triggerAlarm() - Handle alarm triggering logic (will be called from App.tsx)
 }
 
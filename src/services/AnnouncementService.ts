@@ -0,0 +1,38 @@
+import { StorageService } from './StorageService';
+import { Alarm } from '../types';
+import { createScheduleContext, getRemainingRingsToday } from '../scheduling';
+import { AnnouncementContent } from '../utils/announcement';
+
+/**
+ * Gathers what the spoken wake-up announcement says about the ringing alarm
+ */
+export class AnnouncementService {
+  /**
+   * Undefined when the alarm has no announcement
+   */
+  static async getAnnouncementContent(
+    alarm: Pick<Alarm, 'label' | 'announcement'>,
+    now: Date = new Date()
+  ): Promise<AnnouncementContent | undefined> {
+    if (!alarm.announcement) {
+      return undefined;
+    }
+
+    try {
+      const [alarms, skipRanges] = await Promise.all([
+        StorageService.getEnabledAlarms(),
+        StorageService.getSkipRanges(),
+      ]);
+      const remaining = getRemainingRingsToday(alarms, createScheduleContext({ clock: () => now, skipRanges }));
+
+      return {
+        label: alarm.label,
+        remaining: remaining.length,
+        message: alarm.announcement.message,
+      };
+    } catch (error) {
+      console.error('❌ [AnnouncementService] Failed to prepare announcement:', error);
+      return { label: alarm.label, message: alarm.announcement.message };
+    }
+  }
+}
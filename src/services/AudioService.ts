@@ -1,18 +1,32 @@
 import { Audio, AVPlaybackStatus, InterruptionModeAndroid, InterruptionModeIOS } from 'expo-av';
-import * as Haptics from 'expo-haptics';
-import { Platform, AppState, AppStateStatus } from 'react-native';
+import * as Speech from 'expo-speech';
+import { AppState, AppStateStatus, Vibration } from 'react-native';
+import { SoundStage, VibrationPattern, VolumeRamp } from '../types';
+import { ESCALATION_SOUND, VolumeRampHandle, startVolumeRamp } from '../utils/volumeRamp';
+import { SoundSequenceHandle, startSoundSequence } from '../utils/soundSequence';
+import {
+  ANNOUNCEMENT_DELAY_MS,
+  ANNOUNCEMENT_DUCK_VOLUME,
+  ANNOUNCEMENT_REPEAT_MS,
+  AnnouncementContent,
+  MAX_ANNOUNCEMENTS,
+  pickOfflineVoice,
+  renderAnnouncement,
+} from '../utils/announcement';
+import { formatTimeForDisplay } from '../utils/timeUtils';
+import { getVibrationTimings } from '../utils/vibrationPatterns';
+import { SoundLibrary } from './SoundLibrary';
+import { BUNDLED_SOUNDS, SoundInfo } from '../sounds';
 
 export interface AudioConfig {
   soundFile: string;
   volume: number;
   shouldLoop: boolean;
   enableVibration: boolean;
-}
-
-interface SoundAsset {
-  uri: any;
-  name: string;
-  description: string;
+  vibrationPattern?: VibrationPattern; // Default pattern when missing
+  volumeRamp?: VolumeRamp; // Replaces the fixed volume with a crescendo
+  soundSequence?: SoundStage[]; // Stages replace soundFile, volume, volumeRamp and enableVibration
+  announcement?: AnnouncementContent; // Spoken over the alarm, which is ducked while speaking
 }
 
 /**
@@ -36,11 +50,18 @@ class AudioService {
   private currentSound: Audio.Sound | null = null;
   private isPlaying: boolean = false;
   private currentConfig: AudioConfig | null = null;
-  private vibrationTimer: NodeJS.Timeout | null = null;
+  private isVibrating: boolean = false;
   private appStateSubscription: any = null;
   private isInitialized: boolean = false;
-  private soundAssets: Map<string, SoundAsset> = new Map();
   private previewSoundInstance: Audio.Sound | null = null;
+  private volumeRamp: VolumeRampHandle | null = null;
+  private soundSequence: SoundSequenceHandle | null = null;
+  private soundGeneration: number = 0; // Bumped per sound load so a slow load can't replace a newer sound
+  private announcementTimer: NodeJS.Timeout | null = null;
+  private announcementsLeft: number = 0;
+  private activeSpeech: object | null = null; // Identifies the utterance whose callbacks still count
+  private isDucked: boolean = false;
+  private offlineVoice: string | undefined | null = null; // null until looked up
   
   // Audio session configuration
   private readonly AUDIO_MODE = {
@@ -68,9 +89,6 @@ class AudioService {
       await Audio.setAudioModeAsync(this.AUDIO_MODE);
       console.log('🔊 [AudioService] Audio mode configured for alarm playback');
 
-      // Load sound assets
-      this.loadSoundAssets();
-
       // Set up app state monitoring
       this.setupAppStateMonitoring();
 
@@ -82,28 +100,6 @@ class AudioService {
     }
   }
 
-  /**
-   * Load available sound assets
-   */
-  private loadSoundAssets(): void {
-    // Note: For development, you need actual MP3 files in assets/sounds/
-    // These are placeholder entries - replace with actual audio files
-    this.soundAssets.set('alarm_default', {
-      uri: require('../../assets/sounds/alarm_default.mp3'),
-      name: 'Default Alarm',
-      description: 'Classic alarm beep pattern'
-    });
-
-    this.soundAssets.set('alarm_gentle', {
-      uri: require('../../assets/sounds/alarm_gentle.mp3'),
-      name: 'Gentle Wake-up',
-      description: 'Soft chimes for easy awakening'
-    });
-
-    console.log(`🔊 [AudioService] Loaded ${this.soundAssets.size} sound assets`);
-    console.log('⚠️ [AudioService] Note: Actual MP3 files required in assets/sounds/ for audio playback');
-  }
-
   /**
    * Set up app state monitoring for background audio handling
    */
@@ -130,6 +126,33 @@ class AudioService {
         console.error('❌ [AudioService] Failed to maintain background audio:', error);
       }
     }
+
+    if (this.isPlaying && nextAppState === 'active') {
+      console.log('🔊 [AudioService] App foregrounded - checking alarm audio');
+      // Timers may have been held back while suspended
+      this.soundSequence?.resync();
+      await this.resumeIfInterrupted();
+    }
+  }
+
+  /**
+   * Restart the alarm sound if the system paused it, e.g. for a call
+   */
+  private async resumeIfInterrupted(): Promise<void> {
+    const sound = this.currentSound;
+    if (!sound) {
+      return;
+    }
+
+    try {
+      const status = await sound.getStatusAsync();
+      if (status.isLoaded && !status.isPlaying && this.isPlaying && this.currentSound === sound) {
+        console.log('🔊 [AudioService] Alarm sound was interrupted - resuming');
+        await sound.playAsync();
+      }
+    } catch (error) {
+      console.error('❌ [AudioService] Failed to resume alarm sound:', error);
+    }
   }
 
   /**
@@ -150,34 +173,39 @@ class AudioService {
         await this.stopAlarmSound();
       }
 
-      // Get sound asset
-      const soundAsset = this.soundAssets.get(config.soundFile);
-      if (!soundAsset) {
-        console.error(`❌ [AudioService] Sound asset not found: ${config.soundFile}`);
-        return false;
+      // A sequence starts on its first stage, which sets sound, volume and vibration
+      const firstStage = config.soundSequence?.[0];
+      if (firstStage) {
+        config = {
+          ...config,
+          soundFile: firstStage.soundFile,
+          volume: firstStage.volume,
+          enableVibration: firstStage.vibration,
+          volumeRamp: undefined,
+        };
       }
 
+      // Missing imported sounds fall back to the default
+      const soundInfo = await SoundLibrary.resolveSound(config.soundFile);
+
       // Create and configure sound with error handling
-      let sound: Audio.Sound;
-      try {
-        const result = await Audio.Sound.createAsync(
-          soundAsset.uri,
-          {
-            shouldPlay: true,
-            isLooping: config.shouldLoop,
-            volume: Math.max(0, Math.min(1, config.volume)), // Clamp volume 0-1
-          },
-          this.onPlaybackStatusUpdate.bind(this)
-        );
-        sound = result.sound;
-      } catch (createError) {
-        console.error('❌ [AudioService] Failed to create sound:', createError);
-        throw createError;
+      const volume = config.volumeRamp ? config.volumeRamp.startVolume : config.volume;
+      this.soundGeneration++;
+      this.currentSound = await this.createAlarmSound(soundInfo, { ...config, volume });
+      this.currentConfig = { ...config, soundFile: soundInfo.id, volume };
+      this.isPlaying = true;
+
+      if (config.volumeRamp) {
+        this.startVolumeRamp(config.volumeRamp);
       }
 
-      this.currentSound = sound;
-      this.currentConfig = config;
-      this.isPlaying = true;
+      if (config.soundSequence) {
+        this.startSoundSequence(config.soundSequence);
+      }
+
+      if (config.announcement) {
+        this.startAnnouncements(config.announcement);
+      }
 
       // Start vibration if enabled
       if (config.enableVibration) {
@@ -205,11 +233,254 @@ class AudioService {
       this.currentSound = null;
       this.currentConfig = null;
       this.stopVibration();
+      this.stopVolumeRamp();
+      this.stopSoundSequence();
+      this.stopAnnouncements();
       
       return false;
     }
   }
 
+  private async createAlarmSound(soundInfo: SoundInfo, config: AudioConfig): Promise<Audio.Sound> {
+    try {
+      const { sound } = await Audio.Sound.createAsync(
+        soundInfo.source,
+        {
+          shouldPlay: true,
+          isLooping: config.shouldLoop,
+          volume: Math.max(0, Math.min(1, config.volume)), // Clamp volume 0-1
+        },
+        this.onPlaybackStatusUpdate.bind(this)
+      );
+      return sound;
+    } catch (createError) {
+      console.error('❌ [AudioService] Failed to create sound:', createError);
+      throw createError;
+    }
+  }
+
+  /**
+   * Raise the volume along the alarm's crescendo, escalating if it rings too long
+   */
+  private startVolumeRamp(ramp: VolumeRamp): void {
+    this.stopVolumeRamp();
+    console.log(`🔊 [AudioService] Crescendo ${ramp.startVolume} -> ${ramp.targetVolume} over ${ramp.durationSeconds}s`);
+
+    this.volumeRamp = startVolumeRamp(ramp, {
+      onVolume: volume => {
+        if (this.currentConfig) {
+          this.currentConfig.volume = volume;
+        }
+        this.currentSound?.setVolumeAsync(this.getPlaybackVolume(volume)).catch(() => {
+          // The sound may have been unloaded between steps
+        });
+      },
+      onEscalate: () => {
+        this.escalate().catch(error => {
+          console.error('❌ [AudioService] Failed to escalate alarm:', error);
+        });
+      },
+    });
+  }
+
+  private stopVolumeRamp(): void {
+    if (this.volumeRamp) {
+      this.volumeRamp.stop();
+      this.volumeRamp = null;
+    }
+  }
+
+  /**
+   * Switch a ring that went unanswered to the urgent sound at full volume
+   */
+  private async escalate(): Promise<void> {
+    if (!this.isPlaying) {
+      return;
+    }
+
+    console.log('🚨 [AudioService] Alarm still ringing - escalating to urgent sound');
+    await this.switchSound(ESCALATION_SOUND, 1);
+  }
+
+  /**
+   * Move through the alarm's sound stages as each one comes due
+   */
+  private startSoundSequence(sequence: SoundStage[]): void {
+    this.stopSoundSequence();
+    console.log(`🔊 [AudioService] Sound sequence with ${sequence.length} stages`);
+
+    this.soundSequence = startSoundSequence(sequence, (stage, index) => {
+      this.playStage(stage, index).catch(error => {
+        console.error(`❌ [AudioService] Failed to start sound stage ${index + 1}:`, error);
+      });
+    });
+  }
+
+  private stopSoundSequence(): void {
+    if (this.soundSequence) {
+      this.soundSequence.stop();
+      this.soundSequence = null;
+    }
+  }
+
+  private async playStage(stage: SoundStage, index: number): Promise<void> {
+    console.log(`🔊 [AudioService] Sound stage ${index + 1}: ${stage.soundFile} at ${Math.round(stage.volume * 100)}%`);
+
+    if (!(await this.switchSound(stage.soundFile, stage.volume))) {
+      return;
+    }
+
+    this.stopVibration();
+    if (stage.vibration) {
+      this.startVibration();
+    }
+    if (this.currentConfig) {
+      this.currentConfig.enableVibration = stage.vibration;
+    }
+  }
+
+  /**
+   * Replace the ringing sound. Returns false if the alarm stopped, or another
+   * switch started, while the new sound was loading.
+   */
+  private async switchSound(soundFile: string, volume: number): Promise<boolean> {
+    if (!this.isPlaying || !this.currentConfig) {
+      return false;
+    }
+
+    const generation = ++this.soundGeneration;
+    const config: AudioConfig = { ...this.currentConfig, soundFile, volume };
+
+    const previous = this.currentSound;
+    this.currentSound = null;
+    if (previous) {
+      previous.setOnPlaybackStatusUpdate(null); // Its unload isn't a playback error
+      await previous.unloadAsync().catch(() => {
+        // Already unloaded
+      });
+    }
+
+    const soundInfo = await SoundLibrary.resolveSound(soundFile);
+    const sound = await this.createAlarmSound(soundInfo, { ...config, volume: this.getPlaybackVolume(volume) });
+    if (!this.isPlaying || generation !== this.soundGeneration) {
+      await sound.unloadAsync();
+      return false;
+    }
+    this.currentSound = sound;
+    this.currentConfig = { ...config, soundFile: soundInfo.id };
+    return true;
+  }
+
+  /**
+   * Read the wake-up announcement a few times while the alarm rings
+   */
+  private startAnnouncements(content: AnnouncementContent): void {
+    this.stopAnnouncements();
+    this.announcementsLeft = MAX_ANNOUNCEMENTS;
+    this.scheduleAnnouncement(content, ANNOUNCEMENT_DELAY_MS);
+  }
+
+  private scheduleAnnouncement(content: AnnouncementContent, delayMs: number): void {
+    this.announcementTimer = setTimeout(() => {
+      this.announcementTimer = null;
+      this.speakAnnouncement(content).catch(error => {
+        console.error('❌ [AudioService] Failed to speak announcement:', error);
+      });
+    }, delayMs);
+  }
+
+  private async speakAnnouncement(content: AnnouncementContent): Promise<void> {
+    if (!this.isPlaying || this.announcementsLeft <= 0) {
+      return;
+    }
+    this.announcementsLeft--;
+
+    const text = renderAnnouncement({ ...content, time: formatTimeForDisplay(new Date()) });
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    const voice = await this.getOfflineVoice(locale);
+    if (!this.isPlaying) {
+      return;
+    }
+
+    console.log(`🗣️ [AudioService] Announcing: "${text}"`);
+    const speech = {};
+    this.activeSpeech = speech;
+    this.setDucked(true);
+
+    const finish = () => {
+      if (this.activeSpeech !== speech) {
+        return; // Stopped, or replaced by a newer announcement
+      }
+      this.activeSpeech = null;
+      this.setDucked(false);
+      if (this.isPlaying && this.announcementsLeft > 0) {
+        this.scheduleAnnouncement(content, ANNOUNCEMENT_REPEAT_MS);
+      }
+    };
+
+    Speech.speak(text, {
+      language: locale,
+      voice,
+      onDone: finish,
+      onStopped: finish,
+      onError: error => {
+        console.error('❌ [AudioService] Speech engine error:', error);
+        finish();
+      },
+    });
+  }
+
+  private stopAnnouncements(): void {
+    if (this.announcementTimer) {
+      clearTimeout(this.announcementTimer);
+      this.announcementTimer = null;
+    }
+    this.announcementsLeft = 0;
+
+    if (this.activeSpeech) {
+      this.activeSpeech = null;
+      Speech.stop().catch(() => {
+        // Nothing was speaking
+      });
+    }
+    this.setDucked(false);
+  }
+
+  /**
+   * An on-device voice for the locale, looked up once
+   */
+  private async getOfflineVoice(locale: string): Promise<string | undefined> {
+    if (this.offlineVoice === null) {
+      try {
+        this.offlineVoice = pickOfflineVoice(await Speech.getAvailableVoicesAsync(), locale);
+      } catch (error) {
+        console.warn('⚠️ [AudioService] Could not list speech voices:', error);
+        this.offlineVoice = undefined;
+      }
+    }
+    return this.offlineVoice;
+  }
+
+  /**
+   * Hold the alarm down while an announcement is speaking
+   */
+  private setDucked(ducked: boolean): void {
+    if (this.isDucked === ducked) {
+      return;
+    }
+    this.isDucked = ducked;
+
+    if (this.currentConfig) {
+      this.currentSound?.setVolumeAsync(this.getPlaybackVolume(this.currentConfig.volume)).catch(() => {
+        // The sound may be switching or already unloaded
+      });
+    }
+  }
+
+  private getPlaybackVolume(volume: number): number {
+    return this.isDucked ? Math.min(volume, ANNOUNCEMENT_DUCK_VOLUME) : volume;
+  }
+
   /**
    * Stop alarm sound and vibration
    */
@@ -222,8 +493,11 @@ class AudioService {
     try {
       console.log('🔊 [AudioService] Stopping alarm sound...');
 
-      // Stop vibration first
+      // Stop vibration, crescendo and stages first
       this.stopVibration();
+      this.stopVolumeRamp();
+      this.stopSoundSequence();
+      this.stopAnnouncements();
 
       // Set flags early to prevent re-entry
       this.isPlaying = false;
@@ -254,25 +528,20 @@ class AudioService {
       this.isPlaying = false;
       this.currentConfig = null;
       this.stopVibration();
+      this.stopVolumeRamp();
+      this.stopSoundSequence();
+      this.stopAnnouncements();
     }
   }
 
   /**
-   * Start vibration pattern for alarm
+   * Repeat the alarm's vibration pattern until stopped. iOS vibrates for a
+   * fixed length, so there only the pauses of the pattern apply.
    */
   private startVibration(): void {
     try {
-      if (Platform.OS === 'android') {
-        // Android: Use Haptics with custom pattern
-        this.vibrationTimer = setInterval(() => {
-          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
-        }, 1000); // Vibrate every second
-      } else {
-        // iOS: Use notification haptics
-        this.vibrationTimer = setInterval(() => {
-          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-        }, 2000); // Vibrate every 2 seconds on iOS
-      }
+      Vibration.vibrate(getVibrationTimings(this.currentConfig?.vibrationPattern), true);
+      this.isVibrating = true;
 
       console.log('🔊 [AudioService] Vibration started');
     } catch (error) {
@@ -284,13 +553,24 @@ class AudioService {
    * Stop vibration
    */
   private stopVibration(): void {
-    if (this.vibrationTimer) {
-      clearInterval(this.vibrationTimer);
-      this.vibrationTimer = null;
+    if (this.isVibrating) {
+      Vibration.cancel();
+      this.isVibrating = false;
       console.log('🔊 [AudioService] Vibration stopped');
     }
   }
 
+  /**
+   * Play a vibration pattern once, e.g. from the alarm editor
+   */
+  public previewVibration(pattern?: VibrationPattern): void {
+    if (this.isPlaying) {
+      return; // Don't cut into a ringing alarm's vibration
+    }
+    Vibration.cancel();
+    Vibration.vibrate(getVibrationTimings(pattern));
+  }
+
   /**
    * Handle playback status updates
    */
@@ -315,26 +595,22 @@ class AudioService {
   /**
    * Preview sound for settings/selection
    */
-  public async playSoundPreview(soundFile: string, duration: number = 3000): Promise<boolean> {
+  public async playSoundPreview(soundFile: string, duration: number = 3000, volume: number = 0.7): Promise<boolean> {
     try {
       console.log(`🔊 [AudioService] Previewing sound: ${soundFile}`);
 
       // Stop any current preview
       await this.stopPreview();
 
-      const soundAsset = this.soundAssets.get(soundFile);
-      if (!soundAsset) {
-        console.error(`❌ [AudioService] Preview sound not found: ${soundFile}`);
-        return false;
-      }
+      const soundInfo = await SoundLibrary.resolveSound(soundFile);
 
       // Create preview sound (non-looping, moderate volume)
       const { sound } = await Audio.Sound.createAsync(
-        soundAsset.uri,
+        soundInfo.source,
         {
           shouldPlay: true,
           isLooping: false,
-          volume: 0.7, // Moderate volume for preview
+          volume: Math.max(0, Math.min(1, volume)), // Moderate volume by default
         }
       );
 
@@ -374,6 +650,33 @@ class AudioService {
     }
   }
 
+  /**
+   * Change the volume of the preview that is playing, if any
+   */
+  public async setPreviewVolume(volume: number): Promise<void> {
+    try {
+      await this.previewSoundInstance?.setVolumeAsync(Math.max(0, Math.min(1, volume)));
+    } catch (error) {
+      console.error('❌ [AudioService] Failed to set preview volume:', error);
+    }
+  }
+
+  /**
+   * Speak an announcement once, e.g. from the alarm editor
+   */
+  public async previewAnnouncement(content: AnnouncementContent): Promise<void> {
+    try {
+      const text = renderAnnouncement({ ...content, time: formatTimeForDisplay(new Date()) });
+      const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+      const voice = await this.getOfflineVoice(locale);
+
+      await Speech.stop();
+      Speech.speak(text, { language: locale, voice });
+    } catch (error) {
+      console.error('❌ [AudioService] Failed to preview announcement:', error);
+    }
+  }
+
   /**
    * Set volume for current playing sound
    */
@@ -382,7 +685,7 @@ class AudioService {
       const clampedVolume = Math.max(0, Math.min(1, volume));
       
       if (this.currentSound) {
-        await this.currentSound.setVolumeAsync(clampedVolume);
+        await this.currentSound.setVolumeAsync(this.getPlaybackVolume(clampedVolume));
         console.log(`🔊 [AudioService] Volume set to: ${clampedVolume}`);
       }
 
@@ -396,13 +699,13 @@ class AudioService {
   }
 
   /**
-   * Get available sound assets
+   * Get the bundled sounds; SoundLibrary.getSounds also lists imported ones
    */
   public getAvailableSounds(): Array<{id: string, name: string, description: string}> {
-    return Array.from(this.soundAssets.entries()).map(([id, asset]) => ({
-      id,
-      name: asset.name,
-      description: asset.description
+    return BUNDLED_SOUNDS.map(sound => ({
+      id: sound.id,
+      name: sound.name,
+      description: sound.description || '',
     }));
   }
 
@@ -436,6 +739,9 @@ class AudioService {
       this.previewSoundInstance = null;
       this.isPlaying = false;
       this.stopVibration();
+      this.stopVolumeRamp();
+      this.stopSoundSequence();
+      this.stopAnnouncements();
       
       console.log('✅ [AudioService] Emergency stop completed');
     } catch (error) {
@@ -469,6 +775,9 @@ class AudioService {
       this.isPlaying = false;
       this.currentConfig = null;
       this.stopVibration();
+      this.stopVolumeRamp();
+      this.stopSoundSequence();
+      this.stopAnnouncements();
       
       console.log('✅ [AudioService] Internal emergency stop completed');
     } catch (error) {
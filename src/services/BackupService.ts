@@ -0,0 +1,61 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { StorageService } from './StorageService';
+import { AlarmScheduler } from './AlarmScheduler';
+import { ImportMode, ImportSummary } from '../types';
+import { formatCalendarDate } from '../utils/timeUtils';
+
+export class BackupService {
+  /**
+   * Write a backup file and open the share sheet so it can be saved or sent
+   */
+  static async shareBackup(): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const json = await StorageService.exportData();
+    const uri = `${FileSystem.cacheDirectory}altrise-backup-${formatCalendarDate(new Date())}.json`;
+    await FileSystem.writeAsStringAsync(uri, json);
+
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/json',
+      dialogTitle: 'Save AltRise Backup',
+      UTI: 'public.json',
+    });
+    console.log('📤 [BackupService] Backup shared');
+  }
+
+  /**
+   * Let the user pick a backup file. Returns its contents, or null if cancelled.
+   */
+  static async pickBackup(): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    return FileSystem.readAsStringAsync(result.assets[0].uri);
+  }
+
+  /**
+   * What restoring the backup would change, without changing anything
+   */
+  static async previewRestore(json: string, mode: ImportMode): Promise<ImportSummary> {
+    return StorageService.importData(json, { mode, dryRun: true });
+  }
+
+  /**
+   * Restore the backup and schedule the alarms it leaves behind
+   */
+  static async restore(json: string, mode: ImportMode): Promise<ImportSummary> {
+    const summary = await StorageService.importData(json, { mode });
+    await AlarmScheduler.scheduleAllAlarms();
+    return summary;
+  }
+}
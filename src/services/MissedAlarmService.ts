@@ -0,0 +1,110 @@
+import { StorageService } from './StorageService';
+import { AlarmLifecycleLog } from './AlarmLifecycleLog';
+import { MissedAlarm } from '../types';
+import { AlarmOccurrence, createScheduleContext } from '../scheduling';
+import { resolvePuzzleType } from '../puzzles';
+import { isRepeatingAlarm } from '../utils/recurrence';
+import { MISSED_ALARM_LOOKBACK_HOURS, MissedAlarmCheck, findMissedAlarms } from '../utils/missedAlarms';
+
+/**
+ * Finds rings that passed while the app was killed or the device was off, so
+ * the user hears about them instead of never knowing.
+ */
+export class MissedAlarmService {
+  // Startup and resume can both ask at once; they share one pass
+  private static reconciling: Promise<MissedAlarm[]> | null = null;
+
+  private static async check(now: Date, since: Date): Promise<MissedAlarmCheck> {
+    // Rings from before `since` are still compared, so their records are needed too
+    const recordsFrom = new Date(since.getTime() - MISSED_ALARM_LOOKBACK_HOURS * 60 * 60 * 1000);
+    const [alarms, skipRanges, snoozeStates, events, lifecycle] = await Promise.all([
+      StorageService.getEnabledAlarms(),
+      StorageService.getSkipRanges(),
+      StorageService.getSnoozeStates(),
+      StorageService.getAlarmEventsBetween(recordsFrom, now),
+      StorageService.getLifecycleEntriesBetween(recordsFrom, now),
+    ]);
+
+    return findMissedAlarms(
+      alarms,
+      { events, snoozeStates, lifecycle },
+      createScheduleContext({ clock: () => now, skipRanges }),
+      since
+    );
+  }
+
+  /**
+   * Record every ring missed since the last pass as an unfinished event and
+   * keep a notice for the home screen. Returns the newly missed rings.
+   */
+  static reconcile(now: Date = new Date()): Promise<MissedAlarm[]> {
+    if (!this.reconciling) {
+      this.reconciling = this.runReconcile(now).finally(() => {
+        this.reconciling = null;
+      });
+    }
+    return this.reconciling;
+  }
+
+  private static async runReconcile(now: Date): Promise<MissedAlarm[]> {
+    try {
+      const lastCheck = await StorageService.getLastMissedAlarmCheck();
+      if (!lastCheck) {
+        await StorageService.setLastMissedAlarmCheck(now); // First run, nothing was expected before
+        return [];
+      }
+
+      const earliest = new Date(now.getTime() - MISSED_ALARM_LOOKBACK_HOURS * 60 * 60 * 1000);
+      const since = new Date(Math.max(new Date(lastCheck).getTime(), earliest.getTime()));
+      const { missed, checkedUntil } = await this.check(now, since);
+
+      const notices: MissedAlarm[] = [];
+      for (const occurrence of missed) {
+        const scheduledFor = occurrence.start.toISOString();
+        await StorageService.recordAlarmEvent({
+          alarmId: occurrence.alarm.id,
+          triggeredAt: scheduledFor,
+          snoozedCount: 0,
+          puzzleCompleted: false,
+          puzzleType: resolvePuzzleType(occurrence.alarm.puzzleType),
+        });
+        await AlarmLifecycleLog.missed(occurrence.alarm.id, 'not_shown', scheduledFor);
+
+        // A one-time alarm is spent once its ring has passed, as if it had rung
+        if (!isRepeatingAlarm(occurrence.alarm)) {
+          await StorageService.updateAlarm(occurrence.alarm.id, { isEnabled: false });
+        }
+
+        notices.push({
+          alarmId: occurrence.alarm.id,
+          label: occurrence.alarm.label,
+          time: occurrence.alarm.time,
+          scheduledFor,
+          detectedAt: now.toISOString(),
+        });
+        console.log(`⏰ [MissedAlarmService] Alarm ${occurrence.alarm.id} missed its ring at ${occurrence.start.toLocaleString()}`);
+      }
+
+      await StorageService.addMissedAlarms(notices);
+      await StorageService.setLastMissedAlarmCheck(checkedUntil);
+      return notices;
+    } catch (error) {
+      console.error('❌ [MissedAlarmService] Error checking for missed alarms:', error);
+      return [];
+    }
+  }
+
+  /**
+   * A ring that was never shown but is still inside its end time window
+   */
+  static async getRingableOccurrence(now: Date = new Date()): Promise<AlarmOccurrence | null> {
+    try {
+      const since = new Date(now.getTime() - MISSED_ALARM_LOOKBACK_HOURS * 60 * 60 * 1000);
+      const { ringable } = await this.check(now, since);
+      return ringable[0] ?? null;
+    } catch (error) {
+      console.error('❌ [MissedAlarmService] Error checking for ringable alarms:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system';
+import { StorageService } from './StorageService';
+import { AlarmScheduler } from './AlarmScheduler';
+import { SkipRange, SkipReason } from '../types';
+import { formatCalendarDate } from '../utils/timeUtils';
+import { isRepeatingAlarm } from '../utils/recurrence';
+import { pruneSkipDates, validateSkipRange, SkippedOccurrence } from '../utils/skipDates';
+import { parseIcsEvents } from '../utils/icsParser';
+import { createScheduleContext, getNextRing } from '../scheduling';
+
+const BUNDLED_HOLIDAYS = require('../../assets/holidays/us-federal-holidays.ics');
+
+export class SkipDateService {
+  /**
+   * Silence the next ring of a repeating alarm. Returns the skipped ring, or
+   * null if the alarm does not repeat or has nothing coming up.
+   */
+  static async skipNextOccurrence(alarmId: string, now: Date = new Date()): Promise<SkippedOccurrence | null> {
+    const [alarm, skipRanges] = await Promise.all([
+      StorageService.getAlarmById(alarmId),
+      StorageService.getSkipRanges(),
+    ]);
+
+    if (!alarm || !isRepeatingAlarm(alarm)) {
+      console.warn(`⚠️ [SkipDateService] Alarm ${alarmId} does not repeat, nothing to skip`);
+      return null;
+    }
+
+    const { next } = getNextRing(alarm, createScheduleContext({ clock: () => now, skipRanges }));
+    if (!next) {
+      return null;
+    }
+
+    const skipDates = pruneSkipDates([...(alarm.skipDates || []), next.date], now);
+    const updated = await StorageService.updateAlarm(alarmId, { skipDates });
+    if (updated) {
+      await AlarmScheduler.rescheduleAlarm(updated);
+    }
+
+    console.log(`⏭️ [SkipDateService] Alarm ${alarmId} will skip ${next.start.toLocaleString()}`);
+    return { date: next.start, reason: SkipReason.SKIP_NEXT };
+  }
+
+  /**
+   * Undo a one-off skip
+   */
+  static async unskipDate(alarmId: string, date: string): Promise<void> {
+    const alarm = await StorageService.getAlarmById(alarmId);
+    if (!alarm?.skipDates?.includes(date)) {
+      return;
+    }
+
+    const updated = await StorageService.updateAlarm(alarmId, {
+      skipDates: pruneSkipDates(alarm.skipDates.filter(day => day !== date)),
+    });
+    if (updated) {
+      await AlarmScheduler.rescheduleAlarm(updated);
+    }
+
+    console.log(`↩️ [SkipDateService] Alarm ${alarmId} will ring on ${date} again`);
+  }
+
+  /**
+   * Add a vacation during which no repeating alarm rings.
+   * Throws with a user-facing message if the range is invalid.
+   */
+  static async addVacation(label: string, startDate: string, endDate: string): Promise<SkipRange> {
+    const errors = validateSkipRange(label, startDate, endDate);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const [added] = await StorageService.addSkipRanges([
+      { label: label.trim(), startDate, endDate, source: SkipReason.VACATION },
+    ]);
+    if (!added) {
+      throw new Error('That vacation is already added');
+    }
+
+    await AlarmScheduler.scheduleAllAlarms();
+    console.log(`🏖️ [SkipDateService] Vacation "${added.label}" added: ${startDate} to ${endDate}`);
+    return added;
+  }
+
+  /**
+   * Import the holidays from the bundled calendar that haven't passed yet.
+   * Returns how many were added; ones already imported are left alone.
+   */
+  static async importBundledHolidays(now: Date = new Date()): Promise<number> {
+    try {
+      const asset = Asset.fromModule(BUNDLED_HOLIDAYS);
+      await asset.downloadAsync();
+      const text = await FileSystem.readAsStringAsync(asset.localUri ?? asset.uri);
+
+      const today = formatCalendarDate(now);
+      const holidays = parseIcsEvents(text)
+        .filter(event => event.endDate >= today)
+        .map(event => ({
+          label: event.summary,
+          startDate: event.startDate,
+          endDate: event.endDate,
+          source: SkipReason.HOLIDAY as const,
+        }));
+
+      const added = await StorageService.addSkipRanges(holidays);
+      if (added.length > 0) {
+        await AlarmScheduler.scheduleAllAlarms();
+      }
+
+      console.log(`📅 [SkipDateService] Imported ${added.length} of ${holidays.length} upcoming holidays`);
+      return added.length;
+    } catch (error) {
+      console.error('❌ [SkipDateService] Error importing holidays:', error);
+      throw new Error('Failed to import holidays');
+    }
+  }
+
+  /**
+   * Remove vacations or holidays and put their rings back
+   */
+  static async removeSkipRanges(ids: string[]): Promise<void> {
+    const removed = await StorageService.deleteSkipRanges(ids);
+    if (removed > 0) {
+      await AlarmScheduler.scheduleAllAlarms();
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { StorageService } from './StorageService';
+import { AlarmScheduler } from './AlarmScheduler';
+import { AlarmLifecycleLog } from './AlarmLifecycleLog';
+import { Alarm, SnoozeMode, SnoozeState } from '../types';
+import {
+  resolveSnoozePolicy,
+  getSnoozeIntervalMinutes,
+  getRemainingSnoozeCount,
+  getSnoozedPuzzleDifficulty,
+} from '../utils/snoozePolicy';
+import { resolvePuzzleDifficulty, resolvePuzzleType } from '../puzzles';
+
+export interface SnoozeResult {
+  snoozed: boolean;
+  snoozeCount: number; // Snoozes used in this ring, including this one
+  remaining: number;
+  intervalMinutes: number;
+  snoozeUntil?: Date;
+  reason?: 'disabled' | 'limit_reached' | 'alarm_not_found' | 'schedule_failed';
+}
+
+export interface SnoozeStatus {
+  snoozesUsed: number;
+  remaining: number;
+  nextIntervalMinutes: number; // Length of the next snooze if one is taken
+}
+
+export interface AlarmCompletion {
+  puzzleCompleted: boolean;
+  triggeredAt?: Date; // When the alarm first rang, if no snooze recorded it
+  solveTime?: number; // In seconds
+  autoDismissed?: boolean; // Ended by its end time rather than by the user
+}
+
+// A snooze still unresolved this long after it was due is treated as abandoned
+const STALE_SNOOZE_MS = 6 * 60 * 60 * 1000;
+
+export class SnoozeManager {
+  /**
+   * Snooze a ringing alarm using its snooze policy (or the UserSettings defaults)
+   */
+  static async snooze(alarmId: string, now: Date = new Date()): Promise<SnoozeResult> {
+    const [settings, existing] = await Promise.all([
+      StorageService.getUserSettings(),
+      StorageService.getSnoozeState(alarmId),
+    ]);
+    const used = existing?.snoozeCount ?? 0;
+
+    // Keep the snapshot from the first ring so later edits or a one-time
+    // alarm being disabled don't change what the snoozed ring looks like
+    const alarm = existing?.alarm ?? await StorageService.getAlarmById(alarmId);
+    if (!alarm) {
+      console.warn(`⚠️ [SnoozeManager] Alarm ${alarmId} not found, cannot snooze`);
+      return { snoozed: false, snoozeCount: used, remaining: 0, intervalMinutes: 0, reason: 'alarm_not_found' };
+    }
+
+    const policy = resolveSnoozePolicy(alarm, settings);
+    const intervalMinutes = getSnoozeIntervalMinutes(policy, used);
+    const remaining = getRemainingSnoozeCount(policy, used);
+
+    if (policy.mode === SnoozeMode.DISABLED) {
+      console.log(`🚫 [SnoozeManager] Snooze is disabled for alarm ${alarmId}`);
+      return { snoozed: false, snoozeCount: used, remaining, intervalMinutes, reason: 'disabled' };
+    }
+
+    if (remaining === 0) {
+      console.log(`🚫 [SnoozeManager] Alarm ${alarmId} has used all ${policy.maxCount} snoozes`);
+      return { snoozed: false, snoozeCount: used, remaining, intervalMinutes, reason: 'limit_reached' };
+    }
+
+    const snoozeUntil = new Date(now.getTime() + intervalMinutes * 60 * 1000);
+    const state: SnoozeState = {
+      alarmId,
+      alarm,
+      snoozeCount: used + 1,
+      firstTriggeredAt: existing?.firstTriggeredAt ?? now.toISOString(),
+      lastSnoozedAt: now.toISOString(),
+      snoozeUntil: snoozeUntil.toISOString(),
+    };
+
+    const notificationId = await AlarmScheduler.scheduleSnooze(state);
+    if (!notificationId) {
+      console.error(`❌ [SnoozeManager] Failed to schedule snooze for alarm ${alarmId}`);
+      return { snoozed: false, snoozeCount: used, remaining, intervalMinutes, reason: 'schedule_failed' };
+    }
+
+    await StorageService.saveSnoozeState({ ...state, notificationId });
+    await AlarmLifecycleLog.snoozed(alarmId, state.snoozeCount, snoozeUntil);
+    console.log(`😴 [SnoozeManager] Alarm ${alarmId} snoozed until ${snoozeUntil.toLocaleTimeString()} (${state.snoozeCount}/${policy.maxCount}, ${intervalMinutes} min)`);
+
+    return {
+      snoozed: true,
+      snoozeCount: state.snoozeCount,
+      remaining: remaining - 1,
+      intervalMinutes,
+      snoozeUntil,
+    };
+  }
+
+  /**
+   * Snoozes used and still available for the current ring of an alarm
+   */
+  static async getSnoozeStatus(alarmId: string): Promise<SnoozeStatus> {
+    const [settings, state] = await Promise.all([
+      StorageService.getUserSettings(),
+      StorageService.getSnoozeState(alarmId),
+    ]);
+    const alarm = state?.alarm ?? await StorageService.getAlarmById(alarmId);
+    const policy = resolveSnoozePolicy(alarm, settings);
+    const snoozesUsed = state?.snoozeCount ?? 0;
+
+    return {
+      snoozesUsed,
+      remaining: getRemainingSnoozeCount(policy, snoozesUsed),
+      nextIntervalMinutes: getSnoozeIntervalMinutes(policy, snoozesUsed),
+    };
+  }
+
+  static async getRemainingSnoozes(alarmId: string): Promise<number> {
+    return (await this.getSnoozeStatus(alarmId)).remaining;
+  }
+
+  static async canSnooze(alarmId: string): Promise<boolean> {
+    return (await this.getRemainingSnoozes(alarmId)) > 0;
+  }
+
+  /**
+   * The configuration an alarm should ring with: the snoozed snapshot if a
+   * snooze is pending (with its puzzle made harder if the policy asks),
+   * otherwise the stored alarm
+   */
+  static async getRingingAlarm(alarmId: string): Promise<Alarm | null> {
+    const state = await StorageService.getSnoozeState(alarmId);
+    if (!state) {
+      return StorageService.getAlarmById(alarmId);
+    }
+
+    const settings = await StorageService.getUserSettings();
+    const policy = resolveSnoozePolicy(state.alarm, settings);
+    return {
+      ...state.alarm,
+      puzzleDifficulty: getSnoozedPuzzleDifficulty(
+        policy,
+        resolvePuzzleDifficulty(state.alarm.puzzleDifficulty),
+        state.snoozeCount
+      ),
+    };
+  }
+
+  /**
+   * Finish a ring: record the event with its snooze count and drop any pending snooze
+   */
+  static async completeAlarm(
+    alarmId: string,
+    completion: AlarmCompletion,
+    now: Date = new Date()
+  ): Promise<void> {
+    try {
+      const state = await StorageService.getSnoozeState(alarmId);
+      // The puzzle as it rang, so later edits don't move this result to another puzzle
+      const alarm = state?.alarm ?? await StorageService.getAlarmById(alarmId);
+
+      await StorageService.recordAlarmEvent({
+        alarmId,
+        triggeredAt: state?.firstTriggeredAt ?? (completion.triggeredAt ?? now).toISOString(),
+        completedAt: now.toISOString(),
+        snoozedCount: state?.snoozeCount ?? 0,
+        solveTime: completion.solveTime,
+        puzzleCompleted: completion.puzzleCompleted,
+        puzzleType: alarm ? resolvePuzzleType(alarm.puzzleType) : undefined,
+        autoDismissed: completion.autoDismissed,
+      });
+      await AlarmLifecycleLog.dismissed(
+        alarmId,
+        {
+          puzzleCompleted: completion.puzzleCompleted,
+          snoozeCount: state?.snoozeCount ?? 0,
+          solveTime: completion.solveTime,
+          autoDismissed: completion.autoDismissed,
+        },
+        now
+      );
+
+      if (state) {
+        await AlarmScheduler.cancelSnooze(alarmId);
+        await StorageService.clearSnoozeState(alarmId);
+      }
+
+      console.log(`✅ [SnoozeManager] Alarm ${alarmId} completed after ${state?.snoozeCount ?? 0} snooze(s)`);
+    } catch (error) {
+      console.error(`❌ [SnoozeManager] Error completing alarm ${alarmId}:`, error);
+    }
+  }
+
+  /**
+   * Record and clear snoozes that rang long ago and were never dismissed
+   */
+  static async resolveStaleSnoozes(now: Date = new Date()): Promise<void> {
+    try {
+      const states = await StorageService.getSnoozeStates();
+      const stale = states.filter(
+        state => now.getTime() - new Date(state.snoozeUntil).getTime() > STALE_SNOOZE_MS
+      );
+
+      for (const state of stale) {
+        await StorageService.recordAlarmEvent({
+          alarmId: state.alarmId,
+          triggeredAt: state.firstTriggeredAt,
+          snoozedCount: state.snoozeCount,
+          puzzleCompleted: false,
+          puzzleType: resolvePuzzleType(state.alarm.puzzleType),
+        });
+        await AlarmLifecycleLog.missed(state.alarmId, 'abandoned_snooze', state.snoozeUntil);
+        await StorageService.clearSnoozeState(state.alarmId);
+      }
+
+      if (stale.length > 0) {
+        console.log(`🧹 [SnoozeManager] Cleared ${stale.length} abandoned snooze(s)`);
+      }
+    } catch (error) {
+      console.error('❌ [SnoozeManager] Error resolving stale snoozes:', error);
+    }
+  }
+}
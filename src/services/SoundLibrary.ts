@@ -0,0 +1,138 @@
+import * as FileSystem from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { Audio } from 'expo-av';
+import { StorageService } from './StorageService';
+import { CustomSound } from '../types';
+import {
+  SoundInfo,
+  getSoundFileExtension,
+  getSoundNameFromFile,
+  listSounds,
+  resolveSound,
+  validateSoundDuration,
+  validateSoundFile,
+} from '../sounds';
+
+const SOUNDS_DIRECTORY = `${FileSystem.documentDirectory}sounds/`;
+
+/**
+ * Bundled and imported alarm sounds. Imports are copied into app storage, so
+ * they keep working after the original file is moved or deleted.
+ */
+export class SoundLibrary {
+  /**
+   * Imported sounds whose file is still there
+   */
+  private static async getAvailableCustomSounds(): Promise<CustomSound[]> {
+    const sounds = await StorageService.getCustomSounds();
+    const present = await Promise.all(
+      sounds.map(sound =>
+        FileSystem.getInfoAsync(`${SOUNDS_DIRECTORY}${sound.fileName}`)
+          .then(info => info.exists)
+          .catch(() => false)
+      )
+    );
+
+    sounds
+      .filter((_, index) => !present[index])
+      .forEach(sound => console.warn(`⚠️ [SoundLibrary] File for "${sound.name}" is missing`));
+    return sounds.filter((_, index) => present[index]);
+  }
+
+  static async getSounds(): Promise<SoundInfo[]> {
+    return listSounds(await this.getAvailableCustomSounds(), SOUNDS_DIRECTORY);
+  }
+
+  /**
+   * The sound an alarm should play, falling back to the default sound when an
+   * imported file is gone
+   */
+  static async resolveSound(soundFile: string | undefined): Promise<SoundInfo> {
+    const sound = resolveSound(soundFile, await this.getAvailableCustomSounds(), SOUNDS_DIRECTORY);
+    if (soundFile && sound.id !== soundFile) {
+      console.warn(`⚠️ [SoundLibrary] Sound ${soundFile} not found, playing ${sound.id} instead`);
+    }
+    return sound;
+  }
+
+  /**
+   * Let the user pick an audio file and add it to the library. Returns null if
+   * cancelled; throws with a user-facing message if the file can't be used.
+   */
+  static async importSound(): Promise<CustomSound | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: 'audio/*',
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const file = result.assets[0];
+    const fileErrors = validateSoundFile({ name: file.name, size: file.size });
+    if (fileErrors.length > 0) {
+      throw new Error(fileErrors[0]);
+    }
+
+    const id = `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const fileName = `${id}.${getSoundFileExtension(file.name)}`;
+    const uri = `${SOUNDS_DIRECTORY}${fileName}`;
+
+    await FileSystem.makeDirectoryAsync(SOUNDS_DIRECTORY, { intermediates: true }).catch(() => {
+      // Already exists
+    });
+    await FileSystem.copyAsync({ from: file.uri, to: uri });
+
+    try {
+      const durationMs = await this.measureDuration(uri);
+      const durationErrors = validateSoundDuration(durationMs);
+      if (durationErrors.length > 0) {
+        throw new Error(durationErrors[0]);
+      }
+
+      const sound: CustomSound = {
+        id,
+        name: getSoundNameFromFile(file.name),
+        fileName,
+        durationMs: durationMs!,
+        importedAt: new Date().toISOString(),
+      };
+      await StorageService.addCustomSound(sound);
+
+      console.log(`🎵 [SoundLibrary] Imported "${sound.name}" (${Math.round(sound.durationMs / 1000)}s)`);
+      return sound;
+    } catch (error) {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an imported sound. Alarms still using it fall back to the default.
+   */
+  static async deleteSound(id: string): Promise<void> {
+    const sound = (await StorageService.getCustomSounds()).find(custom => custom.id === id);
+    if (!sound) {
+      return;
+    }
+
+    await StorageService.deleteCustomSound(id);
+    await FileSystem.deleteAsync(`${SOUNDS_DIRECTORY}${sound.fileName}`, { idempotent: true });
+    console.log(`🗑️ [SoundLibrary] Deleted "${sound.name}"`);
+  }
+
+  /**
+   * Load the file without playing it. Undefined if it isn't playable audio.
+   */
+  private static async measureDuration(uri: string): Promise<number | undefined> {
+    try {
+      const { sound, status } = await Audio.Sound.createAsync({ uri }, { shouldPlay: false });
+      await sound.unloadAsync();
+      return status.isLoaded ? status.durationMillis : undefined;
+    } catch (error) {
+      console.warn('⚠️ [SoundLibrary] Could not load sound:', error);
+      return undefined;
+    }
+  }
+}
@@ -4,23 +4,61 @@ import {
   UserSettings,
   AlarmStats,
   AlarmEvent,
+  AlarmLifecycleEntry,
+  AlarmLifecycleType,
   CreateAlarmData,
   UpdateAlarmData,
   PuzzleType,
+  ScanCode,
+  CustomSound,
+  SnoozeState,
+  SkipRange,
+  TimeZoneChangeNotice,
+  MissedAlarm,
+  StorageRecovery,
+  ImportMode,
+  ImportSummary,
 } from '../types';
+import { createScanCode } from '../puzzles/scanCodes';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  StoredData,
+  runMigrations,
+} from '../utils/storageMigrations';
+import { parseBackup, planImport } from '../utils/backupImport';
+import { createKeyedLock } from '../utils/keyedLock';
+import { AlarmDatabase } from './AlarmDatabase';
+import { DEFAULT_SOUND_ID, updateRecentSounds } from '../sounds';
 
-// Storage keys
+// Storage keys. Alarms, stats and events live in AlarmDatabase now; their old
+// keys are only read to move them there, and still name their locks.
 const STORAGE_KEYS = {
   ALARMS: '@altrise:alarms',
   USER_SETTINGS: '@altrise:user_settings',
   ALARM_STATS: '@altrise:alarm_stats',
   ALARM_EVENTS: '@altrise:alarm_events',
+  SCAN_CODES: '@altrise:scan_codes',
+  CUSTOM_SOUNDS: '@altrise:custom_sounds',
+  RECENT_SOUNDS: '@altrise:recent_sounds',
+  SNOOZE_STATES: '@altrise:snooze_states',
+  SKIP_RANGES: '@altrise:skip_ranges',
+  LAST_TIME_ZONE: '@altrise:last_time_zone',
+  TIME_ZONE_NOTICE: '@altrise:time_zone_notice',
+  MISSED_ALARMS: '@altrise:missed_alarms',
+  LAST_MISSED_ALARM_CHECK: '@altrise:last_missed_alarm_check',
+  SCHEMA_VERSION: '@altrise:schema_version',
+  STORAGE_RECOVERIES: '@altrise:storage_recoveries',
+  LEGACY_USER_PREFERENCES: '@altrise:user_preferences', // Pre-v2, see utils/storage.ts
 } as const;
 
+// Damaged values are copied here before their key is cleared
+const CORRUPT_BACKUP_SUFFIX = ':corrupt';
+
 // Default values
 const DEFAULT_USER_SETTINGS: UserSettings = {
   defaultPuzzleType: PuzzleType.NONE,
-  defaultSound: 'default_alarm.mp3',
+  defaultSound: DEFAULT_SOUND_ID,
   onboardingCompleted: false,
   permissionsGranted: {
     notifications: false,
@@ -33,6 +71,8 @@ const DEFAULT_USER_SETTINGS: UserSettings = {
   defaultVibration: true,
   snoozeInterval: 5,
   maxSnoozeCount: 3,
+  eventRetentionDays: 30,
+  ringMissedAlarms: true,
 };
 
 const DEFAULT_ALARM_STATS: AlarmStats = {
@@ -55,7 +95,133 @@ const DEFAULT_ALARM_STATS: AlarmStats = {
   lastUpdated: new Date().toISOString(),
 };
 
+// Keys holding user data, locked together by migrations and clearAllData
+const DATA_KEYS = [
+  STORAGE_KEYS.ALARMS,
+  STORAGE_KEYS.USER_SETTINGS,
+  STORAGE_KEYS.ALARM_STATS,
+  STORAGE_KEYS.ALARM_EVENTS,
+  STORAGE_KEYS.SCAN_CODES,
+  STORAGE_KEYS.CUSTOM_SOUNDS,
+  STORAGE_KEYS.SNOOZE_STATES,
+  STORAGE_KEYS.SKIP_RANGES,
+  STORAGE_KEYS.LEGACY_USER_PREFERENCES,
+];
+
 export class StorageService {
+  private static migration: Promise<number> | null = null;
+
+  // Every read-modify-write runs under the lock of the keys it touches, so
+  // overlapping calls queue up instead of overwriting each other's changes
+  private static locks = createKeyedLock();
+
+  // ==================== SCHEMA MIGRATIONS ====================
+
+  /**
+   * Bring stored data up to the current schema version. Safe to call more
+   * than once; later calls wait for the first. Returns the version in use.
+   */
+  static migrate(): Promise<number> {
+    if (!this.migration) {
+      this.migration = this.runPendingMigrations().catch(error => {
+        this.migration = null; // Let the next launch try again
+        throw error;
+      });
+    }
+    return this.migration;
+  }
+
+  private static runPendingMigrations(): Promise<number> {
+    return this.withLock([...DATA_KEYS, STORAGE_KEYS.SCHEMA_VERSION], () => this.applyPendingMigrations());
+  }
+
+  private static async applyPendingMigrations(): Promise<number> {
+    await this.moveToDatabase();
+
+    const storedVersion: number | null = await this.getData(STORAGE_KEYS.SCHEMA_VERSION);
+    const alarms = await AlarmDatabase.getAlarms();
+    const events = await AlarmDatabase.getEvents();
+    const data: StoredData = {
+      alarms: alarms.length > 0 ? alarms : null,
+      settings: await this.getData(STORAGE_KEYS.USER_SETTINGS),
+      stats: await AlarmDatabase.getStats(),
+      events: events.length > 0 ? events : null,
+      legacyPreferences: await this.getData(STORAGE_KEYS.LEGACY_USER_PREFERENCES),
+    };
+
+    const hasData = Object.values(data).some(value => value !== null);
+    const fromVersion = storedVersion ?? (hasData ? LEGACY_SCHEMA_VERSION : CURRENT_SCHEMA_VERSION);
+
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      console.warn(`⚠️ [StorageService] Stored schema v${fromVersion} is newer than this app (v${CURRENT_SCHEMA_VERSION}), leaving it as is`);
+      return fromVersion;
+    }
+
+    const { data: migrated, applied } = runMigrations(data, fromVersion);
+    for (const migration of applied) {
+      console.log(`🗄️ [StorageService] Migrated to v${migration.version}: ${migration.description}`);
+    }
+
+    if (applied.length > 0) {
+      await AlarmDatabase.replaceAll({
+        alarms: (migrated.alarms as Alarm[] | null) ?? undefined,
+        events: (migrated.events as AlarmEvent[] | null) ?? undefined,
+        stats: migrated.stats,
+      });
+
+      const writes: Promise<void>[] = [];
+      if (migrated.settings) writes.push(this.storeData(STORAGE_KEYS.USER_SETTINGS, migrated.settings));
+      if (!migrated.legacyPreferences) writes.push(AsyncStorage.removeItem(STORAGE_KEYS.LEGACY_USER_PREFERENCES));
+      await Promise.all(writes);
+    }
+
+    // Written last, so an interrupted run starts over next launch
+    await this.storeData(STORAGE_KEYS.SCHEMA_VERSION, CURRENT_SCHEMA_VERSION);
+    return CURRENT_SCHEMA_VERSION;
+  }
+
+  /**
+   * One-time move of alarms, stats and events from their AsyncStorage JSON
+   * blobs into AlarmDatabase. The old keys are removed once copied.
+   */
+  private static async moveToDatabase(): Promise<void> {
+    const legacyKeys = [STORAGE_KEYS.ALARMS, STORAGE_KEYS.ALARM_EVENTS, STORAGE_KEYS.ALARM_STATS];
+    const [alarms, events, stats] = await Promise.all(legacyKeys.map(key => this.getData(key)));
+
+    if (alarms === null && events === null && stats === null) {
+      return;
+    }
+
+    await AlarmDatabase.importLegacyData({
+      alarms: Array.isArray(alarms) ? alarms : null,
+      events: Array.isArray(events) ? events : null,
+      stats: stats && typeof stats === 'object' && !Array.isArray(stats) ? stats : null,
+    });
+    await AsyncStorage.multiRemove(legacyKeys);
+
+    console.log(`🗄️ [StorageService] Moved ${Array.isArray(alarms) ? alarms.length : 0} alarm(s) and ${Array.isArray(events) ? events.length : 0} event(s) to SQLite`);
+  }
+
+  /**
+   * Values that could not be parsed and were reset since the last check
+   */
+  static async getStorageRecoveries(): Promise<StorageRecovery[]> {
+    try {
+      return (await this.getData(STORAGE_KEYS.STORAGE_RECOVERIES)) || [];
+    } catch (error) {
+      console.error('Error getting storage recoveries:', error);
+      return [];
+    }
+  }
+
+  static async clearStorageRecoveries(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.STORAGE_RECOVERIES);
+    } catch (error) {
+      console.error('Error clearing storage recoveries:', error);
+    }
+  }
+
   // ==================== ALARM CRUD OPERATIONS ====================
 
   /**
@@ -63,21 +229,21 @@ export class StorageService {
    */
   static async createAlarm(alarmData: CreateAlarmData): Promise<Alarm> {
     try {
-      const alarms = await this.getAllAlarms();
-      const newAlarm: Alarm = {
-        id: this.generateId(),
-        ...alarmData,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+      return await this.withLock([STORAGE_KEYS.ALARMS, STORAGE_KEYS.ALARM_STATS], async () => {
+        const newAlarm: Alarm = {
+          id: this.generateId(),
+          ...alarmData,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
 
-      alarms.push(newAlarm);
-      await this.storeData(STORAGE_KEYS.ALARMS, alarms);
+        await AlarmDatabase.insertAlarm(newAlarm);
 
-      // Update stats
-      await this.updateAlarmStats({ totalAlarms: alarms.length });
+        // Update stats
+        await this.writeAlarmStats({ totalAlarms: await AlarmDatabase.countAlarms() });
 
-      return newAlarm;
+        return newAlarm;
+      });
     } catch (error) {
       console.error('Error creating alarm:', error);
       throw new Error('Failed to create alarm');
@@ -89,8 +255,7 @@ export class StorageService {
    */
   static async getAllAlarms(): Promise<Alarm[]> {
     try {
-      const alarms = await this.getData(STORAGE_KEYS.ALARMS);
-      return alarms || [];
+      return await AlarmDatabase.getAlarms();
     } catch (error) {
       console.error('Error getting alarms:', error);
       return [];
@@ -102,8 +267,7 @@ export class StorageService {
    */
   static async getAlarmById(id: string): Promise<Alarm | null> {
     try {
-      const alarms = await this.getAllAlarms();
-      return alarms.find(alarm => alarm.id === id) || null;
+      return await AlarmDatabase.getAlarm(id);
     } catch (error) {
       console.error('Error getting alarm by ID:', error);
       return null;
@@ -115,23 +279,7 @@ export class StorageService {
    */
   static async updateAlarm(id: string, updateData: UpdateAlarmData): Promise<Alarm | null> {
     try {
-      const alarms = await this.getAllAlarms();
-      const alarmIndex = alarms.findIndex(alarm => alarm.id === id);
-
-      if (alarmIndex === -1) {
-        throw new Error('Alarm not found');
-      }
-
-      const updatedAlarm: Alarm = {
-        ...alarms[alarmIndex],
-        ...updateData,
-        updatedAt: new Date().toISOString(),
-      };
-
-      alarms[alarmIndex] = updatedAlarm;
-      await this.storeData(STORAGE_KEYS.ALARMS, alarms);
-
-      return updatedAlarm;
+      return await this.writeAlarmUpdate(id, () => updateData);
     } catch (error) {
       console.error('Error updating alarm:', error);
       return null;
@@ -143,20 +291,17 @@ export class StorageService {
    */
   static async deleteAlarm(id: string): Promise<boolean> {
     try {
-      const alarms = await this.getAllAlarms();
-      const filteredAlarms = alarms.filter(alarm => alarm.id !== id);
+      return await this.withLock([STORAGE_KEYS.ALARMS, STORAGE_KEYS.ALARM_STATS], async () => {
+        if (!(await AlarmDatabase.deleteAlarm(id))) {
+          // No alarm was deleted
+          return false;
+        }
 
-      if (filteredAlarms.length === alarms.length) {
-        // No alarm was deleted
-        return false;
-      }
-
-      await this.storeData(STORAGE_KEYS.ALARMS, filteredAlarms);
-
-      // Update stats
-      await this.updateAlarmStats({ totalAlarms: filteredAlarms.length });
+        // Update stats
+        await this.writeAlarmStats({ totalAlarms: await AlarmDatabase.countAlarms() });
 
-      return true;
+        return true;
+      });
     } catch (error) {
       console.error('Error deleting alarm:', error);
       return false;
@@ -181,10 +326,8 @@ export class StorageService {
    */
   static async toggleAlarm(id: string): Promise<Alarm | null> {
     try {
-      const alarm = await this.getAlarmById(id);
-      if (!alarm) return null;
-
-      return await this.updateAlarm(id, { isEnabled: !alarm.isEnabled });
+      // Flipped inside the lock, so two quick toggles can't both read the same state
+      return await this.writeAlarmUpdate(id, alarm => ({ isEnabled: !alarm.isEnabled }));
     } catch (error) {
       console.error('Error toggling alarm:', error);
       return null;
@@ -211,10 +354,12 @@ export class StorageService {
    */
   static async updateUserSettings(settingsUpdate: Partial<UserSettings>): Promise<UserSettings> {
     try {
-      const currentSettings = await this.getUserSettings();
-      const updatedSettings = { ...currentSettings, ...settingsUpdate };
-      await this.storeData(STORAGE_KEYS.USER_SETTINGS, updatedSettings);
-      return updatedSettings;
+      return await this.withLock(STORAGE_KEYS.USER_SETTINGS, async () => {
+        const currentSettings = await this.getUserSettings();
+        const updatedSettings = { ...currentSettings, ...settingsUpdate };
+        await this.storeData(STORAGE_KEYS.USER_SETTINGS, updatedSettings);
+        return updatedSettings;
+      });
     } catch (error) {
       console.error('Error updating user settings:', error);
       throw new Error('Failed to update user settings');
@@ -226,7 +371,9 @@ export class StorageService {
    */
   static async resetUserSettings(): Promise<UserSettings> {
     try {
-      await this.storeData(STORAGE_KEYS.USER_SETTINGS, DEFAULT_USER_SETTINGS);
+      await this.withLock(STORAGE_KEYS.USER_SETTINGS, () =>
+        this.storeData(STORAGE_KEYS.USER_SETTINGS, DEFAULT_USER_SETTINGS)
+      );
       return DEFAULT_USER_SETTINGS;
     } catch (error) {
       console.error('Error resetting user settings:', error);
@@ -241,8 +388,13 @@ export class StorageService {
    */
   static async getAlarmStats(): Promise<AlarmStats> {
     try {
-      const stats = await this.getData(STORAGE_KEYS.ALARM_STATS);
-      return { ...DEFAULT_ALARM_STATS, ...stats };
+      const stats = await AlarmDatabase.getStats();
+      return {
+        ...DEFAULT_ALARM_STATS,
+        ...stats,
+        // Stats saved before a puzzle type existed won't have an entry for it
+        puzzleStats: { ...DEFAULT_ALARM_STATS.puzzleStats, ...stats?.puzzleStats },
+      };
     } catch (error) {
       console.error('Error getting alarm stats:', error);
       return DEFAULT_ALARM_STATS;
@@ -254,14 +406,7 @@ export class StorageService {
    */
   static async updateAlarmStats(statsUpdate: Partial<AlarmStats>): Promise<AlarmStats> {
     try {
-      const currentStats = await this.getAlarmStats();
-      const updatedStats = {
-        ...currentStats,
-        ...statsUpdate,
-        lastUpdated: new Date().toISOString(),
-      };
-      await this.storeData(STORAGE_KEYS.ALARM_STATS, updatedStats);
-      return updatedStats;
+      return await this.withLock(STORAGE_KEYS.ALARM_STATS, () => this.writeAlarmStats(statsUpdate));
     } catch (error) {
       console.error('Error updating alarm stats:', error);
       throw new Error('Failed to update alarm stats');
@@ -273,39 +418,38 @@ export class StorageService {
    */
   static async recordAlarmEvent(event: AlarmEvent): Promise<void> {
     try {
-      // Store the event
-      const events = await this.getAlarmEvents();
-      events.push(event);
-      await this.storeData(STORAGE_KEYS.ALARM_EVENTS, events);
-
-      // Update stats
-      const stats = await this.getAlarmStats();
-      const updatedStats: Partial<AlarmStats> = {
-        alarmsTriggered: stats.alarmsTriggered + 1,
-        alarmsCompleted: event.puzzleCompleted ? stats.alarmsCompleted + 1 : stats.alarmsCompleted,
-        alarmsSnoozed: stats.alarmsSnoozed + event.snoozedCount,
-      };
+      await this.withLock([STORAGE_KEYS.ALARM_EVENTS, STORAGE_KEYS.ALARM_STATS], async () => {
+        // Store the event
+        await AlarmDatabase.insertEvent(event);
 
-      // Update puzzle-specific stats if applicable
-      const alarm = await this.getAlarmById(event.alarmId);
-      if (alarm && event.puzzleCompleted && event.solveTime) {
-        const puzzleType = alarm.puzzleType;
-        const puzzleStats = stats.puzzleStats[puzzleType];
-        updatedStats.puzzleStats = {
-          ...stats.puzzleStats,
-          [puzzleType]: {
-            attempted: puzzleStats.attempted + 1,
-            completed: puzzleStats.completed + 1,
-            averageTime: this.calculateNewAverage(
-              puzzleStats.averageTime,
-              puzzleStats.completed,
-              event.solveTime
-            ),
-          },
+        // Update stats
+        const stats = await this.getAlarmStats();
+        const updatedStats: Partial<AlarmStats> = {
+          alarmsTriggered: stats.alarmsTriggered + 1,
+          alarmsCompleted: event.puzzleCompleted ? stats.alarmsCompleted + 1 : stats.alarmsCompleted,
+          alarmsSnoozed: stats.alarmsSnoozed + event.snoozedCount,
         };
-      }
 
-      await this.updateAlarmStats(updatedStats);
+        // Update puzzle-specific stats if applicable
+        const puzzleType = event.puzzleType;
+        if (puzzleType && event.puzzleCompleted && event.solveTime) {
+          const puzzleStats = stats.puzzleStats[puzzleType];
+          updatedStats.puzzleStats = {
+            ...stats.puzzleStats,
+            [puzzleType]: {
+              attempted: puzzleStats.attempted + 1,
+              completed: puzzleStats.completed + 1,
+              averageTime: this.calculateNewAverage(
+                puzzleStats.averageTime,
+                puzzleStats.completed,
+                event.solveTime
+              ),
+            },
+          };
+        }
+
+        await this.writeAlarmStats(updatedStats);
+      });
     } catch (error) {
       console.error('Error recording alarm event:', error);
       throw new Error('Failed to record alarm event');
@@ -315,12 +459,11 @@ export class StorageService {
   // ==================== ALARM EVENTS OPERATIONS ====================
 
   /**
-   * Get all alarm events
+   * Get all alarm events, oldest first
    */
   static async getAlarmEvents(): Promise<AlarmEvent[]> {
     try {
-      const events = await this.getData(STORAGE_KEYS.ALARM_EVENTS);
-      return events || [];
+      return await AlarmDatabase.getEvents();
     } catch (error) {
       console.error('Error getting alarm events:', error);
       return [];
@@ -328,21 +471,475 @@ export class StorageService {
   }
 
   /**
-   * Clear old alarm events (keep only last 30 days)
+   * Get events triggered from `start` up to but not including `end`
    */
-  static async clearOldEvents(): Promise<void> {
+  static async getAlarmEventsBetween(start: Date, end: Date): Promise<AlarmEvent[]> {
     try {
-      const events = await this.getAlarmEvents();
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+      return await AlarmDatabase.getEventsBetween(start, end);
+    } catch (error) {
+      console.error('Error getting alarm events by date:', error);
+      return [];
+    }
+  }
 
-      const recentEvents = events.filter(
-        event => new Date(event.triggeredAt) >= thirtyDaysAgo
-      );
+  /**
+   * Get every event recorded for one alarm
+   */
+  static async getAlarmEventsForAlarm(alarmId: string): Promise<AlarmEvent[]> {
+    try {
+      return await AlarmDatabase.getEventsForAlarm(alarmId);
+    } catch (error) {
+      console.error('Error getting alarm events for alarm:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete events and lifecycle entries older than the history retention
+   * setting. Returns how many events were removed.
+   */
+  static async clearOldEvents(): Promise<number> {
+    try {
+      const { eventRetentionDays } = await this.getUserSettings();
+      if (eventRetentionDays <= 0) {
+        return 0; // History is kept forever
+      }
+
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - eventRetentionDays);
 
-      await this.storeData(STORAGE_KEYS.ALARM_EVENTS, recentEvents);
+      const removed = await this.withLock(STORAGE_KEYS.ALARM_EVENTS, () =>
+        AlarmDatabase.deleteEventsBefore(cutoff)
+      );
+      await AlarmDatabase.deleteLifecycleEntriesBefore(cutoff);
+      if (removed > 0) {
+        console.log(`🧹 [StorageService] Removed ${removed} event(s) older than ${eventRetentionDays} days`);
+      }
+      return removed;
     } catch (error) {
       console.error('Error clearing old events:', error);
+      return 0;
+    }
+  }
+
+  // ==================== ALARM LIFECYCLE OPERATIONS ====================
+
+  /**
+   * Append a step to the alarm lifecycle log
+   */
+  static async recordLifecycleEntry(entry: AlarmLifecycleEntry): Promise<void> {
+    try {
+      await AlarmDatabase.insertLifecycleEntry(entry);
+    } catch (error) {
+      console.error('Error recording lifecycle entry:', error);
+      throw new Error('Failed to record alarm lifecycle');
+    }
+  }
+
+  /**
+   * Whether a step was already logged for the ring scheduled at `scheduledFor`
+   */
+  static async hasLifecycleEntry(alarmId: string, type: AlarmLifecycleType, scheduledFor: string): Promise<boolean> {
+    try {
+      return await AlarmDatabase.hasLifecycleEntry(alarmId, type, scheduledFor);
+    } catch (error) {
+      console.error('Error checking lifecycle entries:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The most recent entry of one type for an alarm
+   */
+  static async getLatestLifecycleEntry(alarmId: string, type: AlarmLifecycleType): Promise<AlarmLifecycleEntry | null> {
+    try {
+      return await AlarmDatabase.getLatestLifecycleEntry(alarmId, type);
+    } catch (error) {
+      console.error('Error getting latest lifecycle entry:', error);
+      return null;
+    }
+  }
+
+  static async getLifecycleEntriesForAlarm(alarmId: string): Promise<AlarmLifecycleEntry[]> {
+    try {
+      return await AlarmDatabase.getLifecycleEntriesForAlarm(alarmId);
+    } catch (error) {
+      console.error('Error getting lifecycle entries for alarm:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Lifecycle entries from `start` up to but not including `end`
+   */
+  static async getLifecycleEntriesBetween(start: Date, end: Date): Promise<AlarmLifecycleEntry[]> {
+    try {
+      return await AlarmDatabase.getLifecycleEntriesBetween(start, end);
+    } catch (error) {
+      console.error('Error getting lifecycle entries by date:', error);
+      return [];
+    }
+  }
+
+  // ==================== SCAN CODE OPERATIONS ====================
+
+  /**
+   * Get all registered QR/barcode dismissal codes
+   */
+  static async getScanCodes(): Promise<ScanCode[]> {
+    try {
+      const codes = await this.getData(STORAGE_KEYS.SCAN_CODES);
+      return codes || [];
+    } catch (error) {
+      console.error('Error getting scan codes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Register a new scan code. Throws with a user-facing message if it is invalid.
+   */
+  static addScanCode(label: string, value: string, format?: string): Promise<ScanCode> {
+    return this.withLock(STORAGE_KEYS.SCAN_CODES, async () => {
+      const codes = await this.getScanCodes();
+      const newCode = createScanCode(label, value, format, codes);
+
+      try {
+        codes.push(newCode);
+        await this.storeData(STORAGE_KEYS.SCAN_CODES, codes);
+        return newCode;
+      } catch (error) {
+        console.error('Error adding scan code:', error);
+        throw new Error('Failed to save scan code');
+      }
+    });
+  }
+
+  /**
+   * Remove a registered scan code. Alarms keep their own copy until edited.
+   */
+  static async deleteScanCode(id: string): Promise<boolean> {
+    try {
+      return await this.withLock(STORAGE_KEYS.SCAN_CODES, async () => {
+        const codes = await this.getScanCodes();
+        const filteredCodes = codes.filter(code => code.id !== id);
+
+        if (filteredCodes.length === codes.length) {
+          return false;
+        }
+
+        await this.storeData(STORAGE_KEYS.SCAN_CODES, filteredCodes);
+        return true;
+      });
+    } catch (error) {
+      console.error('Error deleting scan code:', error);
+      throw new Error('Failed to delete scan code');
+    }
+  }
+
+  // ==================== CUSTOM SOUND OPERATIONS ====================
+
+  /**
+   * Sounds the user imported, oldest first
+   */
+  static async getCustomSounds(): Promise<CustomSound[]> {
+    try {
+      const sounds = await this.getData(STORAGE_KEYS.CUSTOM_SOUNDS);
+      return sounds || [];
+    } catch (error) {
+      console.error('Error getting custom sounds:', error);
+      return [];
+    }
+  }
+
+  static async addCustomSound(sound: CustomSound): Promise<void> {
+    try {
+      await this.withLock(STORAGE_KEYS.CUSTOM_SOUNDS, async () => {
+        const sounds = await this.getCustomSounds();
+        await this.storeData(STORAGE_KEYS.CUSTOM_SOUNDS, [...sounds, sound]);
+      });
+    } catch (error) {
+      console.error('Error saving custom sound:', error);
+      throw new Error('Failed to save sound');
+    }
+  }
+
+  static async deleteCustomSound(id: string): Promise<boolean> {
+    try {
+      return await this.withLock(STORAGE_KEYS.CUSTOM_SOUNDS, async () => {
+        const sounds = await this.getCustomSounds();
+        const remaining = sounds.filter(sound => sound.id !== id);
+
+        if (remaining.length === sounds.length) {
+          return false;
+        }
+
+        await this.storeData(STORAGE_KEYS.CUSTOM_SOUNDS, remaining);
+        return true;
+      });
+    } catch (error) {
+      console.error('Error deleting custom sound:', error);
+      throw new Error('Failed to delete sound');
+    }
+  }
+
+  /**
+   * Ids of the sounds picked most recently, newest first
+   */
+  static async getRecentSounds(): Promise<string[]> {
+    try {
+      const recent = await this.getData(STORAGE_KEYS.RECENT_SOUNDS);
+      return recent || [];
+    } catch (error) {
+      console.error('Error getting recent sounds:', error);
+      return [];
+    }
+  }
+
+  static async addRecentSound(soundId: string): Promise<void> {
+    try {
+      await this.withLock(STORAGE_KEYS.RECENT_SOUNDS, async () => {
+        const recent = await this.getRecentSounds();
+        await this.storeData(STORAGE_KEYS.RECENT_SOUNDS, updateRecentSounds(recent, soundId));
+      });
+    } catch (error) {
+      console.error('Error saving recent sound:', error);
+    }
+  }
+
+  // ==================== SNOOZE STATE OPERATIONS ====================
+
+  /**
+   * Get all pending snoozes
+   */
+  static async getSnoozeStates(): Promise<SnoozeState[]> {
+    try {
+      const states = await this.getData(STORAGE_KEYS.SNOOZE_STATES);
+      return states || [];
+    } catch (error) {
+      console.error('Error getting snooze states:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the pending snooze for an alarm, if any
+   */
+  static async getSnoozeState(alarmId: string): Promise<SnoozeState | null> {
+    const states = await this.getSnoozeStates();
+    return states.find(state => state.alarmId === alarmId) || null;
+  }
+
+  /**
+   * Save a snooze, replacing any existing one for the same alarm
+   */
+  static async saveSnoozeState(state: SnoozeState): Promise<void> {
+    try {
+      await this.withLock(STORAGE_KEYS.SNOOZE_STATES, async () => {
+        const states = await this.getSnoozeStates();
+        const otherStates = states.filter(existing => existing.alarmId !== state.alarmId);
+        await this.storeData(STORAGE_KEYS.SNOOZE_STATES, [...otherStates, state]);
+      });
+    } catch (error) {
+      console.error('Error saving snooze state:', error);
+      throw new Error('Failed to save snooze state');
+    }
+  }
+
+  /**
+   * Remove the pending snooze for an alarm
+   */
+  static async clearSnoozeState(alarmId: string): Promise<void> {
+    try {
+      await this.withLock(STORAGE_KEYS.SNOOZE_STATES, async () => {
+        const states = await this.getSnoozeStates();
+        await this.storeData(
+          STORAGE_KEYS.SNOOZE_STATES,
+          states.filter(state => state.alarmId !== alarmId)
+        );
+      });
+    } catch (error) {
+      console.error('Error clearing snooze state:', error);
+      throw new Error('Failed to clear snooze state');
+    }
+  }
+
+  // ==================== SKIP RANGE OPERATIONS ====================
+
+  /**
+   * Get all vacation and holiday ranges
+   */
+  static async getSkipRanges(): Promise<SkipRange[]> {
+    try {
+      const ranges = await this.getData(STORAGE_KEYS.SKIP_RANGES);
+      return ranges || [];
+    } catch (error) {
+      console.error('Error getting skip ranges:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add skip ranges, ignoring any already stored with the same name and dates.
+   * Returns the ranges that were added.
+   */
+  static async addSkipRanges(newRanges: Omit<SkipRange, 'id' | 'createdAt'>[]): Promise<SkipRange[]> {
+    try {
+      return await this.withLock(STORAGE_KEYS.SKIP_RANGES, async () => {
+        const ranges = await this.getSkipRanges();
+        const isDuplicate = (range: Omit<SkipRange, 'id' | 'createdAt'>) => ranges.some(existing =>
+          existing.label === range.label &&
+          existing.startDate === range.startDate &&
+          existing.endDate === range.endDate
+        );
+
+        const added: SkipRange[] = [];
+        for (const range of newRanges) {
+          if (isDuplicate(range)) continue;
+          const skipRange: SkipRange = {
+            ...range,
+            id: `skip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            createdAt: new Date().toISOString(),
+          };
+          ranges.push(skipRange);
+          added.push(skipRange);
+        }
+
+        await this.storeData(STORAGE_KEYS.SKIP_RANGES, ranges);
+        return added;
+      });
+    } catch (error) {
+      console.error('Error adding skip ranges:', error);
+      throw new Error('Failed to save skip dates');
+    }
+  }
+
+  /**
+   * Remove skip ranges by id
+   */
+  static async deleteSkipRanges(ids: string[]): Promise<number> {
+    try {
+      return await this.withLock(STORAGE_KEYS.SKIP_RANGES, async () => {
+        const ranges = await this.getSkipRanges();
+        const remaining = ranges.filter(range => !ids.includes(range.id));
+        await this.storeData(STORAGE_KEYS.SKIP_RANGES, remaining);
+        return ranges.length - remaining.length;
+      });
+    } catch (error) {
+      console.error('Error deleting skip ranges:', error);
+      throw new Error('Failed to delete skip dates');
+    }
+  }
+
+  // ==================== TIME ZONE OPERATIONS ====================
+
+  /**
+   * The device zone alarms were last scheduled in, or null before the first run
+   */
+  static async getLastTimeZone(): Promise<string | null> {
+    try {
+      return await this.getData(STORAGE_KEYS.LAST_TIME_ZONE);
+    } catch (error) {
+      console.error('Error getting last time zone:', error);
+      return null;
+    }
+  }
+
+  static async setLastTimeZone(timeZone: string): Promise<void> {
+    try {
+      await this.storeData(STORAGE_KEYS.LAST_TIME_ZONE, timeZone);
+    } catch (error) {
+      console.error('Error saving last time zone:', error);
+      throw new Error('Failed to save time zone');
+    }
+  }
+
+  /**
+   * Get the timezone change notice waiting to be read, if any
+   */
+  static async getTimeZoneNotice(): Promise<TimeZoneChangeNotice | null> {
+    try {
+      return await this.getData(STORAGE_KEYS.TIME_ZONE_NOTICE);
+    } catch (error) {
+      console.error('Error getting time zone notice:', error);
+      return null;
+    }
+  }
+
+  static async saveTimeZoneNotice(notice: TimeZoneChangeNotice): Promise<void> {
+    try {
+      await this.storeData(STORAGE_KEYS.TIME_ZONE_NOTICE, notice);
+    } catch (error) {
+      console.error('Error saving time zone notice:', error);
+      throw new Error('Failed to save time zone notice');
+    }
+  }
+
+  static async clearTimeZoneNotice(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.TIME_ZONE_NOTICE);
+    } catch (error) {
+      console.error('Error clearing time zone notice:', error);
+    }
+  }
+
+  // ==================== MISSED ALARM OPERATIONS ====================
+
+  /**
+   * Missed rings the user hasn't acknowledged yet, oldest first
+   */
+  static async getMissedAlarms(): Promise<MissedAlarm[]> {
+    try {
+      const missed = await this.getData(STORAGE_KEYS.MISSED_ALARMS);
+      return missed || [];
+    } catch (error) {
+      console.error('Error getting missed alarms:', error);
+      return [];
+    }
+  }
+
+  static async addMissedAlarms(missed: MissedAlarm[]): Promise<void> {
+    if (missed.length === 0) {
+      return;
+    }
+    try {
+      await this.withLock(STORAGE_KEYS.MISSED_ALARMS, async () => {
+        const existing = await this.getMissedAlarms();
+        await this.storeData(STORAGE_KEYS.MISSED_ALARMS, [...existing, ...missed]);
+      });
+    } catch (error) {
+      console.error('Error saving missed alarms:', error);
+      throw new Error('Failed to save missed alarms');
+    }
+  }
+
+  static async clearMissedAlarms(): Promise<void> {
+    try {
+      await this.withLock(STORAGE_KEYS.MISSED_ALARMS, () =>
+        AsyncStorage.removeItem(STORAGE_KEYS.MISSED_ALARMS)
+      );
+    } catch (error) {
+      console.error('Error clearing missed alarms:', error);
+    }
+  }
+
+  /**
+   * When rings were last checked for misses, or null before the first check
+   */
+  static async getLastMissedAlarmCheck(): Promise<string | null> {
+    try {
+      return await this.getData(STORAGE_KEYS.LAST_MISSED_ALARM_CHECK);
+    } catch (error) {
+      console.error('Error getting last missed alarm check:', error);
+      return null;
+    }
+  }
+
+  static async setLastMissedAlarmCheck(checkedAt: Date): Promise<void> {
+    try {
+      await this.storeData(STORAGE_KEYS.LAST_MISSED_ALARM_CHECK, checkedAt.toISOString());
+    } catch (error) {
+      console.error('Error saving last missed alarm check:', error);
     }
   }
 
@@ -353,12 +950,24 @@ export class StorageService {
    */
   static async clearAllData(): Promise<void> {
     try {
-      await Promise.all([
+      await this.withLock(DATA_KEYS, () => Promise.all([
+        AlarmDatabase.clear(),
         AsyncStorage.removeItem(STORAGE_KEYS.ALARMS),
         AsyncStorage.removeItem(STORAGE_KEYS.USER_SETTINGS),
         AsyncStorage.removeItem(STORAGE_KEYS.ALARM_STATS),
         AsyncStorage.removeItem(STORAGE_KEYS.ALARM_EVENTS),
-      ]);
+        AsyncStorage.removeItem(STORAGE_KEYS.SCAN_CODES),
+        AsyncStorage.removeItem(STORAGE_KEYS.CUSTOM_SOUNDS),
+        AsyncStorage.removeItem(STORAGE_KEYS.RECENT_SOUNDS),
+        AsyncStorage.removeItem(STORAGE_KEYS.SNOOZE_STATES),
+        AsyncStorage.removeItem(STORAGE_KEYS.SKIP_RANGES),
+        AsyncStorage.removeItem(STORAGE_KEYS.LAST_TIME_ZONE),
+        AsyncStorage.removeItem(STORAGE_KEYS.TIME_ZONE_NOTICE),
+        AsyncStorage.removeItem(STORAGE_KEYS.MISSED_ALARMS),
+        AsyncStorage.removeItem(STORAGE_KEYS.LAST_MISSED_ALARM_CHECK),
+        AsyncStorage.removeItem(STORAGE_KEYS.SCHEMA_VERSION),
+        AsyncStorage.removeItem(STORAGE_KEYS.STORAGE_RECOVERIES),
+      ]));
     } catch (error) {
       console.error('Error clearing all data:', error);
       throw new Error('Failed to clear app data');
@@ -370,18 +979,23 @@ export class StorageService {
    */
   static async exportData(): Promise<string> {
     try {
-      const [alarms, settings, stats, events] = await Promise.all([
+      const [alarms, settings, stats, events, scanCodes, skipRanges] = await Promise.all([
         this.getAllAlarms(),
         this.getUserSettings(),
         this.getAlarmStats(),
         this.getAlarmEvents(),
+        this.getScanCodes(),
+        this.getSkipRanges(),
       ]);
 
       return JSON.stringify({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
         alarms,
         settings,
         stats,
         events,
+        scanCodes,
+        skipRanges,
         exportedAt: new Date().toISOString(),
       });
     } catch (error) {
@@ -390,8 +1004,111 @@ export class StorageService {
     }
   }
 
+  /**
+   * Restore a backup made by exportData. With `dryRun`, nothing is written and
+   * the summary previews the change. Throws a user-facing Error for files
+   * that can't be restored. Callers reschedule alarms afterwards.
+   */
+  static async importData(
+    json: string,
+    options: { mode: ImportMode; dryRun?: boolean }
+  ): Promise<ImportSummary> {
+    const backup = parseBackup(json);
+    const importKeys = [
+      STORAGE_KEYS.ALARMS,
+      STORAGE_KEYS.USER_SETTINGS,
+      STORAGE_KEYS.ALARM_STATS,
+      STORAGE_KEYS.ALARM_EVENTS,
+      STORAGE_KEYS.SCAN_CODES,
+      STORAGE_KEYS.SKIP_RANGES,
+    ];
+
+    // Planned and written under one lock, so nothing saved meanwhile is lost
+    return this.withLock(importKeys, async () => {
+      const [alarms, settings, stats, events, scanCodes, skipRanges] = await Promise.all([
+        this.getAllAlarms(),
+        this.getData(STORAGE_KEYS.USER_SETTINGS),
+        AlarmDatabase.getStats(),
+        this.getAlarmEvents(),
+        this.getScanCodes(),
+        this.getSkipRanges(),
+      ]);
+      const { result, summary } = planImport(
+        backup,
+        { alarms, settings, stats, events, scanCodes, skipRanges },
+        options.mode
+      );
+
+      if (options.dryRun) {
+        return summary;
+      }
+
+      try {
+        await Promise.all([
+          AlarmDatabase.replaceAll({ alarms: result.alarms, events: result.events, stats: result.stats }),
+          this.storeData(STORAGE_KEYS.SCAN_CODES, result.scanCodes),
+          this.storeData(STORAGE_KEYS.SKIP_RANGES, result.skipRanges),
+          result.settings && this.storeData(STORAGE_KEYS.USER_SETTINGS, result.settings),
+        ]);
+        await this.writeAlarmStats({ totalAlarms: result.alarms.length });
+      } catch (error) {
+        console.error('Error importing data:', error);
+        throw new Error('Failed to restore backup');
+      }
+
+      console.log(`📥 [StorageService] Backup restored (${options.mode}): ${summary.alarmsAdded} added, ${summary.alarmsUpdated} updated, ${summary.alarmsRemoved} removed`);
+      return { ...summary, dryRun: false };
+    });
+  }
+
   // ==================== PRIVATE HELPER METHODS ====================
 
+  /**
+   * Run `task` holding the locks for `keys`. The task must not call another
+   * locked method for a key it already holds, or it waits on itself.
+   */
+  private static withLock<T>(keys: string | string[], task: () => Promise<T>): Promise<T> {
+    return this.locks.run(keys, task);
+  }
+
+  /**
+   * Apply a change to one alarm under the alarms lock. `change` sees the
+   * stored alarm, so updates based on its current state aren't lost.
+   */
+  private static writeAlarmUpdate(id: string, change: (alarm: Alarm) => UpdateAlarmData): Promise<Alarm> {
+    return this.withLock(STORAGE_KEYS.ALARMS, async () => {
+      const alarm = await AlarmDatabase.getAlarm(id);
+
+      if (!alarm) {
+        throw new Error('Alarm not found');
+      }
+
+      const updatedAlarm: Alarm = {
+        ...alarm,
+        ...change(alarm),
+        updatedAt: new Date().toISOString(),
+      };
+
+      await AlarmDatabase.updateAlarm(updatedAlarm);
+
+      return updatedAlarm;
+    });
+  }
+
+  /**
+   * Merge a stats update into storage. Callers hold the stats lock.
+   */
+  private static async writeAlarmStats(statsUpdate: Partial<AlarmStats>): Promise<AlarmStats> {
+    const currentStats = await this.getAlarmStats();
+    const updatedStats = {
+      ...currentStats,
+      ...statsUpdate,
+      lastUpdated: new Date().toISOString(),
+    };
+    await AlarmDatabase.saveStats(updatedStats);
+    return updatedStats;
+  }
+
   private static async storeData(key: string, value: any): Promise<void> {
     try {
       const jsonValue = JSON.stringify(value);
@@ -403,13 +1120,55 @@ export class StorageService {
   }
 
   private static async getData(key: string): Promise<any> {
+    let jsonValue: string | null;
     try {
-      const jsonValue = await AsyncStorage.getItem(key);
-      return jsonValue != null ? JSON.parse(jsonValue) : null;
+      jsonValue = await AsyncStorage.getItem(key);
     } catch (error) {
       console.error('Error getting data:', error);
       throw error;
     }
+
+    if (jsonValue == null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(jsonValue);
+    } catch (error) {
+      await this.recoverCorruptValue(key, jsonValue, error);
+      return null;
+    }
+  }
+
+  /**
+   * Set a value that is not valid JSON aside so the app can start from a
+   * clean slate for that key, keeping the raw text for support
+   */
+  private static async recoverCorruptValue(key: string, rawValue: string, error: unknown): Promise<void> {
+    const backupKey = `${key}${CORRUPT_BACKUP_SUFFIX}`;
+    console.error(`❌ [StorageService] ${key} is not valid JSON, moving it to ${backupKey}:`, error);
+
+    try {
+      await AsyncStorage.setItem(backupKey, rawValue);
+      await AsyncStorage.removeItem(key);
+
+      if (key === STORAGE_KEYS.STORAGE_RECOVERIES) {
+        return; // The log itself was damaged; nothing to append to
+      }
+
+      const recovery: StorageRecovery = {
+        key,
+        backupKey,
+        error: error instanceof Error ? error.message : String(error),
+        recoveredAt: new Date().toISOString(),
+      };
+      await this.withLock(STORAGE_KEYS.STORAGE_RECOVERIES, async () => {
+        const recoveries = await this.getStorageRecoveries();
+        await this.storeData(STORAGE_KEYS.STORAGE_RECOVERIES, [...recoveries, recovery]);
+      });
+    } catch (recoveryError) {
+      console.error('Error recovering corrupt data:', recoveryError);
+    }
   }
 
   private static generateId(): string {
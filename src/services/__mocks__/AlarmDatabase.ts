@@ -0,0 +1,168 @@
+// In-memory stand-in for AlarmDatabase, used by jest.mock('../AlarmDatabase').
+// Every call yields once, as the real database does, so overlapping callers
+// interleave the way they would on a device.
+
+import { Alarm, AlarmEvent, AlarmLifecycleEntry, AlarmLifecycleType, AlarmStats } from '../../types';
+
+const settle = () => Promise.resolve();
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+let alarms: Alarm[] = [];
+let events: AlarmEvent[] = [];
+let lifecycle: AlarmLifecycleEntry[] = [];
+let stats: Partial<AlarmStats> | null = null;
+
+const byTriggeredAt = (a: AlarmEvent, b: AlarmEvent) => a.triggeredAt.localeCompare(b.triggeredAt);
+const byAt = (a: AlarmLifecycleEntry, b: AlarmLifecycleEntry) => a.at.localeCompare(b.at);
+
+export class AlarmDatabase {
+  static async getAlarms(): Promise<Alarm[]> {
+    await settle();
+    return copy(alarms);
+  }
+
+  static async getAlarm(id: string): Promise<Alarm | null> {
+    await settle();
+    const alarm = alarms.find(a => a.id === id);
+    return alarm ? copy(alarm) : null;
+  }
+
+  static async insertAlarm(alarm: Alarm): Promise<void> {
+    await settle();
+    if (alarms.some(a => a.id === alarm.id)) {
+      throw new Error(`UNIQUE constraint failed: alarms.id (${alarm.id})`);
+    }
+    alarms.push(copy(alarm));
+  }
+
+  static async updateAlarm(alarm: Alarm): Promise<void> {
+    await settle();
+    alarms = alarms.map(a => (a.id === alarm.id ? copy(alarm) : a));
+  }
+
+  static async deleteAlarm(id: string): Promise<boolean> {
+    await settle();
+    const before = alarms.length;
+    alarms = alarms.filter(a => a.id !== id);
+    return alarms.length < before;
+  }
+
+  static async countAlarms(): Promise<number> {
+    await settle();
+    return alarms.length;
+  }
+
+  static async getEvents(): Promise<AlarmEvent[]> {
+    await settle();
+    return copy([...events].sort(byTriggeredAt));
+  }
+
+  static async getEventsBetween(start: Date, end: Date): Promise<AlarmEvent[]> {
+    await settle();
+    return copy(
+      events
+        .filter(e => e.triggeredAt >= start.toISOString() && e.triggeredAt < end.toISOString())
+        .sort(byTriggeredAt)
+    );
+  }
+
+  static async getEventsForAlarm(alarmId: string): Promise<AlarmEvent[]> {
+    await settle();
+    return copy(events.filter(e => e.alarmId === alarmId).sort(byTriggeredAt));
+  }
+
+  static async insertEvent(event: AlarmEvent): Promise<void> {
+    await settle();
+    events.push(copy(event));
+  }
+
+  static async deleteEventsBefore(cutoff: Date): Promise<number> {
+    await settle();
+    const before = events.length;
+    events = events.filter(e => e.triggeredAt >= cutoff.toISOString());
+    return before - events.length;
+  }
+
+  static async insertLifecycleEntry(entry: AlarmLifecycleEntry): Promise<void> {
+    await settle();
+    lifecycle.push(copy(entry));
+  }
+
+  static async hasLifecycleEntry(alarmId: string, type: AlarmLifecycleType, scheduledFor: string): Promise<boolean> {
+    await settle();
+    return lifecycle.some(e => e.alarmId === alarmId && e.type === type && e.scheduledFor === scheduledFor);
+  }
+
+  static async getLatestLifecycleEntry(alarmId: string, type: AlarmLifecycleType): Promise<AlarmLifecycleEntry | null> {
+    await settle();
+    const matching = lifecycle.filter(e => e.alarmId === alarmId && e.type === type).sort(byAt);
+    return matching.length > 0 ? copy(matching[matching.length - 1]) : null;
+  }
+
+  static async getLifecycleEntriesForAlarm(alarmId: string): Promise<AlarmLifecycleEntry[]> {
+    await settle();
+    return copy(lifecycle.filter(e => e.alarmId === alarmId).sort(byAt));
+  }
+
+  static async getLifecycleEntriesBetween(start: Date, end: Date): Promise<AlarmLifecycleEntry[]> {
+    await settle();
+    return copy(lifecycle.filter(e => e.at >= start.toISOString() && e.at < end.toISOString()).sort(byAt));
+  }
+
+  static async deleteLifecycleEntriesBefore(cutoff: Date): Promise<number> {
+    await settle();
+    const before = lifecycle.length;
+    lifecycle = lifecycle.filter(e => e.at >= cutoff.toISOString());
+    return before - lifecycle.length;
+  }
+
+  static async getStats(): Promise<Partial<AlarmStats> | null> {
+    await settle();
+    return stats ? copy(stats) : null;
+  }
+
+  static async saveStats(update: Partial<AlarmStats>): Promise<void> {
+    await settle();
+    stats = copy(update);
+  }
+
+  static async replaceAll(data: {
+    alarms?: Alarm[];
+    events?: AlarmEvent[];
+    stats?: Partial<AlarmStats> | null;
+  }): Promise<void> {
+    await settle();
+    if (data.alarms) alarms = copy(data.alarms);
+    if (data.events) events = copy(data.events);
+    if (data.stats) stats = copy(data.stats);
+  }
+
+  static async importLegacyData(data: {
+    alarms: unknown[] | null;
+    events: unknown[] | null;
+    stats: Record<string, any> | null;
+  }): Promise<void> {
+    await settle();
+    for (const alarm of (data.alarms || []) as Alarm[]) {
+      if (typeof alarm?.id === 'string' && !alarms.some(a => a.id === alarm.id)) {
+        alarms.push(copy(alarm));
+      }
+    }
+    if (events.length === 0) {
+      events = ((data.events || []) as AlarmEvent[])
+        .filter(e => typeof e?.alarmId === 'string' && typeof e?.triggeredAt === 'string')
+        .map(copy);
+    }
+    if (data.stats && !stats) {
+      stats = copy(data.stats);
+    }
+  }
+
+  static async clear(): Promise<void> {
+    await settle();
+    alarms = [];
+    events = [];
+    lifecycle = [];
+    stats = null;
+  }
+}
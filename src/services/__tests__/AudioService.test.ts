@@ -0,0 +1,104 @@
+import { Vibration } from 'react-native';
+import { VibrationPatternType } from '../../types';
+import { getVibrationTimings } from '../../utils/vibrationPatterns';
+import { AudioConfig, audioService } from '../AudioService';
+
+jest.mock('expo-av', () => {
+  const createSound = () => ({
+    getStatusAsync: jest.fn().mockResolvedValue({ isLoaded: true }),
+    stopAsync: jest.fn().mockResolvedValue(undefined),
+    unloadAsync: jest.fn().mockResolvedValue(undefined),
+    setVolumeAsync: jest.fn().mockResolvedValue(undefined),
+    playAsync: jest.fn().mockResolvedValue(undefined),
+    setOnPlaybackStatusUpdate: jest.fn(),
+  });
+  return {
+    Audio: {
+      setAudioModeAsync: jest.fn().mockResolvedValue(undefined),
+      Sound: { createAsync: jest.fn(async () => ({ sound: createSound() })) },
+    },
+    InterruptionModeIOS: { DoNotMix: 1 },
+    InterruptionModeAndroid: { DoNotMix: 1 },
+  };
+});
+
+jest.mock('../SoundLibrary', () => ({
+  SoundLibrary: {
+    resolveSound: jest.fn(async (soundFile: string) => ({ id: soundFile, source: { uri: soundFile } })),
+  },
+}));
+
+const config = (overrides: Partial<AudioConfig> = {}): AudioConfig => ({
+  soundFile: 'alarm_default',
+  volume: 0.8,
+  shouldLoop: true,
+  enableVibration: true,
+  ...overrides,
+});
+
+let vibrate: jest.SpyInstance;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  vibrate = jest.spyOn(Vibration, 'vibrate').mockImplementation(() => {});
+  jest.spyOn(Vibration, 'cancel').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await audioService.stopAlarmSound();
+  jest.restoreAllMocks();
+});
+
+describe('alarm vibration', () => {
+  it("repeats the alarm's own pattern", async () => {
+    const pattern = { type: VibrationPatternType.HEARTBEAT };
+
+    await audioService.startAlarmSound(config({ vibrationPattern: pattern }));
+
+    expect(vibrate).toHaveBeenCalledTimes(1);
+    expect(vibrate).toHaveBeenCalledWith(getVibrationTimings(pattern), true);
+  });
+
+  it('repeats a tapped-in pattern as recorded', async () => {
+    const pattern = { type: VibrationPatternType.CUSTOM, timings: [0, 300, 200, 600, 1000] };
+
+    await audioService.startAlarmSound(config({ vibrationPattern: pattern }));
+
+    expect(vibrate).toHaveBeenCalledWith([0, 300, 200, 600, 1000], true);
+  });
+
+  it('does not vibrate when the alarm has vibration off', async () => {
+    await audioService.startAlarmSound(config({ enableVibration: false }));
+
+    expect(vibrate).not.toHaveBeenCalled();
+  });
+});
+
+describe('sound stage vibration', () => {
+  const stage = (soundFile: string, vibration: boolean) => ({ soundFile, durationMinutes: 1, volume: 1, vibration });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('vibrates only during stages that ask for it, even on an alarm with vibration on', async () => {
+    const pattern = { type: VibrationPatternType.SOS };
+    const soundSequence = [stage('gentle', false), stage('classic', true), stage('urgent', false)];
+
+    await audioService.startAlarmSound(config({ enableVibration: true, vibrationPattern: pattern, soundSequence }));
+    expect(vibrate).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(vibrate).toHaveBeenCalledTimes(1);
+    expect(vibrate).toHaveBeenCalledWith(getVibrationTimings(pattern), true);
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(Vibration.cancel).toHaveBeenCalled();
+    expect(vibrate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { AlarmLifecycleType, CreateAlarmData, PuzzleType } from '../../types';
+import { getPuzzleInsights, getWeekdayInsights } from '../../utils/wakeInsights';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../AlarmDatabase');
+jest.mock('../AlarmScheduler', () => ({
+  AlarmScheduler: { cancelSnooze: jest.fn().mockResolvedValue(undefined) },
+}));
+
+// Fresh copies per test, since StorageService remembers its migration
+let StorageService: typeof import('../StorageService').StorageService;
+let SnoozeManager: typeof import('../SnoozeManager').SnoozeManager;
+
+beforeEach(() => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  StorageService = require('../StorageService').StorageService;
+  SnoozeManager = require('../SnoozeManager').SnoozeManager;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const alarmData: CreateAlarmData = {
+  time: '07:00',
+  endTime: '08:00',
+  isEnabled: true,
+  repeatDays: [],
+  puzzleType: PuzzleType.MATH,
+  soundFile: 'default_alarm.mp3',
+  vibrationEnabled: true,
+};
+
+describe('completeAlarm', () => {
+  const rang = new Date('2026-06-01T07:00:00.000Z');
+  const dismissed = new Date('2026-06-01T07:02:00.000Z');
+
+  it('records when the ring started and how long the puzzle took', async () => {
+    const alarm = await StorageService.createAlarm(alarmData);
+
+    await SnoozeManager.completeAlarm(alarm.id, { puzzleCompleted: true, solveTime: 42, triggeredAt: rang }, dismissed);
+
+    expect(await StorageService.getAlarmEvents()).toEqual([
+      expect.objectContaining({
+        triggeredAt: rang.toISOString(),
+        completedAt: dismissed.toISOString(),
+        solveTime: 42,
+        puzzleCompleted: true,
+      }),
+    ]);
+    expect(await StorageService.getLifecycleEntriesForAlarm(alarm.id)).toEqual([
+      expect.objectContaining({ type: AlarmLifecycleType.DISMISSED, solveTime: 42 }),
+    ]);
+    expect((await StorageService.getAlarmStats()).puzzleStats[PuzzleType.MATH]).toEqual({
+      attempted: 1,
+      completed: 1,
+      averageTime: 42,
+    });
+  });
+
+  it('records the puzzle of the ring as it was snoozed, not as since edited', async () => {
+    const alarm = await StorageService.createAlarm(alarmData);
+    await StorageService.saveSnoozeState({
+      alarmId: alarm.id,
+      alarm,
+      snoozeCount: 1,
+      firstTriggeredAt: rang.toISOString(),
+      lastSnoozedAt: rang.toISOString(),
+      snoozeUntil: '2026-06-01T07:05:00.000Z',
+    });
+    await StorageService.updateAlarm(alarm.id, { puzzleType: PuzzleType.MEMORY });
+
+    await SnoozeManager.completeAlarm(alarm.id, { puzzleCompleted: true, solveTime: 30 }, dismissed);
+
+    const [event] = await StorageService.getAlarmEvents();
+    expect(event.puzzleType).toBe(PuzzleType.MATH);
+    expect((await StorageService.getAlarmStats()).puzzleStats[PuzzleType.MATH].completed).toBe(1);
+  });
+
+  it('keeps the first ring time of a snoozed alarm', async () => {
+    const alarm = await StorageService.createAlarm(alarmData);
+    await StorageService.saveSnoozeState({
+      alarmId: alarm.id,
+      alarm,
+      snoozeCount: 1,
+      firstTriggeredAt: rang.toISOString(),
+      lastSnoozedAt: rang.toISOString(),
+      snoozeUntil: '2026-06-01T07:05:00.000Z',
+    });
+
+    await SnoozeManager.completeAlarm(
+      alarm.id,
+      { puzzleCompleted: true, solveTime: 20, triggeredAt: new Date('2026-06-01T07:05:00.000Z') },
+      dismissed
+    );
+
+    const [event] = await StorageService.getAlarmEvents();
+    expect(event.triggeredAt).toBe(rang.toISOString());
+    expect(event.snoozedCount).toBe(1);
+    expect(await StorageService.getSnoozeState(alarm.id)).toBeNull();
+  });
+});
+
+describe('solve times in wake insights', () => {
+  it('shows the solve time of a dismissal on its weekday and puzzle', async () => {
+    const alarm = await StorageService.createAlarm(alarmData);
+    // Two Mondays, 1 and 8 June 2026, local time
+    const solve = (day: number, solveTime: number) =>
+      SnoozeManager.completeAlarm(
+        alarm.id,
+        { puzzleCompleted: true, solveTime, triggeredAt: new Date(2026, 5, day, 7, 0) },
+        new Date(2026, 5, day, 7, 1)
+      );
+
+    await solve(1, 42);
+    await solve(8, 18);
+
+    const events = await StorageService.getAlarmEvents();
+    const monday = getWeekdayInsights(events)[1];
+    expect(monday).toEqual({ weekday: 1, wakes: 2, averageSolveTime: 30, averageSnoozes: 0 });
+    expect(getPuzzleInsights(events, [])).toEqual([
+      { puzzleType: PuzzleType.MATH, attempts: 2, solved: 2, successRate: 1, averageSolveTime: 30 },
+    ]);
+  });
+});
@@ -0,0 +1,215 @@
+import { AlarmLifecycleType, AlarmEvent, CreateAlarmData, PuzzleType, SkipReason } from '../../types';
+import { CURRENT_SCHEMA_VERSION } from '../../utils/storageMigrations';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../AlarmDatabase');
+
+// Fresh copies per test, since StorageService remembers its migration
+let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+let AlarmDatabase: typeof import('../AlarmDatabase').AlarmDatabase;
+let StorageService: typeof import('../StorageService').StorageService;
+
+beforeEach(() => {
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  AsyncStorage = require('@react-native-async-storage/async-storage');
+  AlarmDatabase = require('../AlarmDatabase').AlarmDatabase;
+  StorageService = require('../StorageService').StorageService;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+});
+
+const event = (triggeredAt: string, overrides: Partial<AlarmEvent> = {}): AlarmEvent => ({
+  alarmId: 'alarm-1',
+  triggeredAt,
+  snoozedCount: 0,
+  puzzleCompleted: true,
+  ...overrides,
+});
+
+const alarmData = (label: string): CreateAlarmData => ({
+  time: '07:00',
+  endTime: '08:00',
+  isEnabled: true,
+  repeatDays: [],
+  puzzleType: PuzzleType.NONE,
+  soundFile: 'default_alarm.mp3',
+  vibrationEnabled: true,
+  label,
+});
+
+const storeLegacyData = () =>
+  AsyncStorage.multiSet([
+    ['@altrise:alarms', JSON.stringify([{ id: 'alarm-1', time: '07:00', puzzleType: 'none', repeatDays: [1, 2] }])],
+    // A ring that was missed and later completed records two events at the same time
+    ['@altrise:alarm_events', JSON.stringify([
+      event('2026-06-01T07:00:00.000Z', { puzzleCompleted: false }),
+      event('2026-06-01T07:00:00.000Z'),
+    ])],
+    ['@altrise:alarm_stats', JSON.stringify({ alarmsTriggered: 2, alarmsCompleted: 1 })],
+  ]);
+
+describe('moving legacy data to SQLite', () => {
+  it('copies alarms, events and stats into the database and removes the old keys', async () => {
+    await storeLegacyData();
+
+    await expect(StorageService.migrate()).resolves.toBe(CURRENT_SCHEMA_VERSION);
+
+    const alarms = await StorageService.getAllAlarms();
+    expect(alarms.map(alarm => alarm.id)).toEqual(['alarm-1']);
+    expect(alarms[0].endTime).toBe('08:00'); // Filled in by the v3 migration
+    expect(await StorageService.getAlarmEvents()).toHaveLength(2);
+    expect((await StorageService.getAlarmStats()).alarmsTriggered).toBe(2);
+
+    const legacy = await AsyncStorage.multiGet(['@altrise:alarms', '@altrise:alarm_events', '@altrise:alarm_stats']);
+    expect(legacy.map(([, value]) => value)).toEqual([null, null, null]);
+    expect(await AsyncStorage.getItem('@altrise:schema_version')).toBe(String(CURRENT_SCHEMA_VERSION));
+  });
+
+  it('does not touch the database when there is nothing to move', async () => {
+    const importLegacyData = jest.spyOn(AlarmDatabase, 'importLegacyData');
+
+    await StorageService.migrate();
+
+    expect(importLegacyData).not.toHaveBeenCalled();
+  });
+
+  it('moves the data once when migrate is called more than once', async () => {
+    await storeLegacyData();
+    const importLegacyData = jest.spyOn(AlarmDatabase, 'importLegacyData');
+
+    await Promise.all([StorageService.migrate(), StorageService.migrate()]);
+    await StorageService.migrate();
+
+    expect(importLegacyData).toHaveBeenCalledTimes(1);
+    expect(await StorageService.getAlarmEvents()).toHaveLength(2);
+  });
+
+  it('does not duplicate events when an interrupted move runs again', async () => {
+    await storeLegacyData();
+    jest.spyOn(AsyncStorage, 'multiRemove').mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(StorageService.migrate()).rejects.toThrow('Disk full');
+    await StorageService.migrate();
+
+    expect(await StorageService.getAlarmEvents()).toHaveLength(2);
+    expect(await StorageService.getAllAlarms()).toHaveLength(1);
+    expect(await AsyncStorage.getItem('@altrise:alarm_events')).toBeNull();
+  });
+});
+
+describe('clearOldEvents', () => {
+  const now = new Date('2026-06-30T12:00:00.000Z');
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now });
+    await AlarmDatabase.insertEvent(event('2026-05-20T07:00:00.000Z'));
+    await AlarmDatabase.insertEvent(event('2026-06-19T07:00:00.000Z'));
+    await AlarmDatabase.insertEvent(event('2026-06-29T07:00:00.000Z'));
+    await AlarmDatabase.insertLifecycleEntry({
+      alarmId: 'alarm-1',
+      type: AlarmLifecycleType.MODAL_SHOWN,
+      at: '2026-05-20T07:00:05.000Z',
+    });
+  });
+
+  it('keeps 30 days of history by default', async () => {
+    await expect(StorageService.clearOldEvents()).resolves.toBe(1);
+
+    expect((await StorageService.getAlarmEvents()).map(e => e.triggeredAt)).toEqual([
+      '2026-06-19T07:00:00.000Z',
+      '2026-06-29T07:00:00.000Z',
+    ]);
+    expect(await StorageService.getLifecycleEntriesForAlarm('alarm-1')).toEqual([]);
+  });
+
+  it('follows the retention setting', async () => {
+    await StorageService.updateUserSettings({ eventRetentionDays: 7 });
+
+    await expect(StorageService.clearOldEvents()).resolves.toBe(2);
+
+    expect((await StorageService.getAlarmEvents()).map(e => e.triggeredAt)).toEqual(['2026-06-29T07:00:00.000Z']);
+  });
+
+  it('keeps everything when retention is off', async () => {
+    await StorageService.updateUserSettings({ eventRetentionDays: 0 });
+
+    await expect(StorageService.clearOldEvents()).resolves.toBe(0);
+
+    expect(await StorageService.getAlarmEvents()).toHaveLength(3);
+    expect(await StorageService.getLifecycleEntriesForAlarm('alarm-1')).toHaveLength(1);
+  });
+});
+
+describe('overlapping writes', () => {
+  const times = <T>(count: number, make: (index: number) => Promise<T>) =>
+    Promise.all(Array.from({ length: count }, (_, index) => make(index)));
+
+  it('keeps every alarm created at the same time', async () => {
+    await times(10, index => StorageService.createAlarm(alarmData(`Alarm ${index}`)));
+
+    expect(await StorageService.getAllAlarms()).toHaveLength(10);
+    expect((await StorageService.getAlarmStats()).totalAlarms).toBe(10);
+  });
+
+  it('applies every toggle of the same alarm', async () => {
+    const alarm = await StorageService.createAlarm(alarmData('Toggled'));
+
+    // An even number of toggles only ends up enabled if none read a stale state
+    await times(4, () => StorageService.toggleAlarm(alarm.id));
+
+    expect((await StorageService.getAlarmById(alarm.id))?.isEnabled).toBe(true);
+  });
+
+  it('counts every event recorded at the same time', async () => {
+    const alarm = await StorageService.createAlarm(alarmData('Recorded'));
+
+    await times(10, index =>
+      StorageService.recordAlarmEvent(event(`2026-06-0${index % 3 + 1}T07:00:00.000Z`, { alarmId: alarm.id, snoozedCount: 1 }))
+    );
+
+    const stats = await StorageService.getAlarmStats();
+    expect(await StorageService.getAlarmEvents()).toHaveLength(10);
+    expect(stats.alarmsTriggered).toBe(10);
+    expect(stats.alarmsSnoozed).toBe(10);
+  });
+
+  it('keeps every skip range added at the same time', async () => {
+    await times(5, index => StorageService.addSkipRanges([{
+      label: `Trip ${index}`,
+      startDate: `2026-07-0${index + 1}`,
+      endDate: `2026-07-0${index + 1}`,
+      source: SkipReason.VACATION,
+    }]));
+
+    expect((await StorageService.getSkipRanges()).map(range => range.label).sort()).toEqual([
+      'Trip 0', 'Trip 1', 'Trip 2', 'Trip 3', 'Trip 4',
+    ]);
+  });
+
+  it('loses nothing when different writes overlap', async () => {
+    const alarm = await StorageService.createAlarm(alarmData('Mixed'));
+
+    await Promise.all([
+      StorageService.createAlarm(alarmData('Second')),
+      StorageService.toggleAlarm(alarm.id),
+      StorageService.recordAlarmEvent(event('2026-06-01T07:00:00.000Z', { alarmId: alarm.id })),
+      StorageService.addSkipRanges([{ label: 'Holiday', startDate: '2026-12-25', endDate: '2026-12-25', source: SkipReason.HOLIDAY }]),
+      StorageService.createAlarm(alarmData('Third')),
+      StorageService.recordAlarmEvent(event('2026-06-02T07:00:00.000Z', { alarmId: alarm.id })),
+    ]);
+
+    const stats = await StorageService.getAlarmStats();
+    expect(await StorageService.getAllAlarms()).toHaveLength(3);
+    expect((await StorageService.getAlarmById(alarm.id))?.isEnabled).toBe(false);
+    expect(await StorageService.getAlarmEvents()).toHaveLength(2);
+    expect(await StorageService.getSkipRanges()).toHaveLength(1);
+    expect(stats.totalAlarms).toBe(3);
+    expect(stats.alarmsTriggered).toBe(2);
+  });
+});
@@ -0,0 +1,48 @@
+// Sounds shipped in assets/sounds
+
+import { SoundCategory } from '../types';
+import { SoundInfo } from './types';
+
+export const DEFAULT_SOUND_ID = 'alarm_default';
+
+export const BUNDLED_SOUNDS: SoundInfo[] = [
+  {
+    id: 'alarm_gentle',
+    name: 'Gentle Wake-up',
+    description: 'Soft chimes for easy awakening',
+    category: SoundCategory.GENTLE,
+    durationMs: 23431,
+    source: require('../../assets/sounds/alarm_gentle.mp3'),
+    isImported: false,
+  },
+  {
+    id: 'alarm_chime',
+    name: 'Soft Chime',
+    description: 'Short, calm chime',
+    category: SoundCategory.GENTLE,
+    durationMs: 8000,
+    source: require('../../assets/sounds/alarm_gentle.wav'),
+    isImported: false,
+  },
+  {
+    id: DEFAULT_SOUND_ID,
+    name: 'Default Alarm',
+    description: 'Classic alarm beep pattern',
+    category: SoundCategory.CLASSIC,
+    durationMs: 115091,
+    source: require('../../assets/sounds/alarm_default.mp3'),
+    isImported: false,
+  },
+  {
+    id: 'alarm_urgent',
+    name: 'Urgent Alarm',
+    description: 'Loud pattern for heavy sleepers',
+    category: SoundCategory.URGENT,
+    durationMs: 8878,
+    source: require('../../assets/sounds/alarm_urgent.wav'),
+    isImported: false,
+  },
+];
+
+export const getBundledSound = (id: string): SoundInfo | null =>
+  BUNDLED_SOUNDS.find(sound => sound.id === id) || null;
@@ -0,0 +1,5 @@
+// Sound library public surface
+
+export * from './types';
+export * from './catalog';
+export * from './soundLibrary';
@@ -0,0 +1,118 @@
+// Imported sound checks and the one place Alarm.soundFile is turned into a
+// playable sound. Works on metadata only - file access lives in SoundLibrary.
+
+import { CustomSound, SoundCategory } from '../types';
+import { SoundInfo } from './types';
+import { BUNDLED_SOUNDS, DEFAULT_SOUND_ID, getBundledSound } from './catalog';
+
+export const SUPPORTED_SOUND_EXTENSIONS = ['mp3', 'wav', 'm4a', 'aac'];
+export const MAX_SOUND_FILE_BYTES = 10 * 1024 * 1024;
+export const MIN_SOUND_DURATION_MS = 1000;
+export const MAX_SOUND_DURATION_MS = 10 * 60 * 1000;
+export const MAX_SOUND_NAME_LENGTH = 40;
+
+export const getSoundFileExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+};
+
+/**
+ * Check a picked file before copying it. Returns a list of error messages.
+ */
+export const validateSoundFile = (file: { name: string; size?: number }): string[] => {
+  const errors: string[] = [];
+
+  if (!SUPPORTED_SOUND_EXTENSIONS.includes(getSoundFileExtension(file.name))) {
+    errors.push(`Sound files must be ${SUPPORTED_SOUND_EXTENSIONS.join(', ').toUpperCase()}`);
+  }
+
+  if (file.size !== undefined && file.size > MAX_SOUND_FILE_BYTES) {
+    errors.push(`Sound files must be smaller than ${MAX_SOUND_FILE_BYTES / (1024 * 1024)} MB`);
+  }
+
+  return errors;
+};
+
+/**
+ * Check the length reported once the file is loaded
+ */
+export const validateSoundDuration = (durationMs: number | undefined): string[] => {
+  if (!durationMs || durationMs < MIN_SOUND_DURATION_MS) {
+    return ['The sound is too short or could not be read'];
+  }
+  if (durationMs > MAX_SOUND_DURATION_MS) {
+    return [`Sounds must be at most ${MAX_SOUND_DURATION_MS / 60000} minutes long`];
+  }
+  return [];
+};
+
+/**
+ * Display name from a file name: "my_song-final.mp3" becomes "my song final"
+ */
+export const getSoundNameFromFile = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  const base = (dot > 0 ? fileName.slice(0, dot) : fileName).replace(/[_-]+/g, ' ').trim();
+  return (base || 'Imported sound').slice(0, MAX_SOUND_NAME_LENGTH);
+};
+
+export const toSoundInfo = (sound: CustomSound, directory: string): SoundInfo => ({
+  id: sound.id,
+  name: sound.name,
+  category: SoundCategory.IMPORTED,
+  durationMs: sound.durationMs,
+  source: { uri: `${directory}${sound.fileName}` },
+  isImported: true,
+});
+
+/**
+ * Every sound that can be picked, bundled first
+ */
+export const listSounds = (customSounds: CustomSound[], directory: string): SoundInfo[] => [
+  ...BUNDLED_SOUNDS,
+  ...customSounds.map(sound => toSoundInfo(sound, directory)),
+];
+
+/**
+ * The sound an alarm plays. Unknown ids, including imports whose file is gone
+ * (leave those out of `customSounds`), fall back to the default sound.
+ */
+export const resolveSound = (soundFile: string | undefined, customSounds: CustomSound[], directory: string): SoundInfo => {
+  const custom = customSounds.find(sound => sound.id === soundFile);
+  if (custom) {
+    return toSoundInfo(custom, directory);
+  }
+  return (soundFile && getBundledSound(soundFile)) || getBundledSound(DEFAULT_SOUND_ID)!;
+};
+
+export const MAX_RECENT_SOUNDS = 5;
+
+export const SOUND_CATEGORY_LABELS: Record<SoundCategory, string> = {
+  [SoundCategory.GENTLE]: 'Gentle',
+  [SoundCategory.CLASSIC]: 'Classic',
+  [SoundCategory.URGENT]: 'Urgent',
+  [SoundCategory.IMPORTED]: 'Imported',
+};
+
+/**
+ * Sounds grouped for browsing, in SoundCategory order. Empty groups are kept
+ * so the imported group can offer an import button.
+ */
+export const groupSoundsByCategory = (sounds: SoundInfo[]): Array<{ category: SoundCategory; sounds: SoundInfo[] }> =>
+  Object.values(SoundCategory).map(category => ({
+    category,
+    sounds: sounds.filter(sound => sound.category === category),
+  }));
+
+/**
+ * Most recent first, without duplicates
+ */
+export const updateRecentSounds = (recent: string[], soundId: string): string[] =>
+  [soundId, ...recent.filter(id => id !== soundId)].slice(0, MAX_RECENT_SOUNDS);
+
+/**
+ * "0:23", "1:55"
+ */
+export const formatSoundDuration = (durationMs: number): string => {
+  const totalSeconds = Math.round(durationMs / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,14 @@
+import { SoundCategory } from '../types';
+
+// What expo-av can play: a bundled asset module or a file on the device
+export type SoundSource = number | { uri: string };
+
+export interface SoundInfo {
+  id: string; // Value stored in Alarm.soundFile
+  name: string;
+  description?: string;
+  category: SoundCategory;
+  durationMs: number;
+  source: SoundSource;
+  isImported: boolean;
+}
@@ -6,14 +6,165 @@ export interface Alarm {
   endTime: string; // Required end time for alarms with duration
   isEnabled: boolean;
   repeatDays: WeekDay[]; // Array of days when alarm repeats
+  recurrence?: RecurrenceRule; // Takes precedence over repeatDays when set
+  date?: string; // "YYYY-MM-DD" for a one-time alarm on a specific day; ignored for repeating alarms
+  skipDates?: string[]; // "YYYY-MM-DD" days a repeating alarm stays silent once (e.g. "skip next")
+  timeZone?: string; // IANA zone the time is fixed in; when missing the alarm follows the device's zone
   puzzleType: PuzzleType;
+  puzzleDifficulty?: PuzzleDifficulty; // Defaults to easy when missing
+  shakeCount?: number; // Shakes required for PuzzleType.SHAKE
+  scanCodes?: ScanCode[]; // Codes accepted by PuzzleType.QR_CODE
+  snoozePolicy?: SnoozePolicy; // Falls back to the UserSettings snooze values when missing
   soundFile: string; // Path or identifier for alarm sound
+  volumeRamp?: VolumeRamp; // Plays at a fixed volume when missing
+  soundSequence?: SoundStage[]; // Replaces soundFile, volumeRamp and vibrationEnabled while ringing
+  announcement?: WakeAnnouncement; // Spoken wake-up announcement; silent when missing
   vibrationEnabled: boolean;
+  vibrationPattern?: VibrationPattern; // Default pattern when missing
   label?: string; // Optional custom label for the alarm
   createdAt: string; // ISO date string
   updatedAt: string; // ISO date string
 }
 
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  ROTATION = 'rotation', // N days on, M days off
+}
+
+// RRULE-style recurrence, evaluated on local calendar days
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months (1 for rotations)
+  startDate: string; // "YYYY-MM-DD" the pattern counts from (DTSTART)
+  until?: string; // "YYYY-MM-DD", inclusive
+  byWeekDays?: WeekDay[]; // WEEKLY: days of the week. MONTHLY: candidate days for bySetPosition
+  bySetPosition?: number; // MONTHLY: 1-4 for the Nth candidate day, -1 for the last
+  byMonthDay?: number; // MONTHLY: day of the month when bySetPosition is not used
+  onDays?: number; // ROTATION: days ringing
+  offDays?: number; // ROTATION: days off
+}
+
+export enum SkipReason {
+  SKIP_NEXT = 'skip_next', // One-off skip on the alarm itself
+  VACATION = 'vacation',
+  HOLIDAY = 'holiday',
+}
+
+// A range of days when every repeating alarm stays silent
+export interface SkipRange {
+  id: string;
+  label: string; // "Summer vacation", "Christmas Day"...
+  startDate: string; // "YYYY-MM-DD"
+  endDate: string; // "YYYY-MM-DD", inclusive
+  source: SkipReason.VACATION | SkipReason.HOLIDAY;
+  createdAt: string; // ISO date string
+}
+
+// An alarm's next ring as seen on the device clock after a timezone change
+export interface TimeZoneShift {
+  alarmId: string;
+  label?: string;
+  time: string; // "HH:MM" as set on the alarm
+  timeZone?: string; // Set when the alarm is fixed to a zone
+  localTime: string; // "HH:MM" the next ring shows on the device clock now
+}
+
+// Shown on the home screen after the device moves to another timezone
+export interface TimeZoneChangeNotice {
+  previousTimeZone: string;
+  timeZone: string;
+  detectedAt: string; // ISO date string
+  shifts: TimeZoneShift[];
+}
+
+// A ring that passed while the app couldn't show it, shown on the home screen
+export interface MissedAlarm {
+  alarmId: string;
+  label?: string;
+  time: string; // HH:MM format, as the alarm was set
+  scheduledFor: string; // ISO date string of the ring
+  detectedAt: string; // ISO date string
+}
+
+export enum SnoozeMode {
+  DISABLED = 'disabled',
+  FIXED = 'fixed',
+  DECAYING = 'decaying',
+}
+
+export interface SnoozePolicy {
+  mode: SnoozeMode;
+  intervals: number[]; // Minutes. FIXED uses the first; DECAYING steps through and repeats the last
+  maxCount: number;
+  harderPuzzleOnSnooze: boolean; // Raise puzzle difficulty one level per snooze
+}
+
+export enum VolumeCurve {
+  LINEAR = 'linear',
+  EXPONENTIAL = 'exponential', // Stays quiet longer, then rises quickly
+}
+
+// Crescendo for an alarm sound
+export interface VolumeRamp {
+  startVolume: number; // 0-1
+  targetVolume: number; // 0-1
+  durationSeconds: number;
+  curve: VolumeCurve;
+  escalateAfterMinutes?: number; // Switch to the urgent sound at full volume if still ringing
+}
+
+export enum VibrationPatternType {
+  DEFAULT = 'default',
+  HEARTBEAT = 'heartbeat',
+  SOS = 'sos',
+  ESCALATING = 'escalating', // Pulses grow longer and closer together
+  CUSTOM = 'custom', // Tapped in by the user
+}
+
+export interface VibrationPattern {
+  type: VibrationPatternType;
+  timings?: number[]; // CUSTOM only: ms, alternating pause and vibration, starting with a pause
+}
+
+// Read aloud by the on-device speech engine while the alarm rings
+export interface WakeAnnouncement {
+  message?: string; // User-written, e.g. "Pills are on the counter"
+}
+
+// One step of a sound sequence; stages play in order while the alarm rings
+export interface SoundStage {
+  soundFile: string;
+  durationMinutes: number; // Ignored on the last stage, which plays until dismissed
+  volume: number; // 0-1
+  vibration: boolean;
+}
+
+export interface ScanCode {
+  id: string;
+  label: string; // Where the code lives, e.g. "Bathroom toothpaste"
+  value: string; // Decoded barcode/QR content
+  format?: string; // Barcode type reported by the scanner (qr, ean13...)
+  createdAt: string; // ISO date string
+}
+
+export enum SoundCategory {
+  GENTLE = 'gentle',
+  CLASSIC = 'classic',
+  URGENT = 'urgent',
+  IMPORTED = 'imported',
+}
+
+// A sound file the user imported, copied into app storage
+export interface CustomSound {
+  id: string; // Used as Alarm.soundFile
+  name: string;
+  fileName: string; // File inside the app's sounds directory
+  durationMs: number;
+  importedAt: string; // ISO date string
+}
+
 export interface UserSettings {
   defaultPuzzleType: PuzzleType;
   defaultSound: string;
@@ -29,6 +180,8 @@ export interface UserSettings {
   defaultVibration: boolean;
   snoozeInterval: number; // Minutes
   maxSnoozeCount: number;
+  eventRetentionDays: number; // Days of alarm history to keep, 0 keeps it all
+  ringMissedAlarms: boolean; // Ring on launch if an alarm was missed but its end time hasn't passed
 }
 
 export interface AlarmStats {
@@ -59,7 +212,21 @@ export enum WeekDay {
 
 export enum PuzzleType {
   NONE = 'none',
-  MATH = 'math', // Only math puzzles supported
+  BASIC_MATH = 'basic_math', // Legacy alias, resolved to MATH
+  NUMBER_SEQUENCE = 'number_sequence',
+  MATH = 'math',
+  MEMORY = 'memory',
+  PATTERN = 'pattern',
+  SEQUENCE = 'sequence',
+  QR_CODE = 'qr_code',
+  SHAKE = 'shake',
+}
+
+export enum PuzzleDifficulty {
+  EASY = 'easy',
+  MEDIUM = 'medium',
+  HARD = 'hard',
+  BRUTAL = 'brutal',
 }
 
 export interface AlarmEvent {
@@ -69,6 +236,77 @@ export interface AlarmEvent {
   snoozedCount: number;
   solveTime?: number; // In seconds
   puzzleCompleted: boolean;
+  puzzleType?: PuzzleType; // The puzzle this ring asked for; missing on older events
+  autoDismissed?: boolean; // Ended by its end time rather than by the user
+}
+
+// Steps of one ring, roughly in the order they happen
+export enum AlarmLifecycleType {
+  SCHEDULED = 'scheduled',
+  NOTIFICATION_DELIVERED = 'notification_delivered',
+  MODAL_SHOWN = 'modal_shown',
+  PUZZLE_ATTEMPT = 'puzzle_attempt',
+  SNOOZED = 'snoozed',
+  DISMISSED = 'dismissed',
+  AUTO_DISMISSED = 'auto_dismissed',
+  MISSED = 'missed',
+}
+
+interface AlarmLifecycleBase {
+  alarmId: string;
+  at: string; // ISO date string, when the step happened
+  scheduledFor?: string; // ISO date string of the ring it belongs to, when known
+}
+
+// One entry of the alarm lifecycle log; the fields after `type` depend on it
+export type AlarmLifecycleEntry = AlarmLifecycleBase & (
+  | { type: AlarmLifecycleType.SCHEDULED; isSnooze: boolean }
+  | { type: AlarmLifecycleType.NOTIFICATION_DELIVERED; notificationId: string }
+  | { type: AlarmLifecycleType.MODAL_SHOWN; latencyMs?: number } // From delivery, if it was seen
+  | { type: AlarmLifecycleType.PUZZLE_ATTEMPT; puzzleType: PuzzleType; attempt: number; correct: boolean }
+  | { type: AlarmLifecycleType.SNOOZED; snoozeCount: number; snoozeUntil: string }
+  | { type: AlarmLifecycleType.DISMISSED; puzzleCompleted: boolean; snoozeCount: number; solveTime?: number }
+  | { type: AlarmLifecycleType.AUTO_DISMISSED; snoozeCount: number }
+  | { type: AlarmLifecycleType.MISSED; reason: 'abandoned_snooze' | 'not_shown' }
+);
+
+// A pending snooze, persisted so it survives app restarts
+export interface SnoozeState {
+  alarmId: string;
+  alarm: Alarm; // Snapshot of the alarm as it rang, so the snoozed ring keeps its configuration
+  snoozeCount: number; // Snoozes used so far in this ring
+  firstTriggeredAt: string; // ISO date string of the original ring
+  lastSnoozedAt: string; // ISO date string
+  snoozeUntil: string; // ISO date string
+  notificationId?: string;
+}
+
+// A stored value that could not be parsed and was set aside
+export interface StorageRecovery {
+  key: string; // Storage key that held the damaged value
+  backupKey: string; // Where the raw text was copied to
+  error: string;
+  recoveredAt: string; // ISO date string
+}
+
+export enum ImportMode {
+  MERGE = 'merge', // Keep local data, add what's new, newest copy wins on ID clashes
+  REPLACE = 'replace', // Swap local data for the backup
+}
+
+// What restoring a backup changes (or would change, for a dry run)
+export interface ImportSummary {
+  mode: ImportMode;
+  dryRun: boolean;
+  alarmsAdded: number;
+  alarmsUpdated: number;
+  alarmsUnchanged: number;
+  alarmsRemoved: number;
+  scanCodesAdded: number;
+  skipRangesAdded: number;
+  eventsAdded: number;
+  settingsReplaced: boolean;
+  rejected: string[]; // Backup entries left out, with the reason
 }
 
 // Helper type for alarm creation (without generated fields)
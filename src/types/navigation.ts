@@ -1,11 +1,21 @@
 // Navigation types for the AltRise app
 export type RootStackParamList = {
   Home: undefined;
-  AddAlarm: undefined;
+  AddAlarm: {
+    pickedSound?: string; // Set by SoundPicker when it returns
+  } | undefined;
   EditAlarm: {
     alarmId: string;
+    pickedSound?: string;
+  };
+  Settings: {
+    pickedSound?: string;
+  } | undefined;
+  History: undefined;
+  SoundPicker: {
+    selectedSound?: string;
+    returnTo: 'AddAlarm' | 'EditAlarm' | 'Settings'; // Receives the pick as `pickedSound`
   };
-  Settings: undefined;
 };
 
 export type HomeScreenNavigationProp = any;
@@ -0,0 +1,79 @@
+import { SpeechVoice, pickOfflineVoice, renderAnnouncement } from '../announcement';
+
+describe('renderAnnouncement', () => {
+  const values = { time: '7:05 AM', label: 'Gym', remaining: 2, message: 'Drink some water' };
+
+  it('fills in every placeholder of the default template', () => {
+    expect(renderAnnouncement(values)).toBe(
+      'Good morning. It is 7:05 AM. Gym. 2 more alarms today. Drink some water'
+    );
+  });
+
+  it('fills in each placeholder on its own', () => {
+    expect(renderAnnouncement(values, 'It is {time}')).toBe('It is 7:05 AM');
+    expect(renderAnnouncement(values, 'Time for {label}')).toBe('Time for Gym');
+    expect(renderAnnouncement(values, '{remaining}')).toBe('2 more alarms today');
+    expect(renderAnnouncement(values, '{message}!')).toBe('Drink some water!');
+  });
+
+  it('counts the remaining alarms in words', () => {
+    expect(renderAnnouncement({ ...values, remaining: 0 }, '{remaining}')).toBe('No more alarms today');
+    expect(renderAnnouncement({ ...values, remaining: 1 }, '{remaining}')).toBe('One more alarm today');
+  });
+
+  it('leaves unknown placeholders as written', () => {
+    expect(renderAnnouncement(values, 'It is {time}. {weather}.')).toBe('It is 7:05 AM. {weather}.');
+  });
+
+  it('drops sentences whose data is missing', () => {
+    expect(renderAnnouncement({ time: '7:05 AM' })).toBe('Good morning. It is 7:05 AM.');
+    expect(renderAnnouncement({ time: '7:05 AM', remaining: 1 })).toBe(
+      'Good morning. It is 7:05 AM. One more alarm today.'
+    );
+    expect(renderAnnouncement({ time: '7:05 AM', label: '   ', message: '' })).toBe('Good morning. It is 7:05 AM.');
+  });
+
+  it('does not start with punctuation when the first placeholder is empty', () => {
+    expect(renderAnnouncement({ time: '7:05 AM' }, '{label}. It is {time}')).toBe('It is 7:05 AM');
+  });
+
+  it('trims the label and message', () => {
+    expect(renderAnnouncement({ time: '7:05 AM', label: '  Gym ', message: ' Go ' }, '{label}. {message}.')).toBe(
+      'Gym. Go.'
+    );
+  });
+});
+
+describe('pickOfflineVoice', () => {
+  const voices: SpeechVoice[] = [
+    { identifier: 'en-us-x-sfg-network', language: 'en-US' },
+    { identifier: 'en-gb-x-gba-local', language: 'en-GB' },
+    { identifier: 'en-us-x-iol-local', language: 'en-US' },
+    { identifier: 'de-de-x-deb-local', language: 'de_DE' },
+  ];
+
+  it('prefers an offline voice for the exact locale', () => {
+    expect(pickOfflineVoice(voices, 'en-US')).toBe('en-us-x-iol-local');
+    expect(pickOfflineVoice(voices, 'en-gb')).toBe('en-gb-x-gba-local');
+  });
+
+  it('matches locales written with an underscore', () => {
+    expect(pickOfflineVoice(voices, 'de-DE')).toBe('de-de-x-deb-local');
+  });
+
+  it('falls back to an offline voice for the same language', () => {
+    expect(pickOfflineVoice(voices, 'en-AU')).toBe('en-gb-x-gba-local');
+    expect(pickOfflineVoice(voices, 'de-AT')).toBe('de-de-x-deb-local');
+  });
+
+  it('never picks a network voice', () => {
+    const networkOnly = [{ identifier: 'fr-fr-x-frd-network', language: 'fr-FR' }];
+
+    expect(pickOfflineVoice([...voices, ...networkOnly], 'fr-FR')).toBeUndefined();
+  });
+
+  it('leaves the choice to the speech engine without an offline voice', () => {
+    expect(pickOfflineVoice(voices, 'ja-JP')).toBeUndefined();
+    expect(pickOfflineVoice([], 'en-US')).toBeUndefined();
+  });
+});
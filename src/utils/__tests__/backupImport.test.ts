@@ -0,0 +1,224 @@
+import { Alarm, AlarmEvent, ImportMode, PuzzleType, SkipRange, SkipReason } from '../../types';
+import { BackupContents, ParsedBackup, parseBackup, planImport } from '../backupImport';
+import { CURRENT_SCHEMA_VERSION } from '../storageMigrations';
+
+const alarm = (overrides: Partial<Alarm> = {}): Alarm => ({
+  id: 'alarm-1',
+  time: '07:00',
+  endTime: '08:00',
+  isEnabled: true,
+  repeatDays: [],
+  puzzleType: PuzzleType.NONE,
+  soundFile: 'default_alarm.mp3',
+  vibrationEnabled: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const event = (alarmId: string, triggeredAt: string): AlarmEvent => ({
+  alarmId,
+  triggeredAt,
+  snoozedCount: 0,
+  puzzleCompleted: false,
+});
+
+const skipRange = (overrides: Partial<SkipRange> = {}): SkipRange => ({
+  id: 'range-1',
+  label: 'Summer vacation',
+  startDate: '2026-07-01',
+  endDate: '2026-07-14',
+  source: SkipReason.VACATION,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const contents = (overrides: Partial<BackupContents> = {}): BackupContents => ({
+  alarms: [],
+  settings: null,
+  stats: null,
+  events: [],
+  scanCodes: [],
+  skipRanges: [],
+  ...overrides,
+});
+
+const backup = (overrides: Partial<ParsedBackup> = {}): ParsedBackup => ({
+  ...contents(),
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  rejected: [],
+  ...overrides,
+});
+
+describe('parseBackup', () => {
+  it('reads a backup written with the current schema', () => {
+    const json = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, alarms: [alarm()], skipRanges: [skipRange()] });
+
+    const parsed = parseBackup(json);
+
+    expect(parsed.alarms).toEqual([alarm()]);
+    expect(parsed.skipRanges).toEqual([skipRange()]);
+    expect(parsed.rejected).toEqual([]);
+  });
+
+  it('refuses a backup made by a newer version of the app', () => {
+    const json = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, alarms: [alarm()] });
+
+    expect(() => parseBackup(json)).toThrow('newer version');
+  });
+
+  it('refuses files that are not backups', () => {
+    expect(() => parseBackup('not json')).toThrow("isn't an AltRise backup");
+    expect(() => parseBackup(JSON.stringify({ settings: {} }))).toThrow("isn't an AltRise backup");
+  });
+
+  it('upgrades a backup from before versioning', () => {
+    const { endTime, ...withoutEndTime } = alarm();
+
+    const parsed = parseBackup(JSON.stringify({ alarms: [withoutEndTime] }));
+
+    expect(parsed.schemaVersion).toBe(1);
+    expect(parsed.alarms[0].endTime).toBe('08:00');
+  });
+
+  it('leaves out bad and repeated entries and says why', () => {
+    const json = JSON.stringify({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      alarms: [alarm({ label: 'Gym' }), alarm({ label: 'Gym' }), alarm({ id: 'alarm-2', time: '25:00', endTime: '26:00' })],
+      skipRanges: [skipRange({ startDate: '2026-07-14', endDate: '2026-07-01' })],
+    });
+
+    const parsed = parseBackup(json);
+
+    expect(parsed.alarms).toHaveLength(1);
+    expect(parsed.skipRanges).toEqual([]);
+    expect(parsed.rejected).toEqual([
+      'Alarm "Gym": appears twice',
+      'Alarm 25:00: Invalid time format. Use HH:MM (24-hour format)',
+      '1 unreadable skip date range(s)',
+    ]);
+  });
+});
+
+describe('planImport', () => {
+  const older = alarm({ label: 'Old', updatedAt: '2026-03-01T00:00:00.000Z' });
+  const newer = alarm({ label: 'New', updatedAt: '2026-04-01T00:00:00.000Z' });
+
+  describe('merge', () => {
+    it('keeps whichever copy of an alarm was updated last', () => {
+      const incoming = planImport(backup({ alarms: [newer] }), contents({ alarms: [older] }), ImportMode.MERGE);
+      const stale = planImport(backup({ alarms: [older] }), contents({ alarms: [newer] }), ImportMode.MERGE);
+
+      expect(incoming.result.alarms).toEqual([newer]);
+      expect(incoming.summary.alarmsUpdated).toBe(1);
+      expect(stale.result.alarms).toEqual([newer]);
+      expect(stale.summary.alarmsUnchanged).toBe(1);
+    });
+
+    it('keeps the local copy when both were updated at the same time', () => {
+      const local = alarm({ label: 'Local', updatedAt: '2026-04-01T00:00:00.000Z' });
+
+      const { result, summary } = planImport(backup({ alarms: [newer] }), contents({ alarms: [local] }), ImportMode.MERGE);
+
+      expect(result.alarms).toEqual([local]);
+      expect(summary.alarmsUnchanged).toBe(1);
+      expect(summary.alarmsUpdated).toBe(0);
+    });
+
+    it('adds new alarms and never removes local ones', () => {
+      const local = alarm({ id: 'local' });
+      const { result, summary } = planImport(
+        backup({ alarms: [alarm({ id: 'restored' })] }),
+        contents({ alarms: [local] }),
+        ImportMode.MERGE
+      );
+
+      expect(result.alarms.map(a => a.id)).toEqual(['local', 'restored']);
+      expect(summary.alarmsAdded).toBe(1);
+      expect(summary.alarmsRemoved).toBe(0);
+    });
+
+    it('skips a date range already there under another ID or with the same ID', () => {
+      const local = skipRange();
+      const sameDates = skipRange({ id: 'range-2' });
+      const sameId = skipRange({ label: 'Renamed' });
+      const other = skipRange({ id: 'range-3', startDate: '2026-12-24', endDate: '2026-12-26' });
+
+      const { result, summary } = planImport(
+        backup({ skipRanges: [sameDates, sameId, other] }),
+        contents({ skipRanges: [local] }),
+        ImportMode.MERGE
+      );
+
+      expect(result.skipRanges).toEqual([local, other]);
+      expect(summary.skipRangesAdded).toBe(1);
+    });
+
+    it('matches history entries by alarm and ring time, keeping them in order', () => {
+      const local = event('alarm-1', '2026-06-02T07:00:00.000Z');
+      const copy = { ...local, snoozedCount: 2 };
+      const otherAlarm = event('alarm-2', '2026-06-02T07:00:00.000Z');
+      const earlier = event('alarm-1', '2026-06-01T07:00:00.000Z');
+
+      const { result, summary } = planImport(
+        backup({ events: [copy, otherAlarm, earlier] }),
+        contents({ events: [local] }),
+        ImportMode.MERGE
+      );
+
+      expect(result.events).toEqual([earlier, local, otherAlarm]);
+      expect(summary.eventsAdded).toBe(2);
+    });
+
+    it('keeps local settings', () => {
+      const { result, summary } = planImport(
+        backup({ settings: { theme: 'dark' } }),
+        contents({ settings: { theme: 'light' } }),
+        ImportMode.MERGE
+      );
+
+      expect(result.settings).toEqual({ theme: 'light' });
+      expect(summary.settingsReplaced).toBe(false);
+    });
+  });
+
+  describe('replace', () => {
+    it('takes every alarm from the backup, even an older copy', () => {
+      const { result, summary } = planImport(
+        backup({ alarms: [older] }),
+        contents({ alarms: [newer, alarm({ id: 'local' })] }),
+        ImportMode.REPLACE
+      );
+
+      expect(result.alarms).toEqual([older]);
+      expect(summary).toMatchObject({ alarmsAdded: 0, alarmsUpdated: 1, alarmsUnchanged: 0, alarmsRemoved: 1 });
+    });
+
+    it('swaps date ranges and history without de-duplicating', () => {
+      const ranges = [skipRange(), skipRange({ id: 'range-2' })];
+      const events = [event('alarm-1', '2026-06-01T07:00:00.000Z')];
+
+      const { result, summary } = planImport(
+        backup({ skipRanges: ranges, events }),
+        contents({ skipRanges: [skipRange()], events: [event('alarm-1', '2026-05-01T07:00:00.000Z')] }),
+        ImportMode.REPLACE
+      );
+
+      expect(result.skipRanges).toEqual(ranges);
+      expect(result.events).toEqual(events);
+      expect(summary.skipRangesAdded).toBe(2);
+      expect(summary.eventsAdded).toBe(1);
+    });
+
+    it('keeps local settings when the backup has none', () => {
+      const local = contents({ settings: { theme: 'light' } });
+      const withSettings = planImport(backup({ settings: { theme: 'dark' } }), local, ImportMode.REPLACE);
+      const without = planImport(backup(), local, ImportMode.REPLACE);
+
+      expect(withSettings.result.settings).toEqual({ theme: 'dark' });
+      expect(withSettings.summary.settingsReplaced).toBe(true);
+      expect(without.result.settings).toEqual({ theme: 'light' });
+      expect(without.summary.settingsReplaced).toBe(false);
+    });
+  });
+});
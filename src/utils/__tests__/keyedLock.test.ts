@@ -0,0 +1,115 @@
+import { createKeyedLock } from '../keyedLock';
+
+// A task that finishes when the test says so
+const deferred = () => {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createKeyedLock', () => {
+  it('runs tasks on the same key one at a time, in the order they were queued', async () => {
+    const lock = createKeyedLock();
+    const order: string[] = [];
+    const first = deferred();
+
+    const runs = [
+      lock.run('alarms', async () => {
+        order.push('first:start');
+        await first.promise;
+        order.push('first:end');
+      }),
+      lock.run('alarms', async () => {
+        order.push('second');
+      }),
+      lock.run('alarms', async () => {
+        order.push('third');
+      }),
+    ];
+
+    await flush();
+    expect(order).toEqual(['first:start']);
+
+    first.resolve();
+    await Promise.all(runs);
+    expect(order).toEqual(['first:start', 'first:end', 'second', 'third']);
+  });
+
+  it('lets tasks on different keys overlap', async () => {
+    const lock = createKeyedLock();
+    const blocker = deferred();
+    let otherRan = false;
+
+    const blocked = lock.run('alarms', () => blocker.promise);
+    await lock.run('settings', async () => {
+      otherRan = true;
+    });
+
+    expect(otherRan).toBe(true);
+    blocker.resolve();
+    await blocked;
+  });
+
+  it('waits for every key a task claims', async () => {
+    const lock = createKeyedLock();
+    const alarms = deferred();
+    const stats = deferred();
+    const order: string[] = [];
+
+    const runs = [
+      lock.run('alarms', async () => {
+        await alarms.promise;
+        order.push('alarms');
+      }),
+      lock.run('stats', async () => {
+        await stats.promise;
+        order.push('stats');
+      }),
+      lock.run(['alarms', 'stats'], async () => {
+        order.push('both');
+      }),
+      // Queued behind the multi-key task through `stats`
+      lock.run('stats', async () => {
+        order.push('stats again');
+      }),
+    ];
+
+    alarms.resolve();
+    await flush();
+    expect(order).toEqual(['alarms']);
+
+    stats.resolve();
+    await Promise.all(runs);
+    expect(order).toEqual(['alarms', 'stats', 'both', 'stats again']);
+  });
+
+  it('passes on the task result and error', async () => {
+    const lock = createKeyedLock();
+
+    await expect(lock.run('alarms', async () => 42)).resolves.toBe(42);
+    await expect(lock.run('alarms', async () => {
+      throw new Error('Write failed');
+    })).rejects.toThrow('Write failed');
+  });
+
+  it('does not block later tasks when one rejects', async () => {
+    const lock = createKeyedLock();
+    const failing = deferred();
+
+    const failed = lock.run(['alarms', 'stats'], () => failing.promise);
+    const next = lock.run('alarms', async () => 'ran');
+    const other = lock.run('stats', async () => 'ran too');
+
+    failing.reject(new Error('Write failed'));
+
+    await expect(failed).rejects.toThrow('Write failed');
+    await expect(next).resolves.toBe('ran');
+    await expect(other).resolves.toBe('ran too');
+  });
+});
@@ -0,0 +1,136 @@
+import { Alarm, AlarmEvent, AlarmLifecycleType, PuzzleType, SnoozeState, WeekDay } from '../../types';
+import { createScheduleContext } from '../../scheduling';
+import { RingRecords, findMissedAlarms } from '../missedAlarms';
+
+const EVERY_DAY = [
+  WeekDay.SUNDAY,
+  WeekDay.MONDAY,
+  WeekDay.TUESDAY,
+  WeekDay.WEDNESDAY,
+  WeekDay.THURSDAY,
+  WeekDay.FRIDAY,
+  WeekDay.SATURDAY,
+];
+
+const NOW = '2026-06-10T12:00:00.000Z';
+const SINCE = new Date('2026-06-09T12:00:00.000Z');
+
+const context = createScheduleContext({ clock: () => new Date(NOW), timeZone: 'UTC' });
+
+const dailyAlarm = (overrides: Partial<Alarm> = {}): Alarm => ({
+  id: 'alarm-1',
+  time: '07:00',
+  isEnabled: true,
+  repeatDays: EVERY_DAY,
+  puzzleType: PuzzleType.NONE,
+  soundFile: 'default_alarm.mp3',
+  vibrationEnabled: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+} as Alarm);
+
+const records = (overrides: Partial<RingRecords> = {}): RingRecords => ({
+  events: [],
+  snoozeStates: [],
+  lifecycle: [],
+  ...overrides,
+});
+
+const event = (triggeredAt: string): AlarmEvent => ({
+  alarmId: 'alarm-1',
+  triggeredAt,
+  snoozedCount: 0,
+  puzzleCompleted: true,
+});
+
+const missedStarts = (alarms: Alarm[], ringRecords: RingRecords) =>
+  findMissedAlarms(alarms, ringRecords, context, SINCE).missed.map(occurrence => occurrence.start.toISOString());
+
+describe('findMissedAlarms', () => {
+  it('reports a ring nothing was recorded for, but not rings judged on an earlier pass', () => {
+    expect(missedStarts([dailyAlarm()], records())).toEqual(['2026-06-10T07:00:00.000Z']);
+  });
+
+  it('counts an event recorded at the ring', () => {
+    expect(missedStarts([dailyAlarm()], records({ events: [event('2026-06-10T07:00:00.000Z')] }))).toEqual([]);
+  });
+
+  it('counts any record between the ring and the next one, e.g. a late dismissal', () => {
+    expect(missedStarts([dailyAlarm()], records({ events: [event('2026-06-10T09:45:00.000Z')] }))).toEqual([]);
+  });
+
+  it('does not credit a record of the previous ring to the next one', () => {
+    expect(missedStarts([dailyAlarm()], records({ events: [event('2026-06-09T23:30:00.000Z')] }))).toEqual([
+      '2026-06-10T07:00:00.000Z',
+    ]);
+  });
+
+  it('allows a delivery up to a minute early', () => {
+    const early = records({ events: [event('2026-06-10T06:59:01.000Z')] });
+    const tooEarly = records({ events: [event('2026-06-10T06:58:59.000Z')] });
+
+    expect(missedStarts([dailyAlarm()], early)).toEqual([]);
+    expect(missedStarts([dailyAlarm()], tooEarly)).toEqual(['2026-06-10T07:00:00.000Z']);
+  });
+
+  it('counts a snooze in progress and lifecycle steps, but not scheduling', () => {
+    const snoozed = records({
+      snoozeStates: [{ alarmId: 'alarm-1', firstTriggeredAt: '2026-06-10T07:00:00.000Z' } as SnoozeState],
+    });
+    const shown = records({
+      lifecycle: [{ alarmId: 'alarm-1', type: AlarmLifecycleType.MODAL_SHOWN, at: '2026-06-10T07:00:20.000Z' }],
+    });
+    const scheduledOnly = records({
+      lifecycle: [{
+        alarmId: 'alarm-1',
+        type: AlarmLifecycleType.SCHEDULED,
+        at: '2026-06-10T07:00:00.000Z',
+        scheduledFor: '2026-06-11T07:00:00.000Z',
+        isSnooze: false,
+      }],
+    });
+
+    expect(missedStarts([dailyAlarm()], snoozed)).toEqual([]);
+    expect(missedStarts([dailyAlarm()], shown)).toEqual([]);
+    expect(missedStarts([dailyAlarm()], scheduledOnly)).toEqual(['2026-06-10T07:00:00.000Z']);
+  });
+
+  it('only looks at records of the same alarm', () => {
+    const other = records({ events: [{ ...event('2026-06-10T07:00:00.000Z'), alarmId: 'alarm-2' }] });
+
+    expect(missedStarts([dailyAlarm()], other)).toEqual(['2026-06-10T07:00:00.000Z']);
+  });
+
+  it('waits a few minutes before calling a ring without an end time missed', () => {
+    const alarm = dailyAlarm({ time: '11:57' });
+    const later = createScheduleContext({ clock: () => new Date('2026-06-10T12:03:00.000Z'), timeZone: 'UTC' });
+
+    const result = findMissedAlarms([alarm], records(), context, SINCE);
+    expect(result.missed).toEqual([]);
+    expect(result.checkedUntil.toISOString()).toBe('2026-06-10T11:55:00.000Z');
+
+    const next = findMissedAlarms([alarm], records(), later, result.checkedUntil);
+    expect(next.missed.map(occurrence => occurrence.start.toISOString())).toEqual(['2026-06-10T11:57:00.000Z']);
+  });
+
+  it('keeps an unshown ring inside its end time ringable until the window closes', () => {
+    const starts = (occurrences: { start: Date }[]) => occurrences.map(occurrence => occurrence.start.toISOString());
+    const open = findMissedAlarms([dailyAlarm({ time: '11:00', endTime: '13:00' })], records(), context, SINCE);
+    const closed = findMissedAlarms([dailyAlarm({ time: '11:00', endTime: '11:30' })], records(), context, SINCE);
+
+    // Yesterday's window closed at 13:00, after the last pass
+    expect(starts(open.missed)).toEqual(['2026-06-09T11:00:00.000Z']);
+    expect(starts(open.ringable)).toEqual(['2026-06-10T11:00:00.000Z']);
+    expect(starts(closed.missed)).toEqual(['2026-06-10T11:00:00.000Z']);
+    expect(closed.ringable).toEqual([]);
+  });
+
+  it('leaves out rings from before the alarm was last edited', () => {
+    expect(missedStarts([dailyAlarm({ updatedAt: '2026-06-10T08:00:00.000Z' })], records())).toEqual([]);
+  });
+
+  it('ignores disabled alarms', () => {
+    expect(missedStarts([dailyAlarm({ isEnabled: false })], records())).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { RecurrenceFrequency, RecurrenceRule, WeekDay } from '../../types';
+import { recurrenceOccursOn } from '../recurrence';
+
+// Local calendar days, so the rules hold whatever zone the tests run in
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 7, 0);
+
+// Days of `month` (1-12) in 2026 that the rule rings on
+const ringDays = (rule: RecurrenceRule, month: number): number[] => {
+  const days: number[] = [];
+  for (let date = 1; date <= new Date(2026, month, 0).getDate(); date++) {
+    if (recurrenceOccursOn(rule, day(2026, month, date))) {
+      days.push(date);
+    }
+  }
+  return days;
+};
+
+describe('daily rules', () => {
+  it('rings every N days from the start date', () => {
+    const rule: RecurrenceRule = { frequency: RecurrenceFrequency.DAILY, interval: 3, startDate: '2026-06-02' };
+
+    expect(ringDays(rule, 6)).toEqual([2, 5, 8, 11, 14, 17, 20, 23, 26, 29]);
+  });
+
+  it('stops after the until date, which still rings', () => {
+    const rule: RecurrenceRule = { frequency: RecurrenceFrequency.DAILY, interval: 1, startDate: '2026-06-28', until: '2026-07-02' };
+
+    expect(ringDays(rule, 7)).toEqual([1, 2]);
+  });
+});
+
+describe('weekly rules', () => {
+  it('counts weeks from the Monday of the start week', () => {
+    // Starts on Wednesday 3 June; its week runs Monday 1 to Sunday 7 June
+    const rule: RecurrenceRule = {
+      frequency: RecurrenceFrequency.WEEKLY,
+      interval: 2,
+      startDate: '2026-06-03',
+      byWeekDays: [WeekDay.MONDAY, WeekDay.FRIDAY, WeekDay.SUNDAY],
+    };
+
+    // Monday 1 June is before the start; Sunday 7 June is still in the first week
+    expect(ringDays(rule, 6)).toEqual([5, 7, 15, 19, 21, 29]);
+  });
+
+  it("rings on the start date's weekday without byWeekDays", () => {
+    const rule: RecurrenceRule = { frequency: RecurrenceFrequency.WEEKLY, interval: 3, startDate: '2026-06-04' };
+
+    expect(ringDays(rule, 6)).toEqual([4, 25]);
+  });
+
+  it('keeps the week alignment across months and years', () => {
+    const rule: RecurrenceRule = {
+      frequency: RecurrenceFrequency.WEEKLY,
+      interval: 2,
+      startDate: '2025-12-29', // A Monday
+      byWeekDays: [WeekDay.MONDAY],
+    };
+
+    expect(recurrenceOccursOn(rule, day(2026, 1, 12))).toBe(true);
+    expect(recurrenceOccursOn(rule, day(2026, 1, 19))).toBe(false);
+    expect(recurrenceOccursOn(rule, day(2026, 12, 28))).toBe(true); // 52 weeks on
+  });
+});
+
+describe('monthly rules', () => {
+  it('rings on the last chosen weekday of each month', () => {
+    const lastFriday: RecurrenceRule = {
+      frequency: RecurrenceFrequency.MONTHLY,
+      interval: 1,
+      startDate: '2026-01-01',
+      byWeekDays: [WeekDay.FRIDAY],
+      bySetPosition: -1,
+    };
+
+    expect(ringDays(lastFriday, 5)).toEqual([29]);
+    expect(ringDays(lastFriday, 6)).toEqual([26]);
+    expect(ringDays(lastFriday, 7)).toEqual([31]);
+  });
+
+  it('picks the last working day when the month ends on a weekend', () => {
+    const lastWorkday: RecurrenceRule = {
+      frequency: RecurrenceFrequency.MONTHLY,
+      interval: 1,
+      startDate: '2026-01-01',
+      byWeekDays: [WeekDay.MONDAY, WeekDay.TUESDAY, WeekDay.WEDNESDAY, WeekDay.THURSDAY, WeekDay.FRIDAY],
+      bySetPosition: -1,
+    };
+
+    // 31 May 2026 is a Sunday
+    expect(ringDays(lastWorkday, 5)).toEqual([29]);
+  });
+
+  it('rings on the Nth chosen weekday', () => {
+    const secondTuesday: RecurrenceRule = {
+      frequency: RecurrenceFrequency.MONTHLY,
+      interval: 1,
+      startDate: '2026-01-01',
+      byWeekDays: [WeekDay.TUESDAY],
+      bySetPosition: 2,
+    };
+
+    expect(ringDays(secondTuesday, 6)).toEqual([9]);
+  });
+
+  it('skips months without the 31st', () => {
+    const rule: RecurrenceRule = { frequency: RecurrenceFrequency.MONTHLY, interval: 1, startDate: '2026-01-31' };
+
+    expect(ringDays(rule, 1)).toEqual([31]);
+    expect(ringDays(rule, 2)).toEqual([]);
+    expect(ringDays(rule, 3)).toEqual([31]);
+    expect(ringDays(rule, 4)).toEqual([]);
+  });
+
+  it('counts the interval from the start month, including skipped months', () => {
+    const rule: RecurrenceRule = { frequency: RecurrenceFrequency.MONTHLY, interval: 3, startDate: '2026-01-31' };
+
+    // January, April (no 31st), July, October
+    expect([1, 2, 3, 4, 5, 6, 7, 8, 9, 10].filter(month => ringDays(rule, month).length > 0)).toEqual([1, 7, 10]);
+  });
+});
+
+describe('rotation rules', () => {
+  // Two days on, one off, from Wednesday 10 June
+  const rule: RecurrenceRule = {
+    frequency: RecurrenceFrequency.ROTATION,
+    interval: 1,
+    startDate: '2026-06-10',
+    onDays: 2,
+    offDays: 1,
+  };
+
+  it('cycles through on and off days', () => {
+    expect(ringDays(rule, 6)).toEqual([10, 11, 13, 14, 16, 17, 19, 20, 22, 23, 25, 26, 28, 29]);
+  });
+
+  it('does not ring before the start date, even on days that fit the cycle', () => {
+    // 8 June is two days before the start, which would be an on day if counted backwards
+    expect(recurrenceOccursOn(rule, day(2026, 6, 8))).toBe(false);
+    expect(recurrenceOccursOn(rule, day(2026, 6, 9))).toBe(false);
+  });
+
+  it('keeps counting across a year boundary', () => {
+    // 204 days after the start, 204 % 3 = 0
+    expect(recurrenceOccursOn(rule, day(2026, 12, 31))).toBe(true);
+    expect(recurrenceOccursOn(rule, day(2027, 1, 2))).toBe(false);
+  });
+});
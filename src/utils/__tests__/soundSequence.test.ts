@@ -0,0 +1,129 @@
+import { SoundStage } from '../../types';
+import { getSequencePosition, startSoundSequence } from '../soundSequence';
+
+const MINUTE = 60 * 1000;
+
+const stage = (soundFile: string, durationMinutes: number): SoundStage => ({
+  soundFile,
+  durationMinutes,
+  volume: 1,
+  vibration: false,
+});
+
+// 2 min, then 3 min, then 5 min, then the last stage for good
+const SEQUENCE = [stage('gentle', 2), stage('classic', 3), stage('loud', 5), stage('urgent', 1)];
+
+describe('getSequencePosition', () => {
+  it('moves to the next stage exactly at each boundary', () => {
+    expect(getSequencePosition(SEQUENCE, 0)).toEqual({ index: 0, remainingMs: 2 * MINUTE });
+    expect(getSequencePosition(SEQUENCE, 2 * MINUTE - 1)).toEqual({ index: 0, remainingMs: 1 });
+    expect(getSequencePosition(SEQUENCE, 2 * MINUTE)).toEqual({ index: 1, remainingMs: 3 * MINUTE });
+    expect(getSequencePosition(SEQUENCE, 5 * MINUTE)).toEqual({ index: 2, remainingMs: 5 * MINUTE });
+  });
+
+  it('never ends the last stage', () => {
+    expect(getSequencePosition(SEQUENCE, 10 * MINUTE)).toEqual({ index: 3, remainingMs: null });
+    expect(getSequencePosition(SEQUENCE, 24 * 60 * MINUTE)).toEqual({ index: 3, remainingMs: null });
+  });
+});
+
+describe('startSoundSequence', () => {
+  // Separate from the fake timers, so a suspend can move the clock without firing them
+  let clock: number;
+  const now = () => clock;
+
+  const advance = (ms: number) => {
+    clock += ms;
+    jest.advanceTimersByTime(ms);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    clock = 1_000_000;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts each later stage as it comes due', () => {
+    const onStage = jest.fn();
+    startSoundSequence(SEQUENCE, onStage, now);
+
+    expect(onStage).not.toHaveBeenCalled();
+
+    advance(2 * MINUTE - 1);
+    expect(onStage).not.toHaveBeenCalled();
+
+    advance(1);
+    expect(onStage).toHaveBeenLastCalledWith(SEQUENCE[1], 1);
+
+    advance(3 * MINUTE);
+    expect(onStage).toHaveBeenLastCalledWith(SEQUENCE[2], 2);
+
+    advance(5 * MINUTE);
+    expect(onStage).toHaveBeenLastCalledWith(SEQUENCE[3], 3);
+    expect(onStage).toHaveBeenCalledTimes(3);
+  });
+
+  it('stays on the last stage without further timers', () => {
+    const onStage = jest.fn();
+    startSoundSequence(SEQUENCE, onStage, now);
+
+    advance(2 * MINUTE);
+    advance(3 * MINUTE);
+    advance(5 * MINUTE);
+    expect(onStage).toHaveBeenLastCalledWith(SEQUENCE[3], 3);
+    expect(jest.getTimerCount()).toBe(0);
+
+    advance(60 * MINUTE);
+    expect(onStage).toHaveBeenCalledTimes(3);
+  });
+
+  it('jumps to the stage now due after a suspend without replaying skipped ones', () => {
+    const onStage = jest.fn();
+    const handle = startSoundSequence(SEQUENCE, onStage, now);
+
+    advance(MINUTE);
+    // Suspended for 8 minutes: the clock moves on but no timer fires
+    clock += 8 * MINUTE;
+    handle.resync();
+
+    expect(onStage).toHaveBeenCalledTimes(1);
+    expect(onStage).toHaveBeenCalledWith(SEQUENCE[2], 2);
+
+    // The held-back timer for stage 1 doesn't bring it back
+    advance(MINUTE - 1);
+    expect(onStage).toHaveBeenCalledTimes(1);
+
+    advance(1);
+    expect(onStage).toHaveBeenLastCalledWith(SEQUENCE[3], 3);
+    expect(onStage).toHaveBeenCalledTimes(2);
+  });
+
+  it('does nothing on a resync before the next stage is due', () => {
+    const onStage = jest.fn();
+    const handle = startSoundSequence(SEQUENCE, onStage, now);
+
+    advance(MINUTE);
+    handle.resync();
+
+    expect(onStage).not.toHaveBeenCalled();
+    expect(jest.getTimerCount()).toBe(1);
+  });
+
+  it('calls nothing after stop', () => {
+    const onStage = jest.fn();
+    const handle = startSoundSequence(SEQUENCE, onStage, now);
+
+    advance(MINUTE);
+    handle.stop();
+    expect(jest.getTimerCount()).toBe(0);
+
+    clock += 20 * MINUTE;
+    handle.resync();
+    advance(20 * MINUTE);
+
+    expect(onStage).not.toHaveBeenCalled();
+  });
+});
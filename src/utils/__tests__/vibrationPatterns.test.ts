@@ -0,0 +1,67 @@
+import { VibrationPatternType } from '../../types';
+import {
+  CUSTOM_REPEAT_PAUSE_MS,
+  MAX_CUSTOM_TAPS,
+  MAX_PULSE_MS,
+  MAX_TAP_GAP_MS,
+  MIN_PULSE_MS,
+  buildTapPattern,
+  getVibrationChannelId,
+} from '../vibrationPatterns';
+
+describe('buildTapPattern', () => {
+  it('starts with the first press and alternates gaps and pulses', () => {
+    const taps = [
+      { start: 1000, end: 1300 },
+      { start: 1500, end: 2100 },
+    ];
+
+    expect(buildTapPattern(taps)).toEqual([0, 300, 200, 600, CUSTOM_REPEAT_PAUSE_MS]);
+  });
+
+  it('clamps short taps, long presses and long pauses', () => {
+    const taps = [
+      { start: 0, end: 10 },
+      { start: 10000, end: 15000 },
+    ];
+
+    expect(buildTapPattern(taps)).toEqual([0, MIN_PULSE_MS, MAX_TAP_GAP_MS, MAX_PULSE_MS, CUSTOM_REPEAT_PAUSE_MS]);
+  });
+
+  it('keeps only the first taps once the limit is reached', () => {
+    const taps = Array.from({ length: MAX_CUSTOM_TAPS + 5 }, (_, i) => ({ start: i * 300, end: i * 300 + 100 }));
+
+    expect(buildTapPattern(taps)).toHaveLength(MAX_CUSTOM_TAPS * 2 + 1);
+  });
+
+  it('records nothing without taps', () => {
+    expect(buildTapPattern([])).toEqual([]);
+  });
+});
+
+describe('getVibrationChannelId', () => {
+  it('keeps the original channel for the default pattern', () => {
+    expect(getVibrationChannelId()).toBe('alarm-channel');
+    expect(getVibrationChannelId({ type: VibrationPatternType.DEFAULT })).toBe('alarm-channel');
+  });
+
+  it('gives each preset a channel of its own', () => {
+    expect(getVibrationChannelId({ type: VibrationPatternType.SOS })).toBe('alarm-channel-sos');
+    expect(getVibrationChannelId({ type: VibrationPatternType.HEARTBEAT })).toBe('alarm-channel-heartbeat');
+  });
+
+  it('keys custom patterns by their timings', () => {
+    const pattern = { type: VibrationPatternType.CUSTOM, timings: [0, 300, 200, 600, 1000] };
+    const id = getVibrationChannelId(pattern);
+
+    expect(id).toMatch(/^alarm-channel-custom-/);
+    expect(getVibrationChannelId({ ...pattern, timings: [...pattern.timings] })).toBe(id);
+    expect(getVibrationChannelId({ ...pattern, timings: [0, 300, 200, 700, 1000] })).not.toBe(id);
+  });
+
+  it('shares one channel among custom patterns without a usable recording', () => {
+    const unrecorded = getVibrationChannelId({ type: VibrationPatternType.CUSTOM });
+
+    expect(getVibrationChannelId({ type: VibrationPatternType.CUSTOM, timings: [0, -5] })).toBe(unrecorded);
+  });
+});
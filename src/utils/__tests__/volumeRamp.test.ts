@@ -0,0 +1,118 @@
+import { VolumeCurve, VolumeRamp } from '../../types';
+import { getRampVolume, startVolumeRamp } from '../volumeRamp';
+
+const ramp = (overrides: Partial<VolumeRamp> = {}): VolumeRamp => ({
+  startVolume: 0.1,
+  targetVolume: 1,
+  durationSeconds: 10,
+  curve: VolumeCurve.LINEAR,
+  ...overrides,
+});
+
+describe('getRampVolume', () => {
+  it('rises steadily on the linear curve', () => {
+    expect(getRampVolume(ramp(), 0)).toBeCloseTo(0.1);
+    expect(getRampVolume(ramp(), 5000)).toBeCloseTo(0.55);
+    expect(getRampVolume(ramp(), 10000)).toBeCloseTo(1);
+  });
+
+  it('starts slowly on the exponential curve', () => {
+    const slow = ramp({ curve: VolumeCurve.EXPONENTIAL });
+
+    expect(getRampVolume(slow, 0)).toBeCloseTo(0.1);
+    // (2^5 - 1) / 1023 of the way at the halfway point
+    expect(getRampVolume(slow, 5000)).toBeCloseTo(0.1 + 0.9 * (31 / 1023));
+    expect(getRampVolume(slow, 10000)).toBeCloseTo(1);
+  });
+
+  it('holds at the target once the ramp is done', () => {
+    expect(getRampVolume(ramp(), 60000)).toBeCloseTo(1);
+    expect(getRampVolume(ramp({ targetVolume: 0.6 }), 60000)).toBeCloseTo(0.6);
+  });
+
+  it('jumps to the target when the ramp has no length', () => {
+    expect(getRampVolume(ramp({ durationSeconds: 0 }), 0)).toBeCloseTo(1);
+  });
+
+  it('ramps down when the target is quieter than the start', () => {
+    expect(getRampVolume(ramp({ startVolume: 1, targetVolume: 0.2 }), 5000)).toBeCloseTo(0.6);
+  });
+});
+
+describe('startVolumeRamp', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sets the start volume straight away and steps up to the target', () => {
+    const onVolume = jest.fn();
+    startVolumeRamp(ramp({ durationSeconds: 2 }), { onVolume }, 500);
+
+    expect(onVolume).toHaveBeenLastCalledWith(0.1);
+
+    jest.advanceTimersByTime(1000);
+    expect(onVolume).toHaveBeenLastCalledWith(expect.closeTo(0.55));
+
+    jest.advanceTimersByTime(1000);
+    expect(onVolume).toHaveBeenLastCalledWith(expect.closeTo(1));
+    expect(onVolume).toHaveBeenCalledTimes(5);
+  });
+
+  it('stops stepping and holds at the target after the ramp ends', () => {
+    const onVolume = jest.fn();
+    startVolumeRamp(ramp({ durationSeconds: 2 }), { onVolume }, 500);
+
+    jest.advanceTimersByTime(2000);
+    const calls = onVolume.mock.calls.length;
+    jest.advanceTimersByTime(10000);
+
+    expect(onVolume).toHaveBeenCalledTimes(calls);
+    expect(onVolume).toHaveBeenLastCalledWith(expect.closeTo(1));
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('escalates once and stops the ramp', () => {
+    const onVolume = jest.fn();
+    const onEscalate = jest.fn();
+    startVolumeRamp(ramp({ durationSeconds: 300, escalateAfterMinutes: 2 }), { onVolume, onEscalate }, 500);
+
+    jest.advanceTimersByTime(2 * 60 * 1000 - 1);
+    expect(onEscalate).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(onEscalate).toHaveBeenCalledTimes(1);
+    const calls = onVolume.mock.calls.length;
+
+    jest.advanceTimersByTime(10 * 60 * 1000);
+    expect(onEscalate).toHaveBeenCalledTimes(1);
+    expect(onVolume).toHaveBeenCalledTimes(calls);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('does not escalate without an escalation handler', () => {
+    startVolumeRamp(ramp({ durationSeconds: 0, escalateAfterMinutes: 2 }), { onVolume: jest.fn() });
+
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('clears both timers on stop', () => {
+    const onVolume = jest.fn();
+    const onEscalate = jest.fn();
+    const handle = startVolumeRamp(ramp({ durationSeconds: 60, escalateAfterMinutes: 5 }), { onVolume, onEscalate }, 500);
+
+    jest.advanceTimersByTime(1500);
+    expect(jest.getTimerCount()).toBe(2);
+
+    handle.stop();
+    const calls = onVolume.mock.calls.length;
+    jest.advanceTimersByTime(10 * 60 * 1000);
+
+    expect(jest.getTimerCount()).toBe(0);
+    expect(onVolume).toHaveBeenCalledTimes(calls);
+    expect(onEscalate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,251 @@
+import { Alarm, AlarmEvent, PuzzleType, WeekDay } from '../../types';
+import { createScheduleContext } from '../../scheduling';
+import {
+  buildWakeHeatmap,
+  buildWakeInsights,
+  getLastExpectedRing,
+  getPuzzleInsights,
+  getStreaks,
+  getWakeOutcome,
+} from '../wakeInsights';
+
+// Local wall-clock times, so day boundaries hold whatever zone the tests run in
+const at = (day: number, hour = 7, minute = 0) => new Date(2026, 5, day, hour, minute).toISOString();
+
+const onTime = (triggeredAt: string, overrides: Partial<AlarmEvent> = {}): AlarmEvent => ({
+  alarmId: 'alarm-1',
+  triggeredAt,
+  completedAt: triggeredAt,
+  snoozedCount: 0,
+  puzzleCompleted: true,
+  ...overrides,
+});
+
+const snoozed = (triggeredAt: string) => onTime(triggeredAt, { snoozedCount: 2 });
+const missed = (triggeredAt: string) => onTime(triggeredAt, { completedAt: undefined, puzzleCompleted: false });
+
+const alarm = (id: string, puzzleType: PuzzleType) => ({ id, puzzleType } as Alarm);
+
+const WEEKDAYS = [WeekDay.MONDAY, WeekDay.TUESDAY, WeekDay.WEDNESDAY, WeekDay.THURSDAY, WeekDay.FRIDAY];
+const EVERY_DAY = [WeekDay.SUNDAY, ...WEEKDAYS, WeekDay.SATURDAY];
+
+const repeating = (repeatDays: WeekDay[], overrides: Partial<Alarm> = {}) =>
+  ({ id: 'alarm-1', time: '07:00', repeatDays, isEnabled: true, puzzleType: PuzzleType.NONE, ...overrides } as Alarm);
+
+// Device zone, like the local times above
+const contextAt = (now: Date) => createScheduleContext({ clock: () => now });
+
+describe('getWakeOutcome', () => {
+  it('is on time when dismissed without snoozing', () => {
+    expect(getWakeOutcome(onTime(at(1)))).toBe('onTime');
+  });
+
+  it('is snoozed when dismissed after a snooze', () => {
+    expect(getWakeOutcome(snoozed(at(1)))).toBe('snoozed');
+  });
+
+  it('is missed when never dismissed', () => {
+    expect(getWakeOutcome(missed(at(1)))).toBe('missed');
+  });
+
+  it('is missed when the ring only ended at its end time', () => {
+    expect(getWakeOutcome(onTime(at(1), { autoDismissed: true }))).toBe('missed');
+  });
+});
+
+describe('getStreaks', () => {
+  it('is zero without events', () => {
+    expect(getStreaks([])).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('is not broken by days without an alarm', () => {
+    const events = [onTime(at(1)), onTime(at(2)), onTime(at(5)), onTime(at(9))];
+
+    expect(getStreaks(events)).toEqual({ current: 4, longest: 4 });
+  });
+
+  it('restarts after a day with a snoozed or missed wake', () => {
+    const events = [
+      onTime(at(1)), onTime(at(2)), onTime(at(3)),
+      snoozed(at(4)),
+      onTime(at(5)),
+      missed(at(6)),
+      onTime(at(8)), onTime(at(9)),
+    ];
+
+    expect(getStreaks(events)).toEqual({ current: 2, longest: 3 });
+  });
+
+  it('needs every wake of a day on time', () => {
+    const events = [onTime(at(1)), onTime(at(2, 6)), snoozed(at(2, 9)), onTime(at(3))];
+
+    expect(getStreaks(events)).toEqual({ current: 1, longest: 1 });
+  });
+
+  it('does not depend on the order of the events', () => {
+    const events = [onTime(at(3)), snoozed(at(1)), onTime(at(2))];
+
+    expect(getStreaks(events)).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('ends the current streak when a later ring came due without a record', () => {
+    const events = [onTime(at(1)), onTime(at(2)), onTime(at(3))];
+
+    expect(getStreaks(events, new Date(at(8)))).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('keeps the current streak when the last expected ring was recorded', () => {
+    const events = [onTime(at(1)), onTime(at(2)), onTime(at(3, 6, 45))];
+
+    expect(getStreaks(events, new Date(at(3)))).toEqual({ current: 3, longest: 3 });
+  });
+});
+
+describe('getLastExpectedRing', () => {
+  it('is the latest ring before today, not one earlier today', () => {
+    const now = new Date(2026, 5, 10, 12, 0);
+
+    expect(getLastExpectedRing([repeating(EVERY_DAY)], contextAt(now))).toEqual(new Date(2026, 5, 9, 7, 0));
+  });
+
+  it('skips days the alarm does not ring on', () => {
+    // Sunday 14 June 2026
+    const now = new Date(2026, 5, 14, 12, 0);
+
+    expect(getLastExpectedRing([repeating(WEEKDAYS)], contextAt(now))).toEqual(new Date(2026, 5, 12, 7, 0));
+  });
+
+  it('takes the latest ring across alarms and ignores disabled ones', () => {
+    const now = new Date(2026, 5, 10, 12, 0);
+    const alarms = [
+      repeating(EVERY_DAY, { id: 'early', time: '05:00' }),
+      repeating(EVERY_DAY, { id: 'late', time: '09:30' }),
+      repeating(EVERY_DAY, { id: 'off', time: '23:00', isEnabled: false }),
+    ];
+
+    expect(getLastExpectedRing(alarms, contextAt(now))).toEqual(new Date(2026, 5, 9, 9, 30));
+  });
+
+  it('is null without enabled alarms', () => {
+    expect(getLastExpectedRing([], contextAt(new Date(2026, 5, 10)))).toBeNull();
+  });
+});
+
+describe('buildWakeHeatmap', () => {
+  // Wednesday 10 June 2026
+  const now = new Date(2026, 5, 10, 12, 0);
+
+  it('has one Sunday-first column per week, ending with the current week', () => {
+    const heatmap = buildWakeHeatmap([], now, 2);
+
+    expect(heatmap).toHaveLength(2);
+    expect(heatmap[0].map(day => day?.date)).toEqual([
+      '2026-05-31', '2026-06-01', '2026-06-02', '2026-06-03', '2026-06-04', '2026-06-05', '2026-06-06',
+    ]);
+    expect(heatmap[1].map(day => day?.date ?? null)).toEqual([
+      '2026-06-07', '2026-06-08', '2026-06-09', '2026-06-10', null, null, null,
+    ]);
+  });
+
+  it('buckets wakes by the local day they rang on', () => {
+    const events = [
+      onTime(at(8, 23, 59)),
+      snoozed(at(9, 0, 1)),
+      onTime(at(9, 7)),
+    ];
+    const days = buildWakeHeatmap(events, now, 1)[0];
+
+    expect(days[1]).toEqual({ date: '2026-06-08', wakes: 1, onTime: 1 });
+    expect(days[2]).toEqual({ date: '2026-06-09', wakes: 2, onTime: 1 });
+    expect(days[3]).toEqual({ date: '2026-06-10', wakes: 0, onTime: 0 });
+  });
+
+  it('leaves out wakes older than the first week shown', () => {
+    const heatmap = buildWakeHeatmap([onTime(at(6))], now, 1);
+
+    expect(heatmap[0].every(day => !day || day.wakes === 0)).toBe(true);
+  });
+});
+
+describe('getPuzzleInsights', () => {
+  const alarms = [
+    alarm('math', PuzzleType.MATH),
+    alarm('memory', PuzzleType.MEMORY),
+    alarm('plain', PuzzleType.NONE),
+  ];
+
+  it('reports attempts, success rate and solve time per puzzle, most attempted first', () => {
+    // Older events without a recorded puzzle use their alarm's
+    const events = [
+      onTime(at(1), { alarmId: 'memory', solveTime: 30 }),
+      onTime(at(1), { alarmId: 'math', solveTime: 10 }),
+      onTime(at(2), { alarmId: 'math', solveTime: 20 }),
+      onTime(at(3), { alarmId: 'math', completedAt: undefined, puzzleCompleted: false }),
+      onTime(at(4), { alarmId: 'math', puzzleCompleted: false }),
+      onTime(at(5), { alarmId: 'math' }),
+    ];
+
+    expect(getPuzzleInsights(events, alarms)).toEqual([
+      { puzzleType: PuzzleType.MATH, attempts: 5, solved: 3, successRate: 0.6, averageSolveTime: 15 },
+      { puzzleType: PuzzleType.MEMORY, attempts: 1, solved: 1, successRate: 1, averageSolveTime: 30 },
+    ]);
+  });
+
+  it("credits each ring to the puzzle it asked for, not the alarm's current one", () => {
+    const events = [
+      onTime(at(1), { alarmId: 'memory', puzzleType: PuzzleType.MATH, solveTime: 10 }),
+      onTime(at(2), { alarmId: 'memory', puzzleType: PuzzleType.MEMORY, solveTime: 30 }),
+    ];
+
+    expect(getPuzzleInsights(events, alarms).map(insight => [insight.puzzleType, insight.attempts])).toEqual([
+      [PuzzleType.MATH, 1],
+      [PuzzleType.MEMORY, 1],
+    ]);
+  });
+
+  it('keeps the results of deleted alarms', () => {
+    const events = [onTime(at(1), { alarmId: 'deleted', puzzleType: PuzzleType.PATTERN, solveTime: 12 })];
+
+    expect(getPuzzleInsights(events, alarms)).toEqual([
+      { puzzleType: PuzzleType.PATTERN, attempts: 1, solved: 1, successRate: 1, averageSolveTime: 12 },
+    ]);
+  });
+
+  it('leaves out rings without a puzzle', () => {
+    const events = [
+      onTime(at(1), { alarmId: 'math', puzzleType: PuzzleType.NONE, puzzleCompleted: false }),
+      onTime(at(2), { alarmId: 'plain' }),
+    ];
+
+    expect(getPuzzleInsights(events, alarms)).toEqual([]);
+  });
+
+  it('leaves out older events of deleted alarms, which have no puzzle to fall back to', () => {
+    expect(getPuzzleInsights([onTime(at(1), { alarmId: 'deleted' })], alarms)).toEqual([]);
+  });
+});
+
+describe('buildWakeInsights', () => {
+  it('summarises on-time wakes and streaks', () => {
+    const events = [onTime(at(1)), snoozed(at(2)), onTime(at(3)), onTime(at(4))];
+    const insights = buildWakeInsights(events, [], contextAt(new Date(2026, 5, 10, 12, 0)));
+
+    expect(insights.totalWakes).toBe(4);
+    expect(insights.onTimeWakes).toBe(3);
+    expect(insights.onTimeRate).toBe(0.75);
+    expect(insights.currentStreak).toBe(2);
+    expect(insights.longestStreak).toBe(2);
+  });
+
+  it('has a zero on-time rate without events', () => {
+    expect(buildWakeInsights([], [], contextAt(new Date(2026, 5, 10))).onTimeRate).toBe(0);
+  });
+
+  it('does not show a streak that ended weeks ago as current', () => {
+    const events = [onTime(at(1)), onTime(at(2)), onTime(at(3))];
+    const insights = buildWakeInsights(events, [repeating(EVERY_DAY)], contextAt(new Date(2026, 5, 24, 12, 0)));
+
+    expect(insights.currentStreak).toBe(0);
+    expect(insights.longestStreak).toBe(3);
+  });
+});
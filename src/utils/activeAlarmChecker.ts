@@ -1,16 +1,20 @@
 // Utility to check for active alarms during app startup
-import { AlarmService } from '../services/AlarmService';
 import { Alarm } from '../types';
+import { StorageService } from '../services/StorageService';
 import { AlarmForegroundService } from '../services/AlarmForegroundService';
+import { MissedAlarmService } from '../services/MissedAlarmService';
 
 export interface ActiveAlarmInfo {
   alarm: Alarm;
   isActive: boolean;
   timeUntilEnd: number; // milliseconds
+  startedAt?: Date; // When the ring began, if known
 }
 
 /**
- * Check if there are any alarms currently active (between start and end time)
+ * Check if there are any alarms currently active (between start and end time).
+ * Outside the foreground service, only a ring the app never showed counts, so
+ * a ring that was already dismissed doesn't start again.
  */
 export const checkForActiveAlarms = async (): Promise<ActiveAlarmInfo | null> => {
   try {
@@ -26,61 +30,33 @@ export const checkForActiveAlarms = async (): Promise<ActiveAlarmInfo | null> =>
         timeUntilEnd: activeServiceAlarm.endTime 
           ? new Date(activeServiceAlarm.endTime).getTime() - Date.now()
           : 60000, // Default 1 minute if no end time
+        startedAt: activeServiceAlarm.startTime ? new Date(activeServiceAlarm.startTime) : undefined,
       };
     }
     
-    const alarms = await AlarmService.getAlarms();
-    const currentTime = new Date();
-    const currentDay = currentTime.getDay(); // 0 = Sunday, 1 = Monday, etc.
+    const { ringMissedAlarms } = await StorageService.getUserSettings();
+    if (!ringMissedAlarms) {
+      console.log('✅ [ActiveAlarmChecker] Ringing missed alarms is turned off');
+      return null;
+    }
     
-    console.log(`🔍 [ActiveAlarmChecker] Current time: ${currentTime.toLocaleString()}, Day: ${currentDay}`);
-    console.log(`🔍 [ActiveAlarmChecker] Found ${alarms.length} total alarms`);
+    const now = new Date();
+    console.log(`🔍 [ActiveAlarmChecker] Current time: ${now.toLocaleString()}`);
     
-    for (const alarm of alarms) {
-      if (!alarm.isEnabled) {
-        console.log(`⏸️ [ActiveAlarmChecker] Alarm ${alarm.id} is disabled, skipping`);
-        continue;
-      }
-      
-      // Check if alarm should repeat on current day
-      if (alarm.repeatDays && alarm.repeatDays.length > 0 && !alarm.repeatDays.includes(currentDay)) {
-        console.log(`📅 [ActiveAlarmChecker] Alarm ${alarm.id} doesn't repeat on day ${currentDay}, skipping`);
-        continue;
-      }
-      
-      // Parse alarm times
-      const [startHours, startMinutes] = alarm.time.split(':').map(Number);
-      const [endHours, endMinutes] = alarm.endTime.split(':').map(Number);
-      
-      // Create start and end times for today
-      const startTime = new Date();
-      startTime.setHours(startHours, startMinutes, 0, 0);
-      
-      const endTime = new Date();
-      endTime.setHours(endHours, endMinutes, 0, 0);
+    const active = await MissedAlarmService.getRingableOccurrence(now);
+    if (active && active.end) {
+      const timeUntilEnd = active.end.getTime() - now.getTime();
+      console.log(`🚨 [ActiveAlarmChecker] FOUND ACTIVE ALARM: ${active.alarm.id} (${active.alarm.label || 'Unnamed'})`);
+      console.log(`   Start: ${active.start.toLocaleString()}`);
+      console.log(`   End: ${active.end.toLocaleString()}`);
+      console.log(`   Time until end: ${Math.round(timeUntilEnd / 1000)} seconds`);
       
-      // Handle end time on next day if it's earlier than start time
-      if (endTime <= startTime) {
-        endTime.setDate(endTime.getDate() + 1);
-      }
-      
-      console.log(`⏰ [ActiveAlarmChecker] Alarm ${alarm.id} (${alarm.label || 'Unnamed'})`);
-      console.log(`   Start: ${startTime.toLocaleString()}`);
-      console.log(`   End: ${endTime.toLocaleString()}`);
-      console.log(`   Current: ${currentTime.toLocaleString()}`);
-      
-      // Check if current time is within alarm period
-      if (currentTime >= startTime && currentTime <= endTime) {
-        const timeUntilEnd = endTime.getTime() - currentTime.getTime();
-        console.log(`🚨 [ActiveAlarmChecker] FOUND ACTIVE ALARM: ${alarm.id}`);
-        console.log(`   Time until end: ${Math.round(timeUntilEnd / 1000)} seconds`);
-        
-        return {
-          alarm,
-          isActive: true,
-          timeUntilEnd
-        };
-      }
+      return {
+        alarm: active.alarm,
+        isActive: true,
+        timeUntilEnd,
+        startedAt: active.start,
+      };
     }
     
     console.log('✅ [ActiveAlarmChecker] No active alarms found');
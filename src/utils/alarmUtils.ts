@@ -1,6 +1,20 @@
 // Validation and helper functions for alarm data
 
-import { Alarm, CreateAlarmData, WeekDay, PuzzleType } from '../types';
+import { Alarm, CreateAlarmData, WeekDay, PuzzleType, PuzzleDifficulty } from '../types';
+import { MIN_SHAKE_COUNT, MAX_SHAKE_COUNT, resolveScanCodes } from '../puzzles';
+import { validateSnoozePolicy } from './snoozePolicy';
+import { validateVolumeRamp } from './volumeRamp';
+import { validateSoundSequence } from './soundSequence';
+import { validateAnnouncement } from './announcement';
+import { validateVibrationPattern } from './vibrationPatterns';
+import { parseCalendarDate } from './timeUtils';
+import { isRepeatingAlarm, validateRecurrence } from './recurrence';
+import {
+  createScheduleContext,
+  getNextOccurrence as getEngineNextOccurrence,
+  isAlarmOverdue as getEngineIsAlarmOverdue,
+  isValidTimeZone,
+} from '../scheduling';
 
 /**
  * Validate time format (HH:MM in 24-hour format)
@@ -39,6 +53,57 @@ export const validateAlarmData = (data: CreateAlarmData): string[] => {
     errors.push('Invalid puzzle type');
   }
 
+  if (data.puzzleDifficulty && !Object.values(PuzzleDifficulty).includes(data.puzzleDifficulty)) {
+    errors.push('Invalid puzzle difficulty');
+  }
+
+  if (
+    data.shakeCount !== undefined &&
+    (!Number.isInteger(data.shakeCount) || data.shakeCount < MIN_SHAKE_COUNT || data.shakeCount > MAX_SHAKE_COUNT)
+  ) {
+    errors.push(`Shake count must be between ${MIN_SHAKE_COUNT} and ${MAX_SHAKE_COUNT}`);
+  }
+
+  if (data.puzzleType === PuzzleType.QR_CODE && resolveScanCodes(data.scanCodes).length === 0) {
+    errors.push('Scan code puzzles need at least one registered code');
+  }
+
+  if (data.date !== undefined && !isRepeatingAlarm(data) && !parseCalendarDate(data.date, data.time)) {
+    errors.push('Invalid alarm date. Use YYYY-MM-DD');
+  }
+
+  if (data.timeZone !== undefined && !isValidTimeZone(data.timeZone)) {
+    errors.push('Unknown time zone');
+  }
+
+  if (data.recurrence) {
+    errors.push(...validateRecurrence(data.recurrence));
+  }
+
+  if (data.skipDates?.some(day => !parseCalendarDate(day))) {
+    errors.push('Invalid skip date. Use YYYY-MM-DD');
+  }
+
+  if (data.snoozePolicy) {
+    errors.push(...validateSnoozePolicy(data.snoozePolicy));
+  }
+
+  if (data.volumeRamp) {
+    errors.push(...validateVolumeRamp(data.volumeRamp));
+  }
+
+  if (data.soundSequence) {
+    errors.push(...validateSoundSequence(data.soundSequence));
+  }
+
+  if (data.announcement) {
+    errors.push(...validateAnnouncement(data.announcement));
+  }
+
+  if (data.vibrationPattern) {
+    errors.push(...validateVibrationPattern(data.vibrationPattern));
+  }
+
   if (!data.soundFile || data.soundFile.trim() === '') {
     errors.push('Sound file is required');
   }
@@ -141,48 +206,11 @@ export const formatRepeatDays = (repeatDays: WeekDay[]): string => {
 /**
  * Get next occurrence of alarm
  */
-export const getNextOccurrence = (alarm: Alarm): Date | null => {
-  const now = new Date();
-  const [hours, minutes] = alarm.time.split(':').map(Number);
-  
-  if (alarm.repeatDays.length === 0) {
-    // One-time alarm
-    const alarmDate = new Date();
-    alarmDate.setHours(hours, minutes, 0, 0);
-    
-    if (alarmDate <= now) {
-      alarmDate.setDate(alarmDate.getDate() + 1);
-    }
-    
-    return alarmDate;
-  }
-  
-  // Repeating alarm
-  for (let dayOffset = 0; dayOffset < 7; dayOffset++) {
-    const checkDate = new Date(now);
-    checkDate.setDate(now.getDate() + dayOffset);
-    checkDate.setHours(hours, minutes, 0, 0);
-    
-    const dayOfWeek = checkDate.getDay() as WeekDay;
-    
-    if (alarm.repeatDays.includes(dayOfWeek) && checkDate > now) {
-      return checkDate;
-    }
-  }
-  
-  return null;
-};
+export const getNextOccurrence = (alarm: Alarm): Date | null =>
+  getEngineNextOccurrence(alarm, createScheduleContext());
 
 /**
  * Check if alarm is overdue (for one-time alarms)
  */
-export const isAlarmOverdue = (alarm: Alarm): boolean => {
-  if (alarm.repeatDays.length > 0) return false; // Repeating alarms can't be overdue
-  
-  const now = new Date();
-  const [hours, minutes] = alarm.time.split(':').map(Number);
-  const alarmTime = new Date();
-  alarmTime.setHours(hours, minutes, 0, 0);
-  
-  return alarmTime < now;
-};
+export const isAlarmOverdue = (alarm: Alarm): boolean =>
+  getEngineIsAlarmOverdue(alarm, createScheduleContext());
@@ -0,0 +1,86 @@
+// Spoken wake-up announcement: the text template and how it is read out
+
+import { WakeAnnouncement } from '../types';
+
+export const DEFAULT_ANNOUNCEMENT_TEMPLATE = 'Good morning. It is {time}. {label}. {remaining}. {message}';
+export const MAX_ANNOUNCEMENT_MESSAGE_LENGTH = 200;
+
+export const ANNOUNCEMENT_DELAY_MS = 5000; // Let the alarm sound on its own first
+export const ANNOUNCEMENT_REPEAT_MS = 60 * 1000;
+export const MAX_ANNOUNCEMENTS = 3;
+export const ANNOUNCEMENT_DUCK_VOLUME = 0.15; // Alarm volume while speaking
+
+export interface AnnouncementValues {
+  time: string; // As it should be spoken, e.g. "7:05 AM"
+  label?: string;
+  remaining?: number; // Alarms still to ring today after this one; left out when unknown
+  message?: string;
+}
+
+// Everything but the time, which is read when speaking
+export type AnnouncementContent = Omit<AnnouncementValues, 'time'>;
+
+export interface SpeechVoice {
+  identifier: string;
+  language: string;
+}
+
+/**
+ * "No more alarms today", "One more alarm today", "3 more alarms today"
+ */
+export const describeRemainingAlarms = (count: number): string => {
+  if (count <= 0) {
+    return 'No more alarms today';
+  }
+  return count === 1 ? 'One more alarm today' : `${count} more alarms today`;
+};
+
+/**
+ * Fill in {time}, {label}, {remaining} and {message}. Sentences whose
+ * placeholder is empty are dropped along with their punctuation.
+ */
+export const renderAnnouncement = (
+  values: AnnouncementValues,
+  template: string = DEFAULT_ANNOUNCEMENT_TEMPLATE
+): string => {
+  const fields: Record<string, string> = {
+    time: values.time,
+    label: values.label?.trim() ?? '',
+    remaining: values.remaining === undefined ? '' : describeRemainingAlarms(values.remaining),
+    message: values.message?.trim() ?? '',
+  };
+
+  return template
+    .replace(/\{(\w+)\}/g, (placeholder, key: string) => (key in fields ? fields[key] : placeholder))
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,!?])/g, '$1')
+    .replace(/([.,!?])[.,!?]+/g, '$1')
+    .replace(/^[\s.,!?]+/, '')
+    .trim();
+};
+
+/**
+ * A voice that works without a network connection for the given locale.
+ * Android marks server-side voices with "network" in their identifier.
+ * Undefined leaves the choice to the speech engine.
+ */
+export const pickOfflineVoice = (voices: SpeechVoice[], locale: string): string | undefined => {
+  const offline = voices.filter(voice => !/network/i.test(voice.identifier));
+  const language = locale.toLowerCase();
+  const baseLanguage = language.split('-')[0];
+
+  const match =
+    offline.find(voice => voice.language.toLowerCase().replace('_', '-') === language) ||
+    offline.find(voice => voice.language.toLowerCase().split(/[-_]/)[0] === baseLanguage);
+  return match?.identifier;
+};
+
+/**
+ * Validate an announcement before saving
+ */
+export const validateAnnouncement = (announcement: WakeAnnouncement): string[] => {
+  if (announcement.message && announcement.message.length > MAX_ANNOUNCEMENT_MESSAGE_LENGTH) {
+    return [`Announcement messages must be at most ${MAX_ANNOUNCEMENT_MESSAGE_LENGTH} characters`];
+  }
+  return [];
+};
@@ -0,0 +1,252 @@
+// Reading backups made by StorageService.exportData and working out what
+// restoring one would change. Pure, so a restore can be previewed first.
+
+import {
+  Alarm,
+  AlarmEvent,
+  AlarmStats,
+  ImportMode,
+  ImportSummary,
+  ScanCode,
+  SkipRange,
+  SkipReason,
+  UserSettings,
+} from '../types';
+import { validateAlarmData } from './alarmUtils';
+import { parseCalendarDate } from './timeUtils';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, runMigrations } from './storageMigrations';
+
+// The parts of stored data a backup carries
+export interface BackupContents {
+  alarms: Alarm[];
+  settings: Partial<UserSettings> | null;
+  stats: Partial<AlarmStats> | null;
+  events: AlarmEvent[];
+  scanCodes: ScanCode[];
+  skipRanges: SkipRange[];
+}
+
+export interface ParsedBackup extends BackupContents {
+  schemaVersion: number; // Version the backup was written with
+  exportedAt?: string;
+  rejected: string[]; // Entries left out because they failed validation
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeAlarm = (alarm: Record<string, any>): string =>
+  `Alarm ${alarm.label ? `"${alarm.label}"` : alarm.time || alarm.id || '(unnamed)'}`;
+
+const isScanCode = (code: unknown): code is ScanCode =>
+  isRecord(code) && typeof code.id === 'string' && typeof code.label === 'string' && typeof code.value === 'string';
+
+const isSkipRange = (range: unknown): range is SkipRange =>
+  isRecord(range) &&
+  typeof range.id === 'string' &&
+  typeof range.label === 'string' &&
+  !!parseCalendarDate(range.startDate) &&
+  !!parseCalendarDate(range.endDate) &&
+  range.startDate <= range.endDate &&
+  (range.source === SkipReason.VACATION || range.source === SkipReason.HOLIDAY);
+
+/**
+ * Parse and validate a backup, upgrading it to the current schema. Throws a
+ * user-facing Error when the file can't be used at all; single bad entries
+ * are dropped and listed in `rejected` instead.
+ */
+export const parseBackup = (json: string): ParsedBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("This file isn't an AltRise backup");
+  }
+
+  if (!isRecord(raw) || !Array.isArray(raw.alarms)) {
+    throw new Error("This file isn't an AltRise backup");
+  }
+
+  const schemaVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : LEGACY_SCHEMA_VERSION;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of AltRise. Update the app to restore it.');
+  }
+
+  const { data } = runMigrations(
+    {
+      alarms: raw.alarms,
+      settings: isRecord(raw.settings) ? raw.settings : null,
+      stats: isRecord(raw.stats) ? raw.stats : null,
+      events: Array.isArray(raw.events) ? raw.events : null,
+      legacyPreferences: null,
+    },
+    schemaVersion
+  );
+
+  const rejected: string[] = [];
+  if (data.alarms && data.alarms.length < raw.alarms.length) {
+    rejected.push(`${raw.alarms.length - data.alarms.length} unreadable alarm(s)`);
+  }
+
+  const alarms: Alarm[] = [];
+  const seenIds = new Set<string>();
+  for (const alarm of (data.alarms || []) as Alarm[]) {
+    const errors = validateAlarmData(alarm);
+    if (errors.length > 0) {
+      rejected.push(`${describeAlarm(alarm)}: ${errors[0]}`);
+    } else if (seenIds.has(alarm.id)) {
+      rejected.push(`${describeAlarm(alarm)}: appears twice`);
+    } else {
+      seenIds.add(alarm.id);
+      alarms.push(alarm);
+    }
+  }
+
+  const scanCodes = Array.isArray(raw.scanCodes) ? raw.scanCodes.filter(isScanCode) : [];
+  const skipRanges = Array.isArray(raw.skipRanges) ? raw.skipRanges.filter(isSkipRange) : [];
+  if (Array.isArray(raw.scanCodes) && scanCodes.length < raw.scanCodes.length) {
+    rejected.push(`${raw.scanCodes.length - scanCodes.length} unreadable scan code(s)`);
+  }
+  if (Array.isArray(raw.skipRanges) && skipRanges.length < raw.skipRanges.length) {
+    rejected.push(`${raw.skipRanges.length - skipRanges.length} unreadable skip date range(s)`);
+  }
+
+  return {
+    schemaVersion,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : undefined,
+    alarms,
+    settings: data.settings as Partial<UserSettings> | null,
+    stats: data.stats as Partial<AlarmStats> | null,
+    events: (data.events || []) as AlarmEvent[],
+    scanCodes,
+    skipRanges,
+    rejected,
+  };
+};
+
+const isSameAlarm = (a: Alarm, b: Alarm): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const eventKey = (event: AlarmEvent): string => `${event.alarmId}|${event.triggeredAt}`;
+
+const skipRangeKey = (range: SkipRange): string => `${range.label}|${range.startDate}|${range.endDate}`;
+
+/**
+ * What storage would hold after restoring `backup` over `current`.
+ * REPLACE swaps everything the backup carries. MERGE keeps local settings and
+ * stats, adds what is new and, when an alarm ID exists on both sides, keeps
+ * whichever copy was updated last.
+ */
+export const planImport = (
+  backup: ParsedBackup,
+  current: BackupContents,
+  mode: ImportMode
+): { result: BackupContents; summary: ImportSummary } => {
+  const summary: ImportSummary = {
+    mode,
+    dryRun: true,
+    alarmsAdded: 0,
+    alarmsUpdated: 0,
+    alarmsUnchanged: 0,
+    alarmsRemoved: 0,
+    scanCodesAdded: 0,
+    skipRangesAdded: 0,
+    eventsAdded: 0,
+    settingsReplaced: false,
+    rejected: backup.rejected,
+  };
+
+  const currentById = new Map(current.alarms.map(alarm => [alarm.id, alarm]));
+
+  if (mode === ImportMode.REPLACE) {
+    for (const alarm of backup.alarms) {
+      const existing = currentById.get(alarm.id);
+      if (!existing) summary.alarmsAdded++;
+      else if (isSameAlarm(existing, alarm)) summary.alarmsUnchanged++;
+      else summary.alarmsUpdated++;
+    }
+    const backupIds = new Set(backup.alarms.map(alarm => alarm.id));
+    summary.alarmsRemoved = current.alarms.filter(alarm => !backupIds.has(alarm.id)).length;
+    summary.scanCodesAdded = backup.scanCodes.length;
+    summary.skipRangesAdded = backup.skipRanges.length;
+    summary.eventsAdded = backup.events.length;
+    summary.settingsReplaced = !!backup.settings;
+
+    return {
+      result: {
+        alarms: backup.alarms,
+        settings: backup.settings ?? current.settings,
+        stats: backup.stats ?? current.stats,
+        events: backup.events,
+        scanCodes: backup.scanCodes,
+        skipRanges: backup.skipRanges,
+      },
+      summary,
+    };
+  }
+
+  const alarms = [...current.alarms];
+  for (const alarm of backup.alarms) {
+    const index = alarms.findIndex(existing => existing.id === alarm.id);
+    if (index === -1) {
+      alarms.push(alarm);
+      summary.alarmsAdded++;
+    } else if (isSameAlarm(alarms[index], alarm) || alarms[index].updatedAt >= alarm.updatedAt) {
+      summary.alarmsUnchanged++; // Local copy is the same or newer
+    } else {
+      alarms[index] = alarm;
+      summary.alarmsUpdated++;
+    }
+  }
+
+  const scanCodeIds = new Set(current.scanCodes.map(code => code.id));
+  const newScanCodes = backup.scanCodes.filter(code => !scanCodeIds.has(code.id));
+
+  const skipRangeKeys = new Set(current.skipRanges.map(skipRangeKey));
+  const skipRangeIds = new Set(current.skipRanges.map(range => range.id));
+  const newSkipRanges = backup.skipRanges.filter(
+    range => !skipRangeKeys.has(skipRangeKey(range)) && !skipRangeIds.has(range.id)
+  );
+
+  const eventKeys = new Set(current.events.map(eventKey));
+  const newEvents = backup.events.filter(event => !eventKeys.has(eventKey(event)));
+
+  summary.scanCodesAdded = newScanCodes.length;
+  summary.skipRangesAdded = newSkipRanges.length;
+  summary.eventsAdded = newEvents.length;
+
+  return {
+    result: {
+      alarms,
+      settings: current.settings,
+      stats: current.stats,
+      events: [...current.events, ...newEvents].sort((a, b) => a.triggeredAt.localeCompare(b.triggeredAt)),
+      scanCodes: [...current.scanCodes, ...newScanCodes],
+      skipRanges: [...current.skipRanges, ...newSkipRanges],
+    },
+    summary,
+  };
+};
+
+/**
+ * A few lines for a confirmation dialog, e.g. "3 new alarms, 1 updated"
+ */
+export const describeImportSummary = (summary: ImportSummary): string => {
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  const lines: string[] = [];
+
+  const alarmParts = [plural(summary.alarmsAdded, 'new alarm')];
+  if (summary.alarmsUpdated > 0) alarmParts.push(`${summary.alarmsUpdated} updated`);
+  if (summary.alarmsUnchanged > 0) alarmParts.push(`${summary.alarmsUnchanged} unchanged`);
+  if (summary.alarmsRemoved > 0) alarmParts.push(`${summary.alarmsRemoved} removed`);
+  lines.push(alarmParts.join(', '));
+
+  if (summary.scanCodesAdded > 0) lines.push(plural(summary.scanCodesAdded, 'scan code'));
+  if (summary.skipRangesAdded > 0) lines.push(plural(summary.skipRangesAdded, 'skip date range'));
+  if (summary.eventsAdded > 0) lines.push(`${summary.eventsAdded} history ${summary.eventsAdded === 1 ? 'entry' : 'entries'}`);
+  if (summary.settingsReplaced) lines.push('Settings replaced');
+  if (summary.rejected.length > 0) {
+    lines.push(`Left out: ${summary.rejected.slice(0, 3).join('; ')}${summary.rejected.length > 3 ? '…' : ''}`);
+  }
+
+  return lines.join('\n');
+};
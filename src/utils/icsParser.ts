@@ -0,0 +1,84 @@
+// Minimal iCalendar (RFC 5545) reader for all-day holiday lists
+
+export interface IcsEvent {
+  summary: string;
+  startDate: string; // "YYYY-MM-DD"
+  endDate: string; // "YYYY-MM-DD", inclusive
+}
+
+/**
+ * "20261225" or "20261225T000000Z" to "2026-12-25"
+ */
+const parseIcsDate = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const previousDay = (dateString: string): string => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day - 1));
+  return date.toISOString().slice(0, 10);
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Read the VEVENTs of an .ics file as day ranges. Times are dropped since
+ * skipping works on whole days; events without a usable DTSTART are ignored.
+ */
+export const parseIcsEvents = (text: string): IcsEvent[] => {
+  // Long lines are folded with a CRLF followed by a space or tab
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: IcsEvent[] = [];
+
+  let current: { summary?: string; start?: string; end?: string; allDay?: boolean } | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+
+    if (line === 'END:VEVENT') {
+      if (current?.start) {
+        // All-day DTEND is exclusive; timed events end on their own day
+        const end = current.end && current.allDay ? previousDay(current.end) : current.end;
+        events.push({
+          summary: current.summary || 'Holiday',
+          startDate: current.start,
+          endDate: end && end >= current.start ? end : current.start,
+        });
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const [name, ...params] = line.slice(0, separator).split(';');
+    const value = line.slice(separator + 1);
+
+    switch (name.toUpperCase()) {
+      case 'SUMMARY':
+        current.summary = unescapeText(value);
+        break;
+      case 'DTSTART':
+        current.start = parseIcsDate(value) ?? undefined;
+        current.allDay = params.some(param => param.toUpperCase() === 'VALUE=DATE') || /^\d{8}$/.test(value.trim());
+        break;
+      case 'DTEND':
+        current.end = parseIcsDate(value) ?? undefined;
+        break;
+    }
+  }
+
+  return events;
+};
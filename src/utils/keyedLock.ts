@@ -0,0 +1,39 @@
+// Serializes async work per key, so read-modify-write cycles on the same
+// storage key run one after another instead of overwriting each other
+
+export interface KeyedLock {
+  /**
+   * Run `task` once every earlier task holding any of `keys` has finished.
+   * All keys are claimed at once, so tasks can't deadlock on each other as
+   * long as a task never waits on a key it already holds.
+   */
+  run<T>(keys: string | string[], task: () => Promise<T>): Promise<T>;
+}
+
+export const createKeyedLock = (): KeyedLock => {
+  const tails = new Map<string, Promise<void>>();
+
+  return {
+    run<T>(keys: string | string[], task: () => Promise<T>): Promise<T> {
+      const keyList = Array.isArray(keys) ? keys : [keys];
+      const previous = keyList
+        .map(key => tails.get(key))
+        .filter((tail): tail is Promise<void> => !!tail);
+
+      const result = Promise.all(previous).then(task);
+      // A failed task must not block the ones queued behind it
+      const tail = result.then(() => undefined, () => undefined);
+
+      keyList.forEach(key => tails.set(key, tail));
+      tail.then(() => {
+        keyList.forEach(key => {
+          if (tails.get(key) === tail) {
+            tails.delete(key);
+          }
+        });
+      });
+
+      return result;
+    },
+  };
+};
@@ -0,0 +1,82 @@
+// Compares the rings alarms should have had against what was recorded for
+// them. Pure: callers pass the stored data and a schedule context.
+
+import { Alarm, AlarmEvent, AlarmLifecycleEntry, AlarmLifecycleType, SnoozeState } from '../types';
+import { AlarmOccurrence, ScheduleContext, getPastOccurrences } from '../scheduling';
+
+// How far back a missed ring is still worth telling the user about
+export const MISSED_ALARM_LOOKBACK_HOURS = 24;
+
+// A ring without an end time is only called missed after this long, so a
+// notification tapped right as the app starts has time to be recorded
+export const MISSED_ALARM_GRACE_MINUTES = 5;
+
+// Notifications can arrive a little before the minute they are due
+const EARLY_DELIVERY_MS = 60 * 1000;
+
+// What the app recorded about rings it handled
+export interface RingRecords {
+  events: AlarmEvent[];
+  snoozeStates: SnoozeState[];
+  lifecycle: AlarmLifecycleEntry[];
+}
+
+export interface MissedAlarmCheck {
+  missed: AlarmOccurrence[]; // Rings that ended without being shown, oldest first
+  ringable: AlarmOccurrence[]; // Unshown rings still inside their end time window
+  checkedUntil: Date; // Rings ending after this weren't judged yet; pass it as the next `since`
+}
+
+// When each record shows the app handled a ring of the alarm
+const getHandledTimes = (alarmId: string, records: RingRecords): number[] => [
+  ...records.events
+    .filter(event => event.alarmId === alarmId)
+    .map(event => new Date(event.triggeredAt).getTime()),
+  ...records.snoozeStates
+    .filter(state => state.alarmId === alarmId)
+    .map(state => new Date(state.firstTriggeredAt).getTime()),
+  ...records.lifecycle
+    .filter(entry => entry.alarmId === alarmId && entry.type !== AlarmLifecycleType.SCHEDULED)
+    .map(entry => new Date(entry.at).getTime()),
+];
+
+/**
+ * Rings after `since` the app never handled. Events are stamped when a ring
+ * is dismissed, so any record between a ring and the alarm's next ring counts
+ * for it. Rings from before an alarm was last edited are left out, since the
+ * edit may have moved them.
+ */
+export const findMissedAlarms = (
+  alarms: Alarm[],
+  records: RingRecords,
+  context: ScheduleContext,
+  since: Date
+): MissedAlarmCheck => {
+  const now = context.now.getTime();
+  const checkedUntil = new Date(now - MISSED_ALARM_GRACE_MINUTES * 60 * 1000);
+  const lookback = new Date(since.getTime() - MISSED_ALARM_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+  const unhandled = alarms
+    .flatMap(alarm => {
+      const editedAt = new Date(alarm.updatedAt);
+      const occurrences = getPastOccurrences(alarm, context, editedAt > lookback ? editedAt : lookback);
+      const handledTimes = getHandledTimes(alarm.id, records);
+
+      return occurrences.filter((occurrence, index) => {
+        const from = occurrence.start.getTime() - EARLY_DELIVERY_MS;
+        const next = occurrences[index + 1];
+        const to = next ? next.start.getTime() - EARLY_DELIVERY_MS : Infinity;
+        return !handledTimes.some(time => time >= from && time < to);
+      });
+    })
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return {
+    missed: unhandled.filter(occurrence => {
+      const closedAt = (occurrence.end ?? occurrence.start).getTime();
+      return closedAt > since.getTime() && closedAt <= checkedUntil.getTime();
+    }),
+    ringable: unhandled.filter(occurrence => !!occurrence.end && occurrence.end.getTime() >= now),
+    checkedUntil,
+  };
+};
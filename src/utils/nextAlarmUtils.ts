@@ -1,4 +1,6 @@
-import { Alarm } from '../types';
+import { Alarm, SkipRange } from '../types';
+import { SkippedOccurrence } from './skipDates';
+import { createScheduleContext, getNextAlarm as getEngineNextAlarm } from '../scheduling';
 
 export interface NextAlarmInfo {
   alarm: Alarm | null;
@@ -9,100 +11,43 @@ export interface NextAlarmInfo {
     totalSeconds: number;
   } | null;
   isToday: boolean;
+  ringsAt?: Date; // When the next alarm rings
+  skippedRing?: { alarm: Alarm; skip: SkippedOccurrence }; // Soonest ring being skipped before the next alarm
 }
 
 /**
  * Calculate the next alarm that will trigger
  */
-export const getNextAlarm = (alarms: Alarm[]): NextAlarmInfo => {
-  const now = new Date();
-  const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-  const currentTime = now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds();
+export const getNextAlarm = (alarms: Alarm[], skipRanges: SkipRange[] = []): NextAlarmInfo => {
+  const { occurrence, secondsUntil, isToday, skippedRing } = getEngineNextAlarm(
+    alarms,
+    createScheduleContext({ skipRanges })
+  );
 
-  let nextAlarm: Alarm | null = null;
-  let shortestTime = Infinity;
-  let isToday = false;
-
-  // Filter enabled alarms
-  const enabledAlarms = alarms.filter(alarm => alarm.isEnabled);
-
-  for (const alarm of enabledAlarms) {
-    const [hours, minutes] = alarm.time.split(':').map(Number);
-    const alarmTimeInSeconds = hours * 3600 + minutes * 60;
-
-    // Check if alarm has repeat days
-    if (alarm.repeatDays && alarm.repeatDays.length > 0) {
-      // Check each repeat day
-      for (let dayOffset = 0; dayOffset < 7; dayOffset++) {
-        const targetDay = (currentDay + dayOffset) % 7;
-        
-        if (alarm.repeatDays.includes(targetDay)) {
-          let timeUntilAlarm: number;
-          
-          if (dayOffset === 0) {
-            // Today - check if alarm time hasn't passed
-            if (alarmTimeInSeconds > currentTime) {
-              timeUntilAlarm = alarmTimeInSeconds - currentTime;
-              if (timeUntilAlarm < shortestTime) {
-                shortestTime = timeUntilAlarm;
-                nextAlarm = alarm;
-                isToday = true;
-              }
-            }
-          } else {
-            // Future days
-            timeUntilAlarm = (dayOffset * 24 * 3600) + alarmTimeInSeconds - currentTime;
-            if (timeUntilAlarm < shortestTime) {
-              shortestTime = timeUntilAlarm;
-              nextAlarm = alarm;
-              isToday = false;
-            }
-          }
-        }
-      }
-    } else {
-      // One-time alarm (no repeat days)
-      if (alarmTimeInSeconds > currentTime) {
-        // Alarm is today and hasn't passed yet
-        const timeUntilAlarm = alarmTimeInSeconds - currentTime;
-        if (timeUntilAlarm < shortestTime) {
-          shortestTime = timeUntilAlarm;
-          nextAlarm = alarm;
-          isToday = true;
-        }
-      } else {
-        // Alarm has passed today, so it's for tomorrow
-        const timeUntilAlarm = (24 * 3600) + alarmTimeInSeconds - currentTime;
-        if (timeUntilAlarm < shortestTime) {
-          shortestTime = timeUntilAlarm;
-          nextAlarm = alarm;
-          isToday = false;
-        }
-      }
-    }
-  }
-
-  if (!nextAlarm || shortestTime === Infinity) {
+  if (!occurrence || secondsUntil === null) {
     return {
       alarm: null,
       timeUntil: null,
-      isToday: false
+      isToday: false,
+      skippedRing
     };
   }
 
-  const hours = Math.floor(shortestTime / 3600);
-  const minutes = Math.floor((shortestTime % 3600) / 60);
-  const seconds = Math.floor(shortestTime % 60);
+  const hours = Math.floor(secondsUntil / 3600);
+  const minutes = Math.floor((secondsUntil % 3600) / 60);
+  const seconds = Math.floor(secondsUntil % 60);
 
   return {
-    alarm: nextAlarm,
+    alarm: occurrence.alarm,
     timeUntil: {
       hours,
       minutes,
       seconds,
-      totalSeconds: shortestTime
+      totalSeconds: secondsUntil
     },
-    isToday
+    isToday,
+    ringsAt: occurrence.start,
+    skippedRing
   };
 };
 
@@ -0,0 +1,246 @@
+// Recurrence rules for repeating alarms
+// Everything works on local calendar days so DST changes never shift a ring to another day
+
+import { Alarm, RecurrenceFrequency, RecurrenceRule, WeekDay } from '../types';
+import { formatCalendarDate, parseCalendarDate, getShortDayName } from './timeUtils';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const WEEKDAYS_MON_FRI = [WeekDay.MONDAY, WeekDay.TUESDAY, WeekDay.WEDNESDAY, WeekDay.THURSDAY, WeekDay.FRIDAY];
+
+// How far ahead to look for the next ring of a sparse rule (e.g. every 6 months)
+export const MAX_RECURRENCE_SEARCH_DAYS = 400;
+
+export const MAX_RECURRENCE_INTERVAL = 99;
+export const RECURRENCE_INTERVAL_OPTIONS = [2, 3, 4, 5, 7];
+export const MONTHLY_INTERVAL_OPTIONS = [1, 2, 3, 6];
+export const ROTATION_DAY_OPTIONS = [1, 2, 3, 4, 5, 6, 7];
+export const SET_POSITION_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+
+export const RECURRENCE_FREQUENCY_OPTIONS: Array<{ value: RecurrenceFrequency; label: string }> = [
+  { value: RecurrenceFrequency.DAILY, label: 'Every N days' },
+  { value: RecurrenceFrequency.WEEKLY, label: 'Every N weeks' },
+  { value: RecurrenceFrequency.MONTHLY, label: 'Monthly' },
+  { value: RecurrenceFrequency.ROTATION, label: 'On / off rotation' },
+];
+
+/**
+ * Whole days since the epoch for the local calendar date of `date`
+ */
+const toDayNumber = (date: Date): number =>
+  Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY);
+
+// Weeks start on Monday, as in RRULE's default WKST
+const toWeekStart = (dayNumber: number, weekDay: number): number => dayNumber - ((weekDay + 6) % 7);
+
+const positiveModulo = (value: number, divisor: number): number => ((value % divisor) + divisor) % divisor;
+
+/**
+ * Candidate days (byWeekDays) in the month of `date`, picked by bySetPosition
+ */
+const getSetPositionDay = (date: Date, weekDays: WeekDay[], position: number): number | null => {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  const candidates: number[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (weekDays.includes(new Date(year, month, day).getDay())) {
+      candidates.push(day);
+    }
+  }
+
+  const index = position > 0 ? position - 1 : candidates.length + position;
+  return candidates[index] ?? null;
+};
+
+/**
+ * Does the rule ring on the calendar day of `date`?
+ */
+export const recurrenceOccursOn = (rule: RecurrenceRule, date: Date): boolean => {
+  const start = parseCalendarDate(rule.startDate);
+  if (!start) {
+    return false;
+  }
+
+  const day = toDayNumber(date);
+  const startDay = toDayNumber(start);
+  if (day < startDay) {
+    return false;
+  }
+
+  const until = rule.until ? parseCalendarDate(rule.until) : null;
+  if (until && day > toDayNumber(until)) {
+    return false;
+  }
+
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return (day - startDay) % interval === 0;
+
+    case RecurrenceFrequency.WEEKLY: {
+      const weekDays = rule.byWeekDays?.length ? rule.byWeekDays : [start.getDay()];
+      if (!weekDays.includes(date.getDay())) {
+        return false;
+      }
+      const weeks = (toWeekStart(day, date.getDay()) - toWeekStart(startDay, start.getDay())) / 7;
+      return weeks % interval === 0;
+    }
+
+    case RecurrenceFrequency.MONTHLY: {
+      const months = (date.getFullYear() - start.getFullYear()) * 12 + (date.getMonth() - start.getMonth());
+      if (months % interval !== 0) {
+        return false;
+      }
+      if (rule.bySetPosition && rule.byWeekDays?.length) {
+        return getSetPositionDay(date, rule.byWeekDays, rule.bySetPosition) === date.getDate();
+      }
+      // Months without that day (e.g. the 31st) are skipped, as RRULE does
+      return date.getDate() === (rule.byMonthDay ?? start.getDate());
+    }
+
+    case RecurrenceFrequency.ROTATION: {
+      const onDays = Math.max(1, rule.onDays ?? 1);
+      const cycle = onDays + Math.max(0, rule.offDays ?? 0);
+      return positiveModulo(day - startDay, cycle) < onDays;
+    }
+
+    default:
+      return false;
+  }
+};
+
+/**
+ * Whether an alarm rings more than once (custom rule or weekly repeat days)
+ */
+export const isRepeatingAlarm = (alarm: Pick<Alarm, 'repeatDays' | 'recurrence'>): boolean =>
+  !!alarm.recurrence || (!!alarm.repeatDays && alarm.repeatDays.length > 0);
+
+/**
+ * Does a repeating alarm ring on the calendar day of `date`?
+ */
+export const alarmOccursOnDay = (alarm: Pick<Alarm, 'repeatDays' | 'recurrence'>, date: Date): boolean => {
+  if (alarm.recurrence) {
+    return recurrenceOccursOn(alarm.recurrence, date);
+  }
+  return !!alarm.repeatDays && alarm.repeatDays.includes(date.getDay());
+};
+
+/**
+ * Starting rule for an editor switching to the given frequency
+ */
+export const createRecurrenceRule = (frequency: RecurrenceFrequency, startDate: Date = new Date()): RecurrenceRule => {
+  const base = { frequency, startDate: formatCalendarDate(startDate) };
+
+  switch (frequency) {
+    case RecurrenceFrequency.DAILY:
+      return { ...base, interval: 2 };
+    case RecurrenceFrequency.WEEKLY:
+      return { ...base, interval: 2, byWeekDays: [startDate.getDay()] };
+    case RecurrenceFrequency.MONTHLY:
+      return { ...base, interval: 1, byWeekDays: WEEKDAYS_MON_FRI, bySetPosition: 1 };
+    case RecurrenceFrequency.ROTATION:
+    default:
+      return { ...base, frequency: RecurrenceFrequency.ROTATION, interval: 1, onDays: 4, offDays: 4 };
+  }
+};
+
+const describeDays = (weekDays: WeekDay[]): string => {
+  const sorted = [...weekDays].sort();
+  if (sorted.length === 5 && WEEKDAYS_MON_FRI.every(day => sorted.includes(day))) {
+    return 'weekday';
+  }
+  return sorted.map(getShortDayName).join('/');
+};
+
+const ordinal = (position: number): string =>
+  SET_POSITION_OPTIONS.find(option => option.value === position)?.label.toLowerCase() ?? `${position}th`;
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon" or "1st weekday of every month"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return interval === 1 ? 'Every day' : `Every ${interval} days`;
+    case RecurrenceFrequency.WEEKLY: {
+      const days = describeDays(rule.byWeekDays ?? []);
+      const every = interval === 1 ? 'Every week' : interval === 2 ? 'Every other week' : `Every ${interval} weeks`;
+      return days ? `${every} on ${days}` : every;
+    }
+    case RecurrenceFrequency.MONTHLY: {
+      const months = interval === 1 ? 'every month' : `every ${interval} months`;
+      if (rule.bySetPosition && rule.byWeekDays?.length) {
+        return `${ordinal(rule.bySetPosition)} ${describeDays(rule.byWeekDays)} of ${months}`.replace(/^./, c => c.toUpperCase());
+      }
+      const start = parseCalendarDate(rule.startDate);
+      return `Day ${rule.byMonthDay ?? start?.getDate() ?? 1} of ${months}`;
+    }
+    case RecurrenceFrequency.ROTATION:
+      return `${rule.onDays ?? 1} on / ${rule.offDays ?? 0} off`;
+    default:
+      return 'Custom';
+  }
+};
+
+/**
+ * Validate a rule before saving
+ */
+export const validateRecurrence = (rule: RecurrenceRule): string[] => {
+  const errors: string[] = [];
+
+  if (!Object.values(RecurrenceFrequency).includes(rule.frequency)) {
+    errors.push('Invalid repeat frequency');
+    return errors;
+  }
+
+  if (!parseCalendarDate(rule.startDate)) {
+    errors.push('Invalid repeat start date. Use YYYY-MM-DD');
+  }
+
+  if (rule.until && !parseCalendarDate(rule.until)) {
+    errors.push('Invalid repeat end date. Use YYYY-MM-DD');
+  } else if (rule.until && rule.until < rule.startDate) {
+    errors.push('Repeat end date must be after the start date');
+  }
+
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_RECURRENCE_INTERVAL) {
+    errors.push(`Repeat interval must be between 1 and ${MAX_RECURRENCE_INTERVAL}`);
+  }
+
+  if (rule.frequency === RecurrenceFrequency.WEEKLY && !rule.byWeekDays?.length) {
+    errors.push('Pick at least one day of the week');
+  }
+
+  if (rule.frequency === RecurrenceFrequency.MONTHLY) {
+    if (rule.bySetPosition !== undefined && ![1, 2, 3, 4, -1].includes(rule.bySetPosition)) {
+      errors.push('Invalid position in month');
+    }
+    if (rule.bySetPosition !== undefined && !rule.byWeekDays?.length) {
+      errors.push('Pick which days count for the monthly position');
+    }
+    if (rule.byMonthDay !== undefined && (!Number.isInteger(rule.byMonthDay) || rule.byMonthDay < 1 || rule.byMonthDay > 31)) {
+      errors.push('Day of month must be between 1 and 31');
+    }
+  }
+
+  if (rule.frequency === RecurrenceFrequency.ROTATION) {
+    if (!Number.isInteger(rule.onDays) || (rule.onDays ?? 0) < 1) {
+      errors.push('A rotation needs at least one day on');
+    }
+    if (!Number.isInteger(rule.offDays) || (rule.offDays ?? -1) < 0) {
+      errors.push('Days off must be zero or more');
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,84 @@
+// Skip dates for repeating alarms: one-off skips, vacations and holidays
+
+import { Alarm, SkipRange, SkipReason } from '../types';
+import { formatCalendarDate, formatCalendarDateForDisplay, parseCalendarDate } from './timeUtils';
+import { isRepeatingAlarm } from './recurrence';
+
+export interface SkippedOccurrence {
+  date: Date; // The ring that will not happen
+  reason: SkipReason;
+  label?: string; // Vacation or holiday name
+}
+
+type SkippableAlarm = Pick<Alarm, 'repeatDays'> & Partial<Pick<Alarm, 'recurrence' | 'skipDates'>>;
+
+/**
+ * Why a repeating alarm is silent on the day of `date`, or null if it rings.
+ * One-time alarms are never skipped; their date was picked on purpose.
+ */
+export const getSkipForDate = (
+  alarm: SkippableAlarm,
+  date: Date,
+  ranges: SkipRange[]
+): SkippedOccurrence | null => {
+  if (!isRepeatingAlarm(alarm)) {
+    return null;
+  }
+
+  const day = formatCalendarDate(date);
+
+  if (alarm.skipDates?.includes(day)) {
+    return { date, reason: SkipReason.SKIP_NEXT };
+  }
+
+  // Vacations win over holidays when both cover the day
+  const covering = ranges.filter(r => r.startDate <= day && day <= r.endDate);
+  const range = covering.find(r => r.source === SkipReason.VACATION) ?? covering[0];
+
+  return range ? { date, reason: range.source, label: range.label } : null;
+};
+
+/**
+ * Drop skip dates that are already behind us
+ */
+export const pruneSkipDates = (skipDates: string[] | undefined, now: Date = new Date()): string[] => {
+  const today = formatCalendarDate(now);
+  return (skipDates || []).filter(day => day >= today).sort();
+};
+
+/**
+ * Short explanation for cards, e.g. "Mon, Dec 25 skipped · Christmas Day"
+ */
+export const describeSkip = (skip: SkippedOccurrence): string => {
+  const day = formatCalendarDateForDisplay(formatCalendarDate(skip.date));
+
+  switch (skip.reason) {
+    case SkipReason.SKIP_NEXT:
+      return `${day} skipped once`;
+    case SkipReason.VACATION:
+      return `${day} skipped · ${skip.label || 'Vacation'}`;
+    case SkipReason.HOLIDAY:
+      return `${day} skipped · ${skip.label || 'Holiday'}`;
+    default:
+      return `${day} skipped`;
+  }
+};
+
+/**
+ * Validate a vacation range before saving
+ */
+export const validateSkipRange = (label: string, startDate: string, endDate: string): string[] => {
+  const errors: string[] = [];
+
+  if (!label.trim()) {
+    errors.push('Give the skip dates a name');
+  }
+
+  if (!parseCalendarDate(startDate) || !parseCalendarDate(endDate)) {
+    errors.push('Invalid date. Use YYYY-MM-DD');
+  } else if (endDate < startDate) {
+    errors.push('End date must be on or after the start date');
+  }
+
+  return errors;
+};
@@ -0,0 +1,154 @@
+// Per-alarm snooze policy helpers
+
+import { Alarm, UserSettings, SnoozeMode, SnoozePolicy, PuzzleDifficulty } from '../types';
+
+export const MIN_SNOOZE_INTERVAL = 1; // Minutes
+export const MAX_SNOOZE_INTERVAL = 60;
+export const MAX_SNOOZE_COUNT = 10;
+
+export const FIXED_SNOOZE_INTERVAL_OPTIONS = [3, 5, 9, 10, 15];
+export const DECAYING_SNOOZE_PRESETS: number[][] = [
+  [9, 5, 3, 1],
+  [10, 7, 5, 3],
+  [15, 10, 5, 2],
+];
+export const SNOOZE_COUNT_OPTIONS = [1, 2, 3, 5];
+
+export const SNOOZE_MODE_OPTIONS: Array<{ value: SnoozeMode; label: string }> = [
+  { value: SnoozeMode.DISABLED, label: 'Off' },
+  { value: SnoozeMode.FIXED, label: 'Fixed' },
+  { value: SnoozeMode.DECAYING, label: 'Decreasing' },
+];
+
+/**
+ * Starting policy for an editor switching to the given mode
+ */
+export const createSnoozePolicy = (mode: SnoozeMode, settings?: Pick<UserSettings, 'snoozeInterval' | 'maxSnoozeCount'>): SnoozePolicy => {
+  const interval = settings?.snoozeInterval ?? 5;
+  const maxCount = settings?.maxSnoozeCount ?? 3;
+
+  switch (mode) {
+    case SnoozeMode.DISABLED:
+      return { mode, intervals: [], maxCount: 0, harderPuzzleOnSnooze: false };
+    case SnoozeMode.DECAYING:
+      return {
+        mode,
+        intervals: DECAYING_SNOOZE_PRESETS[0],
+        maxCount: DECAYING_SNOOZE_PRESETS[0].length,
+        harderPuzzleOnSnooze: false,
+      };
+    case SnoozeMode.FIXED:
+    default:
+      return { mode: SnoozeMode.FIXED, intervals: [interval], maxCount, harderPuzzleOnSnooze: false };
+  }
+};
+
+/**
+ * The policy an alarm snoozes with: its own, or a fixed policy from UserSettings
+ */
+export const resolveSnoozePolicy = (
+  alarm: Pick<Alarm, 'snoozePolicy'> | null | undefined,
+  settings: Pick<UserSettings, 'snoozeInterval' | 'maxSnoozeCount'>
+): SnoozePolicy => {
+  const policy = alarm?.snoozePolicy;
+  if (!policy || !Object.values(SnoozeMode).includes(policy.mode)) {
+    return createSnoozePolicy(SnoozeMode.FIXED, settings);
+  }
+
+  if (policy.mode === SnoozeMode.DISABLED) {
+    return createSnoozePolicy(SnoozeMode.DISABLED);
+  }
+
+  const intervals = (policy.intervals || []).filter(
+    minutes => Number.isFinite(minutes) && minutes >= MIN_SNOOZE_INTERVAL
+  );
+
+  return {
+    mode: policy.mode,
+    intervals: intervals.length > 0 ? intervals : [settings.snoozeInterval],
+    maxCount: Math.max(0, Math.floor(policy.maxCount ?? settings.maxSnoozeCount)),
+    harderPuzzleOnSnooze: !!policy.harderPuzzleOnSnooze,
+  };
+};
+
+/**
+ * Minutes for the next snooze, given how many snoozes were already used
+ */
+export const getSnoozeIntervalMinutes = (policy: SnoozePolicy, snoozesUsed: number): number => {
+  if (policy.mode === SnoozeMode.FIXED || policy.intervals.length === 0) {
+    return policy.intervals[0] ?? 0;
+  }
+
+  const index = Math.min(snoozesUsed, policy.intervals.length - 1);
+  return policy.intervals[index];
+};
+
+export const getRemainingSnoozeCount = (policy: SnoozePolicy, snoozesUsed: number): number => {
+  if (policy.mode === SnoozeMode.DISABLED) {
+    return 0;
+  }
+  return Math.max(policy.maxCount - snoozesUsed, 0);
+};
+
+/**
+ * Puzzle difficulty for a ring after some snoozes, one level harder per snooze
+ */
+export const getSnoozedPuzzleDifficulty = (
+  policy: SnoozePolicy,
+  baseDifficulty: PuzzleDifficulty,
+  snoozesUsed: number
+): PuzzleDifficulty => {
+  if (!policy.harderPuzzleOnSnooze || snoozesUsed <= 0) {
+    return baseDifficulty;
+  }
+
+  const levels = Object.values(PuzzleDifficulty);
+  const index = Math.min(levels.indexOf(baseDifficulty) + snoozesUsed, levels.length - 1);
+  return levels[index];
+};
+
+/**
+ * Short summary for cards and editors, e.g. "9 → 5 → 3 → 1 min, up to 4 times"
+ */
+export const describeSnoozePolicy = (policy: SnoozePolicy): string => {
+  if (policy.mode === SnoozeMode.DISABLED || policy.maxCount === 0) {
+    return 'Snooze off';
+  }
+
+  const times = `up to ${policy.maxCount} time${policy.maxCount === 1 ? '' : 's'}`;
+  const minutes = policy.mode === SnoozeMode.DECAYING
+    ? policy.intervals.join(' → ')
+    : `${policy.intervals[0]}`;
+
+  return `${minutes} min, ${times}`;
+};
+
+/**
+ * Validate a policy before saving
+ */
+export const validateSnoozePolicy = (policy: SnoozePolicy): string[] => {
+  const errors: string[] = [];
+
+  if (!Object.values(SnoozeMode).includes(policy.mode)) {
+    errors.push('Invalid snooze mode');
+    return errors;
+  }
+
+  if (policy.mode === SnoozeMode.DISABLED) {
+    return errors;
+  }
+
+  if (policy.intervals.length === 0) {
+    errors.push('Snooze needs at least one interval');
+  }
+
+  if (policy.intervals.some(minutes => !Number.isInteger(minutes) || minutes < MIN_SNOOZE_INTERVAL || minutes > MAX_SNOOZE_INTERVAL)) {
+    errors.push(`Snooze intervals must be between ${MIN_SNOOZE_INTERVAL} and ${MAX_SNOOZE_INTERVAL} minutes`);
+  }
+
+  if (!Number.isInteger(policy.maxCount) || policy.maxCount < 1 || policy.maxCount > MAX_SNOOZE_COUNT) {
+    errors.push(`Snooze count must be between 1 and ${MAX_SNOOZE_COUNT}`);
+  }
+
+  return errors;
+};
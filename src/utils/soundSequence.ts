@@ -0,0 +1,129 @@
+// Multi-stage alarm sounds: which stage is due and the timer that moves between them
+
+import { SoundStage } from '../types';
+import { DEFAULT_SOUND_ID } from '../sounds';
+import { ESCALATION_SOUND } from './volumeRamp';
+
+export const MIN_SOUND_STAGES = 2;
+export const MAX_SOUND_STAGES = 5;
+export const STAGE_DURATION_OPTIONS = [1, 2, 3, 5, 10]; // Minutes
+export const MAX_STAGE_MINUTES = 60;
+
+export interface SoundSequenceHandle {
+  resync: () => void; // Catch up after timers were held back, e.g. while backgrounded
+  stop: () => void;
+}
+
+/**
+ * Starting sequence for an editor turning stages on: gentle, classic, then urgent
+ */
+export const createSoundSequence = (): SoundStage[] => [
+  { soundFile: 'alarm_chime', durationMinutes: 2, volume: 0.5, vibration: false },
+  { soundFile: DEFAULT_SOUND_ID, durationMinutes: 3, volume: 0.8, vibration: false },
+  { soundFile: ESCALATION_SOUND, durationMinutes: 5, volume: 1, vibration: true },
+];
+
+/**
+ * Stage due `elapsedMs` into the ring and how long it has left. The last stage
+ * never ends, so its remainingMs is null.
+ */
+export const getSequencePosition = (
+  sequence: SoundStage[],
+  elapsedMs: number
+): { index: number; remainingMs: number | null } => {
+  let stageEndMs = 0;
+  for (let index = 0; index < sequence.length - 1; index++) {
+    stageEndMs += sequence[index].durationMinutes * 60 * 1000;
+    if (elapsedMs < stageEndMs) {
+      return { index, remainingMs: stageEndMs - elapsedMs };
+    }
+  }
+  return { index: sequence.length - 1, remainingMs: null };
+};
+
+/**
+ * Call `onStage` as each stage after the first comes due; the caller starts the
+ * first one. Stages follow the clock rather than counting timer ticks, so a
+ * `resync` after the app was suspended jumps straight to the stage now due.
+ * Stages never go backwards.
+ */
+export const startSoundSequence = (
+  sequence: SoundStage[],
+  onStage: (stage: SoundStage, index: number) => void,
+  now: () => number = Date.now
+): SoundSequenceHandle => {
+  const startedAt = now();
+  let currentIndex = 0;
+  let stageTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const clearStageTimer = () => {
+    if (stageTimer) {
+      clearTimeout(stageTimer);
+      stageTimer = null;
+    }
+  };
+
+  const sync = () => {
+    clearStageTimer();
+    const position = getSequencePosition(sequence, now() - startedAt);
+
+    if (position.index > currentIndex) {
+      currentIndex = position.index;
+      onStage(sequence[currentIndex], currentIndex);
+    }
+    if (position.remainingMs !== null) {
+      stageTimer = setTimeout(sync, position.remainingMs);
+    }
+  };
+
+  sync();
+
+  return {
+    resync: () => {
+      if (!stopped) {
+        sync();
+      }
+    },
+    stop: () => {
+      stopped = true;
+      clearStageTimer();
+    },
+  };
+};
+
+/**
+ * Short summary for editors, e.g. "3 stages, last one after 5 min"
+ */
+export const describeSoundSequence = (sequence: SoundStage[]): string => {
+  const minutesToLast = sequence
+    .slice(0, -1)
+    .reduce((total, stage) => total + stage.durationMinutes, 0);
+  return `${sequence.length} stages, last one after ${minutesToLast} min`;
+};
+
+/**
+ * Validate a sequence before saving
+ */
+export const validateSoundSequence = (sequence: SoundStage[]): string[] => {
+  const errors: string[] = [];
+
+  if (sequence.length < MIN_SOUND_STAGES || sequence.length > MAX_SOUND_STAGES) {
+    errors.push(`Sound sequences need ${MIN_SOUND_STAGES} to ${MAX_SOUND_STAGES} stages`);
+  }
+
+  if (sequence.some(stage => !stage.soundFile || stage.soundFile.trim() === '')) {
+    errors.push('Every sound stage needs a sound');
+  }
+
+  if (sequence.some(stage => !Number.isFinite(stage.volume) || stage.volume < 0 || stage.volume > 1)) {
+    errors.push('Stage volumes must be between 0% and 100%');
+  }
+
+  const timedStages = sequence.slice(0, -1);
+  if (timedStages.some(stage => !Number.isInteger(stage.durationMinutes) || stage.durationMinutes < 1 || stage.durationMinutes > MAX_STAGE_MINUTES)) {
+    errors.push(`Each stage must last 1 to ${MAX_STAGE_MINUTES} minutes`);
+  }
+
+  return errors;
+};
@@ -8,7 +8,7 @@ export const STORAGE_KEYS = {
   SETTINGS: '@altrise:user_settings',
   ALARM_STATS: '@altrise:alarm_stats',
   ALARM_EVENTS: '@altrise:alarm_events',
-  USER_PREFERENCES: '@altrise:user_preferences', // Legacy key
+  USER_PREFERENCES: '@altrise:user_preferences', // Legacy key, folded into user settings by the v2 migration
 } as const;
 
 /**
@@ -0,0 +1,135 @@
+// Versioned upgrades for the data StorageService persists.
+// Each migration takes the parsed data at one version to the next; add new
+// ones to the end of MIGRATIONS and never edit one that has shipped.
+
+import { PuzzleType, UserSettings } from '../types';
+import { resolvePuzzleType } from '../puzzles';
+
+// Data saved before versioning existed counts as version 1
+export const LEGACY_SCHEMA_VERSION = 1;
+
+// Everything a migration can read and rewrite, as parsed from storage
+export interface StoredData {
+  alarms: unknown[] | null;
+  settings: Record<string, any> | null;
+  stats: Record<string, any> | null;
+  events: unknown[] | null;
+  legacyPreferences: Record<string, any> | null; // Old USER_PREFERENCES key, removed by v2
+}
+
+export interface StorageMigration {
+  version: number; // Schema version once this migration has run
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+const USER_SETTINGS_FIELDS: (keyof UserSettings)[] = [
+  'defaultPuzzleType',
+  'defaultSound',
+  'onboardingCompleted',
+  'permissionsGranted',
+  'permissionsLastChecked',
+  'theme',
+  'defaultVibration',
+  'snoozeInterval',
+  'maxSnoozeCount',
+];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * "HH:MM" one hour after `time`, the default end time for new alarms
+ */
+const oneHourAfter = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${String((hours + 1) % 24).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+export const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 2,
+    description: 'Fold legacy user preferences into user settings',
+    migrate: data => {
+      if (!data.legacyPreferences) {
+        return data;
+      }
+
+      // Settings saved since win over the old preferences
+      const carried: Record<string, any> = {};
+      for (const field of USER_SETTINGS_FIELDS) {
+        if (data.legacyPreferences[field] !== undefined) {
+          carried[field] = data.legacyPreferences[field];
+        }
+      }
+
+      return { ...data, settings: { ...carried, ...data.settings }, legacyPreferences: null };
+    },
+  },
+  {
+    version: 3,
+    description: 'Fill alarm fields that became required and drop unreadable alarms',
+    migrate: data => ({
+      ...data,
+      alarms: data.alarms && data.alarms
+        .filter((alarm): alarm is Record<string, any> =>
+          isRecord(alarm) && typeof alarm.id === 'string' && typeof alarm.time === 'string')
+        .map(alarm => ({
+          ...alarm,
+          endTime: typeof alarm.endTime === 'string' ? alarm.endTime : oneHourAfter(alarm.time),
+          isEnabled: alarm.isEnabled !== false,
+          repeatDays: Array.isArray(alarm.repeatDays) ? alarm.repeatDays : [],
+          soundFile: alarm.soundFile || 'default_alarm.mp3',
+          vibrationEnabled: alarm.vibrationEnabled !== false,
+          createdAt: alarm.createdAt || new Date().toISOString(),
+          updatedAt: alarm.updatedAt || alarm.createdAt || new Date().toISOString(),
+        })),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Resolve retired puzzle types and add stats for new ones',
+    migrate: data => {
+      const emptyPuzzleStats = Object.values(PuzzleType).reduce<Record<string, any>>((all, type) => {
+        all[type] = { attempted: 0, completed: 0, averageTime: 0 };
+        return all;
+      }, {});
+
+      return {
+        ...data,
+        alarms: data.alarms && data.alarms.map(alarm =>
+          isRecord(alarm) ? { ...alarm, puzzleType: resolvePuzzleType(alarm.puzzleType) } : alarm
+        ),
+        settings: data.settings && data.settings.defaultPuzzleType !== undefined
+          ? { ...data.settings, defaultPuzzleType: resolvePuzzleType(data.settings.defaultPuzzleType) }
+          : data.settings,
+        stats: data.stats && {
+          ...data.stats,
+          puzzleStats: { ...emptyPuzzleStats, ...(isRecord(data.stats.puzzleStats) ? data.stats.puzzleStats : {}) },
+        },
+        events: data.events && data.events
+          .filter((event): event is Record<string, any> =>
+            isRecord(event) && typeof event.alarmId === 'string' && typeof event.triggeredAt === 'string')
+          .map(event => ({
+            ...event,
+            snoozedCount: Number(event.snoozedCount) || 0,
+            puzzleCompleted: !!event.puzzleCompleted,
+          })),
+      };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Run every migration newer than `fromVersion`, in order
+ */
+export const runMigrations = (
+  data: StoredData,
+  fromVersion: number
+): { data: StoredData; applied: StorageMigration[] } => {
+  const applied = MIGRATIONS.filter(migration => migration.version > fromVersion);
+  const migrated = applied.reduce((current, migration) => migration.migrate(current), data);
+  return { data: migrated, applied };
+};
@@ -67,3 +67,44 @@ export const getRepeatDaysText = (repeatDays: number[]): string => {
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   return repeatDays.map(day => dayNames[day]).join(', ');
 };
+
+export const formatCalendarDate = (date: Date): string => {
+  // Local calendar date as YYYY-MM-DD (toISOString would shift it to UTC)
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const parseCalendarDate = (dateString: string, timeString: string = '00:00'): Date | null => {
+  // YYYY-MM-DD plus optional HH:MM, in local time. Returns null for impossible dates like 2026-02-30
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateString);
+  const timeMatch = /^(\d{1,2}):(\d{2})$/.exec(timeString);
+  if (!dateMatch || !timeMatch) return null;
+
+  const [year, month, day] = dateMatch.slice(1).map(Number);
+  const [hours, minutes] = timeMatch.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, 0, 0);
+
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+export const formatCalendarDateForDisplay = (dateString: string): string => {
+  const date = parseCalendarDate(dateString);
+  if (!date) return dateString;
+
+  return date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === new Date().getFullYear() ? undefined : 'numeric',
+  });
+};
+
+export const getAlarmScheduleText = (repeatDays: number[], date?: string): string => {
+  if (repeatDays.length === 0 && date) return `Once on ${formatCalendarDateForDisplay(date)}`;
+  return getRepeatDaysText(repeatDays);
+};
@@ -0,0 +1,109 @@
+// Named vibration patterns and the taps that make a custom one. Timings follow
+// the Android convention: ms, alternating pause and vibration, starting with a pause.
+
+import { VibrationPattern, VibrationPatternType } from '../types';
+
+export const MAX_CUSTOM_TAPS = 20;
+export const MIN_PULSE_MS = 50;
+export const MAX_PULSE_MS = 2000;
+export const MAX_TAP_GAP_MS = 2000;
+export const CUSTOM_REPEAT_PAUSE_MS = 1000; // Between repeats of a recorded pattern
+
+// The notification channel the app has always used for alarms
+const DEFAULT_CHANNEL_ID = 'alarm-channel';
+
+const PRESET_TIMINGS: Record<Exclude<VibrationPatternType, VibrationPatternType.CUSTOM>, number[]> = {
+  [VibrationPatternType.DEFAULT]: [0, 500, 200, 500],
+  [VibrationPatternType.HEARTBEAT]: [0, 100, 120, 180, 900],
+  // ... --- ...
+  [VibrationPatternType.SOS]: [0, 150, 150, 150, 150, 150, 450, 450, 150, 450, 150, 450, 450, 150, 150, 150, 150, 150, 1200],
+  [VibrationPatternType.ESCALATING]: [0, 100, 900, 200, 700, 350, 500, 550, 300, 800, 150],
+};
+
+export const VIBRATION_PATTERN_OPTIONS: Array<{ value: VibrationPatternType; label: string }> = [
+  { value: VibrationPatternType.DEFAULT, label: 'Default' },
+  { value: VibrationPatternType.HEARTBEAT, label: 'Heartbeat' },
+  { value: VibrationPatternType.SOS, label: 'SOS' },
+  { value: VibrationPatternType.ESCALATING, label: 'Escalating' },
+  { value: VibrationPatternType.CUSTOM, label: 'Custom' },
+];
+
+export interface RecordedTap {
+  start: number; // ms
+  end: number;
+}
+
+/**
+ * Timings to vibrate with. Missing patterns and custom patterns without a
+ * valid recording use the default.
+ */
+export const getVibrationTimings = (pattern?: VibrationPattern): number[] => {
+  if (!pattern || pattern.type === VibrationPatternType.CUSTOM) {
+    return pattern?.timings && validateVibrationPattern(pattern).length === 0
+      ? pattern.timings
+      : PRESET_TIMINGS[VibrationPatternType.DEFAULT];
+  }
+  return PRESET_TIMINGS[pattern.type] ?? PRESET_TIMINGS[VibrationPatternType.DEFAULT];
+};
+
+/**
+ * Turn press-and-release times into timings. Pulses and the gaps between
+ * them are clamped so a stray long press can't stall the pattern.
+ */
+export const buildTapPattern = (taps: RecordedTap[]): number[] => {
+  const timings: number[] = [];
+  let previousEnd = taps.length > 0 ? taps[0].start : 0;
+
+  taps.slice(0, MAX_CUSTOM_TAPS).forEach(tap => {
+    const gap = Math.min(MAX_TAP_GAP_MS, Math.max(0, tap.start - previousEnd));
+    const pulse = Math.min(MAX_PULSE_MS, Math.max(MIN_PULSE_MS, tap.end - tap.start));
+    timings.push(Math.round(gap), Math.round(pulse));
+    previousEnd = tap.end;
+  });
+
+  return timings.length > 0 ? [...timings, CUSTOM_REPEAT_PAUSE_MS] : timings;
+};
+
+/**
+ * Android fixes a channel's vibration when it is created, so each pattern
+ * gets a channel of its own. Custom patterns are keyed by their timings.
+ */
+export const getVibrationChannelId = (pattern?: VibrationPattern): string => {
+  if (!pattern || pattern.type === VibrationPatternType.DEFAULT) {
+    return DEFAULT_CHANNEL_ID;
+  }
+  if (pattern.type !== VibrationPatternType.CUSTOM) {
+    return `${DEFAULT_CHANNEL_ID}-${pattern.type}`;
+  }
+
+  const timings = getVibrationTimings(pattern);
+  const hash = timings.reduce((total, timing) => (total * 31 + timing) % 1000000007, 7);
+  return `${DEFAULT_CHANNEL_ID}-custom-${hash.toString(36)}`;
+};
+
+export const getVibrationPatternLabel = (pattern?: VibrationPattern): string =>
+  VIBRATION_PATTERN_OPTIONS.find(option => option.value === (pattern?.type ?? VibrationPatternType.DEFAULT))?.label ?? 'Default';
+
+/**
+ * Validate a pattern before saving
+ */
+export const validateVibrationPattern = (pattern: VibrationPattern): string[] => {
+  if (!Object.values(VibrationPatternType).includes(pattern.type)) {
+    return ['Invalid vibration pattern'];
+  }
+  if (pattern.type !== VibrationPatternType.CUSTOM) {
+    return [];
+  }
+
+  const timings = pattern.timings ?? [];
+  if (timings.length < 2) {
+    return ['Tap out a vibration pattern first'];
+  }
+  if (
+    timings.length > MAX_CUSTOM_TAPS * 2 + 1 ||
+    timings.some(timing => !Number.isFinite(timing) || timing < 0 || timing > Math.max(MAX_PULSE_MS, MAX_TAP_GAP_MS))
+  ) {
+    return ['Invalid custom vibration pattern'];
+  }
+  return [];
+};
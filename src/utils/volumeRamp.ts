@@ -0,0 +1,148 @@
+// Per-alarm crescendo: volume curves and the timer that steps through them
+
+import { VolumeCurve, VolumeRamp } from '../types';
+
+// Sound played once a ring escalates
+export const ESCALATION_SOUND = 'alarm_urgent';
+
+export const RAMP_DURATION_OPTIONS = [30, 60, 120, 300]; // Seconds
+export const ESCALATION_OPTIONS = [2, 5, 10]; // Minutes
+export const MAX_RAMP_DURATION = 30 * 60; // Seconds
+export const MAX_ESCALATION_MINUTES = 60;
+
+// How often the volume is updated while ramping
+const RAMP_STEP_MS = 500;
+
+export const VOLUME_CURVE_OPTIONS: Array<{ value: VolumeCurve; label: string }> = [
+  { value: VolumeCurve.LINEAR, label: 'Steady' },
+  { value: VolumeCurve.EXPONENTIAL, label: 'Slow start' },
+];
+
+export interface VolumeRampHandlers {
+  onVolume: (volume: number) => void;
+  onEscalate?: () => void;
+}
+
+export interface VolumeRampHandle {
+  stop: () => void;
+}
+
+/**
+ * Starting ramp for an editor turning the crescendo on
+ */
+export const createVolumeRamp = (): VolumeRamp => ({
+  startVolume: 0.1,
+  targetVolume: 1,
+  durationSeconds: 60,
+  curve: VolumeCurve.LINEAR,
+});
+
+const clampVolume = (volume: number): number => Math.max(0, Math.min(1, volume));
+
+/**
+ * Volume `elapsedMs` into the ramp. Holds at the target once the ramp is done.
+ */
+export const getRampVolume = (ramp: VolumeRamp, elapsedMs: number): number => {
+  const durationMs = ramp.durationSeconds * 1000;
+  const progress = durationMs > 0 ? Math.max(0, Math.min(1, elapsedMs / durationMs)) : 1;
+  const eased = ramp.curve === VolumeCurve.EXPONENTIAL
+    ? (Math.pow(2, 10 * progress) - 1) / 1023
+    : progress;
+
+  return clampVolume(ramp.startVolume + (ramp.targetVolume - ramp.startVolume) * eased);
+};
+
+/**
+ * Step through the ramp with timers and escalate once its time is up. Time is
+ * counted in steps rather than read from the clock, so fake timers drive it.
+ */
+export const startVolumeRamp = (
+  ramp: VolumeRamp,
+  handlers: VolumeRampHandlers,
+  stepMs: number = RAMP_STEP_MS
+): VolumeRampHandle => {
+  let elapsedMs = 0;
+  let rampTimer: ReturnType<typeof setInterval> | null = null;
+  let escalationTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const stopRamp = () => {
+    if (rampTimer) {
+      clearInterval(rampTimer);
+      rampTimer = null;
+    }
+  };
+
+  handlers.onVolume(getRampVolume(ramp, 0));
+
+  if (ramp.durationSeconds > 0) {
+    rampTimer = setInterval(() => {
+      elapsedMs += stepMs;
+      handlers.onVolume(getRampVolume(ramp, elapsedMs));
+      if (elapsedMs >= ramp.durationSeconds * 1000) {
+        stopRamp();
+      }
+    }, stepMs);
+  }
+
+  if (ramp.escalateAfterMinutes && handlers.onEscalate) {
+    const onEscalate = handlers.onEscalate;
+    escalationTimer = setTimeout(() => {
+      escalationTimer = null;
+      stopRamp();
+      onEscalate();
+    }, ramp.escalateAfterMinutes * 60 * 1000);
+  }
+
+  return {
+    stop: () => {
+      stopRamp();
+      if (escalationTimer) {
+        clearTimeout(escalationTimer);
+        escalationTimer = null;
+      }
+    },
+  };
+};
+
+/**
+ * Short summary for editors, e.g. "10% → 100% over 1 min, urgent after 5 min"
+ */
+export const describeVolumeRamp = (ramp: VolumeRamp): string => {
+  const duration = ramp.durationSeconds >= 60
+    ? `${ramp.durationSeconds / 60} min`
+    : `${ramp.durationSeconds} sec`;
+  const summary = `${Math.round(ramp.startVolume * 100)}% → ${Math.round(ramp.targetVolume * 100)}% over ${duration}`;
+
+  return ramp.escalateAfterMinutes
+    ? `${summary}, urgent after ${ramp.escalateAfterMinutes} min`
+    : summary;
+};
+
+/**
+ * Validate a ramp before saving
+ */
+export const validateVolumeRamp = (ramp: VolumeRamp): string[] => {
+  const errors: string[] = [];
+  const isVolume = (volume: number) => Number.isFinite(volume) && volume >= 0 && volume <= 1;
+
+  if (!isVolume(ramp.startVolume) || !isVolume(ramp.targetVolume)) {
+    errors.push('Crescendo volumes must be between 0% and 100%');
+  }
+
+  if (!Object.values(VolumeCurve).includes(ramp.curve)) {
+    errors.push('Invalid crescendo curve');
+  }
+
+  if (!Number.isFinite(ramp.durationSeconds) || ramp.durationSeconds < 0 || ramp.durationSeconds > MAX_RAMP_DURATION) {
+    errors.push(`Crescendo length must be at most ${MAX_RAMP_DURATION / 60} minutes`);
+  }
+
+  if (
+    ramp.escalateAfterMinutes !== undefined &&
+    (!Number.isInteger(ramp.escalateAfterMinutes) || ramp.escalateAfterMinutes < 1 || ramp.escalateAfterMinutes > MAX_ESCALATION_MINUTES)
+  ) {
+    errors.push(`Escalation must come after 1 to ${MAX_ESCALATION_MINUTES} minutes`);
+  }
+
+  return errors;
+};
@@ -0,0 +1,210 @@
+// Turns recorded AlarmEvents into the numbers shown on the History screen.
+// Pure: callers pass the events, alarms and a schedule context for the current time.
+
+import { Alarm, AlarmEvent, PuzzleType } from '../types';
+import { ScheduleContext, getPastOccurrences } from '../scheduling';
+import { formatCalendarDate } from './timeUtils';
+
+// How one ring ended
+export type WakeOutcome = 'onTime' | 'snoozed' | 'missed';
+
+export interface HeatmapDay {
+  date: string; // YYYY-MM-DD
+  wakes: number;
+  onTime: number;
+}
+
+export interface WeekdayInsight {
+  weekday: number; // 0 = Sunday
+  wakes: number;
+  averageSolveTime: number | null; // Seconds, null without solved puzzles
+  averageSnoozes: number;
+}
+
+export interface PuzzleInsight {
+  puzzleType: PuzzleType;
+  attempts: number;
+  solved: number;
+  successRate: number; // 0–1
+  averageSolveTime: number | null; // Seconds
+}
+
+export interface WakeInsights {
+  totalWakes: number;
+  onTimeWakes: number;
+  onTimeRate: number; // 0–1
+  currentStreak: number; // Most recent alarm days in a row where every wake was on time
+  longestStreak: number;
+  heatmap: (HeatmapDay | null)[][]; // Weeks, Sunday first; null after today
+  weekdays: WeekdayInsight[];
+  puzzles: PuzzleInsight[];
+}
+
+export const HEATMAP_WEEKS = 12;
+const EXPECTED_RING_LOOKBACK_DAYS = 32; // Long enough for monthly recurrences
+
+/**
+ * On time means dismissed without snoozing. A ring that was never dismissed,
+ * or only ended at its end time, counts as missed.
+ */
+export const getWakeOutcome = (event: AlarmEvent): WakeOutcome => {
+  if (!event.completedAt || event.autoDismissed) return 'missed';
+  return event.snoozedCount > 0 ? 'snoozed' : 'onTime';
+};
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Events grouped by the local calendar day they rang on
+ */
+const groupByDay = (events: AlarmEvent[]): Map<string, AlarmEvent[]> => {
+  const days = new Map<string, AlarmEvent[]>();
+  for (const event of events) {
+    const date = formatCalendarDate(new Date(event.triggeredAt));
+    days.set(date, [...(days.get(date) || []), event]);
+  }
+  return days;
+};
+
+/**
+ * The latest ring any enabled alarm was due before today. Rings earlier today
+ * may still be ringing or snoozed, so they don't count yet.
+ */
+export const getLastExpectedRing = (alarms: Alarm[], context: ScheduleContext): Date | null => {
+  const { now } = context;
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - EXPECTED_RING_LOOKBACK_DAYS);
+
+  let last: Date | null = null;
+  for (const alarm of alarms) {
+    for (const occurrence of getPastOccurrences(alarm, context, since)) {
+      if (occurrence.start < startOfToday && (!last || occurrence.start > last)) {
+        last = occurrence.start;
+      }
+    }
+  }
+  return last;
+};
+
+/**
+ * Streaks count alarm days, so days without any alarm don't break one. The
+ * current streak ends once a ring came due on a later day without any record.
+ */
+export const getStreaks = (
+  events: AlarmEvent[],
+  lastExpectedRing: Date | null = null
+): { current: number; longest: number } => {
+  const days = groupByDay(events);
+  const dates = Array.from(days.keys()).sort();
+
+  let current = 0;
+  let longest = 0;
+  for (const date of dates) {
+    const allOnTime = days.get(date)!.every(event => getWakeOutcome(event) === 'onTime');
+    current = allOnTime ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+
+  const lastDate = dates[dates.length - 1];
+  if (lastExpectedRing && (!lastDate || lastDate < formatCalendarDate(lastExpectedRing))) {
+    current = 0;
+  }
+
+  return { current, longest };
+};
+
+/**
+ * The last `weeks` weeks up to `now`, one column per week starting on Sunday
+ */
+export const buildWakeHeatmap = (
+  events: AlarmEvent[],
+  now: Date,
+  weeks: number = HEATMAP_WEEKS
+): (HeatmapDay | null)[][] => {
+  const days = groupByDay(events);
+  const today = formatCalendarDate(now);
+
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay() - (weeks - 1) * 7);
+  const columns: (HeatmapDay | null)[][] = [];
+
+  for (let week = 0; week < weeks; week++) {
+    const column: (HeatmapDay | null)[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const date = formatCalendarDate(
+        new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + weekday)
+      );
+      if (date > today) {
+        column.push(null);
+        continue;
+      }
+      const dayEvents = days.get(date) || [];
+      column.push({
+        date,
+        wakes: dayEvents.length,
+        onTime: dayEvents.filter(event => getWakeOutcome(event) === 'onTime').length,
+      });
+    }
+    columns.push(column);
+  }
+
+  return columns;
+};
+
+export const getWeekdayInsights = (events: AlarmEvent[]): WeekdayInsight[] =>
+  [0, 1, 2, 3, 4, 5, 6].map(weekday => {
+    const dayEvents = events.filter(event => new Date(event.triggeredAt).getDay() === weekday);
+    return {
+      weekday,
+      wakes: dayEvents.length,
+      averageSolveTime: average(
+        dayEvents.filter(event => event.puzzleCompleted && event.solveTime).map(event => event.solveTime!)
+      ),
+      averageSnoozes: average(dayEvents.map(event => event.snoozedCount)) ?? 0,
+    };
+  });
+
+/**
+ * Success rate per puzzle type, using the puzzle each ring asked for. Older
+ * events without one fall back to their alarm's current puzzle, and are left
+ * out if that alarm was deleted. Rings without a puzzle are left out.
+ */
+export const getPuzzleInsights = (events: AlarmEvent[], alarms: Alarm[]): PuzzleInsight[] => {
+  const puzzleByAlarm = new Map(alarms.map(alarm => [alarm.id, alarm.puzzleType]));
+  const byType = new Map<PuzzleType, AlarmEvent[]>();
+
+  for (const event of events) {
+    const puzzleType = event.puzzleType ?? puzzleByAlarm.get(event.alarmId);
+    if (!puzzleType || puzzleType === PuzzleType.NONE) continue;
+    byType.set(puzzleType, [...(byType.get(puzzleType) || []), event]);
+  }
+
+  return Array.from(byType.entries())
+    .map(([puzzleType, typeEvents]) => {
+      const solved = typeEvents.filter(event => event.puzzleCompleted);
+      return {
+        puzzleType,
+        attempts: typeEvents.length,
+        solved: solved.length,
+        successRate: solved.length / typeEvents.length,
+        averageSolveTime: average(solved.filter(event => event.solveTime).map(event => event.solveTime!)),
+      };
+    })
+    .sort((a, b) => b.attempts - a.attempts);
+};
+
+export const buildWakeInsights = (events: AlarmEvent[], alarms: Alarm[], context: ScheduleContext): WakeInsights => {
+  const onTimeWakes = events.filter(event => getWakeOutcome(event) === 'onTime').length;
+  const streaks = getStreaks(events, getLastExpectedRing(alarms, context));
+
+  return {
+    totalWakes: events.length,
+    onTimeWakes,
+    onTimeRate: events.length > 0 ? onTimeWakes / events.length : 0,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    heatmap: buildWakeHeatmap(events, context.now),
+    weekdays: getWeekdayInsights(events),
+    puzzles: getPuzzleInsights(events, alarms),
+  };
+};